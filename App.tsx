@@ -1,26 +1,203 @@
-import React, { useState, useEffect } from 'react';
-import { MandalaResult, ViewMode } from './types';
-import { generateMandalaData } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { BackgroundContext, ChecklistItem, MandalaNode, MandalaResult, MandalaRevision, RevisionKind, Roadmap, SavedMandala, ViewMode } from './types';
+import { generateMandalaData, translateMandala } from './services/geminiService';
+import { getProviderLabel, getProviderSettings, setProviderSettings, ProviderSettings } from './services/providers';
+import { GenerationPreset, getGenerationPreset, setGenerationPreset } from './services/promptTemplates';
+import { createBlankMandala } from './services/guidedMode';
+import { EMPTY_BACKGROUND, getBackgroundDraft, isBackgroundEmpty, setBackgroundDraft } from './services/backgroundContext';
+import {
+  createSavedMandala,
+  listMandalas,
+  getMandala,
+  saveMandala,
+  deleteMandala,
+  duplicateMandala,
+  importMandala,
+  getLastOpenedId,
+  setLastOpenedId,
+  recordRevision,
+  ensureTaskIds
+} from './services/storageService';
+import {
+  NodePath,
+  createNode,
+  getNodeAt,
+  updateNodeAt,
+  setChildAt,
+  removeChildAt,
+  getBreadcrumbs,
+  regenerateNode,
+  hasPlannedWork,
+  getStaleChildKeys
+} from './services/mandalaTree';
+import { CellTarget, cellKey, updateCell } from './services/mandalaEditor';
+import { serializeMandalaFile, getMandalaFileName, parseMandalaFile } from './services/mandalaFile';
+import { parseMandalaMarkdown } from './services/markdownFormat';
+import { formatIssues, ValidationIssue } from './services/mandalaValidator';
+import { isMergeableKind } from './services/revisionHistory';
+import { Locale, MessageKey } from './services/i18n';
 import { VisualView } from './components/VisualView';
 import { ReportView } from './components/ReportView';
 import { DashboardView } from './components/DashboardView';
 import { ChecklistView } from './components/ChecklistView';
-import { BrainCircuit, Grid3x3, FileText, Sparkles, Loader2, LayoutDashboard, KeyRound, ListTodo } from 'lucide-react';
+import { KanbanView } from './components/KanbanView';
+import { TimelineView } from './components/TimelineView';
+import { LibrarySidebar } from './components/LibrarySidebar';
+import { ProviderSettingsPanel } from './components/ProviderSettingsPanel';
+import { MandalaBreadcrumbs } from './components/MandalaBreadcrumbs';
+import { LanguageSettingsPanel } from './components/LanguageSettingsPanel';
+import { PromptTemplatePanel } from './components/PromptTemplatePanel';
+import { BackgroundPanel } from './components/BackgroundPanel';
+import { GuidedBuilder } from './components/GuidedBuilder';
+import { CoachPanel } from './components/CoachPanel';
+import { HistoryPanel } from './components/HistoryPanel';
+import { useI18n } from './components/I18nProvider';
+import { BrainCircuit, Grid3x3, FileText, Sparkles, Loader2, LayoutDashboard, KeyRound, ListTodo, Library, PencilLine, Square, Columns3, CalendarRange, NotebookPen, ListOrdered, MessageCircleQuestion, History } from 'lucide-react';
 
-const DEFAULT_TOPIC = "設計一堂 AI 提示語課程";
-const EXAMPLE_TOPICS = [
-  "規劃日本自助旅行",
-  "提升職場溝通能力",
-  "舉辦一場產品發表會",
-  "學習一門新語言"
-];
+const EXAMPLE_TOPICS: MessageKey[] = ["app.example1", "app.example2", "app.example3", "app.example4"];
+
+// How long typing has to pause before an edit is written to the library and its history
+const SAVE_DELAY_MS = 800;
 
 export default function App() {
-  const [topic, setTopic] = useState(DEFAULT_TOPIC);
-  const [data, setData] = useState<MandalaResult | null>(null);
+  const { t } = useI18n();
+  const [topic, setTopic] = useState(() => t('app.defaultTopic'));
+  const [current, setCurrent] = useState<SavedMandala | null>(null);
+  const [library, setLibrary] = useState<SavedMandala[]>([]);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
   const [loading, setLoading] = useState(false);
+  // Partially streamed mandala shown while generation is in flight
+  const [preview, setPreview] = useState<MandalaResult | null>(null);
+  const [generatingTopic, setGeneratingTopic] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>(ViewMode.DASHBOARD);
+  const [isEditing, setIsEditing] = useState(false);
+  // Step-by-step manual filling of the displayed chart, open by default for blank charts
+  const [isGuiding, setIsGuiding] = useState(false);
+  const [isCoachOpen, setIsCoachOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // Bumped after each recorded revision, so an open history panel reloads
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [providerSettings, setProviderSettingsState] = useState<ProviderSettings>(getProviderSettings);
+  const [generationPreset, setGenerationPresetState] = useState<GenerationPreset>(getGenerationPreset);
+  // Background material for the next generation; follows the open mandala's own copy
+  const [background, setBackgroundState] = useState<BackgroundContext>(getBackgroundDraft);
+  // Position of the displayed chart inside the open document's tree of child mandalas
+  const [nodePath, setNodePath] = useState<NodePath>([]);
+
+  const activeNode = current ? getNodeAt(current, nodePath) : null;
+  const data = activeNode?.data ?? null;
+  const breadcrumbs = current ? getBreadcrumbs(current, nodePath) : [];
+  // Views keep local UI state (focused grid, selected dimension), so they remount per chart
+  const viewKey = current ? [current.id, ...nodePath].join('/') : '';
+
+  const refreshLibrary = useCallback(async () => {
+    try {
+      setLibrary(await listMandalas());
+    } catch (err) {
+      console.error("Failed to load mandala library", err);
+    }
+  }, []);
+
+  // Restore the library and the last opened mandala after a refresh
+  useEffect(() => {
+    refreshLibrary();
+    const lastId = getLastOpenedId();
+    if (!lastId) return;
+    getMandala(lastId)
+      .then((saved) => {
+        if (saved) {
+          setCurrent(saved);
+          setNodePath([]);
+          setTopic(saved.topic);
+          setBackgroundState(saved.background ?? EMPTY_BACKGROUND);
+        }
+      })
+      .catch((err) => console.error("Failed to restore last mandala", err));
+  }, [refreshLibrary]);
+
+  // What the next change to the open mandala is, for its revision; null when it is only opened
+  const revisionKindRef = useRef<RevisionKind | null>(null);
+  // The open mandala as last saved, i.e. its state before the next change
+  const lastSavedRef = useRef<SavedMandala | null>(null);
+
+  // A typed edit that has not been written yet, with the state from before the typing started
+  const pendingSaveRef = useRef<{
+    mandala: SavedMandala;
+    kind: RevisionKind;
+    previous?: SavedMandala;
+    timer: ReturnType<typeof setTimeout>;
+  } | null>(null);
+
+  const markRevision = (kind: RevisionKind | null) => {
+    revisionKindRef.current = kind;
+  };
+
+  const writeMandala = useCallback((mandala: SavedMandala, kind: RevisionKind | null, previous?: SavedMandala) => {
+    saveMandala(mandala)
+      .then(refreshLibrary)
+      .catch((err) => console.error("Failed to save mandala", err));
+    if (kind) {
+      recordRevision(mandala, kind, previous)
+        .then(() => setHistoryVersion((version) => version + 1))
+        .catch((err) => console.error("Failed to record revision", err));
+    }
+  }, [refreshLibrary]);
+
+  const flushPendingSave = useCallback(() => {
+    const pending = pendingSaveRef.current;
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    pendingSaveRef.current = null;
+    writeMandala(pending.mandala, pending.kind, pending.previous);
+  }, [writeMandala]);
+
+  // Every change to the open mandala is written back to the library and its history. Typing sends
+  // one change per keystroke, so edits that would share a revision anyway are written once it pauses.
+  useEffect(() => {
+    if (!current) return;
+    setLastOpenedId(current.id);
+    const kind = revisionKindRef.current;
+    revisionKindRef.current = null;
+    let previous = lastSavedRef.current?.id === current.id ? lastSavedRef.current : undefined;
+    lastSavedRef.current = current;
+
+    const pending = pendingSaveRef.current;
+    if (pending && pending.mandala.id === current.id && pending.kind === kind) {
+      // Superseded: this write covers the pending one, which still knows the state before it
+      clearTimeout(pending.timer);
+      pendingSaveRef.current = null;
+      previous = pending.previous;
+    } else {
+      flushPendingSave();
+    }
+
+    if (kind && isMergeableKind(kind)) {
+      const mandala = current;
+      pendingSaveRef.current = {
+        mandala,
+        kind,
+        previous,
+        timer: setTimeout(() => {
+          pendingSaveRef.current = null;
+          writeMandala(mandala, kind, previous);
+        }, SAVE_DELAY_MS),
+      };
+    } else {
+      writeMandala(current, kind, previous);
+    }
+  }, [current, writeMandala, flushPendingSave]);
+
+  // Don't lose the last keystrokes when the tab is closed or hidden
+  useEffect(() => {
+    window.addEventListener('pagehide', flushPendingSave);
+    return () => {
+      window.removeEventListener('pagehide', flushPendingSave);
+      flushPendingSave();
+    };
+  }, [flushPendingSave]);
 
   // Check API Key status on mount
   useEffect(() => {
@@ -31,7 +208,44 @@ export default function App() {
     }
   }, []);
 
-  const handleGenerate = async (overrideTopic?: string) => {
+  // Streams one mandala into the preview; resolves with null when cancelled or failed
+  const streamGeneration = async (targetTopic: string, ancestors: string[] = [], brief?: string): Promise<MandalaResult | null> => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+    setPreview(null);
+    setGeneratingTopic(targetTopic);
+
+    try {
+      const result = await generateMandalaData(targetTopic, {
+        signal: controller.signal,
+        ancestors,
+        brief,
+        background,
+        onPartial: (partial) => {
+          if (!controller.signal.aborted) setPreview(partial);
+        },
+      });
+      return controller.signal.aborted ? null : result;
+    } catch (err: any) {
+      // A cancelled request is not an error; anything else is shown to the user
+      if (!controller.signal.aborted) {
+        setError(err.message || t('app.generateFailed'));
+      }
+      return null;
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+        setPreview(null);
+      }
+    }
+  };
+
+  const handleGenerate = async (overrideTopic?: string, brief?: string) => {
     // If overrideTopic is a string (from example click), use it. Otherwise use state topic.
     // Note: onClick events might pass a synthetic event object, so we strictly check for string type.
     const targetTopic = typeof overrideTopic === 'string' ? overrideTopic : topic;
@@ -42,21 +256,257 @@ export default function App() {
     if (typeof overrideTopic === 'string') {
       setTopic(targetTopic);
     }
-    
-    setLoading(true);
+
+    // Generating the open mandala's topic again replaces its chart in place, keeping the old one in
+    // its history; any other topic becomes a new entry. The open chart stays put until the result
+    // arrives, so a cancelled or failed generation leaves it where it was.
+    const replaced = current && current.topic.trim() === targetTopic.trim() ? current : null;
+    if (replaced && hasPlannedWork(replaced) && !confirm(t('app.regenerateConfirm'))) return;
+
+    const result = await streamGeneration(targetTopic, [], brief);
+    if (result) {
+      const { background: _previous, ...saved } = replaced
+        ? { ...regenerateNode(replaced, result), updatedAt: Date.now() }
+        : createSavedMandala(targetTopic, result);
+      markRevision(replaced ? 'regenerate' : 'generate');
+      setCurrent(isBackgroundEmpty(background) ? saved : { ...saved, background });
+      setNodePath([]);
+      setIsGuiding(false);
+    }
+  };
+
+  // No provider involved: an empty chart the user fills in through the guided steps
+  const handleStartBlank = () => {
+    if (!topic.trim()) return;
+    handleCancelGenerate();
+    markRevision('blank');
+    setCurrent(createSavedMandala(topic.trim(), createBlankMandala(generationPreset.actionCount)));
+    setNodePath([]);
     setError(null);
-    setData(null);
+    setViewMode(ViewMode.DASHBOARD);
+    setIsGuiding(true);
+  };
+
+  // Drill a sub-item down into its own mandala, generating it on first use
+  const handleExpandCell = async (gridIndex: number, itemIndex: number) => {
+    if (!activeNode) return;
+    const key = cellKey(gridIndex, itemIndex);
+    const parentPath = nodePath;
+
+    if (activeNode.children?.[key]) {
+      setNodePath([...parentPath, key]);
+      return;
+    }
+
+    const childTopic = activeNode.data.subGrids[gridIndex]?.items[itemIndex];
+    if (!childTopic) return;
+
+    const result = await streamGeneration(childTopic, breadcrumbs.map(crumb => crumb.topic));
+    if (result) {
+      markRevision('expand');
+      setCurrent((prev) => prev && {
+        ...setChildAt(prev, parentPath, key, createNode(childTopic, result)),
+        updatedAt: Date.now(),
+      });
+      setNodePath([...parentPath, key]);
+    }
+  };
+
+  const handleRemoveChild = (gridIndex: number, itemIndex: number) => {
+    const key = cellKey(gridIndex, itemIndex);
+    markRevision('expand');
+    setCurrent((prev) => prev && {
+      ...removeChildAt(prev, nodePath, key),
+      updatedAt: Date.now(),
+    });
+  };
+
+  const handleCancelGenerate = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setLoading(false);
+    setPreview(null);
+  };
+
+  // Every edit targets the chart currently displayed, wherever it sits in the tree
+  const updateActiveNode = (update: (node: MandalaNode) => MandalaNode, kind: RevisionKind = 'edit') => {
+    markRevision(kind);
+    setCurrent((prev) => prev && { ...updateNodeAt(prev, nodePath, update), updatedAt: Date.now() });
+  };
+
+  // In-place edits from any view replace the open mandala's data; all views render from it.
+  // Replacing an expanded cell's text drops its child mandala, after asking.
+  const handleDataChange = (next: MandalaResult) => {
+    const stale = activeNode ? getStaleChildKeys(activeNode, next) : [];
+    if (stale.length && !confirm(t('visual.replaceExpandedConfirm'))) return;
+    updateActiveNode((node) => {
+      if (!stale.length) return { ...node, data: next };
+      const children = Object.fromEntries(Object.entries(node.children || {}).filter(([key]) => !stale.includes(key)));
+      return { ...node, data: next, children };
+    });
+  };
+
+  const handleTopicChange = (nextTopic: string) => {
+    if (!nextTopic) return;
+    if (!nodePath.length) setTopic(nextTopic);
+    updateActiveNode((node) => ({ ...node, topic: nextTopic }));
+  };
+
+  // Coach suggestions are applied one confirmed cell at a time to the displayed chart
+  const handleApplyCoachChange = (target: CellTarget, value: string) => {
+    if (activeNode) handleDataChange(updateCell(activeNode.data, target, value));
+  };
+
+  const handleLockedCellsChange = (lockedCells: string[]) => {
+    updateActiveNode((node) => ({ ...node, lockedCells }));
+  };
 
+  const handleChecklistChange = (dimensionIndex: number, items: ChecklistItem[]) => {
+    updateActiveNode((node) => ({
+      ...node,
+      checklists: { ...node.checklists, [dimensionIndex]: items },
+    }), 'checklist');
+  };
+
+  const handleRoadmapChange = (roadmap: Roadmap) => {
+    updateActiveNode((node) => ({ ...node, roadmap }), 'roadmap');
+  };
+
+  const handleOpenSaved = (saved: SavedMandala) => {
+    handleCancelGenerate();
+    markRevision(null);
+    setCurrent(saved);
+    setNodePath([]);
+    setTopic(saved.topic);
+    setBackgroundState(saved.background ?? EMPTY_BACKGROUND);
+    setError(null);
+    setIsGuiding(false);
+    setIsLibraryOpen(false);
+  };
+
+  // Restoring is itself a revision, so the state it replaces stays in the history
+  const handleRestoreRevision = (revision: MandalaRevision) => {
+    if (!current) return;
+    handleCancelGenerate();
+    markRevision('restore');
+    setCurrent(ensureTaskIds({ ...revision.snapshot, id: current.id, createdAt: current.createdAt, updatedAt: Date.now() }));
+    setNodePath([]);
+    setTopic(revision.snapshot.topic);
+    setBackgroundState(revision.snapshot.background ?? EMPTY_BACKGROUND);
+    setError(null);
+    setIsHistoryOpen(false);
+  };
+
+  // The library list lags behind the open mandala while an edit waits to be written
+  const withPendingEdits = (saved: SavedMandala) => (current?.id === saved.id ? current : saved);
+
+  const handleDuplicateSaved = async (saved: SavedMandala) => {
     try {
-      const result = await generateMandalaData(targetTopic);
-      setData(result);
-    } catch (err: any) {
-      setError(err.message || "產生曼陀羅思考圖時發生錯誤");
+      const copy = await duplicateMandala(withPendingEdits(saved));
+      await refreshLibrary();
+      handleOpenSaved(copy);
+    } catch (err) {
+      console.error("Failed to duplicate mandala", err);
+      alert(t('app.duplicateFailed'));
+    }
+  };
+
+  const handleDeleteSaved = async (saved: SavedMandala) => {
+    // A pending edit would otherwise write the deleted mandala back
+    if (pendingSaveRef.current?.mandala.id === saved.id) {
+      clearTimeout(pendingSaveRef.current.timer);
+      pendingSaveRef.current = null;
+    }
+    try {
+      await deleteMandala(saved.id);
+      if (current?.id === saved.id) {
+        setCurrent(null);
+      }
+      await refreshLibrary();
+    } catch (err) {
+      console.error("Failed to delete mandala", err);
+      alert(t('app.deleteFailed'));
+    }
+  };
+
+  const handleExportSaved = (saved: SavedMandala) => {
+    const blob = new Blob([serializeMandalaFile(withPendingEdits(saved))], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = getMandalaFileName(saved.topic);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (file: File) => {
+    try {
+      const text = await file.text();
+      let saved: SavedMandala;
+      let warnings: ValidationIssue[];
+      // Markdown carries the chart and checklists only; JSON files carry the whole tree
+      if (/\.(md|markdown)$/i.test(file.name)) {
+        const imported = parseMandalaMarkdown(text);
+        saved = await importMandala({ ...createNode(imported.topic, imported.data), checklists: imported.checklists });
+        warnings = imported.warnings;
+      } else {
+        const imported = parseMandalaFile(text);
+        saved = await importMandala(imported.mandala, imported.metadata.createdAt);
+        warnings = imported.warnings;
+      }
+      await refreshLibrary();
+      handleOpenSaved(saved);
+      setIsLibraryOpen(false);
+      if (warnings.length) {
+        console.warn(`Repaired imported mandala: ${formatIssues(warnings, warnings.length)}`);
+        alert(t('app.importRepaired', { topic: saved.topic, count: warnings.length, issues: formatIssues(warnings) }));
+      }
+    } catch (err) {
+      console.error("Failed to import mandala", err);
+      alert(err instanceof Error ? t('app.importFailed', { message: err.message }) : t('app.importFailedFormat'));
+    }
+  };
+
+  // The translation is saved as a new mandala next to the original, then opened
+  const handleTranslate = async (target: Locale) => {
+    if (!current || isTranslating) return;
+    setIsTranslating(true);
+    try {
+      const saved = await importMandala(await translateMandala(current, target));
+      await refreshLibrary();
+      handleOpenSaved(saved);
+    } catch (err) {
+      console.error("Failed to translate mandala", err);
+      alert(t('app.translateFailed', { message: err instanceof Error ? err.message : String(err) }));
     } finally {
-      setLoading(false);
+      setIsTranslating(false);
     }
   };
 
+  const handleProviderSettingsChange = (settings: ProviderSettings) => {
+    setProviderSettingsState(settings);
+    setProviderSettings(settings);
+  };
+
+  const handleGenerationPresetChange = (preset: GenerationPreset) => {
+    setGenerationPresetState(preset);
+    setGenerationPreset(preset);
+  };
+
+  // Edits go to the draft and, while a mandala is open, to the background saved on its root
+  const handleBackgroundChange = (next: BackgroundContext) => {
+    setBackgroundState(next);
+    setBackgroundDraft(next);
+    if (current) markRevision('background');
+    setCurrent((prev) => prev && {
+      ...prev,
+      background: isBackgroundEmpty(next) ? undefined : next,
+      updatedAt: Date.now(),
+    });
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !loading) {
       handleGenerate();
@@ -65,6 +515,37 @@ export default function App() {
 
   return (
     <div className="min-h-screen flex flex-col bg-slate-50 text-slate-900">
+
+      <LibrarySidebar
+        isOpen={isLibraryOpen}
+        mandalas={library}
+        activeId={current?.id ?? null}
+        onClose={() => setIsLibraryOpen(false)}
+        onOpen={handleOpenSaved}
+        onDuplicate={handleDuplicateSaved}
+        onDelete={handleDeleteSaved}
+        onExport={handleExportSaved}
+        onImport={handleImportFile}
+      />
+
+      {current && (
+        <HistoryPanel
+          isOpen={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          mandala={current}
+          version={historyVersion}
+          onRestore={handleRestoreRevision}
+        />
+      )}
+
+      <CoachPanel
+        isOpen={isCoachOpen}
+        onClose={() => setIsCoachOpen(false)}
+        topic={topic}
+        chart={activeNode && !loading ? { topic: activeNode.topic, data: activeNode.data } : null}
+        onApplyChange={handleApplyCoachChange}
+        onGenerate={loading ? undefined : (brief) => handleGenerate(topic, brief)}
+      />
       
       {/* Header */}
       <header className="bg-white border-b border-slate-200 sticky top-0 z-50">
@@ -74,12 +555,40 @@ export default function App() {
               <BrainCircuit className="w-6 h-6" />
             </div>
             <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-indigo-600 to-violet-600 hidden sm:block">
-              曼陀羅思考助手
+              {t('app.title')}
             </h1>
           </div>
           
           <div className="flex items-center gap-4">
              {/* Small visual indicator if API key is present could go here, but omitted for cleanliness */}
+             <button
+               onClick={() => setIsCoachOpen(!isCoachOpen)}
+               className={`flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg transition-colors ${
+                 isCoachOpen ? 'text-violet-700 bg-violet-50' : 'text-slate-600 hover:text-violet-600 hover:bg-violet-50'
+               }`}
+               title={t('coach.openTitle')}
+             >
+               <MessageCircleQuestion className="w-4 h-4" />
+               <span className="hidden md:inline">{t('coach.open')}</span>
+             </button>
+             <LanguageSettingsPanel
+               onTranslate={current && !loading ? handleTranslate : undefined}
+               isTranslating={isTranslating}
+             />
+             <ProviderSettingsPanel
+               settings={providerSettings}
+               onChange={handleProviderSettingsChange}
+             />
+             <button
+               onClick={() => setIsLibraryOpen(true)}
+               className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+             >
+               <Library className="w-4 h-4" />
+               <span className="hidden sm:inline">{t('app.library')}</span>
+               {library.length > 0 && (
+                 <span className="text-xs bg-slate-100 text-slate-500 px-1.5 py-0.5 rounded-full">{library.length}</span>
+               )}
+             </button>
           </div>
         </div>
       </header>
@@ -89,8 +598,8 @@ export default function App() {
         {/* Input Section */}
         <section className="flex flex-col items-center justify-center space-y-6 max-w-2xl mx-auto">
           <div className="text-center space-y-2">
-            <h2 className="text-3xl font-bold text-slate-900">您想拆解什麼主題？</h2>
-            <p className="text-slate-500">運用曼陀羅思考法 (Mandalart)，將複雜概念轉化為具體可行的行動步驟。</p>
+            <h2 className="text-3xl font-bold text-slate-900">{t('app.heading')}</h2>
+            <p className="text-slate-500">{t('app.intro')}</p>
           </div>
 
           <div className="w-full relative group">
@@ -99,36 +608,72 @@ export default function App() {
               value={topic}
               onChange={(e) => setTopic(e.target.value)}
               onKeyDown={handleKeyDown}
-              placeholder="請輸入主題..."
+              placeholder={t('app.topicPlaceholder')}
               className="w-full px-6 py-4 text-lg rounded-2xl border-2 border-slate-200 focus:border-indigo-500 focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all shadow-sm"
               disabled={loading}
             />
-            <button
-              onClick={() => handleGenerate()}
-              disabled={loading || !topic.trim()}
-              className="absolute right-2 top-2 bottom-2 bg-indigo-600 hover:bg-indigo-700 text-white px-6 rounded-xl font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-            >
-              {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : <Sparkles className="w-5 h-5" />}
-              <span className="hidden sm:inline">開始生成</span>
-            </button>
+            {loading ? (
+              <button
+                onClick={handleCancelGenerate}
+                className="absolute right-2 top-2 bottom-2 bg-slate-700 hover:bg-slate-800 text-white px-6 rounded-xl font-medium transition-all flex items-center gap-2"
+                title={t('app.stopTitle')}
+              >
+                <Square className="w-4 h-4 fill-current" />
+                <span className="hidden sm:inline">{t('app.stop')}</span>
+              </button>
+            ) : (
+              <button
+                onClick={() => handleGenerate()}
+                disabled={!topic.trim()}
+                className="absolute right-2 top-2 bottom-2 bg-indigo-600 hover:bg-indigo-700 text-white px-6 rounded-xl font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              >
+                <Sparkles className="w-5 h-5" />
+                <span className="hidden sm:inline">{t('app.generate')}</span>
+              </button>
+            )}
           </div>
+
+          <PromptTemplatePanel
+            preset={generationPreset}
+            onChange={handleGenerationPresetChange}
+            disabled={loading}
+          />
+
+          <BackgroundPanel
+            background={background}
+            onChange={handleBackgroundChange}
+            openTopic={current?.topic}
+            disabled={loading}
+          />
+
+          <button
+            onClick={handleStartBlank}
+            disabled={loading || !topic.trim()}
+            className="flex items-center gap-1.5 text-sm font-medium text-slate-500 hover:text-indigo-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title={t('guided.startTitle')}
+          >
+            <NotebookPen className="w-4 h-4" />
+            {t('guided.start')}
+          </button>
           
-          <div className="flex items-center gap-1.5 text-xs text-slate-400">
-            <KeyRound className="w-3 h-3" />
-            <span>提示：請確保環境變數 (API Key) 已正確設定以啟用 AI 生成功能。</span>
-          </div>
+          {providerSettings.provider === 'gemini' && (
+            <div className="flex items-center gap-1.5 text-xs text-slate-400">
+              <KeyRound className="w-3 h-3" />
+              <span>{t('app.apiKeyHint')}</span>
+            </div>
+          )}
 
           {/* Example Topics */}
           <div className="flex flex-wrap items-center justify-center gap-2 animate-in fade-in slide-in-from-bottom-2 duration-700 delay-100">
-             <span className="text-xs font-medium text-slate-400 mr-1">熱門範例：</span>
-             {EXAMPLE_TOPICS.map((t) => (
+             <span className="text-xs font-medium text-slate-400 mr-1">{t('app.examples')}</span>
+             {EXAMPLE_TOPICS.map((key) => (
                <button
-                 key={t}
-                 onClick={() => handleGenerate(t)}
+                 key={key}
+                 onClick={() => handleGenerate(t(key))}
                  disabled={loading}
                  className="text-xs px-3 py-1.5 bg-white border border-slate-200 text-slate-600 rounded-full hover:bg-indigo-50 hover:text-indigo-600 hover:border-indigo-200 transition-all shadow-sm disabled:opacity-50"
                >
-                 {t}
+                 {t(key)}
                </button>
              ))}
           </div>
@@ -142,7 +687,7 @@ export default function App() {
         )}
 
         {/* Loading State Placeholder */}
-        {loading && !data && (
+        {loading && !preview && (
            <div className="flex flex-col items-center justify-center py-20 space-y-4 animate-pulse">
               <div className="w-16 h-16 bg-slate-200 rounded-full"></div>
               <div className="h-4 bg-slate-200 rounded w-48"></div>
@@ -152,9 +697,35 @@ export default function App() {
            </div>
         )}
 
+        {/* Streaming Preview: the dashboard fills in as the response arrives */}
+        {loading && preview && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-center gap-3 text-sm text-slate-500">
+              <Loader2 className="w-4 h-4 animate-spin text-indigo-600" />
+              <span>
+                {t('app.generating', { done: preview.subGrids.filter(grid => grid.items.every(Boolean)).length })}
+              </span>
+              <button
+                onClick={handleCancelGenerate}
+                className="text-xs px-3 py-1 rounded-full border border-slate-200 bg-white text-slate-600 hover:text-red-600 hover:border-red-200 transition-colors"
+              >
+                {t('app.cancel')}
+              </button>
+            </div>
+            <DashboardView data={preview} topic={generatingTopic} />
+          </div>
+        )}
+
         {/* Results Area */}
-        {data && (
+        {current && activeNode && data && !loading && (
           <div className="space-y-6">
+            <MandalaBreadcrumbs
+              root={current}
+              crumbs={breadcrumbs}
+              activeNode={activeNode}
+              onNavigate={setNodePath}
+            />
+
             {/* View Toggles */}
             <div className="flex justify-center">
               <div className="bg-white p-1 rounded-xl border border-slate-200 shadow-sm flex gap-1 overflow-x-auto">
@@ -167,7 +738,7 @@ export default function App() {
                   }`}
                 >
                   <LayoutDashboard className="w-4 h-4" />
-                  全景儀表板
+                  {t('view.dashboard')}
                 </button>
                 <button
                   onClick={() => setViewMode(ViewMode.VISUAL)}
@@ -178,7 +749,7 @@ export default function App() {
                   }`}
                 >
                   <Grid3x3 className="w-4 h-4" />
-                  互動圖表
+                  {t('view.visual')}
                 </button>
                 <button
                   onClick={() => setViewMode(ViewMode.CHECKLIST)}
@@ -189,7 +760,29 @@ export default function App() {
                   }`}
                 >
                   <ListTodo className="w-4 h-4" />
-                  任務檢核
+                  {t('view.checklist')}
+                </button>
+                <button
+                  onClick={() => setViewMode(ViewMode.KANBAN)}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all whitespace-nowrap ${
+                    viewMode === ViewMode.KANBAN
+                      ? "bg-indigo-50 text-indigo-700 shadow-sm ring-1 ring-indigo-200"
+                      : "text-slate-500 hover:text-slate-900 hover:bg-slate-50"
+                  }`}
+                >
+                  <Columns3 className="w-4 h-4" />
+                  {t('view.kanban')}
+                </button>
+                <button
+                  onClick={() => setViewMode(ViewMode.TIMELINE)}
+                  className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all whitespace-nowrap ${
+                    viewMode === ViewMode.TIMELINE
+                      ? "bg-indigo-50 text-indigo-700 shadow-sm ring-1 ring-indigo-200"
+                      : "text-slate-500 hover:text-slate-900 hover:bg-slate-50"
+                  }`}
+                >
+                  <CalendarRange className="w-4 h-4" />
+                  {t('view.timeline')}
                 </button>
                 <button
                   onClick={() => setViewMode(ViewMode.REPORT)}
@@ -200,24 +793,140 @@ export default function App() {
                   }`}
                 >
                   <FileText className="w-4 h-4" />
-                  詳細報告
+                  {t('view.report')}
                 </button>
               </div>
+
+              <button
+                onClick={() => setIsEditing(!isEditing)}
+                className={`ml-2 flex items-center gap-2 px-4 py-2 rounded-xl border text-sm font-medium transition-all whitespace-nowrap shadow-sm ${
+                  isEditing
+                    ? "bg-amber-50 text-amber-700 border-amber-200"
+                    : "bg-white text-slate-500 border-slate-200 hover:text-slate-900"
+                }`}
+                title={t('app.editHint')}
+              >
+                <PencilLine className="w-4 h-4" />
+                {isEditing ? t('app.editDone') : t('app.editMode')}
+              </button>
+
+              <button
+                onClick={() => setIsGuiding(!isGuiding)}
+                className={`ml-2 flex items-center gap-2 px-4 py-2 rounded-xl border text-sm font-medium transition-all whitespace-nowrap shadow-sm ${
+                  isGuiding
+                    ? "bg-indigo-50 text-indigo-700 border-indigo-200"
+                    : "bg-white text-slate-500 border-slate-200 hover:text-slate-900"
+                }`}
+                title={t('guided.toggleTitle')}
+              >
+                <ListOrdered className="w-4 h-4" />
+                {t('guided.toggle')}
+              </button>
+
+              <button
+                onClick={() => {
+                  flushPendingSave();
+                  setIsHistoryOpen(true);
+                }}
+                className="ml-2 flex items-center gap-2 px-4 py-2 rounded-xl border text-sm font-medium transition-all whitespace-nowrap shadow-sm bg-white text-slate-500 border-slate-200 hover:text-slate-900"
+                title={t('history.openTitle')}
+              >
+                <History className="w-4 h-4" />
+                {t('history.open')}
+              </button>
             </div>
 
+            {isGuiding && (
+              <GuidedBuilder
+                key={viewKey}
+                topic={activeNode.topic}
+                data={data}
+                onTopicChange={handleTopicChange}
+                onDataChange={handleDataChange}
+                onClose={() => setIsGuiding(false)}
+              />
+            )}
+
             {/* Content Content */}
             <div className="min-h-[600px]">
-              {viewMode === ViewMode.VISUAL && <VisualView data={data} topic={topic} />}
-              {viewMode === ViewMode.DASHBOARD && <DashboardView data={data} topic={topic} />}
-              {viewMode === ViewMode.REPORT && <ReportView data={data} topic={topic} />}
-              {viewMode === ViewMode.CHECKLIST && <ChecklistView data={data} topic={topic} />}
+              {viewMode === ViewMode.VISUAL && (
+                <VisualView
+                  key={viewKey}
+                  data={data}
+                  topic={activeNode.topic}
+                  isEditing={isEditing}
+                  onDataChange={handleDataChange}
+                  onTopicChange={handleTopicChange}
+                  lockedCells={activeNode.lockedCells}
+                  expandedCells={Object.keys(activeNode.children || {})}
+                  onExpandCell={handleExpandCell}
+                  onRemoveChild={handleRemoveChild}
+                  checklists={activeNode.checklists}
+                  onLockedCellsChange={handleLockedCellsChange}
+                />
+              )}
+              {viewMode === ViewMode.DASHBOARD && (
+                <DashboardView
+                  key={viewKey}
+                  data={data}
+                  topic={activeNode.topic}
+                  expandedCells={Object.keys(activeNode.children || {})}
+                  checklists={activeNode.checklists}
+                  lockedCells={activeNode.lockedCells}
+                  isEditing={isEditing}
+                  onDataChange={handleDataChange}
+                  onTopicChange={handleTopicChange}
+                />
+              )}
+              {viewMode === ViewMode.REPORT && (
+                <ReportView
+                  key={viewKey}
+                  data={data}
+                  topic={activeNode.topic}
+                  checklists={activeNode.checklists}
+                  roadmap={activeNode.roadmap}
+                  isEditing={isEditing}
+                  onDataChange={handleDataChange}
+                  onTopicChange={handleTopicChange}
+                />
+              )}
+              {viewMode === ViewMode.CHECKLIST && (
+                <ChecklistView
+                  key={viewKey}
+                  data={data}
+                  topic={activeNode.topic}
+                  checklists={activeNode.checklists}
+                  background={current?.background}
+                  onChecklistChange={handleChecklistChange}
+                  isEditing={isEditing}
+                />
+              )}
+              {viewMode === ViewMode.KANBAN && (
+                <KanbanView
+                  key={viewKey}
+                  data={data}
+                  topic={activeNode.topic}
+                  checklists={activeNode.checklists}
+                  onChecklistChange={handleChecklistChange}
+                />
+              )}
+              {viewMode === ViewMode.TIMELINE && (
+                <TimelineView
+                  key={viewKey}
+                  data={data}
+                  topic={activeNode.topic}
+                  checklists={activeNode.checklists}
+                  roadmap={activeNode.roadmap}
+                  onRoadmapChange={handleRoadmapChange}
+                />
+              )}
             </div>
           </div>
         )}
       </main>
       
       <footer className="py-6 text-center text-slate-400 text-sm">
-        由 Google Gemini 2.5 Flash 技術支援
+        {t('app.poweredBy', { provider: getProviderLabel(providerSettings, t) })}
       </footer>
     </div>
   );
@@ -0,0 +1,188 @@
+import React, { useRef, useState } from 'react';
+import { BackgroundContext } from '../types';
+import {
+  BACKGROUND_FILE_EXTENSIONS,
+  EMPTY_BACKGROUND,
+  MAX_DOCUMENT_CHARS,
+  isBackgroundEmpty,
+  readBackgroundFile
+} from '../services/backgroundContext';
+import { useI18n } from './I18nProvider';
+import { FolderOpen, ChevronDown, ChevronUp, Paperclip, FileText, Loader2, Trash2, Eraser } from 'lucide-react';
+
+interface BackgroundPanelProps {
+  background: BackgroundContext;
+  onChange: (background: BackgroundContext) => void;
+  // Set while a mandala is open: edits then also update that mandala's saved background
+  openTopic?: string;
+  disabled?: boolean;
+}
+
+// Notes, reference files and constraints behind the next generation and the checklists
+export const BackgroundPanel: React.FC<BackgroundPanelProps> = ({ background, onChange, openTopic, disabled = false }) => {
+  const { locale, t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (patch: Partial<BackgroundContext>) => onChange({ ...background, ...patch });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (!files.length) return;
+    setIsReading(true);
+    const documents = [...background.documents];
+    const problems: string[] = [];
+    // One file at a time, so a bad file does not lose the ones already read
+    for (const file of files) {
+      try {
+        const { document, truncated } = await readBackgroundFile(file);
+        const existing = documents.findIndex(doc => doc.name === document.name);
+        if (existing >= 0) documents[existing] = document;
+        else documents.push(document);
+        if (truncated) problems.push(t('background.truncated', { name: file.name, count: MAX_DOCUMENT_CHARS.toLocaleString(locale) }));
+      } catch (err) {
+        console.error("Failed to read background file", err);
+        problems.push(t('background.readFailed', { name: file.name, message: err instanceof Error ? err.message : String(err) }));
+      }
+    }
+    update({ documents });
+    setIsReading(false);
+    if (problems.length) alert(problems.join('\n'));
+  };
+
+  const summaryParts = [
+    background.documents.length ? t('background.documentCount', { count: background.documents.length }) : '',
+    background.notes.trim() ? t('background.hasNotes') : '',
+    [background.budget, background.timeframe, background.constraints].some(text => text.trim()) ? t('background.hasConstraints') : '',
+  ].filter(Boolean);
+
+  const inputClass = "w-full px-3 py-2 text-sm rounded-lg border border-slate-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/10 outline-none bg-white disabled:opacity-50";
+  const labelClass = "block text-xs font-medium text-slate-500 mb-1";
+
+  return (
+    <div className="w-full">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="mx-auto flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-slate-500 hover:text-indigo-600 rounded-lg transition-colors"
+      >
+        <FolderOpen className="w-3.5 h-3.5" />
+        {summaryParts.length ? t('background.summary', { parts: summaryParts.join(t('timeline.separator')) }) : t('background.add')}
+        {isOpen ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 bg-white rounded-xl border border-slate-200 shadow-sm p-4 space-y-4 text-left animate-in fade-in slide-in-from-top-2 duration-200">
+          <p className="text-xs text-slate-400 leading-relaxed">
+            {openTopic ? t('background.hintOpen', { topic: openTopic }) : t('background.hint')}
+          </p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>{t('background.budget')}</label>
+              <input
+                value={background.budget}
+                onChange={(e) => update({ budget: e.target.value })}
+                placeholder={t('background.budgetPlaceholder')}
+                disabled={disabled}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>{t('background.timeframe')}</label>
+              <input
+                value={background.timeframe}
+                onChange={(e) => update({ timeframe: e.target.value })}
+                placeholder={t('background.timeframePlaceholder')}
+                disabled={disabled}
+                className={inputClass}
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <label className={labelClass}>{t('background.constraints')}</label>
+              <input
+                value={background.constraints}
+                onChange={(e) => update({ constraints: e.target.value })}
+                placeholder={t('background.constraintsPlaceholder')}
+                disabled={disabled}
+                className={inputClass}
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <label className={labelClass}>{t('background.notes')}</label>
+              <textarea
+                value={background.notes}
+                onChange={(e) => update({ notes: e.target.value })}
+                placeholder={t('background.notesPlaceholder')}
+                rows={4}
+                disabled={disabled}
+                className={`${inputClass} resize-y`}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <label className="text-xs font-medium text-slate-500">{t('background.documents')}</label>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={disabled || isReading}
+                className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-50"
+                title={t('background.attachTitle', { extensions: BACKGROUND_FILE_EXTENSIONS.join(' ') })}
+              >
+                {isReading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Paperclip className="w-3.5 h-3.5" />}
+                {isReading ? t('background.reading') : t('background.attach')}
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={BACKGROUND_FILE_EXTENSIONS.join(',')}
+                onChange={handleFileChange}
+                className="hidden"
+              />
+            </div>
+            {background.documents.length ? (
+              <ul className="space-y-1">
+                {background.documents.map((doc, i) => (
+                  <li key={doc.name} className="flex items-center gap-2 px-3 py-2 bg-slate-50 rounded-lg text-sm">
+                    <FileText className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                    <span className="flex-grow truncate text-slate-700" title={doc.text.slice(0, 300)}>{doc.name}</span>
+                    <span className="text-xs text-slate-400 whitespace-nowrap">
+                      {t('background.chars', { count: doc.text.length.toLocaleString(locale) })}
+                    </span>
+                    <button
+                      onClick={() => update({ documents: background.documents.filter((_, j) => j !== i) })}
+                      disabled={disabled}
+                      className="p-1 text-slate-400 hover:text-red-600 rounded transition-colors disabled:opacity-50"
+                      title={t('background.remove')}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-slate-400">{t('background.noDocuments')}</p>
+            )}
+            <p className="text-xs text-slate-400">{t('background.localOnly')}</p>
+          </div>
+
+          {!isBackgroundEmpty(background) && (
+            <div className="flex justify-end border-t border-slate-100 pt-3">
+              <button
+                onClick={() => onChange({ ...EMPTY_BACKGROUND })}
+                disabled={disabled}
+                className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <Eraser className="w-3.5 h-3.5" />
+                {t('background.clear')}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,20 +1,76 @@
-import React, { useState } from 'react';
-import { MandalaResult, ChecklistItem } from '../types';
-import { generateChecklist } from '../services/geminiService';
-import { Loader2, Star, CheckSquare, ArrowLeft, RotateCcw, ListTodo, FileDown, FileSpreadsheet } from 'lucide-react';
+import React, { useRef, useState } from 'react';
+import { MandalaResult, ChecklistItem, TaskStatus, BackgroundContext } from '../types';
+import { generateChecklist, suggestMoreTasks } from '../services/geminiService';
+import { createId } from '../services/storageService';
+import { getDimensionProgress, getOverallProgress } from '../services/checklistProgress';
+import {
+  TASK_STATUSES,
+  TASK_SORT_OPTIONS,
+  DEFAULT_TASK_FILTER,
+  TaskSortKey,
+  TaskFilter,
+  arrangeTasks,
+  getStatusLabel,
+  getTaskStatus,
+  isOverdue,
+  listAssignees,
+  withStatus
+} from '../services/taskSchedule';
+import { ProgressBadge } from './ProgressBadge';
+import { EditableText } from './EditableText';
+import { useI18n } from './I18nProvider';
+import { Loader2, Star, CheckSquare, ArrowLeft, RotateCcw, ListTodo, FileDown, FileSpreadsheet, Plus, Trash2, GripVertical, Sparkles, CalendarDays, User, Clock, ArrowUpDown, Filter } from 'lucide-react';
 import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType } from 'docx';
 
+const STATUS_STYLES: Record<TaskStatus, string> = {
+  todo: 'bg-slate-50 text-slate-600 border-slate-200',
+  inProgress: 'bg-sky-50 text-sky-700 border-sky-200',
+  blocked: 'bg-red-50 text-red-700 border-red-200',
+  done: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+};
+
 interface ChecklistViewProps {
   data: MandalaResult;
   topic: string;
+  // Saved checklists keyed by dimension index; completion lives in ChecklistItem.isCompleted
+  checklists: Record<number, ChecklistItem[]>;
+  onChecklistChange: (dimensionIndex: number, items: ChecklistItem[]) => void;
+  // Edit mode unlocks editing text and importance, deleting and drag-reordering tasks
+  isEditing?: boolean;
+  // The project's background material, so tasks fit its budget, timeframe and documents
+  background?: BackgroundContext;
 }
 
-export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) => {
-  const [selectedDimension, setSelectedDimension] = useState<string | null>(null);
-  const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+export const ChecklistView: React.FC<ChecklistViewProps> = ({
+  data,
+  topic,
+  checklists,
+  onChecklistChange,
+  isEditing = false,
+  background
+}) => {
+  const { locale, t } = useI18n();
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
-  const [completedItems, setCompletedItems] = useState<Set<number>>(new Set());
   const [isExportingWord, setIsExportingWord] = useState(false);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [newTask, setNewTask] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [sortKey, setSortKey] = useState<TaskSortKey>('manual');
+  const [filter, setFilter] = useState<TaskFilter>(DEFAULT_TASK_FILTER);
+  // Checklists as of the latest render, for AI results that arrive after further edits
+  const checklistsRef = useRef(checklists);
+  checklistsRef.current = checklists;
+
+  const selectedDimension = selectedIndex !== null ? data.mainDimensions[selectedIndex] : null;
+  const checklist = selectedIndex !== null ? (checklists[selectedIndex] || []) : [];
+  const completedCount = checklist.filter(item => item.isCompleted).length;
+  const visibleTasks = arrangeTasks(checklist, sortKey, filter);
+  const assignees = listAssignees(checklist);
+  const isFiltered = filter.status !== 'all' || filter.assignee !== 'all';
+  // Dragging only makes sense while the list shows the stored order
+  const canReorder = isEditing && sortKey === 'manual' && !isFiltered;
 
   // Helper to visualize grid layout for selection
   const mapIndexToSlot = (visualIndex: number) => {
@@ -23,50 +79,122 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
     return -1; // Center
   };
 
-  const handleDimensionClick = async (dimension: string) => {
+  const handleDimensionClick = async (dimensionIndex: number, regenerate = false) => {
+    const dimension = data.mainDimensions[dimensionIndex];
     if (!dimension) return;
-    setSelectedDimension(dimension);
-    setLoading(true);
-    setChecklist([]);
-    setCompletedItems(new Set());
+    setSelectedIndex(dimensionIndex);
+    setFilter(DEFAULT_TASK_FILTER);
+
+    // Reopen the saved checklist unless a fresh one was explicitly requested
+    if (!regenerate && checklists[dimensionIndex]?.length) return;
+    if (regenerate && checklists[dimensionIndex]?.length && !confirm(t('checklist.regenerateConfirm'))) return;
 
+    setLoading(true);
     try {
-      const result = await generateChecklist(topic, dimension);
-      setChecklist(result);
+      const result = await generateChecklist(topic, dimension, background);
+      onChecklistChange(dimensionIndex, result.map(item => ({ ...item, isCompleted: false })));
     } catch (error) {
       console.error(error);
-      alert("無法產生檢核表，請稍後再試。");
+      alert(t('checklist.generateFailed'));
     } finally {
       setLoading(false);
     }
   };
 
+  const updateChecklist = (items: ChecklistItem[]) => {
+    if (selectedIndex === null) return;
+    onChecklistChange(selectedIndex, items);
+  };
+
+  const updateItem = (index: number, patch: Partial<ChecklistItem>) => {
+    updateChecklist(checklist.map((item, i) => i === index ? { ...item, ...patch } : item));
+  };
+
+  const setItemStatus = (index: number, status: TaskStatus) => {
+    updateChecklist(checklist.map((item, i) => i === index ? withStatus(item, status) : item));
+  };
+
   const toggleItem = (index: number) => {
-    const newSet = new Set(completedItems);
-    if (newSet.has(index)) {
-      newSet.delete(index);
-    } else {
-      newSet.add(index);
+    setItemStatus(index, getTaskStatus(checklist[index]) === 'done' ? 'todo' : 'done');
+  };
+
+  const deleteItem = (index: number) => {
+    updateChecklist(checklist.filter((_, i) => i !== index));
+  };
+
+  const moveItem = (from: number, to: number) => {
+    if (from === to) return;
+    const items = [...checklist];
+    const [moved] = items.splice(from, 1);
+    items.splice(to, 0, moved);
+    updateChecklist(items);
+  };
+
+  const addItem = () => {
+    const task = newTask.trim();
+    if (!task) return;
+    updateChecklist([...checklist, { id: createId(), task, description: '', importance: 3, isCompleted: false, status: 'todo' }]);
+    setNewTask('');
+  };
+
+  const handleSuggestMore = async () => {
+    if (selectedIndex === null || !selectedDimension || isSuggesting) return;
+    const dimensionIndex = selectedIndex;
+    setIsSuggesting(true);
+    try {
+      const extra = await suggestMoreTasks(topic, selectedDimension, checklist, background);
+      if (!extra.length) {
+        alert(t('checklist.noSuggestions'));
+        return;
+      }
+      // Appended to the list as it is now, so edits made while waiting are kept
+      const latest = checklistsRef.current[dimensionIndex] || [];
+      onChecklistChange(dimensionIndex, [...latest, ...extra.map(item => ({ ...item, isCompleted: false }))]);
+    } catch (error) {
+      console.error(error);
+      alert(t('checklist.suggestFailed'));
+    } finally {
+      setIsSuggesting(false);
     }
-    setCompletedItems(newSet);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) moveItem(dragIndex, index);
+    setDragIndex(null);
+    setDropIndex(null);
   };
 
   const exportToCSV = () => {
     if (!checklist.length || !selectedDimension) return;
 
     try {
-      // 1. Define Headers
-      const headers = ["任務名稱", "狀態", "重要性 (1-5)", "任務說明"];
+      // Escape quotes by doubling them (CSV standard)
+      const quote = (text: string) => `"${text.replace(/"/g, '""')}"`;
+
+      // 1. Define Headers (quoted, since translated labels may contain commas)
+      const headers = [
+        t('export.column.taskName'),
+        t('export.column.status'),
+        t('export.column.importanceScale'),
+        t('export.column.assignee'),
+        t('export.column.dueDate'),
+        t('export.column.effortHours'),
+        t('export.column.description')
+      ].map(quote);
       
       // 2. Build Rows
-      const rows = checklist.map((item, index) => {
-        const isCompleted = completedItems.has(index);
-        // Escape quotes by doubling them (CSV standard)
-        const taskSafe = `"${item.task.replace(/"/g, '""')}"`;
-        const descSafe = `"${item.description.replace(/"/g, '""')}"`;
-        const status = isCompleted ? "已完成" : "待執行";
+      const rows = checklist.map((item) => {
+        const status = getStatusLabel(getTaskStatus(item), locale);
         
-        return [taskSafe, status, item.importance, descSafe].join(",");
+        return [
+          quote(item.task),
+          status,
+          item.importance,
+          quote(item.assignee || ""),
+          item.dueDate || "",
+          item.effortHours ?? "",
+          quote(item.description)
+        ].join(",");
       });
 
       // 3. Combine with BOM for UTF-8 compatibility in Excel
@@ -77,7 +205,7 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
       const url = URL.createObjectURL(blob);
       const link = document.createElement("a");
       link.href = url;
-      link.download = `${selectedDimension}_任務檢核表.csv`;
+      link.download = `${t('export.fileChecklist', { name: selectedDimension })}.csv`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -85,7 +213,7 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
 
     } catch (error) {
       console.error("CSV Export failed", error);
-      alert("匯出 CSV 失敗，請稍後再試。");
+      alert(t('checklist.csvFailed'));
     }
   };
 
@@ -99,7 +227,7 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
       // 1. Title
       children.push(
         new Paragraph({
-          text: `工作任務檢核表：${selectedDimension}`,
+          text: t('export.checklistTitle', { name: selectedDimension }),
           heading: HeadingLevel.TITLE,
           alignment: AlignmentType.CENTER,
           spacing: { after: 200 },
@@ -109,27 +237,27 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
       // 2. Subtitle (Context)
       children.push(
         new Paragraph({
-          text: `核心主題：${topic}`,
+          text: t('export.coreTopic', { topic }),
           alignment: AlignmentType.CENTER,
           spacing: { after: 400 },
         })
       );
 
       // 3. Stats
-      const doneCount = completedItems.size;
+      const doneCount = completedCount;
       const totalCount = checklist.length;
       children.push(
         new Paragraph({
-          text: `當前進度：${doneCount} / ${totalCount} 已完成`,
+          children: [new TextRun({ text: t('export.progress', { done: doneCount, total: totalCount }), color: "666666" })],
           spacing: { after: 400 },
-          color: "666666"
         })
       );
 
       // 4. Tasks
-      checklist.forEach((item, index) => {
-        const isCompleted = completedItems.has(index);
-        const checkboxState = isCompleted ? "[v] 已完成" : "[ ] 待執行";
+      checklist.forEach((item) => {
+        const status = getTaskStatus(item);
+        const isCompleted = status === "done";
+        const checkboxState = `${isCompleted ? "[v]" : "[ ]"} ${getStatusLabel(status, locale)}`;
         const starText = "★".repeat(item.importance) + "☆".repeat(5 - item.importance);
 
         // Task Header
@@ -147,7 +275,7 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
         children.push(
           new Paragraph({
             children: [
-                new TextRun({ text: "重要性：", color: "64748B" }),
+                new TextRun({ text: t('export.importance'), color: "64748B" }),
                 new TextRun({ text: starText, color: "F59E0B" })
             ],
             spacing: { after: 50 },
@@ -155,6 +283,22 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
           })
         );
 
+        // Schedule (only the fields that were filled in)
+        const schedule = [
+          item.assignee && t('export.assignee', { name: item.assignee }),
+          item.dueDate && t('export.dueDate', { date: item.dueDate }),
+          item.effortHours !== undefined && t('export.effort', { hours: item.effortHours }),
+        ].filter(Boolean).join(t('export.metaSeparator'));
+        if (schedule) {
+          children.push(
+            new Paragraph({
+              children: [new TextRun({ text: schedule, color: "64748B" })],
+              spacing: { after: 50 },
+              indent: { left: 400 }
+            })
+          );
+        }
+
         // Description
         children.push(
           new Paragraph({
@@ -178,7 +322,7 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${selectedDimension}_任務檢核表.docx`;
+      a.download = `${t('export.fileChecklist', { name: selectedDimension })}.docx`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -186,19 +330,23 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
 
     } catch (error) {
       console.error("Export failed", error);
-      alert("匯出 Word 檔案失敗，請稍後再試。");
+      alert(t('checklist.wordFailed'));
     } finally {
       setIsExportingWord(false);
     }
   };
 
-  const renderStars = (count: number) => {
+  // With onChange the stars become a 1-5 picker
+  const renderStars = (count: number, onChange?: (value: number) => void) => {
     return (
       <div className="flex gap-0.5">
         {[...Array(5)].map((_, i) => (
           <Star
             key={i}
-            className={`w-4 h-4 ${i < count ? 'fill-amber-400 text-amber-400' : 'text-slate-300'}`}
+            onClick={onChange ? () => onChange(i + 1) : undefined}
+            className={`w-4 h-4 ${i < count ? 'fill-amber-400 text-amber-400' : 'text-slate-300'} ${
+              onChange ? 'cursor-pointer hover:scale-125 transition-transform' : ''
+            }`}
           />
         ))}
       </div>
@@ -212,9 +360,9 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
         <div className="mb-6 text-center space-y-2">
            <h3 className="text-xl font-bold text-slate-800 flex items-center justify-center gap-2">
              <ListTodo className="w-6 h-6 text-indigo-600"/>
-             選擇產出檢核表的面向
+             {t('checklist.pickTitle')}
            </h3>
-           <p className="text-slate-500 text-sm">點選一個關鍵面向，AI 將為您生成具體的工作任務清單與重要性評級。</p>
+           <p className="text-slate-500 text-sm">{t('checklist.pickHint')}</p>
         </div>
 
         <div className="grid grid-cols-3 gap-3 p-3 bg-slate-200 rounded-2xl shadow-sm aspect-square w-full max-w-[400px]">
@@ -225,8 +373,9 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
 
             if (isCenter) {
               return (
-                <div key={i} className="bg-slate-400 text-white font-bold flex items-center justify-center p-2 text-center rounded-xl text-sm shadow-inner">
+                <div key={i} className="relative overflow-hidden bg-slate-400 text-white font-bold flex items-center justify-center p-2 text-center rounded-xl text-sm shadow-inner">
                   {text}
+                  <ProgressBadge progress={getOverallProgress(checklists)} variant="pill" className="absolute top-1.5 right-1.5" />
                 </div>
               );
             }
@@ -234,10 +383,11 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
             return (
               <button
                 key={i}
-                onClick={() => handleDimensionClick(text)}
-                className="bg-white hover:bg-indigo-50 hover:text-indigo-700 hover:shadow-md hover:-translate-y-1 text-slate-700 font-medium p-2 rounded-xl transition-all duration-200 text-sm break-words leading-tight flex items-center justify-center shadow-sm border border-slate-100"
+                onClick={() => handleDimensionClick(slotIndex)}
+                className="relative overflow-hidden bg-white hover:bg-indigo-50 hover:text-indigo-700 hover:shadow-md hover:-translate-y-1 text-slate-700 font-medium p-2 rounded-xl transition-all duration-200 text-sm break-words leading-tight flex items-center justify-center shadow-sm border border-slate-100"
               >
                 {text}
+                <ProgressBadge progress={getDimensionProgress(checklists, slotIndex)} variant="pill" className="absolute top-1.5 right-1.5" />
               </button>
             );
           })}
@@ -251,8 +401,8 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
     return (
       <div className="flex flex-col items-center justify-center min-h-[400px] space-y-4">
         <Loader2 className="w-10 h-10 text-indigo-600 animate-spin" />
-        <p className="text-slate-600 font-medium">正在為「{selectedDimension}」規劃任務檢核表...</p>
-        <p className="text-slate-400 text-sm">正在評估任務重要性 (1-5星)</p>
+        <p className="text-slate-600 font-medium">{t('checklist.loading', { dimension: selectedDimension })}</p>
+        <p className="text-slate-400 text-sm">{t('checklist.loadingHint')}</p>
       </div>
     );
   }
@@ -264,18 +414,18 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
       {/* Header */}
       <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-8">
         <button 
-          onClick={() => setSelectedDimension(null)}
+          onClick={() => setSelectedIndex(null)}
           className="flex items-center gap-2 text-slate-500 hover:text-slate-800 transition-colors px-3 py-2 hover:bg-slate-100 rounded-lg text-sm self-start"
         >
           <ArrowLeft className="w-4 h-4" />
-          重選面向
+          {t('checklist.repick')}
         </button>
         
         <div className="flex items-center gap-2 self-end sm:self-auto">
            <button 
              onClick={exportToCSV}
              className="flex items-center gap-2 text-slate-600 hover:text-emerald-700 transition-colors px-3 py-2 hover:bg-emerald-50 rounded-lg text-sm font-medium border border-transparent hover:border-emerald-200"
-             title="下載為 CSV (Excel)"
+             title={t('checklist.csvTitle')}
            >
              <FileSpreadsheet className="w-4 h-4" />
              CSV
@@ -285,20 +435,30 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
              onClick={exportToWord}
              disabled={isExportingWord}
              className="flex items-center gap-2 text-slate-600 hover:text-blue-700 transition-colors px-3 py-2 hover:bg-blue-50 rounded-lg text-sm font-medium disabled:opacity-50 border border-transparent hover:border-blue-200"
-             title="下載為 Word 文件"
+             title={t('checklist.wordTitle')}
            >
              {isExportingWord ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
              Word
            </button>
 
            <div className="w-px h-4 bg-slate-300 mx-1"></div>
+
+           <button
+             onClick={handleSuggestMore}
+             disabled={isSuggesting}
+             className="flex items-center gap-2 text-violet-600 hover:text-violet-800 transition-colors px-3 py-2 hover:bg-violet-50 rounded-lg text-sm font-medium disabled:opacity-50"
+             title={t('checklist.suggestTitle')}
+           >
+             {isSuggesting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+             {t('checklist.suggest')}
+           </button>
            
            <button 
-             onClick={() => handleDimensionClick(selectedDimension)}
+             onClick={() => selectedIndex !== null && handleDimensionClick(selectedIndex, true)}
              className="flex items-center gap-2 text-indigo-600 hover:text-indigo-800 transition-colors px-3 py-2 hover:bg-indigo-50 rounded-lg text-sm font-medium"
            >
              <RotateCcw className="w-4 h-4" />
-             重新生成
+             {t('checklist.regenerate')}
            </button>
         </div>
       </div>
@@ -310,17 +470,97 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
              Checklist
            </div>
            <h2 className="text-2xl font-bold text-slate-800">{selectedDimension}</h2>
-           <p className="text-slate-500 text-sm mt-1">含重要性評級 (五星量表)</p>
+           <p className="text-slate-500 text-sm mt-1">{t('checklist.subtitle')}</p>
         </div>
 
+        {/* Sort & filter */}
+        {checklist.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3 px-4 sm:px-6 py-3 border-b border-slate-100 text-xs text-slate-500">
+            <label className="flex items-center gap-1.5">
+              <ArrowUpDown className="w-3.5 h-3.5" />
+              {t('checklist.sort')}
+              <select
+                value={sortKey}
+                onChange={(e) => setSortKey(e.target.value as TaskSortKey)}
+                className="px-2 py-1 rounded-md border border-slate-200 bg-white text-slate-700 outline-none focus:border-indigo-400"
+              >
+                {TASK_SORT_OPTIONS.map(sortOption => (
+                  <option key={sortOption} value={sortOption}>{t(`sort.${sortOption}`)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1.5">
+              <Filter className="w-3.5 h-3.5" />
+              {t('checklist.status')}
+              <select
+                value={filter.status}
+                onChange={(e) => setFilter({ ...filter, status: e.target.value as TaskFilter['status'] })}
+                className="px-2 py-1 rounded-md border border-slate-200 bg-white text-slate-700 outline-none focus:border-indigo-400"
+              >
+                <option value="all">{t('common.all')}</option>
+                {TASK_STATUSES.map(statusOption => (
+                  <option key={statusOption} value={statusOption}>{t(`status.${statusOption}`)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1.5">
+              <User className="w-3.5 h-3.5" />
+              {t('checklist.assignee')}
+              <select
+                value={filter.assignee}
+                onChange={(e) => setFilter({ ...filter, assignee: e.target.value })}
+                className="px-2 py-1 rounded-md border border-slate-200 bg-white text-slate-700 outline-none focus:border-indigo-400"
+              >
+                <option value="all">{t('common.all')}</option>
+                <option value="">{t('checklist.unassigned')}</option>
+                {assignees.map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+            </label>
+            {isFiltered && (
+              <button
+                onClick={() => setFilter(DEFAULT_TASK_FILTER)}
+                className="text-indigo-600 hover:text-indigo-800 font-medium"
+              >
+                {t('checklist.clearFilters')}
+              </button>
+            )}
+          </div>
+        )}
+
         <div className="divide-y divide-slate-100">
-          {checklist.map((item, index) => {
-            const isDone = completedItems.has(index);
+          {visibleTasks.map(({ item, index }) => {
+            const status = getTaskStatus(item);
+            const isDone = status === 'done';
+            const overdue = isOverdue(item);
             return (
               <div 
-                key={index} 
-                className={`p-4 sm:p-6 transition-colors duration-200 flex gap-4 ${isDone ? 'bg-slate-50/50' : 'hover:bg-slate-50'}`}
+                key={item.id}
+                draggable={canReorder}
+                onDragStart={(e) => {
+                  // Firefox only starts a drag that carries data
+                  e.dataTransfer.setData('text/plain', item.id);
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDragIndex(index);
+                }}
+                onDragOver={(e) => {
+                  if (dragIndex === null) return;
+                  e.preventDefault();
+                  setDropIndex(index);
+                }}
+                onDrop={() => handleDrop(index)}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setDropIndex(null);
+                }}
+                className={`p-4 sm:p-6 transition-colors duration-200 flex gap-4 ${isDone ? 'bg-slate-50/50' : 'hover:bg-slate-50'} ${
+                  dragIndex === index ? 'opacity-40' : ''
+                } ${dropIndex === index && dragIndex !== index ? 'ring-2 ring-inset ring-indigo-300' : ''}`}
               >
+                {canReorder && (
+                  <GripVertical className="flex-shrink-0 mt-1.5 w-4 h-4 text-slate-300 cursor-grab active:cursor-grabbing" />
+                )}
                 <button 
                   onClick={() => toggleItem(index)}
                   className={`flex-shrink-0 mt-1 w-6 h-6 rounded border transition-all flex items-center justify-center ${
@@ -335,17 +575,118 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
                 <div className="flex-grow space-y-2">
                    <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2">
                       <h4 className={`font-bold text-lg leading-tight ${isDone ? 'text-slate-400 line-through' : 'text-slate-800'}`}>
-                        {item.task}
+                        <EditableText
+                          value={item.task}
+                          isEditing={isEditing}
+                          align="left"
+                          onCommit={(value) => value && updateItem(index, { task: value })}
+                        />
                       </h4>
-                      <div className="flex items-center gap-2 bg-slate-50 px-2 py-1 rounded border border-slate-100 flex-shrink-0" title={`重要性：${item.importance} 星`}>
-                         <span className="text-xs text-slate-400 font-medium">重要性</span>
-                         {renderStars(item.importance)}
+                      <div className="flex items-center gap-2 bg-slate-50 px-2 py-1 rounded border border-slate-100 flex-shrink-0" title={t('common.importanceStars', { stars: item.importance })}>
+                         <span className="text-xs text-slate-400 font-medium">{t('checklist.importance')}</span>
+                         {renderStars(item.importance, isEditing ? (value) => updateItem(index, { importance: value }) : undefined)}
                       </div>
                    </div>
                    <p className={`text-sm ${isDone ? 'text-slate-300' : 'text-slate-600'}`}>
-                     {item.description}
+                     <EditableText
+                       value={item.description}
+                       isEditing={isEditing}
+                       multiline={true}
+                       align="left"
+                       placeholder={t('checklist.descriptionPlaceholder')}
+                       onCommit={(value) => updateItem(index, { description: value })}
+                     />
                    </p>
+
+                   {/* Schedule: status is always switchable, the other fields only in edit mode */}
+                   <div className="flex flex-wrap items-center gap-2 text-xs">
+                     <select
+                       value={status}
+                       onChange={(e) => setItemStatus(index, e.target.value as TaskStatus)}
+                       className={`px-2 py-1 rounded-md border font-medium outline-none cursor-pointer ${STATUS_STYLES[status]}`}
+                     >
+                       {TASK_STATUSES.map(statusOption => (
+                         <option key={statusOption} value={statusOption}>{t(`status.${statusOption}`)}</option>
+                       ))}
+                     </select>
+
+                     {isEditing ? (
+                       <>
+                         <label className="flex items-center gap-1 text-slate-400">
+                           <CalendarDays className="w-3.5 h-3.5" />
+                           <input
+                             type="date"
+                             value={item.dueDate || ''}
+                             onChange={(e) => updateItem(index, { dueDate: e.target.value || undefined })}
+                             className="px-1.5 py-0.5 rounded border border-slate-200 text-slate-700 outline-none focus:border-indigo-400"
+                           />
+                         </label>
+                         <span className="flex items-center gap-1 text-slate-600 min-w-[80px]">
+                           <User className="w-3.5 h-3.5 text-slate-400" />
+                           <EditableText
+                             value={item.assignee || ''}
+                             isEditing={isEditing}
+                             align="left"
+                             placeholder={t('checklist.assignee')}
+                             onCommit={(value) => updateItem(index, { assignee: value || undefined })}
+                           />
+                         </span>
+                         <label className="flex items-center gap-1 text-slate-400">
+                           <Clock className="w-3.5 h-3.5" />
+                           <input
+                             type="number"
+                             min={0}
+                             step={0.5}
+                             value={item.effortHours ?? ''}
+                             onChange={(e) => {
+                               const hours = parseFloat(e.target.value);
+                               updateItem(index, { effortHours: Number.isFinite(hours) && hours >= 0 ? hours : undefined });
+                             }}
+                             placeholder={t('checklist.effortPlaceholder')}
+                             className="w-16 px-1.5 py-0.5 rounded border border-slate-200 text-slate-700 outline-none focus:border-indigo-400"
+                           />
+                           {t('checklist.hours')}
+                         </label>
+                       </>
+                     ) : (
+                       <>
+                         {item.dueDate && (
+                           <span
+                             className={`flex items-center gap-1 px-2 py-1 rounded-md border ${
+                               overdue ? 'bg-red-50 text-red-600 border-red-200' : 'bg-slate-50 text-slate-500 border-slate-100'
+                             }`}
+                             title={overdue ? t('common.overdue') : t('common.dueDate')}
+                           >
+                             <CalendarDays className="w-3.5 h-3.5" />
+                             {item.dueDate}
+                           </span>
+                         )}
+                         {item.assignee && (
+                           <span className="flex items-center gap-1 px-2 py-1 rounded-md border bg-slate-50 text-slate-500 border-slate-100">
+                             <User className="w-3.5 h-3.5" />
+                             {item.assignee}
+                           </span>
+                         )}
+                         {item.effortHours !== undefined && (
+                           <span className="flex items-center gap-1 px-2 py-1 rounded-md border bg-slate-50 text-slate-500 border-slate-100">
+                             <Clock className="w-3.5 h-3.5" />
+                             {t('checklist.effortShort', { hours: item.effortHours })}
+                           </span>
+                         )}
+                       </>
+                     )}
+                   </div>
                 </div>
+
+                {isEditing && (
+                  <button
+                    onClick={() => deleteItem(index)}
+                    className="flex-shrink-0 self-start p-1.5 text-slate-300 hover:text-red-600 hover:bg-red-50 rounded transition-colors"
+                    title={t('checklist.deleteTask')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
               </div>
             );
           })}
@@ -353,13 +694,41 @@ export const ChecklistView: React.FC<ChecklistViewProps> = ({ data, topic }) =>
         
         {checklist.length === 0 && (
           <div className="p-12 text-center text-slate-400">
-            沒有找到相關任務。
+            {t('checklist.noTasks')}
           </div>
         )}
+
+        {checklist.length > 0 && visibleTasks.length === 0 && (
+          <div className="p-12 text-center text-slate-400">
+            {t('checklist.noMatch')}
+          </div>
+        )}
+
+        {/* Add a custom task */}
+        <div className="border-t border-slate-100 p-4 flex items-center gap-2 bg-slate-50/50">
+          <input
+            type="text"
+            value={newTask}
+            onChange={(e) => setNewTask(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.nativeEvent.isComposing) addItem();
+            }}
+            placeholder={t('checklist.newTaskPlaceholder')}
+            className="flex-grow px-3 py-2 text-sm rounded-lg border border-slate-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/10 outline-none bg-white"
+          />
+          <button
+            onClick={addItem}
+            disabled={!newTask.trim()}
+            className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            {t('checklist.add')}
+          </button>
+        </div>
       </div>
       
       <div className="mt-4 text-center text-xs text-slate-400">
-         進度：{completedItems.size} / {checklist.length}
+         {t('checklist.progress', { done: completedCount, total: checklist.length })}
       </div>
     </div>
   );
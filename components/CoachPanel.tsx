@@ -0,0 +1,302 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MandalaResult } from '../types';
+import { CoachChange, CoachMessage } from '../services/coachChat';
+import { CellTarget, getCellValue } from '../services/mandalaEditor';
+import { askCoach } from '../services/geminiService';
+import { createId } from '../services/storageService';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { MessageCircleQuestion, Send, Loader2, X, Check, Eraser, Sparkles, ArrowRight } from 'lucide-react';
+
+interface CoachPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // The topic typed for the next generation
+  topic: string;
+  // The displayed chart, if any
+  chart: { topic: string; data: MandalaResult } | null;
+  onApplyChange: (target: CellTarget, value: string) => void;
+  // Generates the chart with what the coach has clarified; omitted while generation is not possible
+  onGenerate?: (brief: string) => void;
+}
+
+const STARTERS_BEFORE: MessageKey[] = ['coach.starterClarify', 'coach.starterStuck'];
+const STARTERS_AFTER: MessageKey[] = ['coach.starterReview', 'coach.starterOverlap', 'coach.starterActions'];
+
+type CoachMode = 'topic' | 'chart';
+
+// Non-modal side panel, so the chart stays visible while talking. The conversation survives
+// closing the panel and switching charts; each turn is grounded in whatever chart is displayed.
+export const CoachPanel: React.FC<CoachPanelProps> = ({ isOpen, onClose, topic, chart, onApplyChange, onGenerate }) => {
+  const { t } = useI18n();
+  const [mode, setMode] = useState<CoachMode>('chart');
+  const [messages, setMessages] = useState<CoachMessage[]>([]);
+  const [input, setInput] = useState('');
+  const [brief, setBrief] = useState('');
+  const [isThinking, setIsThinking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages, isThinking]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Reviewing needs a chart; without one the coach falls back to clarifying the topic
+  const reviewing = mode === 'chart' && !!chart;
+  const data = reviewing ? chart.data : null;
+  const subject = reviewing ? chart.topic : topic;
+
+  const send = async (text: string) => {
+    const content = text.trim();
+    if (!content || isThinking) return;
+    const history: CoachMessage[] = [...messages, { id: createId(), role: 'user', text: content }];
+    setMessages(history);
+    setInput('');
+    setError(null);
+    setIsThinking(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const reply = await askCoach(subject, data, history, controller.signal);
+      if (controller.signal.aborted) return;
+      setMessages([...history, { id: createId(), role: 'coach', text: reply.reply, changes: reply.changes }]);
+      if (reply.brief) setBrief(reply.brief);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Coach reply failed:", err);
+      setError(t('coach.failed', { message: err instanceof Error ? err.message : String(err) }));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsThinking(false);
+      }
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsThinking(false);
+  };
+
+  const handleClear = () => {
+    handleStop();
+    setMessages([]);
+    setBrief('');
+    setError(null);
+  };
+
+  const setChangeStatus = (messageId: string, index: number, status: CoachChange['status']) => {
+    setMessages((prev) => prev.map((message) => message.id === messageId
+      ? { ...message, changes: message.changes?.map((change, i) => (i === index ? { ...change, status } : change)) }
+      : message
+    ));
+  };
+
+  const handleApply = (messageId: string, index: number, change: CoachChange) => {
+    onApplyChange(change.target, change.value);
+    setChangeStatus(messageId, index, 'applied');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      send(input);
+    }
+  };
+
+  const describeTarget = (target: CellTarget) => {
+    switch (target.kind) {
+      case "coreConcept":
+        return t('guided.coreConcept');
+      case "dimension":
+        return t('guided.dimensionN', { n: target.index + 1 });
+      case "idea":
+        return t('coach.ideaOf', { dimension: data?.mainDimensions[target.gridIndex] || target.gridIndex + 1, n: target.itemIndex + 1 });
+      case "summary":
+        return t('guided.summary');
+      case "action":
+        return t('guided.actionN', { n: target.index + 1 });
+    }
+  };
+
+  const renderChange = (message: CoachMessage, change: CoachChange, index: number) => {
+    // The chart may have changed since the suggestion; a vanished cell can no longer be applied
+    const current = data ? getCellValue(data, change.target) : undefined;
+    return (
+      <div key={index} className="bg-white border border-violet-100 rounded-lg p-2.5 space-y-1.5 text-xs">
+        <div className="font-semibold text-violet-700">{describeTarget(change.target)}</div>
+        <div className="flex items-center gap-1.5 flex-wrap">
+          <span className="text-slate-400 line-through">{current || t('coach.empty')}</span>
+          <ArrowRight className="w-3 h-3 text-slate-400" />
+          <span className="text-slate-800 font-medium">{change.value}</span>
+        </div>
+        {change.reason && <p className="text-slate-500 leading-relaxed">{change.reason}</p>}
+        {change.status === 'pending' ? (
+          <div className="flex items-center gap-1.5 pt-1">
+            <button
+              onClick={() => handleApply(message.id, index, change)}
+              disabled={current === undefined}
+              className="flex items-center gap-1 px-2.5 py-1 font-medium text-white bg-violet-600 hover:bg-violet-700 rounded-md transition-colors disabled:opacity-50"
+            >
+              <Check className="w-3 h-3" />
+              {t('coach.apply')}
+            </button>
+            <button
+              onClick={() => setChangeStatus(message.id, index, 'dismissed')}
+              className="px-2.5 py-1 font-medium text-slate-500 hover:text-slate-800 hover:bg-slate-100 rounded-md transition-colors"
+            >
+              {t('coach.dismiss')}
+            </button>
+          </div>
+        ) : (
+          <div className={`pt-1 font-medium ${change.status === 'applied' ? 'text-emerald-600' : 'text-slate-400'}`}>
+            {change.status === 'applied' ? t('coach.applied') : t('coach.dismissed')}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const starters = reviewing ? STARTERS_AFTER : STARTERS_BEFORE;
+
+  const handleGenerate = () => {
+    if (!onGenerate) return;
+    onGenerate(brief);
+    setMode('chart');
+  };
+
+  return (
+    <aside
+      className={`fixed top-16 right-0 bottom-0 w-96 max-w-[90vw] bg-white border-l border-slate-200 shadow-xl z-40 flex flex-col transition-transform duration-300 ${
+        isOpen ? 'translate-x-0' : 'translate-x-full'
+      }`}
+    >
+      <div className="h-14 px-4 flex items-center justify-between border-b border-slate-100">
+        <div className="flex items-center gap-2 font-bold text-slate-800">
+          <MessageCircleQuestion className="w-5 h-5 text-violet-600" />
+          {t('coach.title')}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handleClear}
+            disabled={!messages.length}
+            className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30"
+            title={t('coach.clear')}
+          >
+            <Eraser className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+            title={t('common.close')}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="px-4 pt-3">
+        <div className="bg-slate-100 p-1 rounded-lg flex gap-1">
+          {(['topic', 'chart'] as CoachMode[]).map((item) => (
+            <button
+              key={item}
+              onClick={() => setMode(item)}
+              disabled={item === 'chart' && !chart}
+              className={`flex-1 px-3 py-1.5 text-xs font-medium rounded-md transition-colors disabled:opacity-40 ${
+                (item === 'chart') === reviewing ? 'bg-white text-violet-700 shadow-sm' : 'text-slate-500 hover:text-slate-800'
+              }`}
+            >
+              {t(`coach.mode.${item}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div ref={listRef} className="flex-grow overflow-y-auto p-4 space-y-3">
+        <p className="text-xs text-slate-400 leading-relaxed">
+          {reviewing ? t('coach.introChart', { topic: subject }) : t('coach.introTopic')}
+        </p>
+
+        {messages.map((message) => (
+          <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] space-y-2 ${message.role === 'user' ? '' : 'w-full'}`}>
+              {message.text && (
+                <div className={`px-3 py-2 rounded-2xl text-sm leading-relaxed whitespace-pre-wrap ${
+                  message.role === 'user'
+                    ? 'bg-indigo-600 text-white rounded-br-sm'
+                    : 'bg-slate-100 text-slate-800 rounded-bl-sm'
+                }`}>
+                  {message.text}
+                </div>
+              )}
+              {message.changes?.map((change, i) => renderChange(message, change, i))}
+            </div>
+          </div>
+        ))}
+
+        {isThinking && (
+          <div className="flex items-center gap-2 text-xs text-slate-400">
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+            {t('coach.thinking')}
+            <button onClick={handleStop} className="underline hover:text-slate-700">{t('app.stop')}</button>
+          </div>
+        )}
+        {error && <p className="text-xs text-red-500">{error}</p>}
+
+        {!messages.length && (
+          <div className="flex flex-wrap gap-1.5">
+            {starters.map((key) => (
+              <button
+                key={key}
+                onClick={() => send(t(key))}
+                className="text-xs px-3 py-1.5 bg-white border border-slate-200 text-slate-600 rounded-full hover:bg-violet-50 hover:text-violet-700 hover:border-violet-200 transition-colors"
+              >
+                {t(key)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {!reviewing && brief && (
+        <div className="mx-4 mb-2 p-3 bg-violet-50 border border-violet-100 rounded-lg space-y-2">
+          <div className="text-xs font-semibold text-violet-700">{t('coach.brief')}</div>
+          <p className="text-xs text-slate-600 leading-relaxed">{brief}</p>
+          {onGenerate && (
+            <button
+              onClick={handleGenerate}
+              disabled={!topic.trim()}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Sparkles className="w-3.5 h-3.5" />
+              {t('coach.generate')}
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="p-3 border-t border-slate-100 flex items-end gap-2">
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder={t('coach.placeholder')}
+          rows={2}
+          className="flex-grow resize-none px-3 py-2 text-sm rounded-lg border border-slate-200 focus:border-violet-500 focus:ring-2 focus:ring-violet-500/10 outline-none"
+        />
+        <button
+          onClick={() => send(input)}
+          disabled={!input.trim() || isThinking}
+          className="p-2.5 text-white bg-violet-600 hover:bg-violet-700 rounded-lg transition-colors disabled:opacity-50"
+          title={t('coach.send')}
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </div>
+    </aside>
+  );
+};
@@ -1,9 +1,27 @@
-import React from 'react';
-import { MandalaResult } from '../types';
+import React, { useMemo, useState } from 'react';
+import { ChecklistItem, MandalaResult } from '../types';
+import { renameDimension, renameSubGrid, updateSubItem, cellKey, getKeptCells } from '../services/mandalaEditor';
+import { Progress, getDimensionProgress, getOverallProgress } from '../services/checklistProgress';
+import { buildMandalaWorkbook } from '../services/xlsxExport';
+import { QualityMark, analyzeMandala, getQualityMarks } from '../services/qualityAnalysis';
+import { EditableText } from './EditableText';
+import { ProgressBadge } from './ProgressBadge';
+import { QualityPanel } from './QualityPanel';
+import { useI18n } from './I18nProvider';
+import { Layers, FileSpreadsheet, Loader2, ScanSearch } from 'lucide-react';
 
 interface DashboardViewProps {
   data: MandalaResult;
   topic: string;
+  isEditing?: boolean;
+  onDataChange?: (data: MandalaResult) => void;
+  onTopicChange?: (topic: string) => void;
+  // Sub-items that already have a child mandala, as cellKey values
+  expandedCells?: string[];
+  // Saved checklists, used to overlay task progress on the dimension cells
+  checklists?: Record<number, ChecklistItem[]>;
+  // Kept untouched by the quality fixes
+  lockedCells?: string[];
 }
 
 // Helper to map a list of items (8 items) plus a center item into a 9-slot array (0-8)
@@ -25,12 +43,33 @@ const MiniGrid = ({
   centerText, 
   items, 
   variant = 'sub',
-  label
+  label,
+  isEditing = false,
+  onCenterChange,
+  onItemChange,
+  expandedIndexes,
+  centerProgress = null,
+  itemProgress,
+  centerMark,
+  itemMarks,
+  focusedCenter = false,
+  focusedItems
 }: { 
   centerText: string, 
   items: string[], 
   variant?: 'main' | 'sub',
-  label?: string
+  label?: string,
+  isEditing?: boolean,
+  onCenterChange?: (value: string) => void,
+  onItemChange?: (index: number, value: string) => void,
+  expandedIndexes?: number[],
+  centerProgress?: Progress | null,
+  itemProgress?: (Progress | null)[],
+  // Quality problems found by the analysis, and the cells of the issue being looked at
+  centerMark?: QualityMark,
+  itemMarks?: (QualityMark | undefined)[],
+  focusedCenter?: boolean,
+  focusedItems?: number[]
 }) => {
   const gridData = mapItemsTo9Grid(centerText, items);
 
@@ -41,6 +80,9 @@ const MiniGrid = ({
       <div className={`grid grid-cols-3 gap-px bg-slate-200 h-full flex-grow`}>
         {gridData.map((text, i) => {
           const isCenter = i === 4;
+          const itemIndex = i < 4 ? i : i - 1;
+          const mark = isCenter ? centerMark : itemMarks?.[itemIndex];
+          const isFocused = isCenter ? focusedCenter : !!focusedItems?.includes(itemIndex);
           
           let bgClass = "bg-white";
           let textClass = "text-slate-600 font-normal";
@@ -61,17 +103,37 @@ const MiniGrid = ({
              }
           }
 
+          if (mark === 'duplicate') {
+            bgClass = "bg-rose-50";
+            textClass = "text-rose-800 font-medium";
+          } else if (mark === 'overlap') {
+            bgClass = "bg-amber-50";
+            textClass = "text-amber-900 font-semibold";
+          }
+
           return (
             <div 
               key={i} 
               className={`
                 ${bgClass} ${textClass}
-                p-1 flex items-center justify-center text-center
+                ${isFocused ? 'ring-2 ring-inset ring-indigo-500' : ''}
+                relative p-1 flex items-center justify-center text-center
                 text-[10px] sm:text-xs leading-tight break-words overflow-hidden h-full
               `}
               title={text}
             >
-              {text}
+              {!isCenter && expandedIndexes?.includes(itemIndex) && (
+                <Layers className="absolute top-0.5 right-0.5 w-2.5 h-2.5 text-indigo-400" />
+              )}
+              <ProgressBadge progress={isCenter ? centerProgress : itemProgress?.[itemIndex] ?? null} />
+              <EditableText
+                value={text}
+                isEditing={isEditing}
+                onCommit={(value) => {
+                  if (isCenter) onCenterChange?.(value);
+                  else onItemChange?.(itemIndex, value);
+                }}
+              />
             </div>
           );
         })}
@@ -80,7 +142,57 @@ const MiniGrid = ({
   );
 };
 
-export const DashboardView: React.FC<DashboardViewProps> = ({ data, topic }) => {
+export const DashboardView: React.FC<DashboardViewProps> = ({
+  data,
+  topic,
+  isEditing = false,
+  onDataChange,
+  onTopicChange,
+  expandedCells = [],
+  checklists = {},
+  lockedCells = []
+}) => {
+  const { locale, t } = useI18n();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isQualityOpen, setIsQualityOpen] = useState(false);
+  const [vectors, setVectors] = useState<Map<string, number[]> | null>(null);
+  const [dismissedIssues, setDismissedIssues] = useState<string[]>([]);
+  const [focusedIssue, setFocusedIssue] = useState<string | null>(null);
+
+  // Re-run on every edit, so fixes and manual changes show up straight away
+  const qualityReport = useMemo(() => {
+    if (!isQualityOpen) return null;
+    const report = analyzeMandala(data, vectors ?? undefined);
+    return {
+      ...report,
+      duplicates: report.duplicates.filter((group) => !dismissedIssues.includes(group.id)),
+      overlaps: report.overlaps.filter((overlap) => !dismissedIssues.includes(overlap.id)),
+    };
+  }, [isQualityOpen, data, vectors, dismissedIssues]);
+  const qualityMarks = qualityReport ? getQualityMarks(qualityReport) : null;
+  const focusedDuplicate = qualityReport?.duplicates.find((group) => group.id === focusedIssue);
+  const focusedOverlap = qualityReport?.overlaps.find((overlap) => overlap.id === focusedIssue);
+  const isDimensionFocused = (index: number) => focusedOverlap?.first === index || focusedOverlap?.second === index;
+
+  const exportToExcel = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await buildMandalaWorkbook(topic, data, locale, checklists);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${t('export.fileMandala', { name: topic.replace(/\s+/g, '_') })}.xlsx`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Excel export failed", error);
+      alert(t('dashboard.exportFailed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
   
   // The layout of the Dashboard is a 3x3 grid of 3x3 grids.
   // Center block (Index 4): The Main Mandala (Topic + 8 Dimensions)
@@ -89,6 +201,7 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ data, topic }) =>
   // We need to map the subGrids array (0-7) to the dashboard slots (0,1,2,3, 5,6,7,8)
   // AND the core concept + dimensions to slot 4.
 
+  const overallProgress = getOverallProgress(checklists);
   const dashboardSlots = new Array(9).fill(null);
   
   // Fill the center slot (Main Grid)
@@ -109,6 +222,7 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ data, topic }) =>
     if (slotIndex !== -1) {
       dashboardSlots[slotIndex] = {
         type: 'sub',
+        gridIndex: idx,
         center: subGrid.title,
         items: subGrid.items
       };
@@ -118,10 +232,53 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ data, topic }) =>
   return (
     <div className="w-full max-w-[1400px] mx-auto p-2 md:p-6 animate-in fade-in zoom-in duration-500">
        <div className="mb-6 flex flex-col items-center">
-          <h2 className="text-xl font-bold text-slate-800 mb-1">全景儀表板</h2>
-          <p className="text-sm text-slate-500">9x9 完整視角 (曼陀羅大表)</p>
+          <h2 className="text-xl font-bold text-slate-800 mb-1">{t('view.dashboard')}</h2>
+          <p className="text-sm text-slate-500">{t('dashboard.subtitle')}</p>
+          {overallProgress && (
+            <p className="mt-2 text-xs text-emerald-700 bg-emerald-50 border border-emerald-100 px-3 py-1 rounded-full">
+              {t('dashboard.progress', { ...overallProgress })}
+            </p>
+          )}
+          <button
+            onClick={exportToExcel}
+            disabled={isExporting}
+            className="mt-3 flex items-center gap-2 text-xs font-medium text-slate-600 hover:text-emerald-700 bg-white border border-slate-200 hover:border-emerald-200 hover:bg-emerald-50 px-3 py-1.5 rounded-lg transition-colors shadow-sm disabled:opacity-50"
+            title={t('dashboard.exportTitle')}
+          >
+            {isExporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileSpreadsheet className="w-3.5 h-3.5" />}
+            {t('dashboard.export')}
+          </button>
+          {onDataChange && (
+            <button
+              onClick={() => setIsQualityOpen(!isQualityOpen)}
+              className={`mt-2 flex items-center gap-2 text-xs font-medium px-3 py-1.5 rounded-lg border transition-colors shadow-sm ${
+                isQualityOpen
+                  ? 'text-indigo-700 bg-indigo-50 border-indigo-200'
+                  : 'text-slate-600 hover:text-indigo-700 bg-white border-slate-200 hover:border-indigo-200 hover:bg-indigo-50'
+              }`}
+              title={t('quality.toggleTitle')}
+            >
+              <ScanSearch className="w-3.5 h-3.5" />
+              {t('quality.toggle')}
+            </button>
+          )}
        </div>
 
+       {qualityReport && onDataChange && (
+         <QualityPanel
+           report={qualityReport}
+           data={data}
+           topic={topic}
+           lockedCells={getKeptCells(lockedCells, expandedCells)}
+           onDataChange={onDataChange}
+           vectors={vectors}
+           onVectorsChange={setVectors}
+           onDismiss={(issueId) => setDismissedIssues([...dismissedIssues, issueId])}
+           focusedIssue={focusedIssue}
+           onFocusIssue={setFocusedIssue}
+         />
+       )}
+
        {/* The Big 3x3 Container */}
        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 md:gap-4 aspect-[1/3] md:aspect-square">
           {dashboardSlots.map((slot, i) => (
@@ -131,6 +288,30 @@ export const DashboardView: React.FC<DashboardViewProps> = ({ data, topic }) =>
                     centerText={slot.center}
                     items={slot.items}
                     variant={slot.type}
+                    isEditing={isEditing}
+                    centerProgress={slot.type === 'main'
+                      ? overallProgress
+                      : getDimensionProgress(checklists, slot.gridIndex)}
+                    itemProgress={slot.type === 'main'
+                      ? data.mainDimensions.map((_, idx) => getDimensionProgress(checklists, idx))
+                      : undefined}
+                    centerMark={slot.type === 'sub' ? qualityMarks?.dimensions.get(slot.gridIndex) : undefined}
+                    itemMarks={qualityMarks && (slot.type === 'main'
+                      ? data.mainDimensions.map((_, idx) => qualityMarks.dimensions.get(idx))
+                      : slot.items.map((_: string, j: number) => qualityMarks.ideas.get(cellKey(slot.gridIndex, j))))}
+                    focusedCenter={slot.type === 'sub' && isDimensionFocused(slot.gridIndex)}
+                    focusedItems={slot.type === 'main'
+                      ? data.mainDimensions.map((_, idx) => idx).filter(isDimensionFocused)
+                      : focusedDuplicate?.cells.filter((cell) => cell.gridIndex === slot.gridIndex).map((cell) => cell.itemIndex)}
+                    expandedIndexes={slot.type === 'sub'
+                      ? slot.items.map((_: string, j: number) => j).filter((j: number) => expandedCells.includes(cellKey(slot.gridIndex, j)))
+                      : undefined}
+                    onCenterChange={(value) => slot.type === 'main'
+                      ? onTopicChange?.(value)
+                      : onDataChange?.(renameSubGrid(data, slot.gridIndex, value))}
+                    onItemChange={(index, value) => slot.type === 'main'
+                      ? onDataChange?.(renameDimension(data, index, value))
+                      : onDataChange?.(updateSubItem(data, slot.gridIndex, index, value))}
                   />
                 )}
              </div>
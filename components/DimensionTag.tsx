@@ -0,0 +1,34 @@
+import React from 'react';
+
+// One colour per mainDimensions slot, so a task can be traced back to its dimension at a glance
+export const DIMENSION_COLORS = [
+  { tag: 'bg-rose-50 text-rose-700 border-rose-200', dot: 'bg-rose-400' },
+  { tag: 'bg-orange-50 text-orange-700 border-orange-200', dot: 'bg-orange-400' },
+  { tag: 'bg-amber-50 text-amber-700 border-amber-200', dot: 'bg-amber-400' },
+  { tag: 'bg-lime-50 text-lime-700 border-lime-200', dot: 'bg-lime-500' },
+  { tag: 'bg-teal-50 text-teal-700 border-teal-200', dot: 'bg-teal-400' },
+  { tag: 'bg-sky-50 text-sky-700 border-sky-200', dot: 'bg-sky-400' },
+  { tag: 'bg-violet-50 text-violet-700 border-violet-200', dot: 'bg-violet-400' },
+  { tag: 'bg-fuchsia-50 text-fuchsia-700 border-fuchsia-200', dot: 'bg-fuchsia-400' },
+];
+
+export const getDimensionColor = (dimensionIndex: number) =>
+  DIMENSION_COLORS[dimensionIndex % DIMENSION_COLORS.length];
+
+interface DimensionTagProps {
+  dimensionIndex: number;
+  label: string;
+  className?: string;
+}
+
+export const DimensionTag: React.FC<DimensionTagProps> = ({ dimensionIndex, label, className = '' }) => (
+  <span
+    className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] font-medium max-w-full truncate ${
+      getDimensionColor(dimensionIndex).tag
+    } ${className}`}
+    title={label}
+  >
+    <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${getDimensionColor(dimensionIndex).dot}`} />
+    <span className="truncate">{label}</span>
+  </span>
+);
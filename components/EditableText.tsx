@@ -0,0 +1,98 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useI18n } from './I18nProvider';
+
+interface EditableTextProps {
+  value: string;
+  onCommit: (value: string) => void;
+  // When false the text renders as-is and clicks pass through to the parent cell
+  isEditing: boolean;
+  multiline?: boolean;
+  align?: 'center' | 'left';
+  placeholder?: string;
+  className?: string;
+}
+
+// Click-to-edit text used by every view's cells while edit mode is on.
+// Enter commits (Shift+Enter adds a line break when multiline), Escape cancels, blur commits.
+export const EditableText: React.FC<EditableTextProps> = ({
+  value,
+  onCommit,
+  isEditing,
+  multiline = false,
+  align = 'center',
+  placeholder,
+  className = ''
+}) => {
+  const { t } = useI18n();
+  const [isActive, setIsActive] = useState(false);
+  const [draft, setDraft] = useState(value);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (!isActive) setDraft(value);
+  }, [value, isActive]);
+
+  useEffect(() => {
+    if (!isEditing) setIsActive(false);
+  }, [isEditing]);
+
+  useEffect(() => {
+    if (isActive && inputRef.current) {
+      inputRef.current.focus();
+      inputRef.current.select();
+    }
+  }, [isActive]);
+
+  const commit = () => {
+    setIsActive(false);
+    const next = draft.trim();
+    if (next !== value) onCommit(next);
+  };
+
+  const cancel = () => {
+    setDraft(value);
+    setIsActive(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      cancel();
+    } else if (e.key === 'Enter' && !(multiline && e.shiftKey) && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      commit();
+    }
+  };
+
+  if (!isEditing) {
+    return <span className={className}>{value}</span>;
+  }
+
+  if (isActive) {
+    return (
+      <textarea
+        ref={inputRef}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => e.stopPropagation()}
+        rows={multiline ? 4 : 2}
+        className={`w-full h-full resize-none bg-white/90 text-slate-800 ${align === 'center' ? 'text-center' : 'text-left'} rounded outline-none ring-2 ring-indigo-400 p-0.5 leading-tight ${className}`}
+      />
+    );
+  }
+
+  return (
+    <span
+      onClick={(e) => {
+        e.stopPropagation();
+        setIsActive(true);
+      }}
+      className={`cursor-text rounded outline-dashed outline-1 outline-indigo-300/70 hover:outline-indigo-500 px-0.5 ${value ? '' : 'opacity-50 italic'} ${className}`}
+      title={t('editable.title')}
+    >
+      {value || placeholder || t('editable.placeholder')}
+    </span>
+  );
+};
@@ -0,0 +1,365 @@
+import React, { useState } from 'react';
+import { MandalaResult } from '../types';
+import {
+  GUIDED_STEPS,
+  GuidedStep,
+  findCurrentStep,
+  findOpenGrid,
+  getStepProgress,
+  isStepComplete
+} from '../services/guidedMode';
+import { CellTarget, addAction, getCellTargetKey, removeAction, updateCell } from '../services/mandalaEditor';
+import { suggestCellHints } from '../services/geminiService';
+import { EditableText } from './EditableText';
+import { useI18n } from './I18nProvider';
+import { Lightbulb, Loader2, Check, ChevronLeft, ChevronRight, Plus, Trash2, X, CheckCircle2 } from 'lucide-react';
+
+interface GuidedBuilderProps {
+  topic: string;
+  data: MandalaResult;
+  onTopicChange: (topic: string) => void;
+  onDataChange: (data: MandalaResult) => void;
+  onClose: () => void;
+}
+
+// Same slot order as the views: 8 cells around the center (index 4) of a 3x3 grid
+const SLOTS = [0, 1, 2, 3, null, 4, 5, 6, 7];
+
+// Walks through the Mandalart steps on the open chart. Every edit goes straight to the chart,
+// so the views below fill in as the user types; AI hints are optional and per cell.
+export const GuidedBuilder: React.FC<GuidedBuilderProps> = ({ topic, data, onTopicChange, onDataChange, onClose }) => {
+  const { t } = useI18n();
+  const [step, setStep] = useState<GuidedStep>(() => findCurrentStep(data));
+  const [gridIndex, setGridIndex] = useState(() => findOpenGrid(data));
+  const [hintKey, setHintKey] = useState<string | null>(null);
+  const [hints, setHints] = useState<string[]>([]);
+  const [hintLoading, setHintLoading] = useState(false);
+  const [hintError, setHintError] = useState<string | null>(null);
+
+  const stepIndex = GUIDED_STEPS.indexOf(step);
+
+  const goTo = (next: GuidedStep) => {
+    setStep(next);
+    setHintKey(null);
+    setHints([]);
+    setHintError(null);
+  };
+
+  const applyToTarget = (target: CellTarget, value: string) => onDataChange(updateCell(data, target, value));
+
+  const requestHints = async (target: CellTarget) => {
+    const key = getCellTargetKey(target);
+    if (hintLoading) return;
+    setHintKey(key);
+    setHints([]);
+    setHintError(null);
+    setHintLoading(true);
+    try {
+      const result = await suggestCellHints(topic, data, target);
+      if (!result.length) setHintError(t('guided.noHints'));
+      setHints(result);
+    } catch (err) {
+      console.error("Cell hints failed:", err);
+      setHintError(t('guided.hintFailed', { message: err instanceof Error ? err.message : String(err) }));
+    } finally {
+      setHintLoading(false);
+    }
+  };
+
+  const applyHint = (target: CellTarget, value: string) => {
+    applyToTarget(target, value);
+    setHintKey(null);
+    setHints([]);
+  };
+
+  const renderHintButton = (target: CellTarget) => {
+    const isActive = hintKey === getCellTargetKey(target);
+    return (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          requestHints(target);
+        }}
+        disabled={hintLoading}
+        className={`p-1 rounded transition-colors disabled:opacity-50 ${isActive ? 'text-violet-600 bg-violet-50' : 'text-slate-300 hover:text-violet-600 hover:bg-violet-50'}`}
+        title={t('guided.hint')}
+      >
+        {hintLoading && isActive ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Lightbulb className="w-3.5 h-3.5" />}
+      </button>
+    );
+  };
+
+  const describeTarget = (target: CellTarget) => {
+    switch (target.kind) {
+      case "coreConcept":
+        return t('guided.coreConcept');
+      case "dimension":
+        return t('guided.dimensionN', { n: target.index + 1 });
+      case "idea":
+        return t('guided.ideaN', { n: target.itemIndex + 1 });
+      case "summary":
+        return t('guided.summary');
+      case "action":
+        return t('guided.actionN', { n: target.index + 1 });
+    }
+  };
+
+  // Suggestions for whichever cell asked last, shown under the step's cells
+  const renderHints = (targets: CellTarget[]) => {
+    const target = targets.find(item => getCellTargetKey(item) === hintKey);
+    if (!target || (!hints.length && !hintError)) return null;
+    return (
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-medium text-violet-500">{t('guided.hintsFor', { cell: describeTarget(target) })}</span>
+        {hintError && <span className="text-xs text-red-500">{hintError}</span>}
+        {hints.map((hint, i) => (
+          <button
+            key={i}
+            onClick={() => applyHint(target, hint)}
+            className="flex items-center gap-1.5 text-xs px-3 py-1.5 bg-violet-50 border border-violet-100 text-violet-700 rounded-full hover:bg-violet-100 transition-colors"
+            title={t('guided.applyHint')}
+          >
+            <Check className="w-3 h-3" />
+            {hint}
+          </button>
+        ))}
+      </div>
+    );
+  };
+
+  // A 3x3 block: fixed center text, 8 editable cells around it, each with its own hint button
+  const renderGrid = (center: string, cells: string[], targetAt: (index: number) => CellTarget, placeholderAt: (index: number) => string) => (
+    <div className="grid grid-cols-3 gap-1.5 p-1.5 bg-slate-200 rounded-xl aspect-square max-w-md mx-auto w-full">
+      {SLOTS.map((slot, i) => slot === null ? (
+        <div key={i} className="flex items-center justify-center p-2 text-center text-sm font-bold text-white bg-indigo-600 rounded-lg break-words">
+          {center}
+        </div>
+      ) : (
+        <div key={i} className="relative flex items-center justify-center p-2 text-center text-xs md:text-sm text-slate-700 bg-white rounded-lg break-words">
+          <EditableText
+            value={cells[slot] ?? ''}
+            onCommit={(value) => applyToTarget(targetAt(slot), value)}
+            isEditing
+            placeholder={placeholderAt(slot)}
+          />
+          <div className="absolute bottom-0.5 right-0.5">{renderHintButton(targetAt(slot))}</div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const dimensionTargets = data.mainDimensions.map((_, index): CellTarget => ({ kind: "dimension", index }));
+  const ideaTargets = data.subGrids[gridIndex].items.map((_, itemIndex): CellTarget => ({ kind: "idea", gridIndex, itemIndex }));
+  const actionTargets = data.actions.map((_, index): CellTarget => ({ kind: "action", index }));
+  const coreTarget: CellTarget = { kind: "coreConcept" };
+  const summaryTarget: CellTarget = { kind: "summary" };
+
+  const renderStep = () => {
+    switch (step) {
+      case "center":
+        return (
+          <div className="space-y-4 max-w-xl mx-auto">
+            <div>
+              <label className="block text-xs font-medium text-slate-500 mb-1">{t('guided.topic')}</label>
+              <div className="px-3 py-2 text-lg font-bold text-slate-800 bg-slate-50 rounded-lg border border-slate-200">
+                <EditableText value={topic} onCommit={onTopicChange} isEditing align="left" />
+              </div>
+            </div>
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="text-xs font-medium text-slate-500">{t('guided.coreConcept')}</label>
+                {renderHintButton(coreTarget)}
+              </div>
+              <div className="px-3 py-2 min-h-[3rem] text-sm text-slate-700 bg-slate-50 rounded-lg border border-slate-200">
+                <EditableText
+                  value={data.coreConcept}
+                  onCommit={(value) => applyToTarget(coreTarget, value)}
+                  isEditing
+                  multiline
+                  align="left"
+                  placeholder={t('guided.coreConceptPlaceholder')}
+                />
+              </div>
+            </div>
+            {renderHints([coreTarget])}
+          </div>
+        );
+      case "dimensions":
+        return (
+          <div className="space-y-4">
+            {renderGrid(topic, data.mainDimensions, (index) => dimensionTargets[index], (index) => t('guided.dimensionN', { n: index + 1 }))}
+            {renderHints(dimensionTargets)}
+          </div>
+        );
+      case "ideas":
+        return (
+          <div className="space-y-4">
+            <div className="flex flex-wrap justify-center gap-1.5">
+              {data.subGrids.map((grid, i) => {
+                const filled = grid.items.filter(item => item.trim()).length;
+                return (
+                  <button
+                    key={i}
+                    onClick={() => {
+                      setGridIndex(i);
+                      setHintKey(null);
+                      setHints([]);
+                    }}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-full border transition-colors ${
+                      i === gridIndex
+                        ? 'bg-indigo-50 text-indigo-700 border-indigo-200'
+                        : 'bg-white text-slate-500 border-slate-200 hover:text-slate-800'
+                    }`}
+                  >
+                    {data.mainDimensions[i] || t('guided.dimensionN', { n: i + 1 })}
+                    <span className={filled === grid.items.length ? 'text-emerald-600' : 'text-slate-400'}>{filled}/{grid.items.length}</span>
+                  </button>
+                );
+              })}
+            </div>
+            {renderGrid(
+              data.mainDimensions[gridIndex] || t('guided.dimensionN', { n: gridIndex + 1 }),
+              data.subGrids[gridIndex].items,
+              (index) => ideaTargets[index],
+              (index) => t('guided.ideaN', { n: index + 1 })
+            )}
+            {renderHints(ideaTargets)}
+          </div>
+        );
+      case "summary":
+        return (
+          <div className="space-y-4 max-w-xl mx-auto">
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="text-xs font-medium text-slate-500">{t('guided.summary')}</label>
+                {renderHintButton(summaryTarget)}
+              </div>
+              <div className="px-3 py-2 min-h-[5rem] text-sm text-slate-700 bg-slate-50 rounded-lg border border-slate-200">
+                <EditableText
+                  value={data.summary}
+                  onCommit={(value) => applyToTarget(summaryTarget, value)}
+                  isEditing
+                  multiline
+                  align="left"
+                  placeholder={t('guided.summaryPlaceholder')}
+                />
+              </div>
+            </div>
+            {renderHints([summaryTarget])}
+          </div>
+        );
+      case "actions":
+        return (
+          <div className="space-y-3 max-w-xl mx-auto">
+            {data.actions.map((action, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <span className="flex-shrink-0 w-6 h-6 flex items-center justify-center text-xs font-bold text-indigo-600 bg-indigo-50 rounded-full">{i + 1}</span>
+                <div className="flex-1 px-3 py-2 text-sm text-slate-700 bg-slate-50 rounded-lg border border-slate-200">
+                  <EditableText
+                    value={action}
+                    onCommit={(value) => applyToTarget(actionTargets[i], value)}
+                    isEditing
+                    align="left"
+                    placeholder={t('guided.actionN', { n: i + 1 })}
+                  />
+                </div>
+                {renderHintButton(actionTargets[i])}
+                <button
+                  onClick={() => onDataChange(removeAction(data, i))}
+                  disabled={data.actions.length <= 1}
+                  className="p-1 text-slate-300 hover:text-red-600 rounded transition-colors disabled:opacity-30"
+                  title={t('guided.removeAction')}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => onDataChange(addAction(data))}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              {t('guided.addAction')}
+            </button>
+            {renderHints(actionTargets)}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-2xl border border-indigo-100 shadow-sm p-4 md:p-6 space-y-5 animate-in fade-in slide-in-from-top-2 duration-300">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-base font-bold text-slate-800">{t('guided.title')}</h3>
+          <p className="text-xs text-slate-500 mt-0.5">{t('guided.intro')}</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 text-slate-400 hover:text-slate-700 rounded"
+          title={t('guided.close')}
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Step indicator */}
+      <ol className="flex flex-wrap gap-1.5">
+        {GUIDED_STEPS.map((item, i) => {
+          const { filled, total } = getStepProgress(data, item);
+          const complete = isStepComplete(data, item);
+          return (
+            <li key={item}>
+              <button
+                onClick={() => goTo(item)}
+                className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg transition-colors ${
+                  item === step
+                    ? 'bg-indigo-600 text-white'
+                    : complete
+                      ? 'bg-emerald-50 text-emerald-700 hover:bg-emerald-100'
+                      : 'bg-slate-100 text-slate-500 hover:text-slate-800'
+                }`}
+              >
+                {complete && item !== step ? <CheckCircle2 className="w-3.5 h-3.5" /> : <span>{i + 1}</span>}
+                {t(`guided.step.${item}`)}
+                {total > 1 && <span className="opacity-70">{filled}/{total}</span>}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+
+      <p className="text-sm text-slate-600 leading-relaxed">{t(`guided.step.${step}Hint`)}</p>
+
+      {renderStep()}
+
+      <div className="flex items-center justify-between border-t border-slate-100 pt-4">
+        <button
+          onClick={() => goTo(GUIDED_STEPS[stepIndex - 1])}
+          disabled={stepIndex === 0}
+          className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium text-slate-500 hover:text-slate-800 rounded-lg transition-colors disabled:opacity-30"
+        >
+          <ChevronLeft className="w-4 h-4" />
+          {t('guided.previous')}
+        </button>
+        {stepIndex < GUIDED_STEPS.length - 1 ? (
+          <button
+            onClick={() => goTo(GUIDED_STEPS[stepIndex + 1])}
+            className="flex items-center gap-1 px-4 py-1.5 text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors"
+          >
+            {t('guided.next')}
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        ) : (
+          <button
+            onClick={onClose}
+            className="flex items-center gap-1.5 px-4 py-1.5 text-sm font-medium text-white bg-emerald-600 hover:bg-emerald-700 rounded-lg transition-colors"
+          >
+            <CheckCircle2 className="w-4 h-4" />
+            {t('guided.finish')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,297 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MandalaNode, MandalaRevision, RevisionKind, SavedMandala } from '../types';
+import { listRevisions } from '../services/storageService';
+import { CellDiff, RevisionChanges, diffGrid, isSameSnapshot, summarizeChanges, toSnapshot } from '../services/revisionHistory';
+import { Locale } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { History, X, Loader2, RotateCcw, ArrowRight } from 'lucide-react';
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  mandala: SavedMandala;
+  // Changes whenever a revision has been recorded
+  version: number;
+  onRestore: (revision: MandalaRevision) => void;
+}
+
+// A recorded revision, or (kind null) the open state when it is not recorded yet
+interface TimelineEntry {
+  id: string;
+  kind: RevisionKind | null;
+  createdAt: number;
+  snapshot: MandalaNode;
+}
+
+const CURRENT_ID = 'current';
+
+const formatTimestamp = (ms: number, locale: Locale) =>
+  new Date(ms).toLocaleString(locale, {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+const CELL_CLASSES: Record<NonNullable<CellDiff['change']>, string> = {
+  added: 'bg-emerald-50 text-emerald-800',
+  removed: 'bg-rose-50 text-rose-700',
+  changed: 'bg-amber-50 text-amber-900',
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ isOpen, onClose, mandala, version, onRestore }) => {
+  const { locale, t } = useI18n();
+  const [revisions, setRevisions] = useState<MandalaRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [baseId, setBaseId] = useState<string | null>(null);
+
+  // Each opening starts from the newest state against the one before it
+  useEffect(() => {
+    setTargetId(null);
+    setBaseId(null);
+  }, [isOpen, mandala.id]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    listRevisions(mandala.id)
+      .then((result) => {
+        if (!cancelled) setRevisions(result);
+      })
+      .catch((err) => {
+        console.error("Failed to load revisions", err);
+        if (!cancelled) setError(t('history.loadFailed'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, mandala.id, version]);
+
+  // Newest first; the open state leads the list until its revision has been written
+  const entries = useMemo<TimelineEntry[]>(() => {
+    const snapshot = toSnapshot(mandala);
+    const latest = revisions[0];
+    return latest && isSameSnapshot(latest.snapshot, snapshot)
+      ? revisions
+      : [{ id: CURRENT_ID, kind: null, createdAt: mandala.updatedAt, snapshot }, ...revisions];
+  }, [mandala, revisions]);
+
+  const indexOf = (id: string | null) => entries.findIndex((entry) => entry.id === id);
+  const targetIndex = Math.max(0, indexOf(targetId));
+  const target = entries[targetIndex];
+  const base = entries[indexOf(baseId)] ?? entries[Math.min(targetIndex + 1, entries.length - 1)];
+
+  const selectTarget = (id: string) => {
+    const index = indexOf(id);
+    setTargetId(id);
+    setBaseId(entries[Math.min(index + 1, entries.length - 1)].id);
+  };
+
+  const diff = useMemo(() => diffGrid(base.snapshot, target.snapshot), [base, target]);
+  const changes = useMemo(() => summarizeChanges(base.snapshot, target.snapshot), [base, target]);
+  // A dimension appears twice on the 9x9 grid; the legend counts it once
+  const cellCounts = diff.reduce<Record<string, number>>((counts, block, blockIndex) => {
+    block.forEach((cell, cellIndex) => {
+      if (cell.change && (blockIndex === 4 || cellIndex !== 4)) counts[cell.change] = (counts[cell.change] ?? 0) + 1;
+    });
+    return counts;
+  }, {});
+
+  const describeChanges = (value: RevisionChanges) => [
+    value.cells ? t('history.change.cells', { count: value.cells }) : '',
+    value.coreConcept ? t('history.change.coreConcept') : '',
+    value.summary ? t('history.change.summary') : '',
+    value.actions ? t('history.change.actions', { count: value.actions }) : '',
+    value.tasks ? t('history.change.tasks', { count: value.tasks }) : '',
+    value.children ? t('history.change.children', { count: value.children }) : '',
+    value.roadmap ? t('history.change.roadmap') : '',
+    value.background ? t('history.change.background') : '',
+  ].filter(Boolean);
+
+  const entryLabel = (entry: TimelineEntry) => (entry.kind ? t(`history.kind.${entry.kind}`) : t('history.current'));
+
+  const entryOption = (entry: TimelineEntry) => `${entryLabel(entry)} · ${formatTimestamp(entry.createdAt, locale)}`;
+
+  const handleRestore = () => {
+    if (target.kind === null || targetIndex === 0) return;
+    if (confirm(t('history.restoreConfirm', { time: formatTimestamp(target.createdAt, locale) }))) {
+      onRestore(target as MandalaRevision);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const details = describeChanges(changes);
+
+  return (
+    <>
+      <div onClick={onClose} className="fixed inset-0 bg-slate-900/20 z-[60]" />
+
+      <div className="fixed inset-4 md:inset-8 bg-white rounded-2xl border border-slate-200 shadow-xl z-[70] flex flex-col overflow-hidden">
+        <div className="h-16 px-4 flex items-center justify-between border-b border-slate-100 flex-shrink-0">
+          <div className="flex items-center gap-2 font-bold text-slate-800 min-w-0">
+            <History className="w-5 h-5 text-indigo-600 flex-shrink-0" />
+            {t('history.title')}
+            <span className="text-sm font-normal text-slate-400 truncate">{mandala.topic}</span>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+            title={t('common.close')}
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-grow flex flex-col md:flex-row min-h-0">
+          <ol className="md:w-72 max-h-48 md:max-h-none flex-shrink-0 overflow-y-auto border-b md:border-b-0 md:border-r border-slate-100 p-3 space-y-1">
+            {isLoading && !revisions.length && (
+              <li className="flex items-center gap-2 text-xs text-slate-400 p-2">
+                <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                {t('history.loading')}
+              </li>
+            )}
+            {error && <li className="text-xs text-red-500 p-2">{error}</li>}
+            {entries.map((entry, i) => {
+              const older = entries[i + 1];
+              const summary = older ? describeChanges(summarizeChanges(older.snapshot, entry.snapshot)) : [];
+              const isTarget = entry.id === target.id;
+              const isBase = entry.id === base.id && !isTarget;
+              return (
+                <li key={entry.id}>
+                  <button
+                    onClick={() => selectTarget(entry.id)}
+                    className={`w-full text-left px-3 py-2 rounded-lg border transition-colors ${
+                      isTarget
+                        ? 'bg-indigo-50 border-indigo-200'
+                        : isBase
+                          ? 'bg-slate-50 border-slate-200'
+                          : 'border-transparent hover:bg-slate-50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={`text-sm font-medium ${isTarget ? 'text-indigo-700' : 'text-slate-700'}`}>
+                        {entryLabel(entry)}
+                      </span>
+                      {i === 0 && (
+                        <span className="text-[10px] px-1.5 py-0.5 rounded-full bg-emerald-50 text-emerald-700">{t('history.latest')}</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-slate-400">{formatTimestamp(entry.createdAt, locale)}</div>
+                    <div className="text-xs text-slate-500 mt-0.5">
+                      {older ? (summary.length ? summary.join(t('timeline.separator')) : t('history.noChanges')) : t('history.oldest')}
+                    </div>
+                  </button>
+                </li>
+              );
+            })}
+            {!isLoading && !revisions.length && (
+              <li className="text-xs text-slate-400 leading-relaxed p-2">{t('history.empty')}</li>
+            )}
+          </ol>
+
+          <div className="flex-grow overflow-y-auto p-4 md:p-6 space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <select
+                value={base.id}
+                onChange={(e) => setBaseId(e.target.value)}
+                className="px-2 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-700 text-xs max-w-[45%]"
+                title={t('history.base')}
+              >
+                {entries.map((entry) => (
+                  <option key={entry.id} value={entry.id}>{entryOption(entry)}</option>
+                ))}
+              </select>
+              <ArrowRight className="w-4 h-4 text-slate-400" />
+              <select
+                value={target.id}
+                onChange={(e) => setTargetId(e.target.value)}
+                className="px-2 py-1.5 rounded-lg border border-slate-200 bg-white text-slate-700 text-xs max-w-[45%]"
+                title={t('history.target')}
+              >
+                {entries.map((entry) => (
+                  <option key={entry.id} value={entry.id}>{entryOption(entry)}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleRestore}
+                disabled={target.kind === null || targetIndex === 0}
+                className="ml-auto flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-40"
+                title={targetIndex === 0 ? t('history.restoreLatest') : t('history.restoreTitle')}
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+                {t('history.restore')}
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 text-xs">
+              {(['added', 'changed', 'removed'] as const).map((change) => (
+                <span key={change} className={`px-2 py-0.5 rounded ${CELL_CLASSES[change]}`}>
+                  {t(`history.legend.${change}`, { count: cellCounts[change] ?? 0 })}
+                </span>
+              ))}
+              {base.id === target.id && <span className="text-slate-400">{t('history.sameRevision')}</span>}
+            </div>
+
+            <div className="grid grid-cols-3 gap-2 md:gap-3 aspect-square max-w-3xl mx-auto">
+              {diff.map((block, blockIndex) => (
+                <div
+                  key={blockIndex}
+                  className={`grid grid-cols-3 gap-px bg-slate-200 rounded-lg overflow-hidden border ${
+                    blockIndex === 4 ? 'border-indigo-300' : 'border-slate-200'
+                  }`}
+                >
+                  {block.map((cell, cellIndex) => {
+                    const isCenter = cellIndex === 4;
+                    const baseClass = isCenter
+                      ? blockIndex === 4 ? 'bg-indigo-600 text-white font-bold' : 'bg-slate-100 text-slate-800 font-bold'
+                      : blockIndex === 4 ? 'bg-indigo-50 text-indigo-900 font-semibold' : 'bg-white text-slate-600';
+                    return (
+                      <div
+                        key={cellIndex}
+                        className={`${cell.change ? CELL_CLASSES[cell.change] : baseClass} p-1 flex flex-col items-center justify-center text-center text-[9px] sm:text-[11px] leading-tight break-words overflow-hidden`}
+                        title={cell.change ? `${cell.before || '—'} → ${cell.after || '—'}` : cell.after}
+                      >
+                        {cell.change === 'removed' ? (
+                          <span className="line-through">{cell.before}</span>
+                        ) : (
+                          <>
+                            <span>{cell.after}</span>
+                            {cell.change === 'changed' && (
+                              <span className="line-through text-slate-400 font-normal">{cell.before}</span>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+
+            <div className="max-w-3xl mx-auto text-sm">
+              <div className="text-xs font-semibold text-slate-500 mb-1">{t('history.details')}</div>
+              <p className="text-slate-600">{details.length ? details.join(t('timeline.separator')) : t('history.noChanges')}</p>
+              {changes.coreConcept && (
+                <p className="mt-2 text-xs text-slate-500">
+                  <span className="font-medium">{t('history.coreConceptLabel')}</span>
+                  <span className="line-through text-slate-400">{base.snapshot.data.coreConcept}</span>
+                  {' → '}
+                  {target.snapshot.data.coreConcept}
+                </p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
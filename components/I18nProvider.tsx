@@ -0,0 +1,49 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import {
+  LanguageSettings,
+  Locale,
+  MessageKey,
+  MessageParams,
+  getLanguageSettings,
+  setLanguageSettings,
+  translate
+} from '../services/i18n';
+
+interface I18nContextValue {
+  locale: Locale;
+  settings: LanguageSettings;
+  setSettings: (settings: LanguageSettings) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+}
+
+const I18nContext = createContext<I18nContextValue>({
+  locale: 'zh-TW',
+  settings: { uiLocale: 'zh-TW', contentLocale: 'zh-TW' },
+  setSettings: () => {},
+  t: (key, params) => translate('zh-TW', key, params),
+});
+
+// Holds the language settings for the whole app; prompts read the same settings from storage
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [settings, setSettingsState] = useState<LanguageSettings>(getLanguageSettings);
+  const locale = settings.uiLocale;
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setSettings = (next: LanguageSettings) => {
+    setSettingsState(next);
+    setLanguageSettings(next);
+  };
+
+  return (
+    <I18nContext.Provider
+      value={{ locale, settings, setSettings, t: (key, params) => translate(locale, key, params) }}
+    >
+      {children}
+    </I18nContext.Provider>
+  );
+};
+
+export const useI18n = () => useContext(I18nContext);
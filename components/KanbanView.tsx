@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { MandalaResult, ChecklistItem, TaskStatus } from '../types';
+import { TASK_STATUSES, BoardTask, collectTasks, getTaskStatus, isOverdue, withStatus } from '../services/taskSchedule';
+import { getOverallProgress } from '../services/checklistProgress';
+import { DimensionTag } from './DimensionTag';
+import { ProgressBadge } from './ProgressBadge';
+import { useI18n } from './I18nProvider';
+import { Columns3, CalendarDays, User, Star, Clock } from 'lucide-react';
+
+const COLUMN_STYLES: Record<TaskStatus, string> = {
+  todo: 'border-t-slate-400',
+  inProgress: 'border-t-sky-400',
+  blocked: 'border-t-red-400',
+  done: 'border-t-emerald-400',
+};
+
+interface KanbanViewProps {
+  data: MandalaResult;
+  topic: string;
+  checklists: Record<number, ChecklistItem[]>;
+  onChecklistChange: (dimensionIndex: number, items: ChecklistItem[]) => void;
+}
+
+// Every dimension's checklist on one board, one column per status; dropping a card on a column sets its status
+export const KanbanView: React.FC<KanbanViewProps> = ({ data, topic, checklists, onChecklistChange }) => {
+  const { t } = useI18n();
+  const [dragged, setDragged] = useState<BoardTask | null>(null);
+  const [overColumn, setOverColumn] = useState<TaskStatus | null>(null);
+  const [hiddenDimensions, setHiddenDimensions] = useState<number[]>([]);
+
+  const tasks = collectTasks(checklists).filter(task => !hiddenDimensions.includes(task.dimensionIndex));
+  const dimensionsWithTasks = data.mainDimensions
+    .map((label, dimensionIndex) => ({ label, dimensionIndex }))
+    .filter(({ dimensionIndex }) => checklists[dimensionIndex]?.length);
+
+  const moveTask = (task: BoardTask, status: TaskStatus) => {
+    if (getTaskStatus(task.item) === status) return;
+    const items = checklists[task.dimensionIndex] || [];
+    onChecklistChange(
+      task.dimensionIndex,
+      items.map(item => item.id === task.item.id ? withStatus(item, status) : item)
+    );
+  };
+
+  const handleDrop = (status: TaskStatus) => {
+    if (dragged) moveTask(dragged, status);
+    setDragged(null);
+    setOverColumn(null);
+  };
+
+  const toggleDimension = (dimensionIndex: number) => {
+    setHiddenDimensions(hidden =>
+      hidden.includes(dimensionIndex) ? hidden.filter(i => i !== dimensionIndex) : [...hidden, dimensionIndex]
+    );
+  };
+
+  if (!dimensionsWithTasks.length) {
+    return (
+      <div className="max-w-xl mx-auto text-center py-20 space-y-3 animate-in fade-in duration-500">
+        <Columns3 className="w-10 h-10 text-slate-300 mx-auto" />
+        <h3 className="text-lg font-bold text-slate-700">{t('kanban.emptyTitle')}</h3>
+        <p className="text-slate-500 text-sm">{t('kanban.emptyHint')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      {/* Header & dimension legend (click to show/hide) */}
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm px-4 py-3 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <Columns3 className="w-5 h-5 text-indigo-600" />
+            {t('kanban.title', { topic })}
+          </h3>
+          <ProgressBadge progress={getOverallProgress(checklists)} variant="pill" />
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {dimensionsWithTasks.map(({ label, dimensionIndex }) => {
+            const isHidden = hiddenDimensions.includes(dimensionIndex);
+            return (
+              <button
+                key={dimensionIndex}
+                onClick={() => toggleDimension(dimensionIndex)}
+                className={`transition-opacity ${isHidden ? 'opacity-40 line-through' : ''}`}
+                title={isHidden ? t('kanban.showDimension') : t('kanban.hideDimension')}
+              >
+                <DimensionTag dimensionIndex={dimensionIndex} label={label} className="text-xs px-2 py-1" />
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Columns */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        {TASK_STATUSES.map(status => {
+          const cards = tasks.filter(task => getTaskStatus(task.item) === status);
+          const isOver = overColumn === status && !!dragged;
+          return (
+            <div
+              key={status}
+              onDragOver={(e) => {
+                if (!dragged) return;
+                e.preventDefault();
+                setOverColumn(status);
+              }}
+              onDragLeave={(e) => {
+                // Crossing onto a card inside the column is not leaving it
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setOverColumn(null);
+              }}
+              onDrop={() => handleDrop(status)}
+              className={`flex flex-col rounded-xl border border-slate-200 border-t-4 bg-slate-50 min-h-[320px] transition-colors ${
+                COLUMN_STYLES[status]
+              } ${isOver ? 'bg-indigo-50 ring-2 ring-indigo-200' : ''}`}
+            >
+              <div className="flex items-center justify-between px-3 py-2">
+                <span className="text-sm font-bold text-slate-700">{t(`status.${status}`)}</span>
+                <span className="text-xs text-slate-400 bg-white border border-slate-200 rounded-full px-2">{cards.length}</span>
+              </div>
+
+              <div className="flex-grow space-y-2 px-2 pb-2">
+                {cards.map(task => {
+                  const { item, dimensionIndex } = task;
+                  const overdue = isOverdue(item);
+                  const isDragging = dragged?.item.id === item.id;
+                  return (
+                    <div
+                      key={item.id}
+                      draggable
+                      onDragStart={(e) => {
+                        // Firefox only starts a drag that carries data
+                        e.dataTransfer.setData('text/plain', item.id);
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDragged(task);
+                      }}
+                      onDragEnd={() => {
+                        setDragged(null);
+                        setOverColumn(null);
+                      }}
+                      className={`bg-white rounded-lg border border-slate-200 p-2.5 shadow-sm space-y-1.5 cursor-grab active:cursor-grabbing hover:shadow-md transition-all ${
+                        isDragging ? 'opacity-40' : ''
+                      }`}
+                    >
+                      <DimensionTag dimensionIndex={dimensionIndex} label={data.mainDimensions[dimensionIndex] || ''} />
+                      <p className={`text-sm font-medium leading-snug ${status === 'done' ? 'text-slate-400 line-through' : 'text-slate-800'}`}>
+                        {item.task}
+                      </p>
+                      <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-[11px] text-slate-400">
+                        <span className="flex items-center gap-0.5 text-amber-500" title={t('common.importanceStars', { stars: item.importance })}>
+                          <Star className="w-3 h-3 fill-amber-400" />
+                          {item.importance}
+                        </span>
+                        {item.dueDate && (
+                          <span className={`flex items-center gap-0.5 ${overdue ? 'text-red-600 font-medium' : ''}`} title={overdue ? t('common.overdue') : t('common.dueDate')}>
+                            <CalendarDays className="w-3 h-3" />
+                            {item.dueDate}
+                          </span>
+                        )}
+                        {item.assignee && (
+                          <span className="flex items-center gap-0.5">
+                            <User className="w-3 h-3" />
+                            {item.assignee}
+                          </span>
+                        )}
+                        {item.effortHours !== undefined && (
+                          <span className="flex items-center gap-0.5">
+                            <Clock className="w-3 h-3" />
+                            {item.effortHours}h
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+                {!cards.length && (
+                  <div className="text-center text-xs text-slate-300 py-8 border-2 border-dashed border-slate-200 rounded-lg">
+                    {t('kanban.dropHere')}
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
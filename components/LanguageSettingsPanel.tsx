@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { LOCALE_OPTIONS, Locale, getLocaleLabel } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { Globe, Languages, Loader2, X } from 'lucide-react';
+
+interface LanguageSettingsPanelProps {
+  // Omitted while no mandala is open, which hides the translate section
+  onTranslate?: (locale: Locale) => void;
+  isTranslating?: boolean;
+}
+
+export const LanguageSettingsPanel: React.FC<LanguageSettingsPanelProps> = ({ onTranslate, isTranslating = false }) => {
+  const { settings, setSettings, t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const labelClass = "block text-xs font-medium text-slate-500 mb-1";
+
+  const renderOptions = (name: string, value: Locale, onSelect: (locale: Locale) => void) => (
+    <div className="flex flex-wrap gap-x-4 gap-y-1">
+      {LOCALE_OPTIONS.map((option) => (
+        <label key={option.id} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+          <input
+            type="radio"
+            name={name}
+            checked={value === option.id}
+            onChange={() => onSelect(option.id)}
+            className="accent-indigo-600"
+          />
+          {option.label}
+        </label>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+        title={t('language.title')}
+      >
+        {isTranslating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Globe className="w-4 h-4" />}
+        <span className="hidden md:inline">{getLocaleLabel(settings.uiLocale)}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-xl border border-slate-200 shadow-xl p-4 space-y-4 z-50">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-bold text-slate-800">{t('language.title')}</h3>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="p-1 text-slate-400 hover:text-slate-700 rounded"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div>
+            <label className={labelClass}>{t('language.ui')}</label>
+            {renderOptions('ui-locale', settings.uiLocale, (uiLocale) => setSettings({ ...settings, uiLocale }))}
+          </div>
+
+          <div>
+            <label className={labelClass}>{t('language.content')}</label>
+            {renderOptions('content-locale', settings.contentLocale, (contentLocale) => setSettings({ ...settings, contentLocale }))}
+            <p className="mt-1 text-xs text-slate-400">{t('language.contentHint')}</p>
+          </div>
+
+          {onTranslate && (
+            <div className="border-t border-slate-100 pt-3 space-y-2">
+              <label className={labelClass}>{t('language.translate')}</label>
+              <div className="flex flex-wrap gap-1.5">
+                {LOCALE_OPTIONS.map((option) => (
+                  <button
+                    key={option.id}
+                    onClick={() => onTranslate(option.id)}
+                    disabled={isTranslating}
+                    className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium text-indigo-600 border border-indigo-100 rounded-lg hover:bg-indigo-50 transition-colors disabled:opacity-50"
+                  >
+                    <Languages className="w-3.5 h-3.5" />
+                    {t('language.translateTo', { language: option.label })}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-slate-400 leading-relaxed">
+                {isTranslating ? t('language.translating') : t('language.translateHint')}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
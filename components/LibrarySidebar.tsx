@@ -0,0 +1,194 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { SavedMandala } from '../types';
+import { Library, Search, Copy, Trash2, X, Clock, Download, Upload } from 'lucide-react';
+import { MANDALA_FILE_EXTENSION } from '../services/mandalaFile';
+import { Locale } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+interface LibrarySidebarProps {
+  isOpen: boolean;
+  mandalas: SavedMandala[];
+  activeId: string | null;
+  onClose: () => void;
+  onOpen: (mandala: SavedMandala) => void;
+  onDuplicate: (mandala: SavedMandala) => void;
+  onDelete: (mandala: SavedMandala) => void;
+  onExport: (mandala: SavedMandala) => void;
+  onImport: (file: File) => void;
+}
+
+const formatTimestamp = (ms: number, locale: Locale) =>
+  new Date(ms).toLocaleString(locale, {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export const LibrarySidebar: React.FC<LibrarySidebarProps> = ({
+  isOpen,
+  mandalas,
+  activeId,
+  onClose,
+  onOpen,
+  onDuplicate,
+  onDelete,
+  onExport,
+  onImport
+}) => {
+  const { locale, t } = useI18n();
+  const [query, setQuery] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Search matches the topic, the core concept and the dimension titles
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return mandalas;
+    return mandalas.filter((m) =>
+      [m.topic, m.data.coreConcept, ...m.data.mainDimensions]
+        .some((text) => text?.toLowerCase().includes(q))
+    );
+  }, [mandalas, query]);
+
+  const handleDelete = (e: React.MouseEvent, mandala: SavedMandala) => {
+    e.stopPropagation();
+    if (confirm(t('library.deleteConfirm', { topic: mandala.topic }))) {
+      onDelete(mandala);
+    }
+  };
+
+  const handleDuplicate = (e: React.MouseEvent, mandala: SavedMandala) => {
+    e.stopPropagation();
+    onDuplicate(mandala);
+  };
+
+  const handleExport = (e: React.MouseEvent, mandala: SavedMandala) => {
+    e.stopPropagation();
+    onExport(mandala);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires onChange
+    e.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <>
+      {/* Backdrop */}
+      <div
+        onClick={onClose}
+        className={`fixed inset-0 bg-slate-900/20 z-[60] transition-opacity ${isOpen ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}
+      />
+
+      <aside
+        className={`fixed top-0 left-0 bottom-0 w-80 max-w-[85vw] bg-white border-r border-slate-200 shadow-xl z-[70] flex flex-col transition-transform duration-300 ${
+          isOpen ? 'translate-x-0' : '-translate-x-full'
+        }`}
+      >
+        <div className="h-16 px-4 flex items-center justify-between border-b border-slate-100">
+          <div className="flex items-center gap-2 font-bold text-slate-800">
+            <Library className="w-5 h-5 text-indigo-600" />
+            {t('app.library')}
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="p-2 text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+              title={t('library.importTitle', { extension: MANDALA_FILE_EXTENSION })}
+            >
+              <Upload className="w-4 h-4" />
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.md,.markdown,application/json,text/markdown"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button
+              onClick={onClose}
+              className="p-2 text-slate-400 hover:text-slate-700 hover:bg-slate-100 rounded-lg transition-colors"
+              title={t('common.close')}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-3 border-b border-slate-100">
+          <div className="relative">
+            <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('library.search')}
+              className="w-full pl-9 pr-3 py-2 text-sm rounded-lg border border-slate-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/10 outline-none"
+            />
+          </div>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-2 space-y-1">
+          {filtered.map((m) => {
+            const isActive = m.id === activeId;
+            return (
+              <div
+                key={m.id}
+                onClick={() => onOpen(m)}
+                className={`group px-3 py-2.5 rounded-lg cursor-pointer transition-colors border ${
+                  isActive
+                    ? 'bg-indigo-50 border-indigo-200'
+                    : 'border-transparent hover:bg-slate-50'
+                }`}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className={`text-sm font-medium truncate ${isActive ? 'text-indigo-700' : 'text-slate-800'}`} title={m.topic}>
+                      {m.topic}
+                    </p>
+                    <p className="text-xs text-slate-400 flex items-center gap-1 mt-0.5">
+                      <Clock className="w-3 h-3" />
+                      {formatTimestamp(m.updatedAt, locale)}
+                    </p>
+                  </div>
+                  <div className="flex-shrink-0 flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={(e) => handleExport(e, m)}
+                      className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-white rounded"
+                      title={t('library.export')}
+                    >
+                      <Download className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={(e) => handleDuplicate(e, m)}
+                      className="p-1.5 text-slate-400 hover:text-indigo-600 hover:bg-white rounded"
+                      title={t('library.duplicate')}
+                    >
+                      <Copy className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={(e) => handleDelete(e, m)}
+                      className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-white rounded"
+                      title={t('library.delete')}
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+
+          {filtered.length === 0 && (
+            <div className="p-8 text-center text-sm text-slate-400">
+              {mandalas.length === 0 ? t('library.empty') : t('library.noMatch')}
+            </div>
+          )}
+        </div>
+      </aside>
+    </>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { MandalaNode } from '../types';
+import { NodePath, countNodes } from '../services/mandalaTree';
+import { ChevronRight, GitBranch, CornerDownRight } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface MandalaBreadcrumbsProps {
+  root: MandalaNode;
+  crumbs: { topic: string; path: NodePath }[];
+  activeNode: MandalaNode;
+  onNavigate: (path: NodePath) => void;
+}
+
+// Up: the ancestor chain from the root. Down: the child mandalas expanded from this chart.
+export const MandalaBreadcrumbs: React.FC<MandalaBreadcrumbsProps> = ({
+  root,
+  crumbs,
+  activeNode,
+  onNavigate
+}) => {
+  const { t } = useI18n();
+  // A document without any child mandalas has nothing to navigate
+  if (countNodes(root) <= 1) return null;
+
+  const currentPath = crumbs[crumbs.length - 1].path;
+  const children = Object.entries<MandalaNode>(activeNode.children || {});
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm px-4 py-3 space-y-2">
+      <nav className="flex flex-wrap items-center gap-1 text-sm">
+        <GitBranch className="w-4 h-4 text-indigo-500 mr-1" />
+        {crumbs.map((crumb, i) => {
+          const isLast = i === crumbs.length - 1;
+          return (
+            <React.Fragment key={crumb.path.join('/') || 'root'}>
+              {i > 0 && <ChevronRight className="w-3.5 h-3.5 text-slate-300" />}
+              <button
+                onClick={() => onNavigate(crumb.path)}
+                disabled={isLast}
+                className={`px-2 py-0.5 rounded-md max-w-[200px] truncate transition-colors ${
+                  isLast
+                    ? 'bg-indigo-50 text-indigo-700 font-medium cursor-default'
+                    : 'text-slate-500 hover:text-indigo-600 hover:bg-slate-50'
+                }`}
+                title={crumb.topic}
+              >
+                {crumb.topic}
+              </button>
+            </React.Fragment>
+          );
+        })}
+      </nav>
+
+      {children.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5 text-xs">
+          <span className="text-slate-400 flex items-center gap-1 mr-1">
+            <CornerDownRight className="w-3.5 h-3.5" />
+            {t('breadcrumbs.child')}
+          </span>
+          {children.map(([key, child]) => (
+            <button
+              key={key}
+              onClick={() => onNavigate([...currentPath, key])}
+              className="px-2.5 py-1 rounded-full bg-slate-50 border border-slate-200 text-slate-600 hover:bg-indigo-50 hover:text-indigo-600 hover:border-indigo-200 transition-colors max-w-[180px] truncate"
+              title={child.topic}
+            >
+              {child.topic}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Progress } from '../services/checklistProgress';
+import { useI18n } from './I18nProvider';
+
+interface ProgressBadgeProps {
+  progress: Progress | null;
+  // 'bar' sits along the bottom edge of a cell, 'pill' is a compact inline label
+  variant?: 'bar' | 'pill';
+  className?: string;
+}
+
+export const ProgressBadge: React.FC<ProgressBadgeProps> = ({ progress, variant = 'bar', className = '' }) => {
+  const { t } = useI18n();
+  if (!progress) return null;
+
+  const complete = progress.percent === 100;
+  const title = t('progress.title', { ...progress });
+
+  if (variant === 'pill') {
+    return (
+      <span
+        className={`inline-flex items-center text-[10px] font-bold px-1.5 py-0.5 rounded-full leading-none ${
+          complete ? 'bg-emerald-500 text-white' : 'bg-white/90 text-emerald-700 ring-1 ring-emerald-200'
+        } ${className}`}
+        title={title}
+      >
+        {progress.percent}%
+      </span>
+    );
+  }
+
+  return (
+    <div className={`absolute left-0 right-0 bottom-0 h-1 bg-slate-200/70 ${className}`} title={title}>
+      <div
+        className={`h-full transition-all duration-500 ${complete ? 'bg-emerald-500' : 'bg-emerald-400'}`}
+        style={{ width: `${progress.percent}%` }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,300 @@
+import React, { useRef, useState } from 'react';
+import {
+  BuiltInTemplateId,
+  BuiltInVariable,
+  DEFAULT_TEMPLATE,
+  GenerationPreset,
+  MAX_ACTIONS,
+  MIN_ACTIONS,
+  PromptTemplate,
+  TONE_OPTIONS,
+  clampActionCount,
+  deleteUserTemplate,
+  extractVariables,
+  findTemplate,
+  getTemplateFileName,
+  listTemplates,
+  parseTemplateFile,
+  presetFromTemplate,
+  saveUserTemplate,
+  serializeTemplateFile
+} from '../services/promptTemplates';
+import { useI18n } from './I18nProvider';
+import { SlidersHorizontal, ChevronDown, ChevronUp, Save, Plus, Upload, Download, Pencil, Trash2 } from 'lucide-react';
+
+interface PromptTemplatePanelProps {
+  preset: GenerationPreset;
+  onChange: (preset: GenerationPreset) => void;
+  disabled?: boolean;
+}
+
+const BUILT_IN_VARIABLES: BuiltInVariable[] = ['deadline', 'users', 'level', 'hoursPerWeek', 'date', 'attendees', 'budget', 'context'];
+
+// Template, tone, audience and action count for the next generation, plus managing user templates
+export const PromptTemplatePanel: React.FC<PromptTemplatePanelProps> = ({ preset, onChange, disabled = false }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+  const [templates, setTemplates] = useState<PromptTemplate[]>(listTemplates);
+  // The template being created or edited; built-in templates are copied, never edited in place
+  const [draft, setDraft] = useState<PromptTemplate | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const template = findTemplate(preset.templateId);
+  const variables = extractVariables(template.guidance);
+
+  const templateName = (item: PromptTemplate) =>
+    item.builtIn ? t(`template.${item.id as BuiltInTemplateId}.name`) : item.name;
+  const templateDescription = (item: PromptTemplate) =>
+    item.builtIn ? t(`template.${item.id as BuiltInTemplateId}.description`) : item.description;
+  const variableLabel = (name: string) =>
+    template.builtIn && BUILT_IN_VARIABLES.includes(name as BuiltInVariable) ? t(`variable.${name as BuiltInVariable}`) : name;
+
+  const update = (patch: Partial<GenerationPreset>) => onChange({ ...preset, ...patch });
+
+  const selectTemplate = (id: string) => onChange(presetFromTemplate(findTemplate(id), preset));
+
+  const handleSaveDraft = () => {
+    if (!draft || !draft.name.trim() || !draft.persona.trim()) return;
+    // The tone and action count picked right now become the template's suggested defaults
+    const saved = saveUserTemplate({ ...draft, tone: preset.tone, actionCount: preset.actionCount });
+    setTemplates(listTemplates());
+    update({ templateId: saved.id });
+    setDraft(null);
+  };
+
+  const handleDelete = () => {
+    if (template.builtIn || !confirm(t('preset.deleteConfirm', { name: template.name }))) return;
+    deleteUserTemplate(template.id);
+    setTemplates(listTemplates());
+    onChange(presetFromTemplate(DEFAULT_TEMPLATE, preset));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializeTemplateFile({ ...template, name: templateName(template) })], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = getTemplateFileName({ ...template, name: templateName(template) });
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const saved = saveUserTemplate(parseTemplateFile(await file.text()));
+      setTemplates(listTemplates());
+      onChange(presetFromTemplate(saved, preset));
+      alert(t('preset.imported', { name: saved.name }));
+    } catch (err) {
+      console.error("Failed to import prompt template", err);
+      alert(t('preset.importFailed', { message: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const inputClass = "w-full px-3 py-2 text-sm rounded-lg border border-slate-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/10 outline-none bg-white disabled:opacity-50";
+  const labelClass = "block text-xs font-medium text-slate-500 mb-1";
+  const actionClass = "flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors";
+
+  return (
+    <div className="w-full">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="mx-auto flex items-center gap-2 px-3 py-1.5 text-xs font-medium text-slate-500 hover:text-indigo-600 rounded-lg transition-colors"
+      >
+        <SlidersHorizontal className="w-3.5 h-3.5" />
+        {t('preset.summary', {
+          template: templateName(template),
+          tone: t(`tone.${preset.tone}`),
+          count: preset.actionCount
+        })}
+        {isOpen ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 bg-white rounded-xl border border-slate-200 shadow-sm p-4 space-y-4 text-left animate-in fade-in slide-in-from-top-2 duration-200">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="sm:col-span-2">
+              <label className={labelClass}>{t('preset.template')}</label>
+              <select
+                value={template.id}
+                onChange={(e) => selectTemplate(e.target.value)}
+                disabled={disabled}
+                className={inputClass}
+              >
+                <optgroup label={t('preset.builtIn')}>
+                  {templates.filter(item => item.builtIn).map(item => (
+                    <option key={item.id} value={item.id}>{templateName(item)}</option>
+                  ))}
+                </optgroup>
+                {templates.some(item => !item.builtIn) && (
+                  <optgroup label={t('preset.myTemplates')}>
+                    {templates.filter(item => !item.builtIn).map(item => (
+                      <option key={item.id} value={item.id}>{item.name}</option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+              {templateDescription(template) && (
+                <p className="mt-1 text-xs text-slate-400">{templateDescription(template)}</p>
+              )}
+            </div>
+
+            {variables.map(name => (
+              <div key={name}>
+                <label className={labelClass}>{variableLabel(name)}</label>
+                <input
+                  value={preset.variables[name] ?? ''}
+                  onChange={(e) => update({ variables: { ...preset.variables, [name]: e.target.value } })}
+                  disabled={disabled}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+
+            <div>
+              <label className={labelClass}>{t('preset.tone')}</label>
+              <select
+                value={preset.tone}
+                onChange={(e) => update({ tone: e.target.value as GenerationPreset['tone'] })}
+                disabled={disabled}
+                className={inputClass}
+              >
+                {TONE_OPTIONS.map(option => (
+                  <option key={option.id} value={option.id}>{t(`tone.${option.id}`)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>{t('preset.actionCount')}</label>
+              <input
+                type="number"
+                min={MIN_ACTIONS}
+                max={MAX_ACTIONS}
+                value={preset.actionCount}
+                onChange={(e) => update({ actionCount: clampActionCount(e.target.value) })}
+                disabled={disabled}
+                className={inputClass}
+              />
+            </div>
+            <div className="sm:col-span-2">
+              <label className={labelClass}>{t('preset.audience')}</label>
+              <input
+                value={preset.audience}
+                onChange={(e) => update({ audience: e.target.value })}
+                placeholder={t('preset.audiencePlaceholder')}
+                disabled={disabled}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {variables.length > 0 && (
+            <p className="text-xs text-slate-400">{t('preset.variablesHint')}</p>
+          )}
+
+          {/* Template management */}
+          <div className="flex flex-wrap items-center gap-1 border-t border-slate-100 pt-3">
+            <button
+              onClick={() => setDraft({ ...template, name: template.builtIn ? t('preset.copyName', { name: templateName(template) }) : template.name, description: templateDescription(template) })}
+              className={actionClass}
+            >
+              {template.builtIn ? <Save className="w-3.5 h-3.5" /> : <Pencil className="w-3.5 h-3.5" />}
+              {template.builtIn ? t('preset.saveAs') : t('preset.edit')}
+            </button>
+            <button
+              onClick={() => setDraft({ ...DEFAULT_TEMPLATE, id: '', name: '', description: '', persona: '', guidance: '', builtIn: false })}
+              className={actionClass}
+            >
+              <Plus className="w-3.5 h-3.5" />
+              {t('preset.new')}
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className={actionClass}>
+              <Upload className="w-3.5 h-3.5" />
+              {t('preset.import')}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+            <button onClick={handleExport} className={actionClass} title={t('preset.exportTitle')}>
+              <Download className="w-3.5 h-3.5" />
+              {t('preset.export')}
+            </button>
+            {!template.builtIn && (
+              <button onClick={handleDelete} className={`${actionClass} hover:!text-red-600 hover:!bg-red-50`}>
+                <Trash2 className="w-3.5 h-3.5" />
+                {t('preset.delete')}
+              </button>
+            )}
+          </div>
+
+          {draft && (
+            <div className="bg-slate-50 rounded-lg border border-slate-200 p-3 space-y-3">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>{t('preset.name')}</label>
+                  <input
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>{t('preset.persona')}</label>
+                  <input
+                    value={draft.persona}
+                    onChange={(e) => setDraft({ ...draft, persona: e.target.value })}
+                    placeholder={t('preset.personaPlaceholder')}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="sm:col-span-2">
+                  <label className={labelClass}>{t('preset.description')}</label>
+                  <input
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="sm:col-span-2">
+                  <label className={labelClass}>{t('preset.guidance')}</label>
+                  <textarea
+                    value={draft.guidance}
+                    onChange={(e) => setDraft({ ...draft, guidance: e.target.value })}
+                    rows={5}
+                    className={`${inputClass} font-mono text-xs leading-relaxed`}
+                  />
+                  <p className="mt-1 text-xs text-slate-400">{t('preset.guidanceHint')}</p>
+                </div>
+              </div>
+              <div className="flex items-center justify-end gap-2">
+                <button
+                  onClick={() => setDraft(null)}
+                  className="px-3 py-1.5 text-xs font-medium text-slate-500 hover:text-slate-800 rounded-lg transition-colors"
+                >
+                  {t('app.cancel')}
+                </button>
+                <button
+                  onClick={handleSaveDraft}
+                  disabled={!draft.name.trim() || !draft.persona.trim()}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  <Save className="w-3.5 h-3.5" />
+                  {t('preset.save')}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
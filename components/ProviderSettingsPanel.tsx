@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { PROVIDER_OPTIONS, ProviderSettings } from '../services/providers';
+import { Cpu, X } from 'lucide-react';
+import { useI18n } from './I18nProvider';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+}
+
+export const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (patch: Partial<ProviderSettings>) => onChange({ ...settings, ...patch });
+
+  const inputClass = "w-full px-3 py-2 text-sm rounded-lg border border-slate-200 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/10 outline-none";
+  const labelClass = "block text-xs font-medium text-slate-500 mb-1";
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+        title={t('provider.title')}
+      >
+        <Cpu className="w-4 h-4" />
+        <span className="hidden md:inline">
+          {t(`provider.${settings.provider}`)}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-xl border border-slate-200 shadow-xl p-4 space-y-4 z-50">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-bold text-slate-800">{t('provider.heading')}</h3>
+            <button
+              onClick={() => setIsOpen(false)}
+              className="p-1 text-slate-400 hover:text-slate-700 rounded"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="space-y-1">
+            {PROVIDER_OPTIONS.map((id) => (
+              <label key={id} className="flex items-center gap-2 text-sm text-slate-700 cursor-pointer">
+                <input
+                  type="radio"
+                  name="llm-provider"
+                  checked={settings.provider === id}
+                  onChange={() => update({ provider: id })}
+                  className="accent-indigo-600"
+                />
+                {t(`provider.${id}`)}
+              </label>
+            ))}
+          </div>
+
+          {settings.provider === 'gemini' && (
+            <div className="space-y-3">
+              <div>
+                <label className={labelClass}>{t('provider.model')}</label>
+                <input
+                  value={settings.geminiModel}
+                  onChange={(e) => update({ geminiModel: e.target.value })}
+                  className={inputClass}
+                />
+                <p className="mt-1 text-xs text-slate-400">{t('provider.geminiKeyHint')}</p>
+              </div>
+              <div>
+                <label className={labelClass}>{t('provider.embeddingModel')}</label>
+                <input
+                  value={settings.geminiEmbeddingModel}
+                  onChange={(e) => update({ geminiEmbeddingModel: e.target.value })}
+                  className={inputClass}
+                />
+                <p className="mt-1 text-xs text-slate-400">{t('provider.embeddingHint')}</p>
+              </div>
+            </div>
+          )}
+
+          {settings.provider === 'openai' && (
+            <div className="space-y-3">
+              <div>
+                <label className={labelClass}>{t('provider.baseUrl')}</label>
+                <input
+                  value={settings.openAiBaseUrl}
+                  onChange={(e) => update({ openAiBaseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>{t('provider.model')}</label>
+                <input
+                  value={settings.openAiModel}
+                  onChange={(e) => update({ openAiModel: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>{t('provider.embeddingModel')}</label>
+                <input
+                  value={settings.openAiEmbeddingModel}
+                  onChange={(e) => update({ openAiEmbeddingModel: e.target.value })}
+                  placeholder="nomic-embed-text"
+                  className={inputClass}
+                />
+                <p className="mt-1 text-xs text-slate-400">{t('provider.embeddingHint')}</p>
+              </div>
+              <div>
+                <label className={labelClass}>{t('provider.apiKey')}</label>
+                <input
+                  type="password"
+                  value={settings.openAiApiKey}
+                  onChange={(e) => update({ openAiApiKey: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+
+          {settings.provider === 'mock' && (
+            <p className="text-xs text-slate-500 leading-relaxed">
+              {t('provider.mockHint')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,301 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MandalaResult } from '../types';
+import {
+  DuplicateGroup,
+  DimensionOverlap,
+  QualityReport,
+  QualityScores,
+  getEmbeddingTexts,
+  getOverlapTarget,
+  getRedundantCells,
+  pickDistinctCandidate
+} from '../services/qualityAnalysis';
+import { cellKey, renameDimension, replaceSubGridItems, updateSubItem } from '../services/mandalaEditor';
+import { embedTexts, regenerateSubGrid, suggestCellAlternatives } from '../services/geminiService';
+import { useI18n } from './I18nProvider';
+import { ScanSearch, Loader2, Wand2, Eraser, X, CheckCircle2, Sparkles } from 'lucide-react';
+
+interface QualityPanelProps {
+  report: QualityReport;
+  data: MandalaResult;
+  topic: string;
+  lockedCells: string[];
+  onDataChange: (data: MandalaResult) => void;
+  // Provider vectors by text; null while semantic matching is off
+  vectors: Map<string, number[]> | null;
+  onVectorsChange: (vectors: Map<string, number[]> | null) => void;
+  onDismiss: (issueId: string) => void;
+  // The issue whose cells are outlined on the dashboard
+  focusedIssue: string | null;
+  onFocusIssue: (issueId: string | null) => void;
+}
+
+const SCORE_KEYS = ['exclusivity', 'distinctness', 'completeness'] as const;
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'text-emerald-600' : score >= 60 ? 'text-amber-600' : 'text-rose-600';
+
+export const QualityPanel: React.FC<QualityPanelProps> = ({
+  report,
+  data,
+  topic,
+  lockedCells,
+  onDataChange,
+  vectors,
+  onVectorsChange,
+  onDismiss,
+  focusedIssue,
+  onFocusIssue
+}) => {
+  const { t } = useI18n();
+  const [isEmbedding, setIsEmbedding] = useState(false);
+  const [embedError, setEmbedError] = useState<string | null>(null);
+  const [fixingIssue, setFixingIssue] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // With semantic matching on, texts added by edits or fixes are embedded as they appear
+  const missingTexts = vectors ? getEmbeddingTexts(data).filter((text) => !vectors.has(text)) : [];
+  const missingKey = missingTexts.join('\n');
+  useEffect(() => {
+    if (!vectors || !missingTexts.length || abortRef.current) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsEmbedding(true);
+    setEmbedError(null);
+    embedTexts(missingTexts, controller.signal)
+      .then((result) => {
+        if (controller.signal.aborted) return;
+        const next = new Map(vectors);
+        missingTexts.forEach((text, i) => next.set(text, result[i]));
+        onVectorsChange(next);
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return;
+        console.error("Embedding failed:", err);
+        setEmbedError(t('quality.embedFailed', { message: err instanceof Error ? err.message : String(err) }));
+        onVectorsChange(null);
+      })
+      .finally(() => {
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          setIsEmbedding(false);
+        }
+      });
+  }, [vectors, missingKey]);
+
+  const toggleSemantic = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsEmbedding(false);
+    setEmbedError(null);
+    onVectorsChange(vectors ? null : new Map());
+  };
+
+  const dimensionName = (index: number) => data.mainDimensions[index] || t('guided.dimensionN', { n: index + 1 });
+
+  // Everything else in the chart, for keeping a replacement from repeating another cell
+  const otherTexts = (next: MandalaResult, skip: (gridIndex: number, itemIndex: number) => boolean) => [
+    ...next.mainDimensions,
+    ...next.subGrids.flatMap((grid, gridIndex) => grid.items.filter((item, itemIndex) => item.trim() && !skip(gridIndex, itemIndex))),
+  ];
+
+  const runFix = async (issueId: string, fix: () => Promise<void>) => {
+    if (fixingIssue) return;
+    setFixingIssue(issueId);
+    try {
+      await fix();
+    } catch (err: any) {
+      console.error("Quality fix failed:", err);
+      alert(err.message || t('quality.fixFailed'));
+    } finally {
+      setFixingIssue(null);
+    }
+  };
+
+  const replaceDuplicates = (group: DuplicateGroup) => runFix(group.id, async () => {
+    let next = data;
+    let replaced = 0;
+    // One cell at a time, so each replacement already sees the previous ones
+    for (const cell of getRedundantCells(group, lockedCells)) {
+      const candidates = await suggestCellAlternatives(topic, next, cell.gridIndex, cell.itemIndex, 3);
+      const others = otherTexts(next, (g, i) => g === cell.gridIndex && i === cell.itemIndex);
+      const value = pickDistinctCandidate(candidates, others);
+      if (!value) continue;
+      next = updateSubItem(next, cell.gridIndex, cell.itemIndex, value);
+      replaced++;
+    }
+    if (!replaced) {
+      alert(t('quality.noReplacement'));
+      return;
+    }
+    onDataChange(next);
+  });
+
+  const clearDuplicates = (group: DuplicateGroup) => {
+    onDataChange(getRedundantCells(group, lockedCells).reduce(
+      (next, cell) => updateSubItem(next, cell.gridIndex, cell.itemIndex, ''),
+      data
+    ));
+  };
+
+  const replaceDimension = (overlap: DimensionOverlap) => runFix(overlap.id, async () => {
+    const index = getOverlapTarget(overlap);
+    const candidates = await suggestCellAlternatives(topic, data, index, null, 3);
+    const value = pickDistinctCandidate(candidates, data.mainDimensions.filter((_, i) => i !== index));
+    if (!value) {
+      alert(t('quality.noReplacement'));
+      return;
+    }
+    const renamed = renameDimension(data, index, value);
+    const locked = data.subGrids[index].items
+      .map((_, itemIndex) => itemIndex)
+      .filter((itemIndex) => lockedCells.includes(cellKey(index, itemIndex)));
+    const items = await regenerateSubGrid(topic, renamed, index, locked);
+    onDataChange(replaceSubGridItems(renamed, index, items));
+  });
+
+  const renderScores = (scores: QualityScores) => (
+    <div className="grid grid-cols-3 gap-2">
+      {SCORE_KEYS.map((key) => (
+        <div key={key} className="bg-slate-50 rounded-lg px-3 py-2">
+          <div className="text-[11px] text-slate-500">{t(`quality.score.${key}`)}</div>
+          <div className={`text-sm font-bold ${scoreColor(Math.round(scores[key] * 100))}`}>{Math.round(scores[key] * 100)}%</div>
+        </div>
+      ))}
+    </div>
+  );
+
+  const issueClass = (id: string) => `p-3 rounded-lg border text-sm transition-colors ${
+    focusedIssue === id ? 'border-indigo-300 bg-indigo-50/50' : 'border-slate-200 bg-white'
+  }`;
+
+  const actionClass = "flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-md transition-colors disabled:opacity-50";
+
+  const issueCount = report.duplicates.length + report.overlaps.length;
+
+  return (
+    <div className="mb-6 bg-white rounded-xl border border-slate-200 shadow-sm p-4 space-y-4 animate-in fade-in slide-in-from-top-2 duration-200">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <ScanSearch className="w-5 h-5 text-indigo-600" />
+          <div>
+            <div className="text-sm font-bold text-slate-800">{t('quality.title')}</div>
+            <div className="text-xs text-slate-400">
+              {report.method === 'embedding' ? t('quality.methodEmbedding') : t('quality.methodLocal')}
+            </div>
+          </div>
+          <div className={`text-2xl font-bold ${scoreColor(report.scores.overall)}`} title={t('quality.overallTitle')}>
+            {report.scores.overall}
+          </div>
+        </div>
+        <button
+          onClick={toggleSemantic}
+          className={`flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-lg border transition-colors ${
+            vectors ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-50'
+          }`}
+          title={t('quality.semanticTitle')}
+        >
+          {isEmbedding ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+          {vectors ? t('quality.semanticOn') : t('quality.semanticOff')}
+        </button>
+      </div>
+
+      {embedError && <p className="text-xs text-rose-600">{embedError}</p>}
+
+      {renderScores(report.scores)}
+
+      {issueCount ? (
+        <ul className="space-y-2" onMouseLeave={() => onFocusIssue(null)}>
+          {report.overlaps.map((overlap) => (
+            <li key={overlap.id} className={issueClass(overlap.id)} onMouseEnter={() => onFocusIssue(overlap.id)}>
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <div className="text-xs font-semibold text-amber-700">{t('quality.overlap', { percent: Math.round(overlap.similarity * 100) })}</div>
+                  <div className="text-slate-700">
+                    {t('quality.overlapBetween', { first: dimensionName(overlap.first), second: dimensionName(overlap.second) })}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onDismiss(overlap.id)}
+                  className="p-1 text-slate-400 hover:text-slate-700 rounded"
+                  title={t('quality.dismiss')}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <div className="mt-2 flex flex-wrap gap-1.5">
+                <button
+                  onClick={() => replaceDimension(overlap)}
+                  disabled={!!fixingIssue}
+                  className={`${actionClass} text-white bg-indigo-600 hover:bg-indigo-700`}
+                >
+                  {fixingIssue === overlap.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wand2 className="w-3 h-3" />}
+                  {t('quality.replaceDimension', { dimension: dimensionName(getOverlapTarget(overlap)) })}
+                </button>
+              </div>
+            </li>
+          ))}
+
+          {report.duplicates.map((group) => {
+            const redundant = getRedundantCells(group, lockedCells);
+            return (
+              <li key={group.id} className={issueClass(group.id)} onMouseEnter={() => onFocusIssue(group.id)}>
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="text-xs font-semibold text-rose-700">
+                      {t('quality.duplicate', { count: group.cells.length, percent: Math.round(group.similarity * 100) })}
+                    </div>
+                    <ul className="mt-1 space-y-0.5">
+                      {group.cells.map((cell) => (
+                        <li key={cellKey(cell.gridIndex, cell.itemIndex)} className="text-slate-700 truncate">
+                          <span className="text-xs text-slate-400">{dimensionName(cell.gridIndex)} · </span>
+                          {data.subGrids[cell.gridIndex]?.items[cell.itemIndex]}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                  <button
+                    onClick={() => onDismiss(group.id)}
+                    className="p-1 text-slate-400 hover:text-slate-700 rounded"
+                    title={t('quality.dismiss')}
+                  >
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                {redundant.length ? (
+                  <div className="mt-2 flex flex-wrap gap-1.5">
+                    <button
+                      onClick={() => replaceDuplicates(group)}
+                      disabled={!!fixingIssue}
+                      className={`${actionClass} text-white bg-indigo-600 hover:bg-indigo-700`}
+                    >
+                      {fixingIssue === group.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wand2 className="w-3 h-3" />}
+                      {t('quality.replaceDuplicates', { count: redundant.length })}
+                    </button>
+                    <button
+                      onClick={() => clearDuplicates(group)}
+                      disabled={!!fixingIssue}
+                      className={`${actionClass} text-slate-600 bg-slate-100 hover:bg-slate-200`}
+                    >
+                      <Eraser className="w-3 h-3" />
+                      {t('quality.clearDuplicates', { count: redundant.length })}
+                    </button>
+                  </div>
+                ) : (
+                  <p className="mt-2 text-xs text-slate-400">{t('quality.allLocked')}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="flex items-center gap-1.5 text-sm text-emerald-700">
+          <CheckCircle2 className="w-4 h-4" />
+          {t('quality.noIssues')}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,31 @@
 import React, { useState } from 'react';
-import { MandalaResult } from '../types';
-import { ClipboardCopy, CheckCircle2, FileDown, Loader2 } from 'lucide-react';
-import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, BorderStyle } from 'docx';
+import { ChecklistItem, MandalaResult, Roadmap } from '../types';
+import {
+  renameDimension,
+  renameSubGrid,
+  updateSubItem,
+  updateCoreConcept,
+  updateSummary,
+  updateAction
+} from '../services/mandalaEditor';
+import { mandalaToMarkdown } from '../services/markdownFormat';
+import { buildMandalaDocx } from '../services/docxExport';
+import { getOverallProgress } from '../services/checklistProgress';
+import { PDF_LAYOUTS, PdfLayout, buildMandalaPdf } from '../services/pdfExport';
+import { EditableText } from './EditableText';
+import { useI18n } from './I18nProvider';
+import { ClipboardCopy, CheckCircle2, FileDown, FileCode, FileText, Loader2 } from 'lucide-react';
 
 interface ReportViewProps {
   data: MandalaResult;
   topic: string;
+  // Included in the Markdown export as task lists, and in the Word export on request
+  checklists?: Record<number, ChecklistItem[]>;
+  // Appended to the Word export as a fifth section when the timeline has been planned
+  roadmap?: Roadmap;
+  isEditing?: boolean;
+  onDataChange?: (data: MandalaResult) => void;
+  onTopicChange?: (topic: string) => void;
 }
 
 // Helper to map center + 8 items to 9 grid slots (0-8)
@@ -31,13 +51,19 @@ interface Grid3x3TableProps {
   items: string[];
   isMain?: boolean;
   title?: React.ReactNode;
+  isEditing?: boolean;
+  onCenterChange?: (value: string) => void;
+  onItemChange?: (index: number, value: string) => void;
 }
 
 const Grid3x3Table: React.FC<Grid3x3TableProps> = ({ 
   center, 
   items, 
   isMain = false, 
-  title 
+  title,
+  isEditing = false,
+  onCenterChange,
+  onItemChange
 }) => {
   const slots = mapToGridSlots(center, items);
 
@@ -59,7 +85,11 @@ const Grid3x3Table: React.FC<Grid3x3TableProps> = ({
                 ${isCenter ? (isMain ? mainCenterStyle : subCenterStyle) : itemStyle}
               `}
             >
-              {text}
+              <EditableText
+                value={text}
+                isEditing={isEditing}
+                onCommit={(value) => isCenter ? onCenterChange?.(value) : onItemChange?.(i < 4 ? i : i - 1, value)}
+              />
             </div>
           );
         })}
@@ -68,139 +98,68 @@ const Grid3x3Table: React.FC<Grid3x3TableProps> = ({
   );
 };
 
-export const ReportView: React.FC<ReportViewProps> = ({ data, topic }) => {
+export const ReportView: React.FC<ReportViewProps> = ({
+  data,
+  topic,
+  checklists = {},
+  roadmap,
+  isEditing = false,
+  onDataChange,
+  onTopicChange
+}) => {
+  const { locale, t } = useI18n();
   const [isExporting, setIsExporting] = useState(false);
+  const [includeChecklists, setIncludeChecklists] = useState(true);
+  const hasChecklists = getOverallProgress(checklists) !== null;
+  const [isPdfMenuOpen, setIsPdfMenuOpen] = useState(false);
+  const [exportingPdf, setExportingPdf] = useState<PdfLayout | null>(null);
 
   const copyToClipboard = () => {
-    const text = `
-主題核心：${data.coreConcept}
-
-【表格 A：主題與 8 大延伸面向（3x3九宮格）】
-${data.mainDimensions.map((dim, i) => `${i + 1}. ${dim}`).join('\n')}
-
-【表格 B：每個面向的 8 個子想法】
-${data.subGrids.map((grid, i) => `
-面向 ${i + 1}：${grid.title}
-${grid.items.map((item, j) => `- ${item}`).join('\n')}
-`).join('\n')}
+    navigator.clipboard.writeText(mandalaToMarkdown(topic, data, checklists));
+    alert(t('report.markdownCopied'));
+  };
 
-整體思考總結：
-${data.summary}
+  const exportToPdf = async (layout: PdfLayout) => {
+    setIsPdfMenuOpen(false);
+    setExportingPdf(layout);
+    try {
+      const blob = await buildMandalaPdf(layout, topic, data, locale, checklists);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${t('export.fileMandala', { name: topic.replace(/\s+/g, '_') })}_${t(`pdf.${layout}`).replace(/\s+/g, '')}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("PDF export failed", error);
+      alert(error instanceof Error ? t('report.pdfFailed', { message: error.message }) : t('report.pdfFailedRetry'));
+    } finally {
+      setExportingPdf(null);
+    }
+  };
 
-可立即採取的 3 個行動建議：
-${data.actions.map(a => `- ${a}`).join('\n')}
-    `;
-    navigator.clipboard.writeText(text);
-    alert('完整報告已複製到剪貼簿！');
+  const exportToMarkdown = () => {
+    const blob = new Blob([mandalaToMarkdown(topic, data, checklists)], { type: 'text/markdown;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${t('export.fileReport', { name: topic.replace(/\s+/g, '_') })}.md`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
   };
 
   const exportToWord = async () => {
     setIsExporting(true);
     try {
-      // Structure the document children
-      const children = [];
-
-      // 1. Title
-      children.push(
-        new Paragraph({
-          text: `曼陀羅思考報告：${data.coreConcept}`,
-          heading: HeadingLevel.TITLE,
-          alignment: AlignmentType.CENTER,
-          spacing: { after: 400 },
-        })
-      );
-
-      // 2. Main Dimensions
-      children.push(
-        new Paragraph({
-          text: "一、8 大關鍵面向",
-          heading: HeadingLevel.HEADING_1,
-          spacing: { before: 200, after: 200 },
-        })
-      );
-
-      data.mainDimensions.forEach((dim, i) => {
-        children.push(
-          new Paragraph({
-            text: `${i + 1}. ${dim}`,
-            bullet: { level: 0 },
-          })
-        );
-      });
-
-      // 3. Detailed Breakdown
-      children.push(
-        new Paragraph({
-          text: "二、詳細展開子想法",
-          heading: HeadingLevel.HEADING_1,
-          spacing: { before: 400, after: 200 },
-        })
-      );
-
-      data.subGrids.forEach((grid, i) => {
-        children.push(
-          new Paragraph({
-            text: `面向 ${i + 1}：${grid.title}`,
-            heading: HeadingLevel.HEADING_2,
-            spacing: { before: 200, after: 100 },
-          })
-        );
-        grid.items.forEach((item) => {
-          children.push(
-            new Paragraph({
-              text: item,
-              bullet: { level: 0 },
-            })
-          );
-        });
-      });
-
-      // 4. Summary
-      children.push(
-        new Paragraph({
-          text: "三、整體思考總結",
-          heading: HeadingLevel.HEADING_1,
-          spacing: { before: 400, after: 200 },
-        })
-      );
-      children.push(
-        new Paragraph({
-          text: data.summary,
-          spacing: { after: 200 },
-        })
-      );
-
-      // 5. Actions
-      children.push(
-        new Paragraph({
-          text: "四、行動建議",
-          heading: HeadingLevel.HEADING_1,
-          spacing: { before: 200, after: 200 },
-        })
-      );
-      data.actions.forEach((action) => {
-        children.push(
-          new Paragraph({
-            text: action,
-            bullet: { level: 0 },
-          })
-        );
-      });
-
-      // Generate Document
-      const doc = new Document({
-        sections: [{
-          properties: {},
-          children: children,
-        }],
-      });
-
-      // Export
-      const blob = await Packer.toBlob(doc);
+      const blob = await buildMandalaDocx(topic, data, locale, { checklists, roadmap, includeChecklists });
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${topic.replace(/\s+/g, '_')}_曼陀羅思考報告.docx`;
+      a.download = `${t('export.fileReport', { name: topic.replace(/\s+/g, '_') })}.docx`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -208,7 +167,7 @@ ${data.actions.map(a => `- ${a}`).join('\n')}
 
     } catch (error) {
       console.error("Export failed", error);
-      alert("匯出 Word 檔案失敗，請稍後再試。");
+      alert(t('report.wordFailed'));
     } finally {
       setIsExporting(false);
     }
@@ -220,8 +179,15 @@ ${data.actions.map(a => `- ${a}`).join('\n')}
       {/* Header Actions */}
       <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
         <div className="bg-gradient-to-r from-indigo-50 to-white px-6 py-4 rounded-xl border border-indigo-100 shadow-sm flex-grow">
-          <h3 className="text-xs font-bold text-indigo-600 uppercase tracking-wide mb-1">1. 核心概念</h3>
-          <p className="text-xl font-medium text-slate-800">{data.coreConcept}</p>
+          <h3 className="text-xs font-bold text-indigo-600 uppercase tracking-wide mb-1">{t('report.coreConcept')}</h3>
+          <p className="text-xl font-medium text-slate-800">
+            <EditableText
+              value={data.coreConcept}
+              isEditing={isEditing}
+              align="left"
+              onCommit={(value) => onDataChange?.(updateCoreConcept(data, value))}
+            />
+          </p>
         </div>
 
         <div className="flex flex-wrap gap-2 flex-shrink-0">
@@ -230,26 +196,72 @@ ${data.actions.map(a => `- ${a}`).join('\n')}
             className="flex items-center justify-center gap-2 text-sm text-slate-600 hover:text-slate-800 bg-white border border-slate-200 hover:bg-slate-50 px-4 py-3 rounded-xl transition-all shadow-sm"
           >
             <ClipboardCopy className="w-4 h-4" />
-            <span className="hidden sm:inline">複製文字</span>
-            <span className="sm:hidden">複製</span>
+            <span className="hidden sm:inline">{t('report.copyMarkdown')}</span>
+            <span className="sm:hidden">{t('report.copy')}</span>
           </button>
 
+          <button 
+            onClick={exportToMarkdown}
+            className="flex items-center justify-center gap-2 text-sm text-slate-600 hover:text-slate-800 bg-white border border-slate-200 hover:bg-slate-50 px-4 py-3 rounded-xl transition-all shadow-sm"
+            title={t('report.downloadMarkdownTitle')}
+          >
+            <FileCode className="w-4 h-4" />
+            <span>.md</span>
+          </button>
+
+          <div className="relative">
+            <button
+              onClick={() => setIsPdfMenuOpen(open => !open)}
+              disabled={exportingPdf !== null}
+              className="flex items-center justify-center gap-2 text-sm text-slate-600 hover:text-slate-800 bg-white border border-slate-200 hover:bg-slate-50 px-4 py-3 rounded-xl transition-all shadow-sm disabled:opacity-70 disabled:cursor-not-allowed"
+            >
+              {exportingPdf ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+              <span>{t('report.exportPdf')}</span>
+            </button>
+            {isPdfMenuOpen && (
+              <div className="absolute right-0 mt-2 w-56 bg-white border border-slate-200 rounded-xl shadow-lg z-20 py-1">
+                {PDF_LAYOUTS.map(layout => (
+                  <button
+                    key={layout}
+                    onClick={() => exportToPdf(layout)}
+                    className="w-full text-left px-4 py-2 hover:bg-indigo-50 transition-colors"
+                  >
+                    <span className="block text-sm font-medium text-slate-700">{t(`pdf.${layout}`)}</span>
+                    <span className="block text-xs text-slate-400">{t(`pdf.${layout}Hint`)}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
           <button 
             onClick={exportToWord}
             disabled={isExporting}
             className="flex items-center justify-center gap-2 text-sm text-white bg-indigo-600 hover:bg-indigo-700 px-4 py-3 rounded-xl transition-all shadow-sm disabled:opacity-70 disabled:cursor-not-allowed"
           >
             {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />}
-            <span>匯出 Word</span>
+            <span>{t('report.exportWord')}</span>
           </button>
+
+          {hasChecklists && (
+            <label className="flex items-center gap-2 text-xs text-slate-500 px-1 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={includeChecklists}
+                onChange={(e) => setIncludeChecklists(e.target.checked)}
+                className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              {t('report.includeChecklists')}
+            </label>
+          )}
         </div>
       </div>
 
       {/* Table A Section */}
       <section>
         <div className="flex items-center gap-2 mb-6 border-b border-slate-200 pb-2">
-          <span className="bg-indigo-600 text-white text-xs font-bold px-2 py-1 rounded">步驟 2</span>
-          <h3 className="font-bold text-slate-800 text-lg">表格 A：主題與 8 大延伸面向（3x3九宮格）</h3>
+          <span className="bg-indigo-600 text-white text-xs font-bold px-2 py-1 rounded">{t('report.step', { step: 2 })}</span>
+          <h3 className="font-bold text-slate-800 text-lg">{t('report.tableA')}</h3>
         </div>
         
         <div className="max-w-md mx-auto">
@@ -257,6 +269,9 @@ ${data.actions.map(a => `- ${a}`).join('\n')}
             center={topic} 
             items={data.mainDimensions} 
             isMain={true}
+            isEditing={isEditing}
+            onCenterChange={onTopicChange}
+            onItemChange={(index, value) => onDataChange?.(renameDimension(data, index, value))}
           />
         </div>
       </section>
@@ -264,8 +279,8 @@ ${data.actions.map(a => `- ${a}`).join('\n')}
       {/* Table B Section */}
       <section>
         <div className="flex items-center gap-2 mb-6 border-b border-slate-200 pb-2">
-          <span className="bg-indigo-600 text-white text-xs font-bold px-2 py-1 rounded">步驟 3</span>
-          <h3 className="font-bold text-slate-800 text-lg">表格 B：每個面向的 8 個子想法（共 8 張表格）</h3>
+          <span className="bg-indigo-600 text-white text-xs font-bold px-2 py-1 rounded">{t('report.step', { step: 3 })}</span>
+          <h3 className="font-bold text-slate-800 text-lg">{t('report.tableB')}</h3>
         </div>
 
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 md:gap-8">
@@ -274,6 +289,9 @@ ${data.actions.map(a => `- ${a}`).join('\n')}
               key={idx}
               center={grid.title}
               items={grid.items}
+              isEditing={isEditing}
+              onCenterChange={(value) => onDataChange?.(renameSubGrid(data, idx, value))}
+              onItemChange={(index, value) => onDataChange?.(updateSubItem(data, idx, index, value))}
               title={
                 <div className="mb-2 flex items-center gap-2">
                    <span className="bg-slate-200 text-slate-700 text-xs font-bold px-1.5 py-0.5 rounded-full min-w-[1.5rem] text-center">
@@ -293,22 +311,35 @@ ${data.actions.map(a => `- ${a}`).join('\n')}
       <section className="grid grid-cols-1 md:grid-cols-2 gap-6 pt-4">
         <div className="bg-emerald-50 rounded-xl border border-emerald-100 p-6">
           <h3 className="font-bold text-emerald-800 mb-3 flex items-center gap-2">
-            整體思考總結
+            {t('report.summary')}
           </h3>
           <p className="text-emerald-900/80 leading-relaxed text-sm whitespace-pre-line">
-            {data.summary}
+            <EditableText
+              value={data.summary}
+              isEditing={isEditing}
+              multiline={true}
+              align="left"
+              onCommit={(value) => onDataChange?.(updateSummary(data, value))}
+            />
           </p>
         </div>
         
         <div className="bg-blue-50 rounded-xl border border-blue-100 p-6">
            <h3 className="font-bold text-blue-800 mb-4 flex items-center gap-2">
-            可立即採取的 3 個行動建議
+            {t('report.actions', { count: data.actions.length })}
            </h3>
            <ul className="space-y-3">
              {data.actions.map((action, i) => (
                <li key={i} className="flex items-start gap-3">
                  <CheckCircle2 className="w-5 h-5 text-blue-600 flex-shrink-0" />
-                 <span className="text-blue-900/80 text-sm font-medium">{action}</span>
+                 <span className="text-blue-900/80 text-sm font-medium flex-grow">
+                   <EditableText
+                     value={action}
+                     isEditing={isEditing}
+                     align="left"
+                     onCommit={(value) => onDataChange?.(updateAction(data, i, value))}
+                   />
+                 </span>
                </li>
              ))}
            </ul>
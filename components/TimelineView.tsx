@@ -0,0 +1,248 @@
+import React, { useRef, useState } from 'react';
+import { MandalaResult, ChecklistItem, Roadmap } from '../types';
+import { generateRoadmap } from '../services/geminiService';
+import {
+  DEFAULT_ROADMAP_WEEKS,
+  collectRoadmapSources,
+  findDependencyConflicts,
+  getItemEndWeek,
+  groupByPhase,
+  moveRoadmapItem
+} from '../services/roadmap';
+import { DimensionTag, getDimensionColor } from './DimensionTag';
+import { useI18n } from './I18nProvider';
+import { CalendarRange, Loader2, RotateCcw, AlertTriangle, Link2, Flag } from 'lucide-react';
+
+const WEEK_OPTIONS = [4, 8, 12, 16, 24];
+
+interface TimelineViewProps {
+  data: MandalaResult;
+  topic: string;
+  checklists: Record<number, ChecklistItem[]>;
+  roadmap?: Roadmap;
+  onRoadmapChange: (roadmap: Roadmap) => void;
+}
+
+interface BarDrag {
+  id: string;
+  originX: number;
+  originWeek: number;
+  week: number;
+}
+
+// Gantt-style plan of the actions and checklist tasks; bars can be dragged sideways to reschedule
+export const TimelineView: React.FC<TimelineViewProps> = ({ data, topic, checklists, roadmap, onRoadmapChange }) => {
+  const { t } = useI18n();
+  const [weeks, setWeeks] = useState(roadmap?.totalWeeks ?? DEFAULT_ROADMAP_WEEKS);
+  const [loading, setLoading] = useState(false);
+  const [drag, setDrag] = useState<BarDrag | null>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  const sources = collectRoadmapSources(data, checklists);
+
+  const handleGenerate = async () => {
+    if (!sources.length) {
+      alert(t('timeline.noSources'));
+      return;
+    }
+    if (roadmap && !confirm(t('timeline.regenerateConfirm'))) return;
+
+    setLoading(true);
+    try {
+      onRoadmapChange(await generateRoadmap(topic, data, sources, weeks));
+    } catch (error) {
+      console.error(error);
+      alert(error instanceof Error ? error.message : t('timeline.generateFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const controls = (
+    <div className="flex items-center gap-2">
+      <select
+        value={weeks}
+        onChange={(e) => setWeeks(Number(e.target.value))}
+        disabled={loading}
+        className="px-2 py-2 rounded-lg border border-slate-200 bg-white text-sm text-slate-700 outline-none focus:border-indigo-400"
+      >
+        {WEEK_OPTIONS.map(option => (
+          <option key={option} value={option}>{t('timeline.weeks', { count: option })}</option>
+        ))}
+      </select>
+      <button
+        onClick={handleGenerate}
+        disabled={loading}
+        className="flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 transition-colors disabled:opacity-50"
+      >
+        {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : roadmap ? <RotateCcw className="w-4 h-4" /> : <CalendarRange className="w-4 h-4" />}
+        {roadmap ? t('timeline.regenerate') : t('timeline.generate')}
+      </button>
+    </div>
+  );
+
+  if (!roadmap) {
+    return (
+      <div className="max-w-xl mx-auto text-center py-20 space-y-4 animate-in fade-in duration-500">
+        <CalendarRange className="w-10 h-10 text-slate-300 mx-auto" />
+        <h3 className="text-lg font-bold text-slate-700">{t('timeline.emptyTitle')}</h3>
+        <p className="text-slate-500 text-sm">
+          {t('timeline.emptyHint', { actions: data.actions.length, tasks: sources.length - data.actions.length })}
+          {t('timeline.emptyTip')}
+        </p>
+        <div className="flex justify-center">{controls}</div>
+      </div>
+    );
+  }
+
+  const conflicts = findDependencyConflicts(roadmap);
+  const titles = new Map(roadmap.items.map(item => [item.id, item.title]));
+  const isStale = sources.length !== roadmap.items.length
+    || sources.some(source => titles.get(source.id) !== source.title);
+  const weekNumbers = Array.from({ length: roadmap.totalWeeks }, (_, i) => i + 1);
+  const toPercent = (week: number) => `${((week - 1) / roadmap.totalWeeks) * 100}%`;
+
+  const weekFromPointer = (current: BarDrag, clientX: number) => {
+    const width = trackRef.current?.getBoundingClientRect().width || 1;
+    return current.originWeek + Math.round((clientX - current.originX) / (width / roadmap.totalWeeks));
+  };
+
+  const handlePointerUp = () => {
+    if (drag && drag.week !== drag.originWeek) {
+      onRoadmapChange(moveRoadmapItem(roadmap, drag.id, drag.week));
+    }
+    setDrag(null);
+  };
+
+  return (
+    <div className="space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm px-4 py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <div>
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <CalendarRange className="w-5 h-5 text-indigo-600" />
+            {t('timeline.title', { topic })}
+          </h3>
+          <p className="text-xs text-slate-400 mt-0.5">{t('timeline.summary', { weeks: roadmap.totalWeeks, count: roadmap.items.length })}</p>
+        </div>
+        {controls}
+      </div>
+
+      {(conflicts.size > 0 || isStale) && (
+        <div className="space-y-1 text-sm">
+          {conflicts.size > 0 && (
+            <p className="flex items-center gap-2 text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {t('timeline.conflicts', { count: conflicts.size })}
+            </p>
+          )}
+          {isStale && (
+            <p className="flex items-center gap-2 text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-3 py-2">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+              {t('timeline.stale')}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl border border-slate-200 shadow-sm overflow-x-auto">
+        <div className="min-w-[760px] text-xs">
+          {/* Week header */}
+          <div className="grid grid-cols-[220px_1fr] border-b border-slate-200 bg-slate-50 sticky top-0">
+            <div className="px-3 py-2 font-bold text-slate-500">{t('timeline.item')}</div>
+            <div
+              ref={trackRef}
+              className="grid"
+              style={{ gridTemplateColumns: `repeat(${roadmap.totalWeeks}, minmax(0, 1fr))` }}
+            >
+              {weekNumbers.map(week => (
+                <div key={week} className="py-2 text-center text-slate-400 border-l border-slate-200">W{week}</div>
+              ))}
+            </div>
+          </div>
+
+          {groupByPhase(roadmap).map(({ phase, items }) => (
+            <div key={phase.name}>
+              {/* Phase band */}
+              <div className="grid grid-cols-[220px_1fr] border-b border-slate-100 bg-indigo-50/40">
+                <div className="px-3 py-1.5 font-bold text-indigo-700 flex items-center gap-1.5 truncate">
+                  <Flag className="w-3.5 h-3.5 flex-shrink-0" />
+                  {phase.name}
+                  <span className="font-normal text-indigo-400">W{phase.startWeek}–W{phase.endWeek}</span>
+                </div>
+                <div className="relative">
+                  <div
+                    className="absolute inset-y-1 rounded bg-indigo-100"
+                    style={{
+                      left: toPercent(phase.startWeek),
+                      width: `${((phase.endWeek - phase.startWeek + 1) / roadmap.totalWeeks) * 100}%`
+                    }}
+                  />
+                </div>
+              </div>
+
+              {items.map(item => {
+                const isDragging = drag?.id === item.id;
+                const startWeek = isDragging ? drag.week : item.startWeek;
+                const hasConflict = conflicts.has(item.id);
+                const dependencies = item.dependsOn.map(dep => titles.get(dep)).filter(Boolean);
+                const barColor = item.dimensionIndex !== undefined ? getDimensionColor(item.dimensionIndex).dot : 'bg-indigo-500';
+                return (
+                  <div key={item.id} className="grid grid-cols-[220px_1fr] border-b border-slate-100 hover:bg-slate-50/60">
+                    <div className="px-3 py-2 space-y-1 min-w-0">
+                      <p className="text-slate-700 font-medium truncate" title={item.title}>{item.title}</p>
+                      {item.dimensionIndex !== undefined ? (
+                        <DimensionTag dimensionIndex={item.dimensionIndex} label={data.mainDimensions[item.dimensionIndex] || ''} />
+                      ) : (
+                        <span className="text-[10px] text-indigo-500 font-medium">{t('timeline.action')}</span>
+                      )}
+                    </div>
+                    <div
+                      className="relative"
+                      style={{
+                        backgroundImage: `repeating-linear-gradient(to right, transparent 0, transparent calc(${100 / roadmap.totalWeeks}% - 1px), #f1f5f9 calc(${100 / roadmap.totalWeeks}% - 1px), #f1f5f9 ${100 / roadmap.totalWeeks}%)`
+                      }}
+                    >
+                      <div
+                        onPointerDown={(e) => {
+                          e.currentTarget.setPointerCapture(e.pointerId);
+                          setDrag({ id: item.id, originX: e.clientX, originWeek: item.startWeek, week: item.startWeek });
+                        }}
+                        onPointerMove={(e) => {
+                          if (!isDragging) return;
+                          const week = Math.min(
+                            roadmap.totalWeeks - item.durationWeeks + 1,
+                            Math.max(1, weekFromPointer(drag, e.clientX))
+                          );
+                          if (week !== drag.week) setDrag({ ...drag, week });
+                        }}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={() => setDrag(null)}
+                        className={`absolute top-2 bottom-2 rounded-md ${barColor} text-white px-1.5 flex items-center gap-1 cursor-grab active:cursor-grabbing select-none touch-none shadow-sm ${
+                          hasConflict ? 'ring-2 ring-red-500 ring-offset-1' : ''
+                        } ${isDragging ? 'opacity-80 shadow-lg' : ''}`}
+                        style={{
+                          left: toPercent(startWeek),
+                          width: `${(item.durationWeeks / roadmap.totalWeeks) * 100}%`
+                        }}
+                        title={[
+                          item.title,
+                          t('timeline.barWeeks', { start: startWeek, end: startWeek + item.durationWeeks - 1 }),
+                          dependencies.length ? t('timeline.dependsOn', { items: dependencies.join(t('timeline.separator')) }) : ''
+                        ].filter(Boolean).join('\n')}
+                      >
+                        {item.dependsOn.length > 0 && <Link2 className="w-3 h-3 flex-shrink-0" />}
+                        <span className="truncate font-medium">
+                          W{startWeek}{item.durationWeeks > 1 ? `–${getItemEndWeek({ ...item, startWeek })}` : ''}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
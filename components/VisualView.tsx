@@ -1,13 +1,42 @@
-import React, { useState, useRef } from 'react';
-import { MandalaResult } from '../types';
-import { ZoomIn, ArrowLeft, Share2, Loader2, Check, FileCode, Image as ImageIcon, Home } from 'lucide-react';
-import { toBlob, toSvg } from 'html-to-image';
+import React, { useRef, useState } from 'react';
+import { ChecklistItem, MandalaResult } from '../types';
+import {
+  renameDimension,
+  renameSubGrid,
+  updateSubItem,
+  replaceSubGridItems,
+  cellKey,
+  getKeptCells
+} from '../services/mandalaEditor';
+import { regenerateSubGrid, suggestCellAlternatives } from '../services/geminiService';
+import { Progress, getDimensionProgress, getOverallProgress } from '../services/checklistProgress';
+import { PNG_SCALES, SvgTarget, rasterizeSvg, renderMandalaSvg } from '../services/svgRenderer';
+import { EditableText } from './EditableText';
+import { ProgressBadge } from './ProgressBadge';
+import { useI18n } from './I18nProvider';
+import { ZoomIn, ArrowLeft, Share2, Loader2, Check, FileCode, Image as ImageIcon, Home, Lock, Unlock, RefreshCw, Wand2, Layers, Trash2, Download } from 'lucide-react';
 
 interface VisualViewProps {
   data: MandalaResult;
   topic: string;
+  isEditing?: boolean;
+  onDataChange?: (data: MandalaResult) => void;
+  onTopicChange?: (topic: string) => void;
+  lockedCells?: string[];
+  onLockedCellsChange?: (keys: string[]) => void;
+  // Sub-items that already have a child mandala, as cellKey values
+  expandedCells?: string[];
+  onExpandCell?: (gridIndex: number, itemIndex: number) => void;
+  onRemoveChild?: (gridIndex: number, itemIndex: number) => void;
+  // Saved checklists, used to overlay task progress on the dimension cells
+  checklists?: Record<number, ChecklistItem[]>;
 }
 
+// Selected cell inside the focused sub-grid: an item index, or 'center' for the dimension title
+type CellSelection = number | 'center';
+
+type ImageExportAction = 'copyPng' | 'downloadPng' | 'copySvg' | 'downloadSvg';
+
 // A 3x3 Grid Component
 const Grid3x3 = ({
   centerText,
@@ -15,7 +44,16 @@ const Grid3x3 = ({
   onCellClick,
   className = "",
   highlightCenter = false,
-  isMain = false
+  isMain = false,
+  isEditing = false,
+  onCenterChange,
+  onItemChange,
+  onCenterClick,
+  selected = null,
+  lockedIndexes,
+  expandedIndexes,
+  centerProgress = null,
+  itemProgress
 }: {
   centerText: string;
   surroundingTexts: string[];
@@ -23,6 +61,15 @@ const Grid3x3 = ({
   className?: string;
   highlightCenter?: boolean;
   isMain?: boolean;
+  isEditing?: boolean;
+  onCenterChange?: (value: string) => void;
+  onItemChange?: (index: number, value: string) => void;
+  onCenterClick?: () => void;
+  selected?: CellSelection | null;
+  lockedIndexes?: Set<number>;
+  expandedIndexes?: Set<number>;
+  centerProgress?: Progress | null;
+  itemProgress?: (Progress | null)[];
 }) => {
   // Map index to visual grid position (0-8)
   // Visual Layout:
@@ -46,7 +93,10 @@ const Grid3x3 = ({
         const text = isCenter ? centerText : (surroundingTexts?.[mapIndexToSlot(i)] || '');
         
         // Interaction styles
-        const clickable = !isCenter && text && onCellClick;
+        const clickable = isCenter ? !!onCenterClick : !!(text && onCellClick);
+        const isSelected = isCenter ? selected === 'center' : selected === mapIndexToSlot(i);
+        const isLocked = !isCenter && !!lockedIndexes?.has(mapIndexToSlot(i));
+        const isExpanded = !isCenter && !!expandedIndexes?.has(mapIndexToSlot(i));
         const baseStyles = "flex items-center justify-center p-1 text-center text-xs md:text-sm break-words overflow-hidden rounded transition-all duration-200 select-none leading-tight";
         const centerStyles = isMain 
           ? "bg-indigo-600 text-white font-bold text-sm md:text-base shadow-inner" 
@@ -55,14 +105,31 @@ const Grid3x3 = ({
           ? centerStyles 
           : "bg-white text-slate-700 hover:bg-indigo-50 border border-slate-100";
         const cursorStyles = clickable ? "cursor-pointer hover:scale-[1.02] hover:shadow-md active:scale-95 z-10" : "";
+        const selectedStyles = isSelected ? "ring-2 ring-amber-400 ring-offset-1 z-20" : "";
 
         return (
           <div
             key={i}
-            onClick={() => clickable && onCellClick && onCellClick(mapIndexToSlot(i))}
-            className={`${baseStyles} ${cellStyles} ${cursorStyles} h-full w-full`}
+            onClick={() => {
+              if (!clickable) return;
+              if (isCenter) onCenterClick?.();
+              else onCellClick?.(mapIndexToSlot(i));
+            }}
+            className={`${baseStyles} ${cellStyles} ${cursorStyles} ${selectedStyles} relative h-full w-full`}
           >
-            {text}
+            {isLocked && <Lock className="absolute top-1 right-1 w-3 h-3 text-amber-500" />}
+            {isExpanded && <Layers className="absolute bottom-1 right-1 w-3 h-3 text-indigo-500" />}
+            {isCenter && centerProgress && (
+              <ProgressBadge progress={centerProgress} variant="pill" className="absolute top-1 right-1" />
+            )}
+            {!isCenter && itemProgress?.[mapIndexToSlot(i)] && (
+              <ProgressBadge progress={itemProgress[mapIndexToSlot(i)]} variant="pill" className="absolute top-1 left-1" />
+            )}
+            <EditableText
+              value={text}
+              isEditing={isEditing}
+              onCommit={(value) => isCenter ? onCenterChange?.(value) : onItemChange?.(mapIndexToSlot(i), value)}
+            />
           </div>
         );
       })}
@@ -70,80 +137,196 @@ const Grid3x3 = ({
   );
 };
 
-export const VisualView: React.FC<VisualViewProps> = ({ data, topic }) => {
+export const VisualView: React.FC<VisualViewProps> = ({
+  data,
+  topic,
+  isEditing = false,
+  onDataChange,
+  onTopicChange,
+  lockedCells = [],
+  onLockedCellsChange,
+  expandedCells = [],
+  onExpandCell,
+  onRemoveChild,
+  checklists = {}
+}) => {
+  const { t } = useI18n();
   const [activeSubGridIndex, setActiveSubGridIndex] = useState<number | null>(null);
-  const [isSharingPng, setIsSharingPng] = useState(false);
-  const [isSharingSvg, setIsSharingSvg] = useState(false);
-  const gridRef = useRef<HTMLDivElement>(null);
+  const [selectedCell, setSelectedCell] = useState<CellSelection | null>(null);
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [exportScope, setExportScope] = useState<'view' | 'dashboard'>('view');
+  const [pngScale, setPngScale] = useState(2);
+  const [exportingAction, setExportingAction] = useState<ImageExportAction | null>(null);
+  // Props as of the latest render, for AI results that arrive after further edits
+  const latestRef = useRef({ data, lockedCells, expandedCells });
+  latestRef.current = { data, lockedCells, expandedCells };
 
-  const handleMainGridClick = (index: number) => {
+  const selectSubGrid = (index: number | null) => {
     setActiveSubGridIndex(index);
+    setSelectedCell(null);
+    setSuggestions([]);
+  };
+
+  const handleMainGridClick = (index: number) => {
+    selectSubGrid(index);
   };
 
   const handleBack = () => {
-    setActiveSubGridIndex(null);
+    selectSubGrid(null);
   };
 
-  const handleSharePng = async () => {
-    if (!gridRef.current || isSharingPng) return;
-    
-    setIsSharingPng(true);
-    try {
-      await new Promise(resolve => setTimeout(resolve, 100));
+  const handleSelectCell = (cell: CellSelection) => {
+    setSelectedCell(selectedCell === cell ? null : cell);
+    setSuggestions([]);
+  };
 
-      const blob = await toBlob(gridRef.current, {
-        cacheBust: true,
-        backgroundColor: '#f8fafc',
-        pixelRatio: 2,
-      });
+  const lockedIndexesFor = (gridIndex: number) => {
+    const locked = new Set<number>();
+    data.subGrids[gridIndex]?.items.forEach((_, itemIndex) => {
+      if (lockedCells.includes(cellKey(gridIndex, itemIndex))) locked.add(itemIndex);
+    });
+    return locked;
+  };
 
-      if (!blob) throw new Error("Failed to generate image blob");
+  const expandedIndexesFor = (gridIndex: number) =>
+    new Set<number>(
+      (data.subGrids[gridIndex]?.items || [])
+        .map((_, itemIndex) => itemIndex)
+        .filter(itemIndex => expandedCells.includes(cellKey(gridIndex, itemIndex)))
+    );
 
-      const item = new ClipboardItem({ [blob.type]: blob });
-      await navigator.clipboard.write([item]);
-      
-      alert("圖片已複製到剪貼簿！(PNG)");
+  // Locked and expanded cells alike survive regeneration
+  const keptIndexesFor = (gridIndex: number) => {
+    const kept = getKeptCells(lockedCells, expandedCells);
+    return new Set<number>(
+      (data.subGrids[gridIndex]?.items || [])
+        .map((_, itemIndex) => itemIndex)
+        .filter(itemIndex => kept.includes(cellKey(gridIndex, itemIndex)))
+    );
+  };
 
-    } catch (err) {
-      console.error("PNG Share failed:", err);
-      alert("複製圖片失敗，請檢查瀏覽器權限或稍後再試。");
+  const toggleLock = (gridIndex: number, itemIndex: number) => {
+    const key = cellKey(gridIndex, itemIndex);
+    onLockedCellsChange?.(
+      lockedCells.includes(key) ? lockedCells.filter(k => k !== key) : [...lockedCells, key]
+    );
+  };
+
+  const handleRegenerateSubGrid = async () => {
+    if (activeSubGridIndex === null || isRegenerating) return;
+    const gridIndex = activeSubGridIndex;
+    const before = data.subGrids[gridIndex];
+    setIsRegenerating(true);
+    setSuggestions([]);
+    try {
+      const items = await regenerateSubGrid(topic, data, gridIndex, Array.from(keptIndexesFor(gridIndex)));
+      const latest = latestRef.current;
+      const grid = latest.data.subGrids[gridIndex];
+      // Edited while the model was working: the result was built on text that is gone
+      if (JSON.stringify(grid) !== JSON.stringify(before)) {
+        alert(t('visual.regenerateStale'));
+        return;
+      }
+      // Cells locked or expanded in the meantime keep their text as well
+      const kept = getKeptCells(latest.lockedCells, latest.expandedCells);
+      onDataChange?.(replaceSubGridItems(latest.data, gridIndex, items.map((item, i) =>
+        kept.includes(cellKey(gridIndex, i)) ? grid.items[i] : item
+      )));
+    } catch (err: any) {
+      console.error("Sub-grid regeneration failed:", err);
+      alert(err.message || t('visual.regenerateFailed'));
     } finally {
-      setIsSharingPng(false);
+      setIsRegenerating(false);
     }
   };
 
-  const handleShareSvg = async () => {
-    if (!gridRef.current || isSharingSvg) return;
-    
-    setIsSharingSvg(true);
+  const handleSuggest = async () => {
+    if (activeSubGridIndex === null || selectedCell === null || isSuggesting) return;
+    setIsSuggesting(true);
+    setSuggestions([]);
     try {
-      await new Promise(resolve => setTimeout(resolve, 100));
-
-      // toSvg returns a data URL (data:image/svg+xml;charset=utf-8,...)
-      const dataUrl = await toSvg(gridRef.current, {
-        cacheBust: true,
-        backgroundColor: '#f8fafc',
-      });
-
-      // Extract raw SVG string from data URL
-      // Format: data:image/svg+xml;charset=utf-8,<svg ...
-      const prefix = 'data:image/svg+xml;charset=utf-8,';
-      if (dataUrl.startsWith(prefix)) {
-        const svgContent = decodeURIComponent(dataUrl.substring(prefix.length));
-        await navigator.clipboard.writeText(svgContent);
-        alert("SVG 原始碼已複製到剪貼簿！");
+      const result = await suggestCellAlternatives(
+        topic,
+        data,
+        activeSubGridIndex,
+        selectedCell === 'center' ? null : selectedCell
+      );
+      if (!result.length) alert(t('visual.noAlternatives'));
+      setSuggestions(result);
+    } catch (err: any) {
+      console.error("Cell suggestions failed:", err);
+      alert(err.message || t('visual.alternativesFailed'));
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  // Replacing an expanded cell drops its child mandala; the app asks first, as for inline edits
+  const applySuggestion = (value: string) => {
+    if (activeSubGridIndex === null || selectedCell === null) return;
+    onDataChange?.(
+      selectedCell === 'center'
+        ? renameSubGrid(data, activeSubGridIndex, value)
+        : updateSubItem(data, activeSubGridIndex, selectedCell, value)
+    );
+    setSuggestions([]);
+  };
+
+  const exportTarget = (): SvgTarget => {
+    if (exportScope === 'dashboard') return { kind: 'dashboard' };
+    return activeSubGridIndex === null ? { kind: 'main' } : { kind: 'subGrid', index: activeSubGridIndex };
+  };
+
+  const exportFileName = (extension: string) => {
+    const scope = exportScope === 'dashboard'
+      ? '9x9'
+      : activeSubGridIndex === null
+        ? t('export.fileCenter')
+        : data.subGrids[activeSubGridIndex]?.title || t('export.fileDimension', { n: activeSubGridIndex + 1 });
+    return `${topic}_${scope}`.replace(/[\\/:*?"<>|\s]+/g, '_') + extension;
+  };
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImageExport = async (action: ImageExportAction) => {
+    if (exportingAction) return;
+    setExportingAction(action);
+    try {
+      const svg = renderMandalaSvg(exportTarget(), topic, data);
+      if (action === 'copySvg') {
+        await navigator.clipboard.writeText(svg);
+        alert(t('visual.svgCopied'));
+      } else if (action === 'downloadSvg') {
+        downloadBlob(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }), exportFileName('.svg'));
       } else {
-        // Fallback for unexpected formats (e.g. base64)
-        console.warn("Unexpected data URL format, copying raw URL");
-        await navigator.clipboard.writeText(dataUrl);
-        alert("SVG Data URL 已複製到剪貼簿。");
+        const png = await rasterizeSvg(svg, pngScale);
+        if (action === 'copyPng') {
+          await navigator.clipboard.write([new ClipboardItem({ [png.type]: png })]);
+          alert(t('visual.pngCopied'));
+        } else {
+          downloadBlob(png, exportFileName(`@${pngScale}x.png`));
+        }
       }
-
+      setIsExportMenuOpen(false);
     } catch (err) {
-      console.error("SVG Share failed:", err);
-      alert("複製 SVG 失敗。");
+      console.error("Image export failed:", err);
+      alert(action.startsWith('copy')
+        ? t('visual.copyFailed')
+        : t('visual.exportFailed'));
     } finally {
-      setIsSharingSvg(false);
+      setExportingAction(null);
     }
   };
 
@@ -159,44 +342,101 @@ export const VisualView: React.FC<VisualViewProps> = ({ data, topic }) => {
               className="flex items-center gap-2 px-4 py-2 bg-white border border-indigo-100 text-indigo-600 rounded-full hover:bg-indigo-50 transition-colors shadow-sm text-sm font-medium"
             >
               <ArrowLeft className="w-4 h-4" />
-              返回中心
+              {t('visual.back')}
             </button>
           ) : (
             <div className="text-slate-500 text-sm flex items-center gap-2">
               <ZoomIn className="w-4 h-4" />
-              點擊周圍方格可深入查看細節
+              {t('visual.drillHint')}
             </div>
           )}
         </div>
 
-        {/* Share Buttons */}
-        <div className="flex-none flex items-center gap-2">
+        {/* Image Export */}
+        <div className="flex-none relative">
           <button
-            onClick={handleSharePng}
-            disabled={isSharingPng || isSharingSvg}
-            className="flex items-center gap-2 px-3 py-2 text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors text-sm font-medium disabled:opacity-50"
-            title="將目前圖表複製為 PNG 圖片"
+            onClick={() => setIsExportMenuOpen(open => !open)}
+            className="flex items-center gap-2 px-3 py-2 text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors text-sm font-medium"
+            title={t('visual.exportTitle')}
           >
-            {isSharingPng ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImageIcon className="w-4 h-4" />}
-            <span className="hidden sm:inline">{isSharingPng ? '處理中...' : '複製圖片'}</span>
+            {exportingAction ? <Loader2 className="w-4 h-4 animate-spin" /> : <Share2 className="w-4 h-4" />}
+            <span className="hidden sm:inline">{t('visual.export')}</span>
           </button>
-          
-          <div className="w-px h-4 bg-slate-300 mx-1"></div>
 
-          <button
-            onClick={handleShareSvg}
-            disabled={isSharingPng || isSharingSvg}
-            className="flex items-center gap-2 px-3 py-2 text-slate-600 hover:text-pink-600 hover:bg-pink-50 rounded-lg transition-colors text-sm font-medium disabled:opacity-50"
-            title="將目前圖表複製為 SVG 程式碼"
-          >
-            {isSharingSvg ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileCode className="w-4 h-4" />}
-            <span className="hidden sm:inline">{isSharingSvg ? '處理中...' : '複製 SVG'}</span>
-          </button>
+          {isExportMenuOpen && (
+            <div className="absolute right-0 mt-2 w-64 bg-white border border-slate-200 rounded-xl shadow-lg z-30 p-3 space-y-3">
+              <div className="grid grid-cols-2 gap-1 p-1 bg-slate-100 rounded-lg text-xs font-medium">
+                {([['view', t(activeSubGridIndex === null ? 'visual.scopeCenter' : 'visual.scopeDimension')], ['dashboard', t('visual.scopeDashboard')]] as const).map(([scope, label]) => (
+                  <button
+                    key={scope}
+                    onClick={() => setExportScope(scope)}
+                    className={`py-1.5 rounded-md transition-colors ${exportScope === scope ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+
+              <div className="space-y-1.5">
+                <div className="flex items-center justify-between text-xs text-slate-500">
+                  <span>{t('visual.pngResolution')}</span>
+                  <select
+                    value={pngScale}
+                    onChange={(e) => setPngScale(Number(e.target.value))}
+                    className="px-2 py-1 rounded-md border border-slate-200 bg-white text-slate-700 outline-none focus:border-indigo-400"
+                  >
+                    {PNG_SCALES.map(scale => (
+                      <option key={scale} value={scale}>
+                        {t('visual.pngScale', { scale, pixels: (exportScope === 'dashboard' ? 1200 : 600) * scale })}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-1.5">
+                  <button
+                    onClick={() => handleImageExport('copyPng')}
+                    disabled={!!exportingAction}
+                    className="flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-medium text-slate-600 border border-slate-200 rounded-lg hover:bg-indigo-50 hover:text-indigo-600 transition-colors disabled:opacity-50"
+                  >
+                    <ImageIcon className="w-3.5 h-3.5" />
+                    {t('visual.copyPng')}
+                  </button>
+                  <button
+                    onClick={() => handleImageExport('downloadPng')}
+                    disabled={!!exportingAction}
+                    className="flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-medium text-slate-600 border border-slate-200 rounded-lg hover:bg-indigo-50 hover:text-indigo-600 transition-colors disabled:opacity-50"
+                  >
+                    <Download className="w-3.5 h-3.5" />
+                    {t('visual.downloadPng')}
+                  </button>
+                </div>
+              </div>
+
+              <div className="border-t border-slate-100 pt-3 grid grid-cols-2 gap-1.5">
+                <button
+                  onClick={() => handleImageExport('copySvg')}
+                  disabled={!!exportingAction}
+                  className="flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-medium text-slate-600 border border-slate-200 rounded-lg hover:bg-pink-50 hover:text-pink-600 transition-colors disabled:opacity-50"
+                >
+                  <FileCode className="w-3.5 h-3.5" />
+                  {t('visual.copySvg')}
+                </button>
+                <button
+                  onClick={() => handleImageExport('downloadSvg')}
+                  disabled={!!exportingAction}
+                  className="flex items-center justify-center gap-1.5 px-2 py-1.5 text-xs font-medium text-slate-600 border border-slate-200 rounded-lg hover:bg-pink-50 hover:text-pink-600 transition-colors disabled:opacity-50"
+                >
+                  <Download className="w-3.5 h-3.5" />
+                  {t('visual.downloadSvg')}
+                </button>
+              </div>
+            </div>
+          )}
         </div>
       </div>
 
-      {/* Grid Container (Target for Capture) */}
-      <div ref={gridRef} className="relative w-full aspect-square max-h-[600px] bg-slate-50 p-1 rounded-xl">
+      {/* Grid Container */}
+      <div className="relative w-full aspect-square max-h-[600px] bg-slate-50 p-1 rounded-xl">
         {activeSubGridIndex === null ? (
           // MAIN OVERVIEW
           <Grid3x3 
@@ -204,6 +444,11 @@ export const VisualView: React.FC<VisualViewProps> = ({ data, topic }) => {
             surroundingTexts={data.mainDimensions}
             onCellClick={handleMainGridClick}
             isMain={true}
+            centerProgress={getOverallProgress(checklists)}
+            itemProgress={data.mainDimensions.map((_, idx) => getDimensionProgress(checklists, idx))}
+            isEditing={isEditing}
+            onCenterChange={onTopicChange}
+            onItemChange={(index, value) => onDataChange?.(renameDimension(data, index, value))}
             className="w-full h-full animate-in fade-in zoom-in duration-300"
           />
         ) : (
@@ -212,16 +457,117 @@ export const VisualView: React.FC<VisualViewProps> = ({ data, topic }) => {
             centerText={data.subGrids[activeSubGridIndex].title}
             surroundingTexts={data.subGrids[activeSubGridIndex].items}
             highlightCenter={true}
+            onCellClick={handleSelectCell}
+            onCenterClick={() => handleSelectCell('center')}
+            selected={selectedCell}
+            lockedIndexes={lockedIndexesFor(activeSubGridIndex)}
+            expandedIndexes={expandedIndexesFor(activeSubGridIndex)}
+            centerProgress={getDimensionProgress(checklists, activeSubGridIndex)}
+            isEditing={isEditing}
+            onCenterChange={(value) => onDataChange?.(renameSubGrid(data, activeSubGridIndex, value))}
+            onItemChange={(index, value) => onDataChange?.(updateSubItem(data, activeSubGridIndex, index, value))}
             className="w-full h-full animate-in slide-in-from-right-8 duration-300"
           />
         )}
       </div>
 
+      {/* AI Refinement Panel (focused sub-grid only) */}
+      {activeSubGridIndex !== null && onDataChange && (
+        <div className="w-full mt-4 bg-white rounded-xl border border-slate-200 shadow-sm p-4 space-y-3">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <p className="text-xs text-slate-500">
+              {t('visual.cellHint')}
+            </p>
+            <button
+              onClick={handleRegenerateSubGrid}
+              disabled={isRegenerating}
+              className="flex-shrink-0 flex items-center gap-2 px-3 py-2 text-sm font-medium text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {isRegenerating ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+              {t('visual.regenerateDimension')}
+              {keptIndexesFor(activeSubGridIndex).size > 0 && (
+                <span className="text-xs text-amber-600">{t('visual.keptCells', { count: keptIndexesFor(activeSubGridIndex).size })}</span>
+              )}
+            </button>
+          </div>
+
+          {selectedCell !== null && (
+            <div className="border-t border-slate-100 pt-3 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-slate-700 font-medium truncate max-w-[240px]">
+                  {selectedCell === 'center'
+                    ? data.subGrids[activeSubGridIndex].title
+                    : data.subGrids[activeSubGridIndex].items[selectedCell]}
+                </span>
+                <div className="flex-grow"></div>
+                {selectedCell !== 'center' && (
+                  <button
+                    onClick={() => toggleLock(activeSubGridIndex, selectedCell)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-600 hover:text-amber-700 hover:bg-amber-50 rounded-lg transition-colors"
+                  >
+                    {lockedIndexesFor(activeSubGridIndex).has(selectedCell)
+                      ? <><Unlock className="w-3.5 h-3.5" />{t('visual.unlock')}</>
+                      : <><Lock className="w-3.5 h-3.5" />{t('visual.lock')}</>}
+                  </button>
+                )}
+                {selectedCell !== 'center' && onExpandCell && (
+                  <button
+                    onClick={() => onExpandCell(activeSubGridIndex, selectedCell)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                    title={t('visual.expandTitle')}
+                  >
+                    <Layers className="w-3.5 h-3.5" />
+                    {expandedIndexesFor(activeSubGridIndex).has(selectedCell) ? t('visual.openChild') : t('visual.expandChild')}
+                  </button>
+                )}
+                {selectedCell !== 'center' && onRemoveChild && expandedIndexesFor(activeSubGridIndex).has(selectedCell) && (
+                  <button
+                    onClick={() => {
+                      if (confirm(t('visual.deleteChildConfirm'))) {
+                        onRemoveChild(activeSubGridIndex, selectedCell);
+                      }
+                    }}
+                    className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                    {t('visual.deleteChild')}
+                  </button>
+                )}
+                <button
+                  onClick={handleSuggest}
+                  disabled={isSuggesting}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-violet-600 hover:bg-violet-50 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {isSuggesting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Wand2 className="w-3.5 h-3.5" />}
+                  {t('visual.alternatives')}
+                </button>
+              </div>
+
+              {suggestions.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {suggestions.map((suggestion, i) => (
+                    <button
+                      key={i}
+                      onClick={() => applySuggestion(suggestion)}
+                      className="flex items-center gap-1.5 text-xs px-3 py-1.5 bg-violet-50 border border-violet-100 text-violet-700 rounded-full hover:bg-violet-100 transition-colors"
+                      title={t('visual.applyAlternative')}
+                    >
+                      <Check className="w-3 h-3" />
+                      {suggestion}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Enhanced Mini Map Navigation - Always Visible */}
       <div className="mt-8 flex flex-col items-center animate-in fade-in slide-in-from-bottom-4 duration-500">
         <div className="flex items-center gap-2 mb-3">
           <span className="h-px w-8 bg-slate-200"></span>
-          <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">全域導航</p>
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t('visual.globalNav')}</p>
           <span className="h-px w-8 bg-slate-200"></span>
         </div>
         
@@ -242,7 +588,7 @@ export const VisualView: React.FC<VisualViewProps> = ({ data, topic }) => {
                         : 'bg-slate-100 text-slate-500 border-transparent hover:bg-indigo-50 hover:text-indigo-600'
                       }
                     `}
-                    title={`返回中心：${topic}`}
+                    title={t('visual.backTo', { topic })}
                   >
                     <Home className="w-4 h-4" />
                   </button>
@@ -260,7 +606,7 @@ export const VisualView: React.FC<VisualViewProps> = ({ data, topic }) => {
               return (
                 <button 
                   key={i} 
-                  onClick={() => dataIndex !== -1 && setActiveSubGridIndex(dataIndex)}
+                  onClick={() => dataIndex !== -1 && selectSubGrid(dataIndex)}
                   className={`
                     w-10 h-10 rounded-lg transition-all duration-200 flex items-center justify-center text-[10px] font-bold border
                     ${isActive 
@@ -278,9 +624,9 @@ export const VisualView: React.FC<VisualViewProps> = ({ data, topic }) => {
         </div>
         <p className="mt-3 text-xs text-slate-400 flex items-center gap-1 h-5">
           {activeSubGridIndex !== null ? (
-            <>目前顯示：<span className="text-indigo-600 font-medium truncate max-w-[200px] block">{data.mainDimensions[activeSubGridIndex]}</span></>
+            <>{t('visual.showing')}<span className="text-indigo-600 font-medium truncate max-w-[200px] block">{data.mainDimensions[activeSubGridIndex]}</span></>
           ) : (
-            <>目前顯示：<span className="text-indigo-600 font-medium truncate max-w-[200px] block">中心主題（總覽）</span></>
+            <>{t('visual.showing')}<span className="text-indigo-600 font-medium truncate max-w-[200px] block">{t('visual.showingCenter')}</span></>
           )}
         </p>
       </div>
@@ -0,0 +1,189 @@
+import { BackgroundContext, BackgroundDocument } from "../types";
+import { translateUi } from "./i18n";
+
+// Background material for generation: pasted notes, reference files read entirely in the browser
+// (nothing is uploaded except the extracted text that goes into the prompt) and plan constraints.
+// The draft is kept in localStorage; a generated mandala keeps its own copy on the root node.
+
+const DRAFT_KEY = "mandala-background-draft";
+
+// Per file, so one long PDF cannot crowd out everything else
+export const MAX_DOCUMENT_CHARS = 20000;
+// Everything the prompt gets, notes and documents together
+export const MAX_BACKGROUND_CHARS = 30000;
+
+export const BACKGROUND_FILE_EXTENSIONS = [".txt", ".md", ".markdown", ".docx", ".pdf"];
+
+export const EMPTY_BACKGROUND: BackgroundContext = {
+  notes: "",
+  documents: [],
+  budget: "",
+  timeframe: "",
+  constraints: "",
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const asText = (value: unknown) => (typeof value === "string" ? value : "");
+
+export const isBackgroundEmpty = (background?: BackgroundContext) =>
+  !background ||
+  (!background.documents.length &&
+    ![background.notes, background.budget, background.timeframe, background.constraints].some((text) => text.trim()));
+
+// Accepts anything (localStorage, imported files) and returns a well-formed context
+export const normalizeBackground = (raw: unknown): BackgroundContext => {
+  if (!isRecord(raw)) return { ...EMPTY_BACKGROUND };
+  return {
+    notes: asText(raw.notes),
+    documents: (Array.isArray(raw.documents) ? raw.documents : [])
+      .filter(isRecord)
+      .map((doc) => ({ name: asText(doc.name).trim(), text: asText(doc.text).slice(0, MAX_DOCUMENT_CHARS) }))
+      .filter((doc) => doc.name && doc.text.trim()),
+    budget: asText(raw.budget),
+    timeframe: asText(raw.timeframe),
+    constraints: asText(raw.constraints),
+  };
+};
+
+export const getBackgroundDraft = (): BackgroundContext => {
+  try {
+    const raw = localStorage.getItem(DRAFT_KEY);
+    return normalizeBackground(raw ? JSON.parse(raw) : null);
+  } catch (err) {
+    console.error("Failed to read background draft", err);
+    return { ...EMPTY_BACKGROUND };
+  }
+};
+
+export const setBackgroundDraft = (background: BackgroundContext) => {
+  try {
+    localStorage.setItem(DRAFT_KEY, JSON.stringify(background));
+  } catch (err) {
+    // Large documents can exceed the quota; the draft then only lives until the next refresh
+    console.error("Failed to save background draft", err);
+  }
+};
+
+const getExtension = (name: string) => {
+  const match = /\.[^.]+$/.exec(name.toLowerCase());
+  return match ? match[0] : "";
+};
+
+const decodeXml = (text: string) =>
+  text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number(dec)))
+    .replace(/&amp;/g, "&");
+
+// A .docx is a zip; the body text sits in the <w:t> runs of word/document.xml, one <w:p> per paragraph
+const readDocx = async (buffer: ArrayBuffer): Promise<string> => {
+  const { default: JSZip } = await import("jszip");
+  const zip = await JSZip.loadAsync(buffer);
+  const xml = await zip.file("word/document.xml")?.async("string");
+  if (!xml) {
+    throw new Error(translateUi("background.noDocxText"));
+  }
+  return xml
+    .split("</w:p>")
+    .map((paragraph) => {
+      let line = "";
+      for (const match of paragraph.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:br\/>/g)) {
+        if (match[1] !== undefined) line += decodeXml(match[1]);
+        else line += match[0] === "<w:tab/>" ? "\t" : "\n";
+      }
+      return line;
+    })
+    .filter((line) => line.trim())
+    .join("\n");
+};
+
+// pdf.js is only loaded when a PDF is attached; its worker comes from the CDN matching the library
+const readPdf = async (buffer: ArrayBuffer): Promise<string> => {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc ||= `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(buffer) }).promise;
+  const pages: string[] = [];
+  try {
+    for (let number = 1; number <= pdf.numPages; number++) {
+      const content = await (await pdf.getPage(number)).getTextContent();
+      pages.push(content.items.map((item) => ("str" in item ? item.str + (item.hasEOL ? "\n" : "") : "")).join(""));
+      // Past the cap the remaining pages would be cut off anyway
+      if (pages.join("\n").length > MAX_DOCUMENT_CHARS) break;
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  return pages.join("\n");
+};
+
+export interface BackgroundFileResult {
+  document: BackgroundDocument;
+  // The text was longer than MAX_DOCUMENT_CHARS and only the start was kept
+  truncated: boolean;
+}
+
+export const readBackgroundFile = async (file: File): Promise<BackgroundFileResult> => {
+  const extension = getExtension(file.name);
+  let text: string;
+  switch (extension) {
+    case ".txt":
+    case ".md":
+    case ".markdown":
+      text = await file.text();
+      break;
+    case ".docx":
+      text = await readDocx(await file.arrayBuffer());
+      break;
+    case ".pdf":
+      text = await readPdf(await file.arrayBuffer());
+      break;
+    default:
+      throw new Error(
+        translateUi("background.unsupported", { extension: extension || file.name, extensions: BACKGROUND_FILE_EXTENSIONS.join(" ") })
+      );
+  }
+  const normalized = text.replace(/\r\n?/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+  if (!normalized) {
+    throw new Error(translateUi(extension === ".pdf" ? "background.noTextScanned" : "background.noText", { name: file.name }));
+  }
+  return {
+    document: { name: file.name, text: normalized.slice(0, MAX_DOCUMENT_CHARS) },
+    truncated: normalized.length > MAX_DOCUMENT_CHARS,
+  };
+};
+
+// The prompt block shared by the mandala and checklist prompts; empty when there is no background
+export const describeBackground = (background?: BackgroundContext) => {
+  if (isBackgroundEmpty(background)) return "";
+  const { notes, documents, budget, timeframe, constraints } = background!;
+
+  const limits = [
+    budget.trim() && `預算：${budget.trim()}`,
+    timeframe.trim() && `時程：${timeframe.trim()}`,
+    constraints.trim() && `其他限制：${constraints.trim()}`,
+  ].filter(Boolean);
+
+  // Notes first, then documents in the order attached, until the character budget runs out
+  let remaining = MAX_BACKGROUND_CHARS;
+  const take = (text: string) => {
+    const part = text.trim().slice(0, Math.max(0, remaining));
+    remaining -= part.length;
+    return part;
+  };
+  const sources = [
+    notes.trim() && `使用者筆記：\n${take(notes)}`,
+    ...documents.map((doc) => (remaining > 0 ? `文件「${doc.name}」：\n${take(doc.text)}` : "")),
+  ].filter(Boolean);
+
+  return `
+    以下是使用者提供的實際情況，請讓內容貼合這些條件，不要給出不符合限制的建議：
+    ${limits.length ? limits.map((line) => `- ${line}`).join("\n    ") : ""}
+    ${sources.length ? `<背景資料>\n${sources.join("\n\n")}\n</背景資料>` : ""}
+  `;
+};
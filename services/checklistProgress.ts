@@ -0,0 +1,31 @@
+import { ChecklistItem } from "../types";
+
+export interface Progress {
+  done: number;
+  total: number;
+  percent: number; // 0-100, rounded
+}
+
+const toProgress = (items: ChecklistItem[]): Progress => {
+  const done = items.filter((item) => item.isCompleted).length;
+  return {
+    done,
+    total: items.length,
+    percent: items.length ? Math.round((done / items.length) * 100) : 0,
+  };
+};
+
+// null when the dimension has no checklist yet, so views can tell "0%" from "not started"
+export const getDimensionProgress = (
+  checklists: Record<number, ChecklistItem[]>,
+  dimensionIndex: number
+): Progress | null => {
+  const items = checklists[dimensionIndex];
+  return items?.length ? toProgress(items) : null;
+};
+
+// Rolls every task of every dimension into one figure (tasks weigh equally, not dimensions)
+export const getOverallProgress = (checklists: Record<number, ChecklistItem[]>): Progress | null => {
+  const items = Object.values(checklists).flat();
+  return items.length ? toProgress(items) : null;
+};
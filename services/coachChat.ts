@@ -0,0 +1,84 @@
+import { MandalaResult } from "../types";
+import { CellTarget, getCellValue } from "./mandalaEditor";
+import { GRID_SIZE } from "./mandalaValidator";
+
+// Socratic coaching conversation next to the chart. Before a chart exists the coach asks about
+// the topic and keeps a running brief for generation; afterwards it critiques the chart and may
+// propose cell changes, which are only applied when the user confirms them one by one.
+
+export type CoachRole = "user" | "coach";
+
+export type CoachChangeStatus = "pending" | "applied" | "dismissed";
+
+export interface CoachChange {
+  target: CellTarget;
+  value: string;
+  reason: string;
+  status: CoachChangeStatus;
+}
+
+export interface CoachMessage {
+  id: string;
+  role: CoachRole;
+  text: string;
+  changes?: CoachChange[];
+}
+
+export interface CoachReply {
+  reply: string;
+  // What has been clarified about the topic so far; empty once a chart exists
+  brief: string;
+  changes: CoachChange[];
+}
+
+export const COACH_CELL_KINDS = ["coreConcept", "dimension", "idea", "summary", "action"] as const;
+
+// Only the latest turns go into the prompt; the chart itself carries the rest of the context
+export const COACH_HISTORY_LIMIT = 12;
+
+export const MAX_COACH_CHANGES = 5;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const asText = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+// The model counts from 1 like the prompt does; anything outside the chart becomes null
+const toTarget = (raw: Record<string, unknown>, data: MandalaResult): CellTarget | null => {
+  const dimension = Math.round(Number(raw.dimension)) - 1;
+  const position = Math.round(Number(raw.position)) - 1;
+  const inGrid = (n: number) => n >= 0 && n < GRID_SIZE;
+  switch (raw.cell) {
+    case "coreConcept":
+      return { kind: "coreConcept" };
+    case "dimension":
+      return inGrid(dimension) ? { kind: "dimension", index: dimension } : null;
+    case "idea":
+      return inGrid(dimension) && inGrid(position) ? { kind: "idea", gridIndex: dimension, itemIndex: position } : null;
+    case "summary":
+      return { kind: "summary" };
+    case "action":
+      return position >= 0 && position < data.actions.length ? { kind: "action", index: position } : null;
+    default:
+      return null;
+  }
+};
+
+// Keeps the changes that point at an existing cell and actually change it
+export const normalizeCoachReply = (raw: unknown, data: MandalaResult | null): CoachReply => {
+  const reply = isRecord(raw) ? raw : {};
+  const changes: CoachChange[] = [];
+  if (data && Array.isArray(reply.changes)) {
+    reply.changes.filter(isRecord).forEach((change) => {
+      const target = toTarget(change, data);
+      const value = asText(change.value);
+      if (!target || !value || getCellValue(data, target) === value) return;
+      changes.push({ target, value, reason: asText(change.reason), status: "pending" });
+    });
+  }
+  return {
+    reply: asText(reply.reply),
+    brief: data ? "" : asText(reply.brief),
+    changes: changes.slice(0, MAX_COACH_CHANGES),
+  };
+};
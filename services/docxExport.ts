@@ -0,0 +1,365 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  HeadingLevel,
+  HeightRule,
+  ISectionOptions,
+  PageBreak,
+  PageNumber,
+  PageOrientation,
+  Packer,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableOfContents,
+  TableRow,
+  TextRun,
+  VerticalAlign,
+  WidthType,
+} from "docx";
+import { ChecklistItem, MandalaResult, Roadmap } from "../types";
+import { getDimensionProgress } from "./checklistProgress";
+import { getItemEndWeek, groupByPhase } from "./roadmap";
+import { getStatusLabel, getTaskStatus } from "./taskSchedule";
+import { Locale, MessageKey, Translate, translate } from "./i18n";
+
+// Word report with the grids as real tables: cover page, table of contents, Table A,
+// the eight Table B grids, a landscape 9x9 overview, then summary, actions and the optional extras.
+
+export interface WordReportOptions {
+  checklists?: Record<number, ChecklistItem[]>;
+  // Added as its own section when the timeline has been planned
+  roadmap?: Roadmap;
+  includeChecklists?: boolean;
+}
+
+// Same palette as Grid3x3Table and DashboardView
+const COLORS = {
+  mainCenter: "4F46E5", // indigo-600
+  mainCell: "EEF2FF", // indigo-50
+  mainText: "312E81", // indigo-900
+  mainBorder: "A5B4FC", // indigo-300
+  subCenter: "64748B", // slate-500
+  subText: "334155", // slate-700
+  border: "CBD5E1", // slate-300
+  muted: "64748B", // slate-500
+  white: "FFFFFF",
+  done: "2E7D32",
+};
+
+// Chapter numbers for locales whose export.chapter uses {numeral}
+const NUMERALS = ["一", "二", "三", "四", "五", "六", "七", "八", "九", "十"];
+const CENTER = 4;
+
+type CellVariant = "mainCenter" | "mainItem" | "subCenter" | "subItem";
+
+const CELL_STYLES: Record<CellVariant, { fill: string; color: string; bold: boolean }> = {
+  mainCenter: { fill: COLORS.mainCenter, color: COLORS.white, bold: true },
+  mainItem: { fill: COLORS.mainCell, color: COLORS.mainText, bold: false },
+  subCenter: { fill: COLORS.subCenter, color: COLORS.white, bold: true },
+  subItem: { fill: COLORS.white, color: COLORS.subText, bold: false },
+};
+
+const border = (color: string, size: number) => ({ style: BorderStyle.SINGLE, size, color });
+
+type CellBorders = Record<"top" | "bottom" | "left" | "right", ReturnType<typeof border>>;
+
+const allSides = (side: ReturnType<typeof border>): CellBorders => ({ top: side, bottom: side, left: side, right: side });
+
+// Center + 8 items onto the 3x3 slots in reading order
+const toSlots = (center: string, items: string[]) =>
+  Array.from({ length: 9 }, (_, slot) => (slot === CENTER ? center : items[slot < CENTER ? slot : slot - 1] ?? ""));
+
+const gridCell = (
+  text: string,
+  variant: CellVariant,
+  width: number,
+  fontSize: number,
+  borders = allSides(border(variant.startsWith("main") ? COLORS.mainBorder : COLORS.border, 4))
+) => {
+  const style = CELL_STYLES[variant];
+  return new TableCell({
+    width: { size: width, type: WidthType.DXA },
+    verticalAlign: VerticalAlign.CENTER,
+    shading: { type: ShadingType.CLEAR, color: "auto", fill: style.fill },
+    margins: { top: 40, bottom: 40, left: 60, right: 60 },
+    borders,
+    children: [
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({ text, bold: style.bold, color: style.color, size: fontSize })],
+      }),
+    ],
+  });
+};
+
+// A 3x3 grid like Grid3x3Table; cell sizes are in twips
+const grid3x3Table = (center: string, items: string[], isMain: boolean, cellSize: number, fontSize: number) => {
+  const slots = toSlots(center, items);
+  return new Table({
+    alignment: AlignmentType.CENTER,
+    columnWidths: [cellSize, cellSize, cellSize],
+    rows: [0, 1, 2].map(
+      (r) =>
+        new TableRow({
+          cantSplit: true,
+          height: { value: cellSize, rule: HeightRule.EXACT },
+          children: [0, 1, 2].map((c) => {
+            const slot = r * 3 + c;
+            const variant: CellVariant = slot === CENTER
+              ? (isMain ? "mainCenter" : "subCenter")
+              : (isMain ? "mainItem" : "subItem");
+            return gridCell(slots[slot], variant, cellSize, fontSize);
+          }),
+        })
+    ),
+  });
+};
+
+// The full 9x9 with DashboardView's block layout. Word has no per-block outline, so each cell
+// gets a heavy border on the sides that touch its block's edge.
+const fullGridTable = (topic: string, data: MandalaResult, cellSize: number) => {
+  const blocks = Array.from({ length: 9 }, (_, slot) => {
+    if (slot === CENTER) return toSlots(topic, data.mainDimensions);
+    const grid = data.subGrids[slot < CENTER ? slot : slot - 1];
+    return toSlots(grid?.title ?? "", grid?.items ?? []);
+  });
+
+  return new Table({
+    alignment: AlignmentType.CENTER,
+    columnWidths: Array(9).fill(cellSize),
+    rows: Array.from({ length: 9 }, (_, r) =>
+      new TableRow({
+        cantSplit: true,
+        height: { value: cellSize * 0.58, rule: HeightRule.EXACT },
+        children: Array.from({ length: 9 }, (_, c) => {
+          const block = Math.floor(r / 3) * 3 + Math.floor(c / 3);
+          const slot = (r % 3) * 3 + (c % 3);
+          const isMainBlock = block === CENTER;
+          const isCenter = slot === CENTER;
+          const variant: CellVariant = isMainBlock
+            ? (isCenter ? "mainCenter" : "mainItem")
+            : (isCenter ? "subCenter" : "subItem");
+          const inner = border(isMainBlock ? COLORS.mainBorder : COLORS.border, 4);
+          const outer = border(isMainBlock ? COLORS.mainCenter : COLORS.muted, 16);
+          return gridCell(blocks[block][slot], variant, cellSize, 14, {
+            top: r % 3 === 0 ? outer : inner,
+            bottom: r % 3 === 2 ? outer : inner,
+            left: c % 3 === 0 ? outer : inner,
+            right: c % 3 === 2 ? outer : inner,
+          });
+        }),
+      })
+    ),
+  });
+};
+
+const headerCell = (text: string, width: number) =>
+  new TableCell({
+    width: { size: width, type: WidthType.DXA },
+    shading: { type: ShadingType.CLEAR, color: "auto", fill: COLORS.mainCenter },
+    margins: { top: 60, bottom: 60, left: 80, right: 80 },
+    children: [new Paragraph({ children: [new TextRun({ text, bold: true, color: COLORS.white })] })],
+  });
+
+const textCell = (children: Paragraph[], width: number) =>
+  new TableCell({ width: { size: width, type: WidthType.DXA }, margins: { top: 60, bottom: 60, left: 80, right: 80 }, children });
+
+const CHECKLIST_COLUMNS: { label: MessageKey; width: number }[] = [
+  { label: "export.column.status", width: 1100 },
+  { label: "export.column.task", width: 4200 },
+  { label: "export.column.importance", width: 1100 },
+  { label: "export.column.assignee", width: 1000 },
+  { label: "export.column.dueDate", width: 1100 },
+  { label: "export.column.effort", width: 600 },
+];
+
+const checklistTable = (items: ChecklistItem[], locale: Locale) =>
+  new Table({
+    columnWidths: CHECKLIST_COLUMNS.map((column) => column.width),
+    rows: [
+      new TableRow({
+        tableHeader: true,
+        children: CHECKLIST_COLUMNS.map((column) => headerCell(translate(locale, column.label), column.width)),
+      }),
+      ...items.map((item) => {
+        const status = getTaskStatus(item);
+        const isDone = status === "done";
+        const [statusCol, taskCol, importanceCol, assigneeCol, dueCol, effortCol] = CHECKLIST_COLUMNS;
+        return new TableRow({
+          cantSplit: true,
+          children: [
+            textCell([new Paragraph({
+              children: [new TextRun({ text: `${isDone ? "[v]" : "[ ]"} ${getStatusLabel(status, locale)}`, bold: true, color: isDone ? COLORS.done : "000000" })],
+            })], statusCol.width),
+            textCell([
+              new Paragraph({ children: [new TextRun({ text: item.task, bold: true })] }),
+              ...(item.description
+                ? [new Paragraph({ children: [new TextRun({ text: item.description, color: COLORS.muted, size: 18 })] })]
+                : []),
+            ], taskCol.width),
+            textCell([new Paragraph({
+              children: [new TextRun({ text: "★".repeat(item.importance) + "☆".repeat(5 - item.importance), color: "F59E0B" })],
+            })], importanceCol.width),
+            textCell([new Paragraph({ text: item.assignee ?? "" })], assigneeCol.width),
+            textCell([new Paragraph({ text: item.dueDate ?? "" })], dueCol.width),
+            textCell([new Paragraph({ text: item.effortHours !== undefined ? `${item.effortHours}h` : "" })], effortCol.width),
+          ],
+        });
+      }),
+    ],
+  });
+
+const pageNumberFooter = () =>
+  new Footer({
+    children: [
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({ children: [PageNumber.CURRENT], color: COLORS.muted, size: 18 })],
+      }),
+    ],
+  });
+
+const heading1 = (text: string) =>
+  new Paragraph({
+    text,
+    heading: HeadingLevel.HEADING_1,
+    spacing: { before: 400, after: 200 },
+  });
+
+const heading2 = (text: string) =>
+  new Paragraph({ text, heading: HeadingLevel.HEADING_2, spacing: { before: 200, after: 100 } });
+
+export const buildMandalaDocx = async (
+  topic: string,
+  data: MandalaResult,
+  locale: Locale,
+  { checklists = {}, roadmap, includeChecklists = false }: WordReportOptions = {}
+): Promise<Blob> => {
+  const t: Translate = (key, params) => translate(locale, key, params);
+  let chapter = 0;
+  const nextChapter = (title: string) => {
+    const index = chapter++;
+    return heading1(t("export.chapter", { numeral: NUMERALS[index] ?? index + 1, number: index + 1, title }));
+  };
+
+  const cover: ISectionOptions = {
+    children: [
+      new Paragraph({ text: "", spacing: { before: 3200 } }),
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({ text: t("export.reportTitle"), size: 32, color: COLORS.muted })],
+        spacing: { after: 400 },
+      }),
+      new Paragraph({
+        text: topic,
+        heading: HeadingLevel.TITLE,
+        alignment: AlignmentType.CENTER,
+        spacing: { after: 400 },
+      }),
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({ text: data.coreConcept, italics: true, color: COLORS.subText })],
+        spacing: { after: 2400 },
+      }),
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [new TextRun({ text: new Date().toLocaleDateString(locale), color: COLORS.muted })],
+      }),
+    ],
+  };
+
+  // Table of contents, Table A and Table B
+  const gridsSection: ISectionOptions = {
+    footers: { default: pageNumberFooter() },
+    children: [
+      new Paragraph({ children: [new TextRun({ text: t("export.toc"), bold: true, size: 32 })], spacing: { after: 200 } }),
+      new TableOfContents(t("export.toc"), { hyperlink: true, headingStyleRange: "1-2" }),
+      new Paragraph({ children: [new PageBreak()] }),
+
+      nextChapter(t("export.tableA")),
+      grid3x3Table(topic, data.mainDimensions, true, 1800, 24),
+
+      nextChapter(t("export.tableB")),
+      ...data.subGrids.flatMap((grid, i) => [
+        heading2(t("export.dimensionHeading", { n: i + 1, title: grid.title })),
+        grid3x3Table(grid.title, grid.items, false, 1400, 20),
+      ]),
+    ],
+  };
+
+  const overviewSection: ISectionOptions = {
+    properties: { page: { size: { orientation: PageOrientation.LANDSCAPE } } },
+    footers: { default: pageNumberFooter() },
+    children: [nextChapter(t("export.fullGrid")), fullGridTable(topic, data, 1500)],
+  };
+
+  const closing: (Paragraph | Table)[] = [
+    nextChapter(t("export.summary")),
+    new Paragraph({ text: data.summary, spacing: { after: 200 } }),
+    nextChapter(t("export.actions")),
+    ...data.actions.map((action) => new Paragraph({ text: action, bullet: { level: 0 } })),
+  ];
+
+  if (roadmap) {
+    const titles = new Map(roadmap.items.map((item) => [item.id, item.title]));
+    closing.push(nextChapter(t("export.roadmap", { weeks: roadmap.totalWeeks })));
+    groupByPhase(roadmap).forEach(({ phase, items }) => {
+      closing.push(heading2(t("export.phase", { name: phase.name, start: phase.startWeek, end: phase.endWeek })));
+      items.forEach((item) => {
+        const dependencies = item.dependsOn.map((dep) => titles.get(dep)).filter(Boolean);
+        closing.push(
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: t("timeline.barWeeks", { start: item.startWeek, end: getItemEndWeek(item) }) + t("export.metaSeparator"),
+                bold: true,
+              }),
+              new TextRun({ text: item.title }),
+              ...(dependencies.length
+                ? [new TextRun({ text: t("export.dependsOn", { items: dependencies.join(t("timeline.separator")) }), color: COLORS.muted })]
+                : []),
+            ],
+            bullet: { level: 0 },
+          })
+        );
+      });
+    });
+  }
+
+  const withTasks = data.mainDimensions
+    .map((dimension, i) => ({ dimension, index: i, items: checklists[i] || [] }))
+    .filter(({ items }) => items.length);
+  if (includeChecklists && withTasks.length) {
+    closing.push(nextChapter(t("export.checklists")));
+    withTasks.forEach(({ dimension, index, items }) => {
+      const progress = getDimensionProgress(checklists, index);
+      closing.push(
+        heading2(dimension),
+        new Paragraph({
+          children: [new TextRun({ text: t("export.progress", { done: progress?.done ?? 0, total: items.length }), color: COLORS.muted })],
+          spacing: { after: 100 },
+        }),
+        checklistTable(items, locale)
+      );
+    });
+  }
+
+  const doc = new Document({
+    title: t("export.documentTitle", { topic }),
+    creator: t("app.title"),
+    // Lets Word fill in the table of contents when the file is opened
+    features: { updateFields: true },
+    sections: [
+      cover,
+      gridsSection,
+      overviewSection,
+      { footers: { default: pageNumberFooter() }, children: closing },
+    ],
+  });
+
+  return Packer.toBlob(doc);
+};
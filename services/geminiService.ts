@@ -1,25 +1,109 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { MandalaResult, ChecklistItem } from "../types";
+import { MandalaResult, MandalaNode, ChecklistItem, Roadmap, BackgroundContext } from "../types";
+import { getProvider, getProviderLabel, getProviderSettings, JsonSchema } from "./providers";
+import {
+  normalizeMandala,
+  normalizeChecklist,
+  findMissingCells,
+  mergeMissingCells,
+  formatIssues
+} from "./mandalaValidator";
+import { parsePartialJson } from "./partialJson";
+import { RoadmapSource, normalizeRoadmap } from "./roadmap";
+import { mapNodeText } from "./mandalaTree";
+import { LOCALE_OPTIONS, Locale, getLanguageInstruction, getLanguageSettings, translateUi } from "./i18n";
+import { getGenerationPreset, resolvePrompt } from "./promptTemplates";
+import { CellTarget } from "./mandalaEditor";
+import { describeBackground } from "./backgroundContext";
+import { createId } from "./storageService";
+import { COACH_CELL_KINDS, COACH_HISTORY_LIMIT, MAX_COACH_CHANGES, CoachMessage, CoachReply, normalizeCoachReply } from "./coachChat";
 
-const getAiClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key is missing. Please ensure process.env.API_KEY is available.");
-  }
-  return new GoogleGenAI({ apiKey });
+// Prompts and response schemas live here; which model answers them is up to the active provider
+
+// Read per call, like the provider, so a language switch applies to the next request
+const outputLanguage = () => getLanguageInstruction(getLanguageSettings().contentLocale);
+
+const mandalaSchema = (actionCount: number): JsonSchema => ({
+  type: "object",
+  properties: {
+    coreConcept: { type: "string" },
+    mainDimensions: {
+      type: "array",
+      items: { type: "string" },
+      minItems: 8,
+      maxItems: 8,
+      description: "圍繞中心主題的 8 個關鍵面向。必須剛好 8 個。"
+    },
+    subGrids: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          items: {
+            type: "array",
+            items: { type: "string" },
+            minItems: 8,
+            maxItems: 8,
+            description: "針對該面向延伸出的 8 個具體子想法。必須剛好 8 個。"
+          }
+        },
+        required: ["title", "items"]
+      },
+      minItems: 8,
+      maxItems: 8,
+      description: "對應 8 個關鍵面向的詳細展開，必須有 8 組。"
+    },
+    summary: { type: "string" },
+    actions: {
+      type: "array",
+      items: { type: "string" },
+      minItems: actionCount,
+      maxItems: actionCount
+    }
+  },
+  required: ["coreConcept", "mainDimensions", "subGrids", "summary", "actions"]
+});
+
+const CHECKLIST_ITEM_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    task: { type: "string", description: "具體任務名稱" },
+    description: { type: "string", description: "任務執行細節說明" },
+    importance: { type: "integer", minimum: 1, maximum: 5, description: "重要性評分 (1-5)" }
+  },
+  required: ["task", "description", "importance"]
 };
 
-export const generateMandalaData = async (topic: string): Promise<MandalaResult> => {
-  const ai = getAiClient();
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  // Called as the response streams in, with a padded 8x8 preview of what has arrived so far
+  onPartial?: (preview: MandalaResult) => void;
+  // Topics of the ancestor mandalas, root first, when drilling a sub-item down into its own chart
+  ancestors?: string[];
+  // Background clarified with the coach before generating
+  brief?: string;
+  // Documents, notes and constraints attached to the project
+  background?: BackgroundContext;
+}
+
+export const generateMandalaData = async (
+  topic: string,
+  { signal, onPartial, ancestors = [], brief = "", background }: GenerateOptions = {}
+): Promise<MandalaResult> => {
+  // The template, tone and audience picked in the generation settings, read like the provider
+  const { persona, guidance, tone, audience, actionCount } = resolvePrompt(getGenerationPreset(), topic);
 
   const systemInstruction = `
-    你是一位專業的創意思考教練，專精於「曼陀羅思考法」(Mandalart)。
+    你是${persona}，專精於「曼陀羅思考法」(Mandalart)。
     你的目標是協助使用者將一個主題拆解為 9x9 的網格結構。
     請嚴格遵守 JSON 回傳格式，並確保每個面向都完整展開為 8 個子想法。
   `;
 
   const prompt = `
-    你現在是一位具備創意思考與問題拆解能力的思考教練，請使用「曼陀羅思考法」協助我展開主題：{{${topic}}}
+    你現在是${persona}，請使用「曼陀羅思考法」協助我展開主題：{{${topic}}}
+    ${ancestors.length ? `（此主題是從上層曼陀羅「${ancestors.join(" › ")}」中的一個子想法延伸而來，請在這個脈絡下具體展開。）` : ""}
+    ${brief ? `我和思考教練討論後釐清了以下背景，請據此展開：${brief}` : ""}
+    ${describeBackground(background)}
 
     請依照以下步驟思考：
 
@@ -31,73 +115,108 @@ export const generateMandalaData = async (topic: string): Promise<MandalaResult>
     表格 A：主題與 8 大延伸面向（3x3九宮格）
     表格 B：每個面向的 8 個子想法（共 8 張表格）
 
+    ${guidance ? `展開方向：\n    ${guidance.split("\n").join("\n    ")}` : ""}
+    ${audience ? `目標對象是${audience}，用語與舉例請貼近他們。` : ""}
+    ${tone}
+
     最後請提供：
     - 對整體思考方向的簡要總結 (summary)
-    - 可立即採取的 3 個行動建議 (actions)
+    - 可立即採取的 ${actionCount} 個行動建議 (actions)
+    ${outputLanguage()}
   `;
 
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: prompt,
-    config: {
-      systemInstruction: systemInstruction,
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          coreConcept: { type: Type.STRING },
-          mainDimensions: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING },
-            description: "圍繞中心主題的 8 個關鍵面向。必須剛好 8 個。"
-          },
-          subGrids: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                title: { type: Type.STRING },
-                items: {
-                  type: Type.ARRAY,
-                  items: { type: Type.STRING },
-                  description: "針對該面向延伸出的 8 個具體子想法。必須剛好 8 個。"
-                }
-              },
-              required: ["title", "items"]
-            },
-            description: "對應 8 個關鍵面向的詳細展開，必須有 8 組。"
-          },
-          summary: { type: Type.STRING },
-          actions: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING }
-          }
-        },
-        required: ["coreConcept", "mainDimensions", "subGrids", "summary", "actions"]
-      }
+  const text = await getProvider().streamJson({
+    task: "mandala",
+    prompt,
+    systemInstruction,
+    context: { topic, actionCount },
+    schema: mandalaSchema(actionCount),
+    signal
+  }, (textSoFar) => {
+    if (!onPartial) return;
+    const partial = parsePartialJson(textSoFar);
+    if (partial && typeof partial === "object" && !Array.isArray(partial)) {
+      onPartial(normalizeMandala(partial).data);
     }
   });
 
-  const text = response.text;
   if (!text) {
-    throw new Error("Gemini 沒有回傳回應。");
+    throw new Error(translateUi("ai.noResponse"));
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    console.error("Failed to parse AI response", error);
+    throw new Error(translateUi("ai.parseMandala"));
+  }
+
+  const { data, repairs, missing } = normalizeMandala(parsed);
+  if (repairs.length) {
+    console.warn(`Repaired AI mandala output: ${formatIssues(repairs, repairs.length)}`);
+  }
+  if (!missing.length) return data;
+
+  // One follow-up call asks the model to fill only the gaps; whatever it already produced is kept
+  const filled = mergeMissingCells(data, await requestMissingCells(topic, data, actionCount, signal));
+  const stillMissing = findMissingCells(filled);
+  if (stillMissing.length) {
+    throw new Error(translateUi("ai.incomplete", { issues: formatIssues(stillMissing) }));
   }
+  return filled;
+};
+
+const requestMissingCells = async (
+  topic: string,
+  partial: MandalaResult,
+  actionCount: number,
+  signal?: AbortSignal
+): Promise<MandalaResult> => {
+  const prompt = `
+    以下是主題「${topic}」的曼陀羅思考圖 JSON，其中空字串 "" 代表尚未填寫的格子：
+    ${JSON.stringify(partial)}
+
+    請回傳完整的同結構 JSON：
+    1. 已有內容的格子必須原封不動保留。
+    2. 只填寫空白的格子，內容需與所屬面向一致，並避免與其他格子重複。
+    3. mainDimensions 與 subGrids 都必須剛好 8 組，每組 items 剛好 8 個。
+    ${outputLanguage()}
+  `;
+
+  const text = await getProvider().generateJson({
+    task: "mandala",
+    prompt,
+    context: { topic, actionCount },
+    schema: mandalaSchema(actionCount),
+    signal
+  });
 
   try {
-    const data = JSON.parse(text) as MandalaResult;
-    return data;
+    return normalizeMandala(JSON.parse(text || "null")).data;
   } catch (error) {
-    console.error("Failed to parse Gemini response", error);
-    throw new Error("無法解析創意輸出內容。");
+    console.error("Failed to parse fill-missing response", error);
+    throw new Error(translateUi("ai.fillFailed", { issues: formatIssues(findMissingCells(partial)) }));
   }
 };
 
-export const generateChecklist = async (mainTopic: string, subDimension: string): Promise<ChecklistItem[]> => {
-  const ai = getAiClient();
+// The audience from the generation settings, so tasks are planned for the same people as the chart
+const audienceLine = () => {
+  const { audience } = getGenerationPreset();
+  return audience.trim() ? `目標對象：${audience.trim()}` : "";
+};
+
+export const generateChecklist = async (
+  mainTopic: string,
+  subDimension: string,
+  background?: BackgroundContext
+): Promise<ChecklistItem[]> => {
 
   const prompt = `
     主題：${mainTopic}
     子面向：${subDimension}
+    ${audienceLine()}
+    ${describeBackground(background)}
 
     請針對上述「子面向」擔任專案經理的角色，制定一份具體的工作任務檢核表 (Checklist)。
     
@@ -106,35 +225,578 @@ export const generateChecklist = async (mainTopic: string, subDimension: string)
     2. 每項任務需包含簡短說明 (description)。
     3. 請依據該任務對整體目標的關鍵程度，給予 1 到 5 星的重要性評分 (importance)，5 星為最重要。
     4. 輸出為 JSON 陣列。
+    ${outputLanguage()}
   `;
 
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            task: { type: Type.STRING, description: "具體任務名稱" },
-            description: { type: Type.STRING, description: "任務執行細節說明" },
-            importance: { type: Type.INTEGER, description: "重要性評分 (1-5)" }
-          },
-          required: ["task", "description", "importance"]
-        }
-      }
+  const text = await getProvider().generateJson({
+    task: "checklist",
+    prompt,
+    context: { topic: mainTopic, dimension: subDimension },
+    schema: {
+      type: "array",
+      items: CHECKLIST_ITEM_SCHEMA
     }
   });
 
-  const text = response.text;
   if (!text) return [];
 
   try {
-    return JSON.parse(text) as ChecklistItem[];
+    const { items, repairs } = normalizeChecklist(JSON.parse(text));
+    if (repairs.length) {
+      console.warn(`Repaired AI checklist output: ${formatIssues(repairs, repairs.length)}`);
+    }
+    return items.map((item) => ({ ...item, id: createId() }));
   } catch (error) {
     console.error("Failed to parse checklist", error);
     return [];
   }
-};
\ No newline at end of file
+};
+// Asks for additional tasks for a checklist the user has already started; duplicates are dropped
+export const suggestMoreTasks = async (
+  mainTopic: string,
+  subDimension: string,
+  existing: ChecklistItem[],
+  background?: BackgroundContext,
+  count = 4
+): Promise<ChecklistItem[]> => {
+  const prompt = `
+    主題：${mainTopic}
+    子面向：${subDimension}
+    ${audienceLine()}
+    ${describeBackground(background)}
+
+    以下是這個子面向目前已有的工作任務：
+    ${existing.map((item, i) => `${i + 1}. ${item.task}：${item.description}`).join("\n    ") || "（尚無任務）"}
+
+    請擔任專案經理，補充 ${count} 項「尚未列出」的具體執行任務。
+    需求：
+    1. 不可與上述任務重複或只是換句話說。
+    2. 每項任務需包含簡短說明 (description)。
+    3. 請依據關鍵程度給予 1 到 5 星的重要性評分 (importance)。
+    ${outputLanguage()}
+  `;
+
+  const text = await getProvider().generateJson({
+    task: "moreTasks",
+    prompt,
+    context: { topic: mainTopic, dimension: subDimension, count, offset: existing.length },
+    schema: {
+      type: "array",
+      items: CHECKLIST_ITEM_SCHEMA,
+      minItems: count,
+      maxItems: count
+    }
+  });
+
+  if (!text) return [];
+
+  try {
+    const { items } = normalizeChecklist(JSON.parse(text));
+    const seen = new Set(existing.map((item) => item.task.replace(/\s+/g, "").toLowerCase()));
+    return items
+      .filter((item) => {
+        const key = item.task.replace(/\s+/g, "").toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .map((item) => ({ ...item, id: createId() }));
+  } catch (error) {
+    console.error("Failed to parse additional tasks", error);
+    return [];
+  }
+};
+
+// Shared context block so targeted regeneration sees the rest of the mandala
+const describeMandala = (topic: string, data: MandalaResult) => `
+    主題：${topic}
+    核心概念：${data.coreConcept}
+    8 大面向與目前的子想法：
+    ${data.subGrids.map((grid, i) => `${i + 1}. ${data.mainDimensions[i] || grid.title}：${grid.items.join("、")}`).join("\n    ")}
+  `;
+
+export const regenerateSubGrid = async (
+  topic: string,
+  data: MandalaResult,
+  gridIndex: number,
+  lockedItemIndexes: number[] = []
+): Promise<string[]> => {
+  const grid = data.subGrids[gridIndex];
+  const dimension = data.mainDimensions[gridIndex] || grid.title;
+  const lockedItems = lockedItemIndexes.map((i) => grid.items[i]).filter(Boolean);
+  const needed = 8 - lockedItems.length;
+
+  if (needed <= 0) return grid.items;
+
+  const prompt = `
+    以下是一張使用「曼陀羅思考法」展開的 9x9 網格：
+    ${describeMandala(topic, data)}
+
+    請重新構思面向「${dimension}」的子想法。
+    ${lockedItems.length ? `使用者已鎖定以下子想法，必須保留且不可重複：${lockedItems.join("、")}` : ""}
+
+    需求：
+    1. 產出剛好 ${needed} 個全新的具體子想法，不能多也不能少。
+    2. 避免與其他面向的子想法重複或高度相似。
+    3. 每個子想法精簡，適合放進九宮格的一格。
+    ${outputLanguage()}
+  `;
+
+  const text = await getProvider().generateJson({
+    task: "subgrid",
+    prompt,
+    context: { topic, dimension, count: needed },
+    schema: {
+      type: "array",
+      items: { type: "string" },
+      minItems: needed,
+      maxItems: needed,
+      description: `面向「${dimension}」的 ${needed} 個新子想法。`
+    }
+  });
+
+  if (!text) {
+    throw new Error(translateUi("ai.noResponse"));
+  }
+
+  let fresh: string[];
+  try {
+    const parsed = JSON.parse(text);
+    fresh = (Array.isArray(parsed) ? parsed : [])
+      .filter((item): item is string => typeof item === "string" && !!item.trim())
+      .map((item) => item.trim());
+  } catch (error) {
+    console.error("Failed to parse regenerated sub-grid", error);
+    throw new Error(translateUi("ai.parseIdeas"));
+  }
+
+  // Locked slots keep their text; the new ideas fill the remaining slots in order
+  const locked = new Set(lockedItemIndexes);
+  let cursor = 0;
+  return Array.from({ length: 8 }, (_, i) => {
+    if (locked.has(i)) return grid.items[i];
+    return fresh[cursor++] ?? grid.items[i] ?? "";
+  });
+};
+
+// itemIndex === null asks for alternatives to the dimension title itself
+export const suggestCellAlternatives = async (
+  topic: string,
+  data: MandalaResult,
+  gridIndex: number,
+  itemIndex: number | null,
+  count = 4
+): Promise<string[]> => {
+  const grid = data.subGrids[gridIndex];
+  const dimension = data.mainDimensions[gridIndex] || grid.title;
+  const current = itemIndex === null ? dimension : grid.items[itemIndex];
+
+  const target = itemIndex === null
+    ? `第 ${gridIndex + 1} 個關鍵面向「${current}」（需與其他 7 個面向互補且不重疊）`
+    : `面向「${dimension}」底下的子想法「${current}」（需與同面向的其他子想法互補）`;
+
+  const prompt = `
+    以下是一張使用「曼陀羅思考法」展開的 9x9 網格：
+    ${describeMandala(topic, data)}
+
+    請針對${target}，提出 ${count} 個不同的替代寫法。
+    每個替代方案都要精簡具體，適合放進九宮格的一格，且不可與原本的內容相同。
+    ${outputLanguage()}
+  `;
+
+  const text = await getProvider().generateJson({
+    task: "alternatives",
+    prompt,
+    context: { topic, dimension, count },
+    schema: {
+      type: "array",
+      items: { type: "string" },
+      minItems: count,
+      maxItems: count,
+      description: `${count} 個替代方案。`
+    }
+  });
+
+  if (!text) return [];
+
+  try {
+    const parsed = JSON.parse(text);
+    const suggestions = (Array.isArray(parsed) ? parsed : [])
+      .filter((item): item is string => typeof item === "string")
+      .map((item) => item.trim());
+    return suggestions.filter((s) => s && s !== current).slice(0, count);
+  } catch (error) {
+    console.error("Failed to parse cell alternatives", error);
+    return [];
+  }
+};
+
+// Like describeMandala, but for a chart still being filled in by hand: blank cells are named as such
+const describeDraft = (topic: string, data: MandalaResult) => `
+    主題：${topic}
+    核心概念：${data.coreConcept || "（尚未填寫）"}
+    8 大面向與目前的子想法：
+    ${data.subGrids.map((grid, i) => {
+      const dimension = data.mainDimensions[i] || grid.title || "（尚未填寫）";
+      const items = grid.items.filter((item) => item.trim());
+      return `${i + 1}. ${dimension}：${items.length ? items.join("、") : "（尚無子想法）"}`;
+    }).join("\n    ")}
+    ${data.summary ? `總結：${data.summary}` : ""}
+    ${data.actions.some((action) => action.trim()) ? `行動建議：${data.actions.filter((action) => action.trim()).join("、")}` : ""}
+  `;
+
+const describeCellTarget = (topic: string, data: MandalaResult, target: CellTarget) => {
+  switch (target.kind) {
+    case "coreConcept":
+      return `中心主題「${topic}」的核心概念（用一句話說明這張曼陀羅要達成什麼）`;
+    case "dimension":
+      return `第 ${target.index + 1} 個關鍵面向（需與其他已填寫的面向互補且不重疊）`;
+    case "idea": {
+      const dimension = data.mainDimensions[target.gridIndex] || data.subGrids[target.gridIndex]?.title;
+      return `面向「${dimension}」底下的第 ${target.itemIndex + 1} 個子想法（需與同面向的其他子想法互補）`;
+    }
+    case "summary":
+      return "整張曼陀羅的總結（一到兩句話，點出最重要的洞察）";
+    case "action":
+      return `第 ${target.index + 1} 個可立即採取的行動建議（具體到今天或這週就能開始）`;
+  }
+};
+
+// Hints for one cell of a hand-filled chart; the user picks one or just takes the inspiration
+export const suggestCellHints = async (
+  topic: string,
+  data: MandalaResult,
+  target: CellTarget,
+  count = 3
+): Promise<string[]> => {
+  const prompt = `
+    使用者正依照「曼陀羅思考法」的步驟，親手填寫一張 9x9 網格，目前的進度如下：
+    ${describeDraft(topic, data)}
+
+    請針對${describeCellTarget(topic, data, target)}，提出 ${count} 個可以參考的寫法，幫助使用者發想。
+    每個建議都要精簡具體，${target.kind === "summary" ? "" : "適合放進九宮格的一格，"}且不可與已填寫的內容重複。
+    ${outputLanguage()}
+  `;
+
+  const text = await getProvider().generateJson({
+    task: "hints",
+    prompt,
+    context: { topic, target: target.kind, count },
+    schema: {
+      type: "array",
+      items: { type: "string" },
+      minItems: count,
+      maxItems: count,
+      description: `${count} 個參考寫法。`
+    }
+  });
+
+  if (!text) {
+    throw new Error(translateUi("ai.noResponse"));
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    console.error("Failed to parse cell hints", error);
+    throw new Error(translateUi("ai.parseHints"));
+  }
+  return (Array.isArray(parsed) ? parsed : [])
+    .filter((item): item is string => typeof item === "string" && !!item.trim())
+    .map((item) => item.trim())
+    .slice(0, count);
+};
+
+// Numbers every dimension, idea and action so the coach can point at a single cell
+const describeNumbered = (topic: string, data: MandalaResult) => `
+    主題：${topic}
+    核心概念：${data.coreConcept || "（空白）"}
+    8 大面向與子想法（括號內為編號）：
+    ${data.subGrids.map((grid, i) =>
+      `[面向 ${i + 1}] ${data.mainDimensions[i] || grid.title || "（空白）"}：${grid.items.map((item, j) => `(${j + 1}) ${item || "（空白）"}`).join(" ")}`
+    ).join("\n    ")}
+    總結：${data.summary || "（空白）"}
+    行動建議：${data.actions.map((action, i) => `(${i + 1}) ${action || "（空白）"}`).join(" ")}
+  `;
+
+const COACH_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    reply: { type: "string", description: "教練對使用者的回覆，包含提問。" },
+    brief: { type: "string", description: "目前為止釐清的背景摘要；已有曼陀羅時留白。" },
+    changes: {
+      type: "array",
+      maxItems: MAX_COACH_CHANGES,
+      items: {
+        type: "object",
+        properties: {
+          cell: { type: "string", enum: [...COACH_CELL_KINDS] },
+          dimension: { type: "integer", description: "面向編號 1-8；不適用時填 0。" },
+          position: { type: "integer", description: "子想法或行動建議的編號；不適用時填 0。" },
+          value: { type: "string", description: "建議改成的新內容。" },
+          reason: { type: "string", description: "為什麼這樣改比較好。" }
+        },
+        required: ["cell", "dimension", "position", "value", "reason"]
+      }
+    }
+  },
+  required: ["reply", "brief", "changes"]
+};
+
+// One coaching turn. `data` is null before generation, when the coach only asks about the topic
+export const askCoach = async (
+  topic: string,
+  data: MandalaResult | null,
+  messages: CoachMessage[],
+  signal?: AbortSignal
+): Promise<CoachReply> => {
+  const systemInstruction = `
+    你是一位採用蘇格拉底式提問的思考教練，專精於「曼陀羅思考法」(Mandalart)。
+    你不急著給答案，而是用精準的提問幫助使用者自己想清楚；只有在確實能改善時才提出具體修改。
+    回覆簡潔口語，一次最多問兩個問題。請嚴格遵守 JSON 回傳格式。
+  `;
+
+  const task = data
+    ? `
+    以下是使用者目前的曼陀羅：
+    ${describeNumbered(topic, data)}
+
+    請檢視這張表：找出模糊、薄弱、彼此重疊，或遺漏重要角度的面向與子想法，說明理由，並用提問引導使用者思考。
+    如果某一格有明確更好的寫法，放進 changes：cell 為 coreConcept（核心概念）、dimension（面向，填 dimension）、
+    idea（子想法，填 dimension 與 position）、summary（總結）或 action（行動建議，填 position）。
+    changes 最多 ${MAX_COACH_CHANGES} 項，使用者會逐項確認後才套用；只是提問時回傳空陣列。brief 請留白。`
+    : `
+    使用者準備用曼陀羅思考法展開主題「${topic || "（尚未決定）"}」，還沒有生成 9x9 網格。
+    請透過提問幫助使用者釐清：想達成的具體成果、對象與情境、限制（時間、預算、資源），以及成功的樣子。
+    根據先前的回答追問，不要重複已經問過的問題。
+    brief 請把目前已釐清的背景整理成幾句話，生成曼陀羅時會用到；還沒有資訊時留白。changes 請回傳空陣列。`;
+
+  const transcript = messages.slice(-COACH_HISTORY_LIMIT)
+    .map((message) => `${message.role === "user" ? "使用者" : "教練"}：${message.text}`)
+    .join("\n    ");
+
+  const prompt = `
+    ${task}
+
+    對話紀錄：
+    ${transcript}
+
+    請回覆使用者的最後一則訊息。
+    ${outputLanguage()}
+  `;
+
+  const text = await getProvider().generateJson({
+    task: "coach",
+    prompt,
+    systemInstruction,
+    context: { topic, hasChart: data ? 1 : 0, turn: messages.length },
+    schema: COACH_SCHEMA,
+    signal
+  });
+
+  if (!text) {
+    throw new Error(translateUi("ai.noResponse"));
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    console.error("Failed to parse coach reply", error);
+    throw new Error(translateUi("ai.parseCoach"));
+  }
+  const reply = normalizeCoachReply(parsed, data);
+  if (!reply.reply && !reply.changes.length) {
+    throw new Error(translateUi("ai.emptyCoach"));
+  }
+  return reply;
+};
+
+// Sequences the actions and checklist tasks into phases over `totalWeeks`; items are referenced by id
+export const generateRoadmap = async (
+  topic: string,
+  data: MandalaResult,
+  sources: RoadmapSource[],
+  totalWeeks: number
+): Promise<Roadmap> => {
+  // The model works with short positional ids ("action:0", "task:2:1"); the plan is stored under the stable ones
+  const counts = new Map<string, number>();
+  const aliases = sources.map((source) => {
+    const group = source.dimensionIndex === undefined ? "action" : `task:${source.dimensionIndex}`;
+    const n = counts.get(group) ?? 0;
+    counts.set(group, n + 1);
+    return { ...source, id: `${group}:${n}` };
+  });
+  const stableIds = new Map(aliases.map((alias, i) => [alias.id, sources[i].id]));
+  const toStable = (id: string) => stableIds.get(id) ?? id;
+
+  const prompt = `
+    以下是一張使用「曼陀羅思考法」展開的 9x9 網格：
+    ${describeMandala(topic, data)}
+
+    以下是要排入時程的行動與任務（格式為「id：內容」）：
+    ${aliases.map((source) => `${source.id}：${source.title}${
+      source.dimensionIndex !== undefined ? `（面向：${data.mainDimensions[source.dimensionIndex]}）` : ""
+    }`).join("\n    ")}
+
+    請擔任專案經理，將上述每一個項目排入共 ${totalWeeks} 週的執行時程。
+    需求：
+    1. 先規劃 3 到 5 個依序進行的階段 (phases)，每個階段有名稱與起訖週次（第 1 週到第 ${totalWeeks} 週）。
+    2. 每個項目都必須出現一次，使用原本的 id，並給出所屬階段名稱、開始週次 (startWeek) 與持續週數 (durationWeeks)。
+    3. 若某項目必須等其他項目完成才能開始，請在 dependsOn 列出那些項目的 id，且開始週次要晚於它們的結束週次。
+    ${outputLanguage()}
+  `;
+
+  const text = await getProvider().generateJson({
+    task: "roadmap",
+    prompt,
+    context: { topic, totalWeeks, ids: aliases.map((source) => source.id).join(",") },
+    schema: {
+      type: "object",
+      properties: {
+        phases: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              startWeek: { type: "integer", minimum: 1, maximum: totalWeeks },
+              endWeek: { type: "integer", minimum: 1, maximum: totalWeeks }
+            },
+            required: ["name", "startWeek", "endWeek"]
+          },
+          minItems: 3,
+          maxItems: 5
+        },
+        items: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              phase: { type: "string" },
+              startWeek: { type: "integer", minimum: 1, maximum: totalWeeks },
+              durationWeeks: { type: "integer", minimum: 1, maximum: totalWeeks },
+              dependsOn: { type: "array", items: { type: "string" } }
+            },
+            required: ["id", "phase", "startWeek", "durationWeeks", "dependsOn"]
+          }
+        }
+      },
+      required: ["phases", "items"]
+    }
+  });
+
+  if (!text) {
+    throw new Error(translateUi("ai.noResponse"));
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    console.error("Failed to parse roadmap", error);
+    throw new Error(translateUi("ai.parseRoadmap"));
+  }
+
+  const { roadmap, repairs } = normalizeRoadmap(parsed, aliases, totalWeeks);
+  if (repairs.length) {
+    console.warn(`Repaired AI roadmap output: ${formatIssues(repairs, repairs.length)}`);
+  }
+  return {
+    ...roadmap,
+    items: roadmap.items.map((item) => ({ ...item, id: toStable(item.id), dependsOn: item.dependsOn.map(toStable) })),
+  };
+};
+
+const TRANSLATE_BATCH_SIZE = 120;
+
+// Translates every text of the tree into `target`. Only the distinct strings are sent, as flat
+// arrays, so keys, ids, statuses and dates never pass through the model and the structure cannot change.
+export const translateMandala = async (
+  node: MandalaNode,
+  target: Locale,
+  signal?: AbortSignal
+): Promise<MandalaNode> => {
+  const sources = new Set<string>();
+  mapNodeText(node, (text) => {
+    if (text.trim()) sources.add(text);
+    return text;
+  });
+  const texts = [...sources];
+  const language = LOCALE_OPTIONS.find((option) => option.id === target)?.promptName ?? target;
+  const translations = new Map<string, string>();
+
+  for (let start = 0; start < texts.length; start += TRANSLATE_BATCH_SIZE) {
+    const batch = texts.slice(start, start + TRANSLATE_BATCH_SIZE);
+    const prompt = `
+      以下 JSON 陣列是一張曼陀羅思考圖（主題「${node.topic}」）中的文字，包含面向、子想法、任務與時程階段。
+      請將每一段文字翻譯為 ${language}。
+      需求：
+      1. 回傳剛好 ${batch.length} 個字串的 JSON 陣列，順序與輸入一一對應。
+      2. 只翻譯內容，不要增刪項目，也不要加上編號或說明。
+      3. 譯文保持精簡，適合放進九宮格；專有名詞與人名可保留原文。
+
+      ${JSON.stringify(batch)}
+    `;
+
+    const text = await getProvider().generateJson({
+      task: "translate",
+      prompt,
+      context: { language: target, texts: JSON.stringify(batch) },
+      schema: {
+        type: "array",
+        items: { type: "string" },
+        minItems: batch.length,
+        maxItems: batch.length
+      },
+      signal
+    });
+
+    if (!text) {
+      throw new Error(translateUi("ai.noResponse"));
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      console.error("Failed to parse translation", error);
+      throw new Error(translateUi("ai.parseTranslation"));
+    }
+    if (!Array.isArray(parsed) || parsed.length !== batch.length) {
+      throw new Error(translateUi("ai.translationCount", { count: batch.length }));
+    }
+
+    // A blank or non-string entry keeps its source text rather than emptying the cell
+    batch.forEach((source, i) => {
+      const value = parsed[i];
+      translations.set(source, typeof value === "string" && value.trim() ? value.trim() : source);
+    });
+  }
+
+  return mapNodeText(node, (text) => translations.get(text) ?? text);
+};
+
+const EMBED_BATCH_SIZE = 100;
+
+// Vectors for the quality analysis' semantic matching, one per text and in order
+export const embedTexts = async (texts: string[], signal?: AbortSignal): Promise<number[][]> => {
+  const settings = getProviderSettings();
+  const provider = getProvider(settings);
+  if (!provider.embed) {
+    throw new Error(translateUi("ai.noEmbedding", { provider: getProviderLabel(settings, translateUi) }));
+  }
+
+  const vectors: number[][] = [];
+  for (let start = 0; start < texts.length; start += EMBED_BATCH_SIZE) {
+    const batch = texts.slice(start, start + EMBED_BATCH_SIZE);
+    const result = await provider.embed(batch, signal);
+    if (result.length !== batch.length || result.some((vector) => !vector.length)) {
+      throw new Error(translateUi("ai.embeddingCount", { count: batch.length }));
+    }
+    vectors.push(...result);
+  }
+  return vectors;
+};
@@ -0,0 +1,54 @@
+import { MandalaResult } from "../types";
+import { GRID_SIZE } from "./mandalaValidator";
+
+// Blank-chart mode: the user fills a chart by hand, one Mandalart step at a time, and may ask
+// the model for hints on a single cell. Nothing here needs a provider.
+
+export type GuidedStep = "center" | "dimensions" | "ideas" | "summary" | "actions";
+
+// The canonical order: center, the 8 surrounding dimensions, 8 ideas for each, then wrap up
+export const GUIDED_STEPS: GuidedStep[] = ["center", "dimensions", "ideas", "summary", "actions"];
+
+export const DEFAULT_BLANK_ACTIONS = 3;
+
+// Same shape as a generated chart, with empty strings in every cell, so every view can show it
+export const createBlankMandala = (actionCount = DEFAULT_BLANK_ACTIONS): MandalaResult => ({
+  coreConcept: "",
+  mainDimensions: new Array(GRID_SIZE).fill(""),
+  subGrids: Array.from({ length: GRID_SIZE }, () => ({ title: "", items: new Array(GRID_SIZE).fill("") })),
+  summary: "",
+  actions: new Array(actionCount).fill(""),
+});
+
+const stepCells = (data: MandalaResult, step: GuidedStep): string[] => {
+  switch (step) {
+    case "center":
+      return [data.coreConcept];
+    case "dimensions":
+      return data.mainDimensions;
+    case "ideas":
+      return data.subGrids.flatMap((grid) => grid.items);
+    case "summary":
+      return [data.summary];
+    case "actions":
+      return data.actions.length ? data.actions : [""];
+  }
+};
+
+export const getStepProgress = (data: MandalaResult, step: GuidedStep) => {
+  const cells = stepCells(data, step);
+  return { filled: cells.filter((cell) => cell.trim()).length, total: cells.length };
+};
+
+export const isStepComplete = (data: MandalaResult, step: GuidedStep) => {
+  const { filled, total } = getStepProgress(data, step);
+  return filled === total;
+};
+
+// Where to resume: the first step with an empty cell, or the last step once everything is filled
+export const findCurrentStep = (data: MandalaResult): GuidedStep =>
+  GUIDED_STEPS.find((step) => !isStepComplete(data, step)) ?? GUIDED_STEPS[GUIDED_STEPS.length - 1];
+
+// The first dimension whose ideas are not all filled in yet
+export const findOpenGrid = (data: MandalaResult) =>
+  Math.max(0, data.subGrids.findIndex((grid) => grid.items.some((item) => !item.trim())));
@@ -0,0 +1,560 @@
+import type { Messages } from ".";
+
+export const en: Messages = {
+  "app.title": "Mandala Thinking Assistant",
+  "app.defaultTopic": "Design a course on AI prompting",
+  "app.example1": "Plan a self-guided trip to Japan",
+  "app.example2": "Improve communication at work",
+  "app.example3": "Host a product launch event",
+  "app.example4": "Learn a new language",
+  "app.library": "My library",
+  "app.heading": "What would you like to break down?",
+  "app.intro": "Use the Mandalart method to turn a complex idea into concrete, actionable steps.",
+  "app.topicPlaceholder": "Enter a topic...",
+  "app.stopTitle": "Abort the current generation request",
+  "app.stop": "Stop",
+  "app.generate": "Generate",
+  "app.apiKeyHint": "Tip: make sure the API key environment variable is set to enable AI generation.",
+  "app.examples": "Try:",
+  "app.generating": "Generating... {done} / 8 dimensions done",
+  "app.cancel": "Cancel",
+  "app.generateFailed": "Something went wrong while generating the mandala chart",
+  "app.regenerateConfirm": "Regenerating replaces this mandala's content. Locked cells and cells expanded into child mandalas are kept. Dimensions whose title changes lose their checklists, and the timeline is cleared. The old content can still be restored from the history. Continue?",
+  "app.duplicateFailed": "Could not duplicate the mandala. Please try again later.",
+  "app.deleteFailed": "Could not delete the mandala. Please try again later.",
+  "app.importRepaired": "Imported \"{topic}\" and fixed {count} issue(s): {issues}",
+  "app.importFailed": "Import failed: {message}",
+  "app.importFailedFormat": "Import failed. Please check the file format.",
+  "app.editHint": "When on, click any cell to change its text",
+  "app.editDone": "Done editing",
+  "app.editMode": "Edit mode",
+  "app.poweredBy": "Powered by {provider}",
+  "app.translateFailed": "Translation failed: {message}",
+
+  "view.dashboard": "Dashboard",
+  "view.visual": "Interactive chart",
+  "view.checklist": "Checklists",
+  "view.kanban": "Task board",
+  "view.timeline": "Timeline",
+  "view.report": "Report",
+
+  "status.todo": "To do",
+  "status.inProgress": "In progress",
+  "status.blocked": "Blocked",
+  "status.done": "Done",
+
+  "sort.manual": "Custom order",
+  "sort.dueDate": "Due date",
+  "sort.importance": "Importance",
+  "sort.status": "Status",
+
+  "provider.title": "Choose the AI model provider",
+  "provider.heading": "AI model provider",
+  "provider.gemini": "Google Gemini",
+  "provider.openai": "OpenAI-compatible endpoint (Ollama / llama.cpp)",
+  "provider.mock": "Offline sample data",
+  "provider.geminiLabel": "Google {model}",
+  "provider.openaiLabel": "{model} (OpenAI-compatible)",
+  "provider.model": "Model",
+  "provider.geminiKeyHint": "The API key is read from the GEMINI_API_KEY environment variable.",
+  "provider.embeddingModel": "Embedding model",
+  "provider.embeddingHint": "Only used for semantic matching in the quality analysis.",
+  "provider.baseUrl": "Base URL",
+  "provider.apiKey": "API key (optional for local servers)",
+  "provider.mockHint": "No network and no key: returns a fixed sample mandala and checklists, for development and testing.",
+
+  "language.title": "Language",
+  "language.ui": "Interface language",
+  "language.content": "Generated content language",
+  "language.contentHint": "AI-generated dimensions, ideas, tasks and timelines are written in this language.",
+  "language.translate": "Translate this mandala",
+  "language.translateHint": "The translation is saved as a new mandala, including child mandalas, checklists and the timeline. The original is left unchanged.",
+  "language.translateTo": "Translate to {language}",
+  "language.translating": "Translating...",
+
+  "preset.summary": "Generation: {template} · {tone} · {count} actions",
+  "preset.template": "Template",
+  "preset.builtIn": "Built-in templates",
+  "preset.myTemplates": "My templates",
+  "preset.tone": "Tone",
+  "preset.actionCount": "Number of actions",
+  "preset.audience": "Audience",
+  "preset.audiencePlaceholder": "e.g. a first-time team lead (optional)",
+  "preset.variablesHint": "Fields left empty are left out of the prompt.",
+  "preset.saveAs": "Save as my template",
+  "preset.copyName": "{name} (my version)",
+  "preset.edit": "Edit template",
+  "preset.new": "New template",
+  "preset.import": "Import template",
+  "preset.export": "Export template",
+  "preset.exportTitle": "Download the template file (.mandala-template.json) to share it",
+  "preset.delete": "Delete template",
+  "preset.deleteConfirm": "Delete the template \"{name}\"?",
+  "preset.name": "Template name",
+  "preset.persona": "AI role",
+  "preset.personaPlaceholder": "e.g. a senior product manager",
+  "preset.description": "Description",
+  "preset.guidance": "Guidance",
+  "preset.guidanceHint": "Describe how to choose the 8 dimensions and their ideas. Use {{topic}} for the topic; each {{variable}} becomes a field to fill in before generating. The current tone and number of actions are saved as the template's defaults.",
+  "preset.save": "Save template",
+  "preset.imported": "Imported the template \"{name}\"",
+  "preset.importFailed": "Could not import the template: {message}",
+
+  "tone.neutral": "Unspecified",
+  "tone.professional": "Professional",
+  "tone.friendly": "Friendly",
+  "tone.motivational": "Motivational",
+  "tone.academic": "Academic",
+
+  "template.coach.name": "Creative thinking coach",
+  "template.coach.description": "A general-purpose mandala for any topic",
+  "template.goal.name": "Goal achievement chart (Ohtani style)",
+  "template.goal.description": "Break one big goal into 8 essentials and 64 daily actions",
+  "template.product.name": "Product planning",
+  "template.product.description": "Plan a product from users and value to features, business model and launch",
+  "template.learning.name": "Learning plan",
+  "template.learning.description": "Turn a skill into a step-by-step path that fits your level and time",
+  "template.event.name": "Event planning",
+  "template.event.description": "Venue, agenda, promotion, budget and staffing for an event",
+  "template.swot.name": "SWOT analysis",
+  "template.swot.description": "Analyse a topic by strengths, weaknesses, opportunities, threats and strategies",
+
+  "variable.deadline": "Deadline",
+  "variable.users": "Target users",
+  "variable.level": "Current level",
+  "variable.hoursPerWeek": "Hours per week",
+  "variable.date": "Event date",
+  "variable.attendees": "Expected attendees",
+  "variable.budget": "Budget",
+  "variable.context": "Background",
+
+  "guided.start": "Fill in a blank chart by hand, without AI",
+  "guided.startTitle": "Create an empty mandala and fill it in step by step",
+  "guided.toggle": "Guided fill",
+  "guided.toggleTitle": "Fill this chart cell by cell, following the Mandalart steps",
+  "guided.title": "Guided fill",
+  "guided.intro": "Fill in the chart one Mandalart step at a time; the views below update as you go. Every cell has a light bulb for an AI hint, but you never need one.",
+  "guided.close": "Close the guide",
+  "guided.step.center": "Central topic",
+  "guided.step.centerHint": "Settle on the topic, then write its core concept in one sentence: what do you want to achieve?",
+  "guided.step.dimensions": "8 dimensions",
+  "guided.step.dimensionsHint": "Write 8 key dimensions around the topic. They should complement each other without overlapping and together cover the whole topic.",
+  "guided.step.ideas": "Ideas",
+  "guided.step.ideasHint": "Put each dimension in the center and write 8 concrete ideas for it. Focus on one dimension at a time; it's fine to skip a cell and come back.",
+  "guided.step.summary": "Summary",
+  "guided.step.summaryHint": "Step back, look at the whole chart and write its most important insight in a sentence or two.",
+  "guided.step.actions": "Actions",
+  "guided.step.actionsHint": "Finally, write actions you can take right away. The more concrete the better; ideally you can start today or this week.",
+  "guided.topic": "Topic",
+  "guided.coreConcept": "Core concept",
+  "guided.coreConceptPlaceholder": "Click to write what this mandala should achieve...",
+  "guided.dimensionN": "Dimension {n}",
+  "guided.ideaN": "Idea {n}",
+  "guided.summary": "Summary",
+  "guided.summaryPlaceholder": "Click to write the summary...",
+  "guided.actionN": "Action {n}",
+  "guided.addAction": "Add action",
+  "guided.removeAction": "Remove this action",
+  "guided.hint": "Ask the AI for hints on this cell",
+  "guided.hintsFor": "Hints for {cell}:",
+  "guided.applyHint": "Use this wording",
+  "guided.noHints": "The AI returned no hints. Please try again later.",
+  "guided.hintFailed": "Could not get hints: {message}",
+  "guided.previous": "Back",
+  "guided.next": "Next",
+  "guided.finish": "Finish",
+
+  "coach.open": "Coach",
+  "coach.openTitle": "Talk with the thinking coach to clarify the topic or review this mandala",
+  "coach.title": "Thinking coach",
+  "coach.mode.topic": "Clarify the topic",
+  "coach.mode.chart": "Review this chart",
+  "coach.introTopic": "Before generating, talk the topic through with the coach. It asks questions to clarify your goal, audience and constraints, and the resulting brief can be used to generate the mandala.",
+  "coach.introChart": "The coach looks for vague, weak or overlapping parts of \"{topic}\". Suggested changes are only applied to the chart after you confirm them.",
+  "coach.starterClarify": "I'm not sure how to break this topic down yet. Could you ask me a few questions first?",
+  "coach.starterStuck": "I have a rough direction but can't say exactly what I want to achieve.",
+  "coach.starterReview": "Where is this mandala still weak?",
+  "coach.starterOverlap": "Do any dimensions overlap or look too similar?",
+  "coach.starterActions": "Are these actions concrete enough?",
+  "coach.placeholder": "Answer the coach or share your thoughts... (Enter to send, Shift+Enter for a new line)",
+  "coach.send": "Send",
+  "coach.thinking": "The coach is thinking...",
+  "coach.failed": "The coach could not reply: {message}",
+  "coach.clear": "Clear conversation",
+  "coach.brief": "Brief so far",
+  "coach.generate": "Generate the mandala with this brief",
+  "coach.ideaOf": "Idea {n} of \"{dimension}\"",
+  "coach.empty": "(empty)",
+  "coach.apply": "Apply",
+  "coach.dismiss": "Dismiss",
+  "coach.applied": "Applied",
+  "coach.dismissed": "Dismissed",
+
+  "background.add": "Add background material and constraints",
+  "background.summary": "Background: {parts}",
+  "background.documentCount": "{count} document(s)",
+  "background.hasNotes": "notes",
+  "background.hasConstraints": "constraints",
+  "background.hint": "The next generation and the task checklists take this into account. Set the audience in the generation settings.",
+  "background.hintOpen": "This is saved with \"{topic}\" and used when expanding child mandalas and generating checklists. Set the audience in the generation settings.",
+  "background.budget": "Budget",
+  "background.budgetPlaceholder": "e.g. under $200 a month",
+  "background.timeframe": "Timeframe",
+  "background.timeframePlaceholder": "e.g. done within three months",
+  "background.constraints": "Other constraints",
+  "background.constraintsPlaceholder": "e.g. evenings only, a team of two",
+  "background.notes": "Notes",
+  "background.notesPlaceholder": "Paste meeting notes, the current situation or anything relevant...",
+  "background.documents": "Reference documents",
+  "background.attach": "Attach files",
+  "background.attachTitle": "Supports {extensions}",
+  "background.reading": "Reading...",
+  "background.noDocuments": "No documents attached.",
+  "background.chars": "{count} chars",
+  "background.remove": "Remove document",
+  "background.localOnly": "Files are read in the browser; only the extracted text is sent.",
+  "background.truncated": "\"{name}\" is too long; only the first {count} characters were kept.",
+  "background.readFailed": "Could not read \"{name}\": {message}",
+  "background.clear": "Clear background",
+  "background.noDocxText": "The Word file has no document content.",
+  "background.unsupported": "Unsupported file type: {extension} (supported: {extensions})",
+  "background.noText": "“{name}” has no readable text.",
+  "background.noTextScanned": "“{name}” has no readable text (scanned PDFs need text recognition first).",
+
+  "quality.toggle": "Quality check",
+  "quality.toggleTitle": "Find repeated ideas and overlapping dimensions, and score how well the 8 dimensions cover the topic",
+  "quality.title": "Quality check",
+  "quality.overallTitle": "Overall score (0–100)",
+  "quality.methodLocal": "Compared by wording",
+  "quality.methodEmbedding": "Compared by meaning (embeddings)",
+  "quality.semanticOff": "Compare by meaning",
+  "quality.semanticOn": "Comparing by meaning",
+  "quality.semanticTitle": "Use the current provider's embedding model, which also finds texts worded differently but meaning the same",
+  "quality.embedFailed": "Could not get embeddings, back to comparing wording: {message}",
+  "quality.score.exclusivity": "Distinct dimensions",
+  "quality.score.distinctness": "Unique ideas",
+  "quality.score.completeness": "Filled in",
+  "quality.overlap": "Overlapping dimensions ({percent}% similar)",
+  "quality.overlapBetween": "\"{first}\" and \"{second}\" cover much the same ground",
+  "quality.replaceDimension": "Replace \"{dimension}\" and its ideas with AI",
+  "quality.duplicate": "{count} similar ideas ({percent}% similar)",
+  "quality.replaceDuplicates": "Rewrite {count} cell(s) with AI",
+  "quality.clearDuplicates": "Clear {count} cell(s)",
+  "quality.allLocked": "All of these cells are locked or expanded into child mandalas and won't be changed.",
+  "quality.dismiss": "Ignore this issue",
+  "quality.noIssues": "No repeated ideas or overlapping dimensions found.",
+  "quality.noReplacement": "The AI's suggestions still repeat other cells. Try again later or edit by hand.",
+  "quality.fixFailed": "The automatic fix failed. Please try again later.",
+
+  "history.open": "History",
+  "history.openTitle": "View version history, compare changes or restore",
+  "history.title": "Version history",
+  "history.loading": "Loading history…",
+  "history.loadFailed": "Could not load version history.",
+  "history.empty": "No history for this chart yet. Every change from now on is recorded here.",
+  "history.current": "Current state",
+  "history.latest": "Latest",
+  "history.oldest": "Earliest record",
+  "history.noChanges": "No changes",
+  "history.kind.initial": "Before changes",
+  "history.kind.generate": "Generated",
+  "history.kind.regenerate": "Regenerated",
+  "history.kind.blank": "Blank chart created",
+  "history.kind.edit": "Edited",
+  "history.kind.expand": "Sub-chart expanded",
+  "history.kind.checklist": "Checklist updated",
+  "history.kind.roadmap": "Roadmap scheduled",
+  "history.kind.background": "Background updated",
+  "history.kind.restore": "Restored",
+  "history.change.cells": "{count} cells",
+  "history.change.coreConcept": "core concept",
+  "history.change.summary": "summary",
+  "history.change.actions": "{count} action items",
+  "history.change.tasks": "{count} tasks",
+  "history.change.children": "{count} sub-charts",
+  "history.change.roadmap": "roadmap",
+  "history.change.background": "background",
+  "history.base": "Compare from (older)",
+  "history.target": "Compare to (newer)",
+  "history.legend.added": "Added {count}",
+  "history.legend.changed": "Changed {count}",
+  "history.legend.removed": "Removed {count}",
+  "history.sameRevision": "The same version is selected twice",
+  "history.details": "Changes",
+  "history.coreConceptLabel": "Core concept: ",
+  "history.restore": "Restore this version",
+  "history.restoreTitle": "Restore the chart to the version selected on the right",
+  "history.restoreLatest": "This is already the current version",
+  "history.restoreConfirm": "Restore the chart to the version from {time}? The current content stays in the history.",
+
+  "common.close": "Close",
+  "common.all": "All",
+  "common.overdue": "Overdue",
+  "common.dueDate": "Due date",
+  "common.importanceStars": "Importance: {stars} stars",
+
+  "progress.title": "Task progress: {done} / {total} ({percent}%)",
+  "breadcrumbs.child": "Child mandala:",
+  "editable.placeholder": "Click to type...",
+  "editable.title": "Click to edit",
+
+  "dashboard.subtitle": "The full 9x9 view (mandala chart)",
+  "dashboard.progress": "Overall task progress: {done} / {total} ({percent}%)",
+  "dashboard.exportTitle": "Download the 9x9 chart, overview and checklists per dimension (.xlsx)",
+  "dashboard.export": "Export Excel",
+  "dashboard.exportFailed": "Could not export the Excel file. Please try again later.",
+
+  "kanban.emptyTitle": "No tasks on the board yet",
+  "kanban.emptyHint": "Generate a checklist for any dimension under \"Checklists\" first; tasks from every dimension are gathered here by status.",
+  "kanban.title": "Task board: {topic}",
+  "kanban.showDimension": "Show this dimension's tasks",
+  "kanban.hideDimension": "Hide this dimension's tasks",
+  "kanban.dropHere": "Drop tasks here",
+
+  "library.importTitle": "Import a mandala file ({extension} or Markdown)",
+  "library.search": "Search topics or dimensions...",
+  "library.export": "Export as JSON file",
+  "library.duplicate": "Duplicate",
+  "library.copyTopic": "{topic} (copy)",
+  "library.delete": "Delete",
+  "library.deleteConfirm": "Delete \"{topic}\"? This cannot be undone.",
+  "library.empty": "No saved mandalas yet.",
+  "library.noMatch": "Nothing matches your search.",
+
+  "checklist.regenerateConfirm": "Regenerating replaces all current tasks, including ones you added or edited, and their progress. Continue?",
+  "checklist.generateFailed": "Could not generate the checklist. Please try again later.",
+  "checklist.noSuggestions": "No new task suggestions came back. Please try again later.",
+  "checklist.suggestFailed": "Could not get more task suggestions. Please try again later.",
+  "checklist.csvFailed": "Could not export the CSV. Please try again later.",
+  "checklist.wordFailed": "Could not export the Word file. Please try again later.",
+  "checklist.pickTitle": "Choose a dimension for the checklist",
+  "checklist.pickHint": "Pick a key dimension and the AI drafts concrete tasks with importance ratings; existing checklists keep their progress.",
+  "checklist.loading": "Planning the checklist for \"{dimension}\"...",
+  "checklist.loadingHint": "Rating task importance (1-5 stars)",
+  "checklist.repick": "Change dimension",
+  "checklist.csvTitle": "Download as CSV (Excel)",
+  "checklist.wordTitle": "Download as Word document",
+  "checklist.suggestTitle": "Ask the AI for tasks not listed yet",
+  "checklist.suggest": "Suggest more",
+  "checklist.regenerate": "Regenerate",
+  "checklist.subtitle": "With importance ratings (five-star scale)",
+  "checklist.sort": "Sort",
+  "checklist.status": "Status",
+  "checklist.assignee": "Assignee",
+  "checklist.unassigned": "Unassigned",
+  "checklist.clearFilters": "Clear filters",
+  "checklist.importance": "Importance",
+  "checklist.descriptionPlaceholder": "Click to add a description...",
+  "checklist.effortPlaceholder": "Effort",
+  "checklist.hours": "hours",
+  "checklist.effortShort": "About {hours} h",
+  "checklist.deleteTask": "Delete task",
+  "checklist.noTasks": "No tasks found.",
+  "checklist.noMatch": "No tasks match the filters.",
+  "checklist.newTaskPlaceholder": "Add a custom task...",
+  "checklist.add": "Add",
+  "checklist.progress": "Progress: {done} / {total}",
+
+  "visual.regenerateFailed": "Regeneration failed. Please try again later.",
+  "visual.regenerateStale": "This dimension was edited while it was being regenerated, so the AI result was discarded. Please try again.",
+  "visual.noAlternatives": "No alternative suggestions came back. Please try again later.",
+  "visual.alternativesFailed": "Could not get alternative suggestions. Please try again later.",
+  "visual.svgCopied": "SVG source copied to the clipboard!",
+  "visual.pngCopied": "Image copied to the clipboard! (PNG)",
+  "visual.copyFailed": "Could not copy to the clipboard. Check the browser permissions or download instead.",
+  "visual.exportFailed": "Could not export the image. Please try again later.",
+  "visual.back": "Back to center",
+  "visual.drillHint": "Click a surrounding cell to see its details",
+  "visual.exportTitle": "Export the chart as PNG or SVG",
+  "visual.export": "Export image",
+  "visual.scopeCenter": "Center grid",
+  "visual.scopeDimension": "Current dimension",
+  "visual.scopeDashboard": "Full 9x9",
+  "visual.pngResolution": "PNG resolution",
+  "visual.pngScale": "{scale}x ({pixels} px)",
+  "visual.copyPng": "Copy PNG",
+  "visual.downloadPng": "Download PNG",
+  "visual.copySvg": "Copy SVG",
+  "visual.downloadSvg": "Download SVG",
+  "visual.cellHint": "Select a cell to lock it, get AI alternatives or expand it into a child mandala; locked ideas are kept when regenerating.",
+  "visual.regenerateDimension": "Regenerate this dimension",
+  "visual.keptCells": "(keeping {count})",
+  "visual.unlock": "Unlock",
+  "visual.lock": "Lock cell",
+  "visual.expandTitle": "Expand a new 9x9 mandala around this idea",
+  "visual.openChild": "Open child mandala",
+  "visual.expandChild": "Expand into child mandala",
+  "visual.deleteChildConfirm": "Delete this child mandala and every level below it?",
+  "visual.replaceExpandedConfirm": "This cell has been expanded into a child mandala. Replacing its text also deletes the child mandala and every level below it. Apply anyway?",
+  "visual.deleteChild": "Delete child mandala",
+  "visual.alternatives": "AI alternatives",
+  "visual.applyAlternative": "Use this suggestion",
+  "visual.globalNav": "Overview",
+  "visual.backTo": "Back to center: {topic}",
+  "visual.showing": "Showing: ",
+  "visual.showingCenter": "Central topic (overview)",
+
+  "report.markdownCopied": "The full report was copied to the clipboard as Markdown!",
+  "report.pdfFailed": "PDF export failed: {message}",
+  "report.pdfFailedRetry": "PDF export failed. Please try again later.",
+  "report.wordFailed": "Could not export the Word file. Please try again later.",
+  "report.coreConcept": "1. Core concept",
+  "report.copyMarkdown": "Copy Markdown",
+  "report.copy": "Copy",
+  "report.downloadMarkdownTitle": "Download Markdown to edit in Obsidian / Notion and import again",
+  "report.exportPdf": "Export PDF",
+  "report.exportWord": "Export Word",
+  "report.includeChecklists": "Include checklists in Word",
+  "report.step": "Step {step}",
+  "report.tableA": "Table A: the topic and its 8 dimensions (3x3 grid)",
+  "report.tableB": "Table B: 8 ideas per dimension (8 tables)",
+  "report.summary": "Summary",
+  "report.actions": "{count} actions to take right away",
+
+  "pdf.poster": "A3 poster",
+  "pdf.posterHint": "The full 9x9 chart on one page",
+  "pdf.report": "A4 report",
+  "pdf.reportHint": "Table A, the 8 B tables, summary and actions",
+  "pdf.checklists": "A4 checklists",
+  "pdf.checklistsHint": "The task checklist of each dimension",
+
+  "export.reportTitle": "Mandala Thinking Report",
+  "export.documentTitle": "{topic} | Mandala Thinking Report",
+  "export.pdfTitle": "{topic} | Mandala Thinking",
+  "export.toc": "Contents",
+  "export.chapter": "{number}. {title}",
+  "export.coreConcept": "Core concept: {text}",
+  "export.coreTopic": "Topic: {topic}",
+  "export.tableA": "Table A: the topic and its 8 dimensions",
+  "export.tableB": "Table B: 8 ideas per dimension",
+  "export.dimensionHeading": "Dimension {n}: {title}",
+  "export.fullGrid": "9x9 overview",
+  "export.summary": "Summary",
+  "export.actions": "Actions",
+  "export.roadmap": "Timeline ({weeks} weeks)",
+  "export.phase": "{name} (weeks {start}–{end})",
+  "export.dependsOn": " (depends on: {items})",
+  "export.checklists": "Task checklists",
+  "export.checklistTitle": "Task checklist: {name}",
+  "export.progress": "Progress: {done} / {total} done",
+  "export.overallProgress": "Overall progress: {done} / {total} ({percent}%)",
+  "export.dimensionProgress": "{done} / {total} done",
+  "export.importance": "Importance: ",
+  "export.importanceStars": "Importance {stars}",
+  "export.assignee": "Assignee: {name}",
+  "export.dueDate": "Due: {date}",
+  "export.effort": "Estimated effort: {hours} h",
+  "export.metaSeparator": " · ",
+  "export.column.task": "Task",
+  "export.column.taskName": "Task",
+  "export.column.status": "Status",
+  "export.column.importance": "Importance",
+  "export.column.importanceScale": "Importance (1-5)",
+  "export.column.assignee": "Assignee",
+  "export.column.dueDate": "Due date",
+  "export.column.effort": "Effort",
+  "export.column.effortHours": "Estimated effort (hours)",
+  "export.column.description": "Description",
+  "export.column.dimension": "Dimension",
+  "export.column.taskCount": "Tasks",
+  "export.column.done": "Done",
+  "export.column.percent": "Completion",
+  "export.column.ideas": "Ideas",
+  "export.field.topic": "Topic",
+  "export.field.coreConcept": "Core concept",
+  "export.total": "Total",
+  "export.sheet.grid": "Mandala 9x9",
+  "export.sheet.summary": "Overview",
+  "export.fontFailed": "Could not download the font ({status})",
+  "export.noChecklists": "No checklists yet. Create one under “Checklists” first.",
+  "export.fileChecklist": "{name}_checklist",
+  "export.fileMandala": "{name}_mandala",
+  "export.fileReport": "{name}_mandala_report",
+  "export.fileCenter": "center",
+  "export.fileDimension": "dimension{n}",
+
+  "timeline.noSources": "There are no actions or tasks to schedule yet.",
+  "timeline.regenerateConfirm": "Rescheduling replaces the current timeline and manual adjustments. Continue?",
+  "timeline.generateFailed": "Could not create the timeline. Please try again later.",
+  "timeline.weeks": "{count} weeks",
+  "timeline.regenerate": "Reschedule",
+  "timeline.generate": "Create timeline with AI",
+  "timeline.emptyTitle": "No timeline yet",
+  "timeline.emptyHint": "The AI schedules {actions} actions and {tasks} checklist tasks into phases and marks their dependencies.",
+  "timeline.emptyTip": "Generate checklists under \"Checklists\" first for a fuller timeline.",
+  "timeline.title": "Timeline: {topic}",
+  "timeline.summary": "{weeks} weeks · {count} items · drag a bar sideways to move it; included in the Word report",
+  "timeline.conflicts": "{count} item(s) start before the items they depend on finish; they are outlined in red.",
+  "timeline.stale": "Actions or tasks changed after scheduling. Consider rescheduling.",
+  "timeline.item": "Item",
+  "timeline.action": "Action",
+  "timeline.barWeeks": "Weeks {start}–{end}",
+  "timeline.dependsOn": "Depends on: {items}",
+  "timeline.separator": ", ",
+
+  "import.invalidJson": "The file is not valid JSON.",
+  "import.notMandala": "This is not a mandala file and cannot be imported.",
+  "import.noVersion": "The mandala file has no valid version number.",
+  "import.newerVersion": "This file was created by a newer version (v{version}). Update the app and import it again.",
+  "import.invalidNode": "{path} is not valid mandala data.",
+  "import.invalidData": "{path} is not valid mandala content.",
+  "import.missingTopic": "{path} has no topic.",
+  "import.emptyTask": "empty task name, removed",
+  "import.invalidChecklist": "not a valid dimension checklist, skipped",
+  "import.invalidChildKey": "invalid child mandala position, skipped",
+  "import.invalidRoadmap": "invalid timeline format, skipped",
+  "import.invalidRoadmapWeeks": "timeline has no valid total weeks, skipped",
+  "import.notMandalaMarkdown": "Neither Table A nor the 9x9 overview was found; this is not mandala Markdown.",
+  "import.noTableB": "Table B not found, ideas restored from the 9x9 overview",
+  "import.unknownDimension": "no matching dimension, skipped",
+
+  "storage.unsupported": "This browser does not support IndexedDB, so mandalas cannot be saved.",
+  "storage.openFailed": "Could not open the local database.",
+  "storage.aborted": "The database transaction was aborted.",
+
+  "provider.noBaseUrl": "The OpenAI-compatible endpoint URL is not set.",
+  "provider.httpError": "The OpenAI-compatible endpoint returned an error ({status})",
+  "provider.httpErrorDetail": "The OpenAI-compatible endpoint returned an error ({status}): {detail}",
+  "provider.noStream": "The OpenAI-compatible endpoint returned no streamed content.",
+  "ai.noResponse": "The AI returned no response.",
+  "ai.parseMandala": "Could not read the generated mandala.",
+  "ai.incomplete": "The AI returned an incomplete mandala ({issues}). Please generate it again.",
+  "ai.fillFailed": "The AI returned an incomplete mandala ({issues}) and filling the gaps failed. Please generate it again.",
+  "ai.parseIdeas": "Could not read the regenerated ideas.",
+  "ai.parseHints": "Could not read the AI's suggestions.",
+  "ai.parseCoach": "Could not read the coach's reply.",
+  "ai.emptyCoach": "The coach did not reply. Please try again.",
+  "ai.parseRoadmap": "Could not read the AI's timeline.",
+  "ai.parseTranslation": "Could not read the AI's translation.",
+  "ai.translationCount": "The translation has the wrong number of items (expected {count}). Please try again.",
+  "ai.noEmbedding": "{provider} does not support embeddings.",
+  "ai.embeddingCount": "The number of embeddings does not match (expected {count}). Check the embedding model setting.",
+  "validator.invalidMandala": "The AI did not return a valid mandala object.",
+  "validator.truncated": "{count} entries, truncated to {size}",
+  "validator.padded": "only {count} entries, {added} blank cells added",
+  "validator.reordered": "order did not match mainDimensions, reordered by dimension",
+  "validator.gridsTruncated": "{count} grids, truncated to {size}",
+  "validator.gridAdded": "ideas for this dimension were missing, a blank grid was added",
+  "validator.titleAligned": "“{title}” did not match the dimension “{dimension}”, aligned",
+  "validator.dimensionFromTitle": "blank dimension filled with the grid title “{title}”",
+  "validator.missingCoreConcept": "core concept is blank",
+  "validator.missingDimension": "dimension {n} is blank",
+  "validator.missingIdea": "idea {n} of dimension {dimension} is blank",
+  "validator.missingSummary": "summary is blank",
+  "validator.missingActions": "no actions",
+  "validator.issue": "{path}: {message}",
+  "validator.more": "…and {count} more",
+  "validator.separator": "; ",
+  "validator.checklistNotArray": "response is not an array, ignored",
+  "validator.importanceNotNumber": "importance is not a number, set to 3",
+  "validator.importanceClamped": "importance {importance} is outside 1-5, changed to {clamped}",
+  "roadmap.invalid": "The AI did not return a valid timeline object.",
+  "roadmap.noPhases": "no valid phases, a single phase was created",
+  "roadmap.defaultPhase": "Execution",
+  "roadmap.unknownItem": "unknown item “{id}”, ignored",
+  "roadmap.duplicateItem": "item “{id}” was scheduled twice, only the first kept",
+  "roadmap.unscheduled": "the AI did not schedule this item, placed in the last week",
+  "templateFile.notTemplate": "This is not a prompt template file.",
+  "templateFile.newerVersion": "This template was created by a newer version (v{version}). Update the app and import it again.",
+  "templateFile.incomplete": "The template has no name or AI role.",
+};
@@ -0,0 +1,82 @@
+import { zhTW } from "./zh-TW";
+import { en } from "./en";
+import { ja } from "./ja";
+
+// UI strings per locale plus the language the model writes in. zh-TW is the source
+// catalogue: its keys define MessageKey, so a key missing from another locale fails the type check.
+
+export type Locale = "zh-TW" | "en" | "ja";
+export type MessageKey = keyof typeof zhTW;
+export type Messages = Record<MessageKey, string>;
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+export const LOCALE_OPTIONS: { id: Locale; label: string; promptName: string }[] = [
+  { id: "zh-TW", label: "繁體中文", promptName: "Traditional Chinese (繁體中文, Taiwan)" },
+  { id: "en", label: "English", promptName: "English" },
+  { id: "ja", label: "日本語", promptName: "Japanese (日本語)" },
+];
+
+const MESSAGES: Record<Locale, Messages> = { "zh-TW": zhTW, en, ja };
+
+export interface LanguageSettings {
+  // Labels, buttons and messages
+  uiLocale: Locale;
+  // What the generation, checklist and roadmap prompts ask the model to write in
+  contentLocale: Locale;
+}
+
+const SETTINGS_KEY = "mandala-language-settings";
+
+const isLocale = (value: unknown): value is Locale =>
+  LOCALE_OPTIONS.some((option) => option.id === value);
+
+const detectLocale = (): Locale => {
+  const language = typeof navigator === "undefined" ? "" : navigator.language.toLowerCase();
+  if (language.startsWith("ja")) return "ja";
+  if (language.startsWith("en")) return "en";
+  return "zh-TW";
+};
+
+export const getLanguageSettings = (): LanguageSettings => {
+  const detected = detectLocale();
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "null");
+    if (stored && typeof stored === "object") {
+      return {
+        uiLocale: isLocale(stored.uiLocale) ? stored.uiLocale : detected,
+        contentLocale: isLocale(stored.contentLocale) ? stored.contentLocale : detected,
+      };
+    }
+  } catch {
+    // Corrupt or unavailable storage falls back to the browser language
+  }
+  return { uiLocale: detected, contentLocale: detected };
+};
+
+export const setLanguageSettings = (settings: LanguageSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save language settings", error);
+  }
+};
+
+export const getLocaleLabel = (locale: Locale) =>
+  LOCALE_OPTIONS.find((option) => option.id === locale)?.label ?? locale;
+
+// `{name}` placeholders are filled from params; unknown placeholders are left as they are
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string =>
+  (MESSAGES[locale][key] ?? zhTW[key]).replace(/\{(\w+)\}/g, (match, name: string) =>
+    params?.[name] !== undefined ? String(params[name]) : match
+  );
+
+// For messages raised by services outside React, in the UI language the settings hold right now
+export const translateUi = (key: MessageKey, params?: MessageParams): string =>
+  translate(getLanguageSettings().uiLocale, key, params);
+
+// Appended to every prompt; the prompts themselves stay in Chinese, only the output language changes
+export const getLanguageInstruction = (locale: Locale) => {
+  const name = LOCALE_OPTIONS.find((option) => option.id === locale)?.promptName ?? locale;
+  return `輸出語言：所有文字內容（不含 JSON 鍵名與 id）一律使用 ${name} 撰寫。Write every text value in ${name}.`;
+};
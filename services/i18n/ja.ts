@@ -0,0 +1,560 @@
+import type { Messages } from ".";
+
+export const ja: Messages = {
+  "app.title": "マンダラ思考アシスタント",
+  "app.defaultTopic": "AI プロンプト講座を設計する",
+  "app.example1": "日本の個人旅行を計画する",
+  "app.example2": "職場のコミュニケーション力を高める",
+  "app.example3": "製品発表会を開催する",
+  "app.example4": "新しい言語を学ぶ",
+  "app.library": "マイライブラリ",
+  "app.heading": "どのテーマを分解しますか？",
+  "app.intro": "マンダラート (Mandalart) で、複雑なアイデアを具体的に実行できるステップへ落とし込みます。",
+  "app.topicPlaceholder": "テーマを入力...",
+  "app.stopTitle": "現在の生成リクエストを中止",
+  "app.stop": "生成を停止",
+  "app.generate": "生成する",
+  "app.apiKeyHint": "ヒント：AI 生成を使うには環境変数 (API Key) が正しく設定されている必要があります。",
+  "app.examples": "人気の例：",
+  "app.generating": "生成中... {done} / 8 の観点が完了",
+  "app.cancel": "キャンセル",
+  "app.generateFailed": "マンダラチャートの生成中にエラーが発生しました",
+  "app.regenerateConfirm": "再生成するとこのマンダラの内容が置き換わります。ロックしたセルと子マンダラに展開したセルは残ります。名前が変わった観点のチェックリストは削除され、実行スケジュールもクリアされます。以前の内容はバージョン履歴から復元できます。続けますか？",
+  "app.duplicateFailed": "複製できませんでした。しばらくしてからもう一度お試しください。",
+  "app.deleteFailed": "削除できませんでした。しばらくしてからもう一度お試しください。",
+  "app.importRepaired": "「{topic}」を読み込み、{count} 件の問題を修正しました：{issues}",
+  "app.importFailed": "読み込みに失敗しました：{message}",
+  "app.importFailedFormat": "読み込みに失敗しました。ファイル形式を確認してください。",
+  "app.editHint": "オンにすると、任意のマスをクリックして内容を編集できます",
+  "app.editDone": "編集を終了",
+  "app.editMode": "編集モード",
+  "app.poweredBy": "Powered by {provider}",
+  "app.translateFailed": "翻訳に失敗しました：{message}",
+
+  "view.dashboard": "ダッシュボード",
+  "view.visual": "インタラクティブ図",
+  "view.checklist": "タスクチェック",
+  "view.kanban": "タスクボード",
+  "view.timeline": "実行スケジュール",
+  "view.report": "詳細レポート",
+
+  "status.todo": "未着手",
+  "status.inProgress": "進行中",
+  "status.blocked": "保留",
+  "status.done": "完了",
+
+  "sort.manual": "カスタム順",
+  "sort.dueDate": "期日",
+  "sort.importance": "重要度",
+  "sort.status": "ステータス",
+
+  "provider.title": "AI モデルプロバイダーを選択",
+  "provider.heading": "AI モデルプロバイダー",
+  "provider.gemini": "Google Gemini",
+  "provider.openai": "OpenAI 互換エンドポイント (Ollama / llama.cpp)",
+  "provider.mock": "オフラインのサンプルデータ",
+  "provider.geminiLabel": "Google {model}",
+  "provider.openaiLabel": "{model} (OpenAI 互換)",
+  "provider.model": "モデル",
+  "provider.geminiKeyHint": "API Key は環境変数 GEMINI_API_KEY から読み込まれます。",
+  "provider.embeddingModel": "埋め込みモデル",
+  "provider.embeddingHint": "品質分析の意味的な比較にのみ使われます。",
+  "provider.baseUrl": "エンドポイント URL (Base URL)",
+  "provider.apiKey": "API Key（ローカルサーバーでは空欄可）",
+  "provider.mockHint": "ネット接続もキーも不要で、固定のサンプルマンダラとチェックリストを返します。開発・テスト向けです。",
+
+  "language.title": "言語設定",
+  "language.ui": "表示言語",
+  "language.content": "生成コンテンツの言語",
+  "language.contentHint": "AI が生成する観点・アイデア・タスク・スケジュールはこの言語で書かれます。",
+  "language.translate": "このマンダラを翻訳",
+  "language.translateHint": "翻訳結果は子マンダラ、チェックリスト、スケジュールを含めて新しいマンダラとして保存され、元の内容は変わりません。",
+  "language.translateTo": "{language}に翻訳",
+  "language.translating": "翻訳中...",
+
+  "preset.summary": "生成設定：{template} · {tone} · 行動 {count} 件",
+  "preset.template": "テンプレート",
+  "preset.builtIn": "組み込みテンプレート",
+  "preset.myTemplates": "マイテンプレート",
+  "preset.tone": "トーン",
+  "preset.actionCount": "行動の数",
+  "preset.audience": "対象者",
+  "preset.audiencePlaceholder": "例：初めてチームを率いるマネージャー（任意）",
+  "preset.variablesHint": "空欄の項目はプロンプトから省かれます。",
+  "preset.saveAs": "マイテンプレートとして保存",
+  "preset.copyName": "{name}（マイバージョン）",
+  "preset.edit": "テンプレートを編集",
+  "preset.new": "新規テンプレート",
+  "preset.import": "テンプレートを読み込む",
+  "preset.export": "テンプレートを書き出す",
+  "preset.exportTitle": "テンプレートファイル（.mandala-template.json）をダウンロードして共有",
+  "preset.delete": "テンプレートを削除",
+  "preset.deleteConfirm": "テンプレート「{name}」を削除しますか？",
+  "preset.name": "テンプレート名",
+  "preset.persona": "AI の役割",
+  "preset.personaPlaceholder": "例：経験豊富なプロダクトマネージャー",
+  "preset.description": "説明",
+  "preset.guidance": "展開の方針",
+  "preset.guidanceHint": "8 つの観点とアイデアの選び方を記述します。{{topic}} はテーマに置き換わり、{{変数名}} は生成前に入力する項目になります。現在のトーンと行動の数も既定値として保存されます。",
+  "preset.save": "テンプレートを保存",
+  "preset.imported": "テンプレート「{name}」を読み込みました",
+  "preset.importFailed": "テンプレートを読み込めませんでした：{message}",
+
+  "tone.neutral": "指定なし",
+  "tone.professional": "プロフェッショナル",
+  "tone.friendly": "親しみやすい",
+  "tone.motivational": "励まし",
+  "tone.academic": "学術的",
+
+  "template.coach.name": "創造的思考コーチ",
+  "template.coach.description": "どんなテーマにも使える汎用のマンダラ展開",
+  "template.goal.name": "目標達成シート（大谷翔平式）",
+  "template.goal.description": "大きな目標を 8 つの要素と 64 の日々の行動に分解",
+  "template.product.name": "プロダクト企画",
+  "template.product.description": "ユーザー、価値、機能、ビジネスモデルからローンチまでを計画",
+  "template.learning.name": "学習計画",
+  "template.learning.description": "レベルと使える時間に合わせて、スキルを段階的な学習ルートに分解",
+  "template.event.name": "イベント企画",
+  "template.event.description": "会場、進行、告知、予算、人員をカバーする準備リスト",
+  "template.swot.name": "SWOT 分析",
+  "template.swot.description": "強み、弱み、機会、脅威と対応策でテーマを分析",
+
+  "variable.deadline": "達成期限",
+  "variable.users": "ターゲットユーザー",
+  "variable.level": "現在のレベル",
+  "variable.hoursPerWeek": "週あたりの時間",
+  "variable.date": "開催日",
+  "variable.attendees": "参加予定人数",
+  "variable.budget": "予算",
+  "variable.context": "背景",
+
+  "guided.start": "AI を使わず、空のシートから手で書く",
+  "guided.startTitle": "空のマンダラを作成し、手順に沿って書き込みます",
+  "guided.toggle": "ガイド入力",
+  "guided.toggleTitle": "マンダラートの手順に沿ってこのシートを 1 マスずつ書き込む",
+  "guided.title": "ガイド入力",
+  "guided.intro": "マンダラートの手順に沿って 1 マスずつ書き込みます。下のビューも同時に更新されます。各マスの電球から AI のヒントを得られますが、なくても完成できます。",
+  "guided.close": "ガイドを閉じる",
+  "guided.step.center": "中心テーマ",
+  "guided.step.centerHint": "まず考えるテーマを決め、このマンダラの核となるコンセプトを一文で書きます。何を達成したいですか？",
+  "guided.step.dimensions": "8 つの観点",
+  "guided.step.dimensionsHint": "テーマの周りに 8 つの重要な観点を書きます。互いに補い合い、重ならず、合わせてテーマ全体をカバーするようにします。",
+  "guided.step.ideas": "アイデア",
+  "guided.step.ideasHint": "各観点を中心に置き、それぞれ具体的なアイデアを 8 つ書きます。一度に 1 つの観点に集中し、思いつかないマスは後回しで構いません。",
+  "guided.step.summary": "まとめ",
+  "guided.step.summaryHint": "シート全体を見渡し、最も重要な気づきを一、二文で書きます。",
+  "guided.step.actions": "行動",
+  "guided.step.actionsHint": "最後に、すぐに取れる行動を書きます。具体的なほど良く、今日か今週に始められるものが理想です。",
+  "guided.topic": "テーマ",
+  "guided.coreConcept": "コアコンセプト",
+  "guided.coreConceptPlaceholder": "クリックして、このマンダラで達成したいことを書く...",
+  "guided.dimensionN": "観点 {n}",
+  "guided.ideaN": "アイデア {n}",
+  "guided.summary": "まとめ",
+  "guided.summaryPlaceholder": "クリックしてまとめを書く...",
+  "guided.actionN": "行動 {n}",
+  "guided.addAction": "行動を追加",
+  "guided.removeAction": "この行動を削除",
+  "guided.hint": "このマスのヒントを AI に聞く",
+  "guided.hintsFor": "{cell}のヒント：",
+  "guided.applyHint": "この書き方を使う",
+  "guided.noHints": "AI からヒントが返ってきませんでした。しばらくしてから再試行してください。",
+  "guided.hintFailed": "ヒントを取得できませんでした：{message}",
+  "guided.previous": "戻る",
+  "guided.next": "次へ",
+  "guided.finish": "完了",
+
+  "coach.open": "コーチ",
+  "coach.openTitle": "思考コーチと対話して、テーマを明確にしたりこのマンダラを見直したりする",
+  "coach.title": "思考コーチ",
+  "coach.mode.topic": "テーマを明確にする",
+  "coach.mode.chart": "このシートを見直す",
+  "coach.introTopic": "生成する前に、テーマについてコーチと話しましょう。目標、対象、制約を質問で明確にし、まとめた背景をそのままマンダラの生成に使えます。",
+  "coach.introChart": "コーチが「{topic}」のあいまいな点、弱い点、重なっている点を探します。提案された変更は、あなたが確認してからシートに反映されます。",
+  "coach.starterClarify": "このテーマをどう展開すればよいか迷っています。まず質問してもらえますか？",
+  "coach.starterStuck": "大まかな方向はあるのですが、何を達成したいのかうまく言えません。",
+  "coach.starterReview": "このマンダラのまだ弱いところを見てください。",
+  "coach.starterOverlap": "重なっている、または似すぎている観点はありますか？",
+  "coach.starterActions": "これらの行動は十分に具体的ですか？",
+  "coach.placeholder": "コーチの質問に答えるか、考えを書いてください...（Enter で送信、Shift+Enter で改行）",
+  "coach.send": "送信",
+  "coach.thinking": "コーチが考えています...",
+  "coach.failed": "コーチが返答できませんでした：{message}",
+  "coach.clear": "会話を消去",
+  "coach.brief": "これまでに明確になった背景",
+  "coach.generate": "この背景でマンダラを生成",
+  "coach.ideaOf": "「{dimension}」のアイデア {n}",
+  "coach.empty": "（空白）",
+  "coach.apply": "反映",
+  "coach.dismiss": "見送る",
+  "coach.applied": "反映済み",
+  "coach.dismissed": "見送り済み",
+
+  "background.add": "背景資料と制約条件を追加",
+  "background.summary": "背景資料：{parts}",
+  "background.documentCount": "文書 {count} 件",
+  "background.hasNotes": "メモ",
+  "background.hasConstraints": "制約条件",
+  "background.hint": "次の生成とタスクリストはここの内容を参考にします。対象者は生成設定で入力してください。",
+  "background.hintOpen": "ここの内容は「{topic}」に保存され、子マンダラの展開とタスクリストの生成にも使われます。対象者は生成設定で入力してください。",
+  "background.budget": "予算",
+  "background.budgetPlaceholder": "例：月 3 万円以内",
+  "background.timeframe": "期間",
+  "background.timeframePlaceholder": "例：3 か月以内に完了",
+  "background.constraints": "その他の制約",
+  "background.constraintsPlaceholder": "例：業務時間外のみ、チームは 2 人",
+  "background.notes": "メモ",
+  "background.notesPlaceholder": "議事録、現状の説明など関連する情報を貼り付け...",
+  "background.documents": "参考文書",
+  "background.attach": "ファイルを添付",
+  "background.attachTitle": "対応形式：{extensions}",
+  "background.reading": "読み込み中...",
+  "background.noDocuments": "添付された文書はありません。",
+  "background.chars": "{count} 文字",
+  "background.remove": "文書を削除",
+  "background.localOnly": "ファイルはブラウザ内で読み込まれ、送信されるのは抽出したテキストだけです。",
+  "background.truncated": "「{name}」は長すぎるため、先頭 {count} 文字だけを残しました。",
+  "background.readFailed": "「{name}」を読み込めません：{message}",
+  "background.clear": "背景資料をクリア",
+  "background.noDocxText": "Word ファイルに本文が見つかりません。",
+  "background.unsupported": "対応していないファイル形式です：{extension}（対応形式：{extensions}）",
+  "background.noText": "「{name}」に読み取れるテキストがありません。",
+  "background.noTextScanned": "「{name}」に読み取れるテキストがありません（スキャンした PDF は先に文字認識が必要です）。",
+
+  "quality.toggle": "品質チェック",
+  "quality.toggleTitle": "重複するアイデアと重なる観点を見つけ、8 つの観点の網羅度を評価します",
+  "quality.title": "品質チェック",
+  "quality.overallTitle": "総合スコア（0–100）",
+  "quality.methodLocal": "文字の類似度で比較",
+  "quality.methodEmbedding": "意味ベクトルで比較",
+  "quality.semanticOff": "意味で比較",
+  "quality.semanticOn": "意味で比較中",
+  "quality.semanticTitle": "現在の AI プロバイダーの埋め込みモデルで比較し、言い回しが違っても意味が近い内容を見つけます",
+  "quality.embedFailed": "意味ベクトルを取得できないため、文字の比較に戻しました：{message}",
+  "quality.score.exclusivity": "観点の独立性",
+  "quality.score.distinctness": "アイデアの独自性",
+  "quality.score.completeness": "記入率",
+  "quality.overlap": "観点の重なり（類似度 {percent}%）",
+  "quality.overlapBetween": "「{first}」と「{second}」の内容がよく似ています",
+  "quality.replaceDimension": "AI で「{dimension}」とそのアイデアを置き換え",
+  "quality.duplicate": "似たアイデア {count} 件（類似度 {percent}%）",
+  "quality.replaceDuplicates": "AI で {count} マスを書き換え",
+  "quality.clearDuplicates": "{count} マスを空にする",
+  "quality.allLocked": "これらのマスはすべてロック済みか子マンダラに展開済みのため、変更されません。",
+  "quality.dismiss": "この問題を無視",
+  "quality.noIssues": "重複するアイデアや重なる観点は見つかりませんでした。",
+  "quality.noReplacement": "AI の提案もほかのマスと重複しています。後でもう一度試すか、手動で編集してください。",
+  "quality.fixFailed": "自動修正に失敗しました。後でもう一度お試しください。",
+
+  "history.open": "履歴",
+  "history.openTitle": "バージョン履歴を表示し、差分の比較や復元を行う",
+  "history.title": "バージョン履歴",
+  "history.loading": "履歴を読み込み中…",
+  "history.loadFailed": "バージョン履歴を読み込めませんでした。",
+  "history.empty": "このチャートにはまだ履歴がありません。これからの変更はすべてここに記録されます。",
+  "history.current": "現在の状態",
+  "history.latest": "最新",
+  "history.oldest": "最初の記録",
+  "history.noChanges": "変更なし",
+  "history.kind.initial": "変更前",
+  "history.kind.generate": "生成",
+  "history.kind.regenerate": "再生成",
+  "history.kind.blank": "空白チャートを作成",
+  "history.kind.edit": "編集",
+  "history.kind.expand": "サブチャートを展開",
+  "history.kind.checklist": "チェックリストを更新",
+  "history.kind.roadmap": "ロードマップを作成",
+  "history.kind.background": "背景資料を更新",
+  "history.kind.restore": "復元",
+  "history.change.cells": "{count} マス",
+  "history.change.coreConcept": "コアコンセプト",
+  "history.change.summary": "要約",
+  "history.change.actions": "{count} 件のアクション",
+  "history.change.tasks": "{count} 件のタスク",
+  "history.change.children": "{count} 個のサブチャート",
+  "history.change.roadmap": "ロードマップ",
+  "history.change.background": "背景資料",
+  "history.base": "比較元（古い方）",
+  "history.target": "比較先（新しい方）",
+  "history.legend.added": "追加 {count}",
+  "history.legend.changed": "変更 {count}",
+  "history.legend.removed": "削除 {count}",
+  "history.sameRevision": "同じバージョンが選択されています",
+  "history.details": "変更内容",
+  "history.coreConceptLabel": "コアコンセプト：",
+  "history.restore": "このバージョンに戻す",
+  "history.restoreTitle": "チャートを右側で選んだバージョンに戻す",
+  "history.restoreLatest": "これはすでに現在のバージョンです",
+  "history.restoreConfirm": "チャートを {time} のバージョンに戻しますか？現在の内容は履歴に残ります。",
+
+  "common.close": "閉じる",
+  "common.all": "すべて",
+  "common.overdue": "期限切れ",
+  "common.dueDate": "期日",
+  "common.importanceStars": "重要度：星 {stars}",
+
+  "progress.title": "タスクの進捗：{done} / {total}（{percent}%）",
+  "breadcrumbs.child": "子マンダラ：",
+  "editable.placeholder": "クリックして入力...",
+  "editable.title": "クリックして編集",
+
+  "dashboard.subtitle": "9x9 の全体像（マンダラチャート）",
+  "dashboard.progress": "全体のタスク進捗：{done} / {total}（{percent}%）",
+  "dashboard.exportTitle": "9x9 チャート、概要、観点ごとのチェックリストをダウンロード (.xlsx)",
+  "dashboard.export": "Excel に書き出す",
+  "dashboard.exportFailed": "Excel ファイルを書き出せませんでした。しばらくしてからもう一度お試しください。",
+
+  "kanban.emptyTitle": "ボードにはまだタスクがありません",
+  "kanban.emptyHint": "まず「タスクチェック」でいずれかの観点のチェックリストを生成してください。すべての観点のタスクがここにステータス別に集まります。",
+  "kanban.title": "タスクボード：{topic}",
+  "kanban.showDimension": "この観点のタスクを表示",
+  "kanban.hideDimension": "この観点のタスクを隠す",
+  "kanban.dropHere": "ここにタスクをドラッグ",
+
+  "library.importTitle": "マンダラファイルを読み込む ({extension} または Markdown)",
+  "library.search": "テーマや観点を検索...",
+  "library.export": "JSON ファイルとして書き出す",
+  "library.duplicate": "複製",
+  "library.copyTopic": "{topic}（コピー）",
+  "library.delete": "削除",
+  "library.deleteConfirm": "「{topic}」を削除しますか？この操作は元に戻せません。",
+  "library.empty": "保存されたマンダラはまだありません。",
+  "library.noMatch": "検索に一致する結果はありません。",
+
+  "checklist.regenerateConfirm": "再生成すると、追加・編集したものを含む現在のタスクと進捗がすべて置き換えられます。続けますか？",
+  "checklist.generateFailed": "チェックリストを生成できませんでした。しばらくしてからもう一度お試しください。",
+  "checklist.noSuggestions": "新しいタスクの提案が得られませんでした。しばらくしてからもう一度お試しください。",
+  "checklist.suggestFailed": "追加のタスク提案を取得できませんでした。しばらくしてからもう一度お試しください。",
+  "checklist.csvFailed": "CSV を書き出せませんでした。しばらくしてからもう一度お試しください。",
+  "checklist.wordFailed": "Word ファイルを書き出せませんでした。しばらくしてからもう一度お試しください。",
+  "checklist.pickTitle": "チェックリストを作る観点を選択",
+  "checklist.pickHint": "観点を選ぶと、AI が具体的なタスクと重要度を作成します。作成済みのチェックリストは進捗を保持します。",
+  "checklist.loading": "「{dimension}」のチェックリストを計画中...",
+  "checklist.loadingHint": "タスクの重要度を評価中 (1-5 星)",
+  "checklist.repick": "観点を選び直す",
+  "checklist.csvTitle": "CSV (Excel) でダウンロード",
+  "checklist.wordTitle": "Word 文書でダウンロード",
+  "checklist.suggestTitle": "まだ挙がっていないタスクを AI に追加してもらう",
+  "checklist.suggest": "さらに提案",
+  "checklist.regenerate": "再生成",
+  "checklist.subtitle": "重要度付き（5 段階）",
+  "checklist.sort": "並べ替え",
+  "checklist.status": "ステータス",
+  "checklist.assignee": "担当者",
+  "checklist.unassigned": "未割り当て",
+  "checklist.clearFilters": "フィルターをクリア",
+  "checklist.importance": "重要度",
+  "checklist.descriptionPlaceholder": "クリックして説明を追加...",
+  "checklist.effortPlaceholder": "工数",
+  "checklist.hours": "時間",
+  "checklist.effortShort": "約 {hours} 時間",
+  "checklist.deleteTask": "タスクを削除",
+  "checklist.noTasks": "タスクが見つかりません。",
+  "checklist.noMatch": "フィルター条件に一致するタスクはありません。",
+  "checklist.newTaskPlaceholder": "カスタムタスクを追加...",
+  "checklist.add": "追加",
+  "checklist.progress": "進捗：{done} / {total}",
+
+  "visual.regenerateFailed": "再生成に失敗しました。しばらくしてからもう一度お試しください。",
+  "visual.regenerateStale": "再生成中にこの観点が編集されたため、AI の結果は破棄しました。もう一度お試しください。",
+  "visual.noAlternatives": "代替案が得られませんでした。しばらくしてからもう一度お試しください。",
+  "visual.alternativesFailed": "代替案の取得に失敗しました。しばらくしてからもう一度お試しください。",
+  "visual.svgCopied": "SVG ソースをクリップボードにコピーしました！",
+  "visual.pngCopied": "画像をクリップボードにコピーしました！(PNG)",
+  "visual.copyFailed": "クリップボードにコピーできませんでした。ブラウザの権限を確認するか、ダウンロードをご利用ください。",
+  "visual.exportFailed": "画像を書き出せませんでした。しばらくしてからもう一度お試しください。",
+  "visual.back": "中心に戻る",
+  "visual.drillHint": "周りのマスをクリックすると詳細を表示します",
+  "visual.exportTitle": "チャートを PNG または SVG で書き出す",
+  "visual.export": "画像を書き出す",
+  "visual.scopeCenter": "中心の 3x3",
+  "visual.scopeDimension": "現在の観点",
+  "visual.scopeDashboard": "9x9 全体",
+  "visual.pngResolution": "PNG 解像度",
+  "visual.pngScale": "{scale}x（{pixels} px）",
+  "visual.copyPng": "PNG をコピー",
+  "visual.downloadPng": "PNG をダウンロード",
+  "visual.copySvg": "SVG をコピー",
+  "visual.downloadSvg": "SVG をダウンロード",
+  "visual.cellHint": "マスを選ぶと、ロック、AI の代替案、子マンダラへの展開ができます。再生成してもロックしたアイデアは残ります。",
+  "visual.regenerateDimension": "この観点を再生成",
+  "visual.keptCells": "（{count} マスを保持）",
+  "visual.unlock": "ロック解除",
+  "visual.lock": "このマスをロック",
+  "visual.expandTitle": "このアイデアを中心に新しい 9x9 マンダラを展開",
+  "visual.openChild": "子マンダラを開く",
+  "visual.expandChild": "子マンダラに展開",
+  "visual.deleteChildConfirm": "この子マンダラ（下の階層すべてを含む）を削除しますか？",
+  "visual.replaceExpandedConfirm": "このマスは子マンダラに展開されています。テキストを置き換えると子マンダラ（下の階層すべてを含む）も削除されます。適用しますか？",
+  "visual.deleteChild": "子マンダラを削除",
+  "visual.alternatives": "AI の代替案",
+  "visual.applyAlternative": "この案を使う",
+  "visual.globalNav": "全体ナビゲーション",
+  "visual.backTo": "中心に戻る：{topic}",
+  "visual.showing": "表示中：",
+  "visual.showingCenter": "中心テーマ（概要）",
+
+  "report.markdownCopied": "レポート全体を Markdown 形式でクリップボードにコピーしました！",
+  "report.pdfFailed": "PDF の書き出しに失敗しました：{message}",
+  "report.pdfFailedRetry": "PDF の書き出しに失敗しました。しばらくしてからもう一度お試しください。",
+  "report.wordFailed": "Word ファイルを書き出せませんでした。しばらくしてからもう一度お試しください。",
+  "report.coreConcept": "1. 中心となる概念",
+  "report.copyMarkdown": "Markdown をコピー",
+  "report.copy": "コピー",
+  "report.downloadMarkdownTitle": "Markdown をダウンロード（Obsidian / Notion で編集して再読み込みできます）",
+  "report.exportPdf": "PDF に書き出す",
+  "report.exportWord": "Word に書き出す",
+  "report.includeChecklists": "Word にチェックリストを含める",
+  "report.step": "ステップ {step}",
+  "report.tableA": "表 A：テーマと 8 つの観点（3x3）",
+  "report.tableB": "表 B：各観点の 8 つのアイデア（全 8 表）",
+  "report.summary": "全体のまとめ",
+  "report.actions": "すぐに取れる {count} つの行動",
+
+  "pdf.poster": "A3 ポスター",
+  "pdf.posterHint": "9x9 の全体図を 1 ページに",
+  "pdf.report": "A4 レポート",
+  "pdf.reportHint": "表 A、8 枚の表 B、まとめと行動",
+  "pdf.checklists": "A4 チェックリスト",
+  "pdf.checklistsHint": "観点ごとのタスクチェックリスト",
+
+  "export.reportTitle": "マンダラ思考レポート",
+  "export.documentTitle": "{topic}｜マンダラ思考レポート",
+  "export.pdfTitle": "{topic}｜マンダラ思考",
+  "export.toc": "目次",
+  "export.chapter": "{numeral}、{title}",
+  "export.coreConcept": "中心となる概念：{text}",
+  "export.coreTopic": "テーマ：{topic}",
+  "export.tableA": "表 A：テーマと 8 つの観点",
+  "export.tableB": "表 B：各観点の 8 つのアイデア",
+  "export.dimensionHeading": "観点 {n}：{title}",
+  "export.fullGrid": "9x9 全体図",
+  "export.summary": "全体のまとめ",
+  "export.actions": "行動の提案",
+  "export.roadmap": "実行スケジュール（全 {weeks} 週）",
+  "export.phase": "{name}（第 {start}–{end} 週）",
+  "export.dependsOn": "（依存：{items}）",
+  "export.checklists": "タスクチェックリスト",
+  "export.checklistTitle": "タスクチェックリスト：{name}",
+  "export.progress": "進捗：{done} / {total} 完了",
+  "export.overallProgress": "全体の進捗：{done} / {total}（{percent}%）",
+  "export.dimensionProgress": "完了 {done} / {total}",
+  "export.importance": "重要度：",
+  "export.importanceStars": "重要度 {stars}",
+  "export.assignee": "担当者：{name}",
+  "export.dueDate": "期日：{date}",
+  "export.effort": "見積工数：{hours} 時間",
+  "export.metaSeparator": "・",
+  "export.column.task": "タスク",
+  "export.column.taskName": "タスク名",
+  "export.column.status": "状態",
+  "export.column.importance": "重要度",
+  "export.column.importanceScale": "重要度 (1-5)",
+  "export.column.assignee": "担当者",
+  "export.column.dueDate": "期日",
+  "export.column.effort": "工数",
+  "export.column.effortHours": "見積工数（時間）",
+  "export.column.description": "タスクの説明",
+  "export.column.dimension": "観点",
+  "export.column.taskCount": "タスク数",
+  "export.column.done": "完了",
+  "export.column.percent": "完了率",
+  "export.column.ideas": "アイデア",
+  "export.field.topic": "テーマ",
+  "export.field.coreConcept": "中心となる概念",
+  "export.total": "合計",
+  "export.sheet.grid": "マンダラ 9x9",
+  "export.sheet.summary": "概要",
+  "export.fontFailed": "フォントをダウンロードできませんでした ({status})",
+  "export.noChecklists": "チェックリストがまだありません。先に「タスクチェック」で作成してください。",
+  "export.fileChecklist": "{name}_タスクチェックリスト",
+  "export.fileMandala": "{name}_マンダラ",
+  "export.fileReport": "{name}_マンダラ思考レポート",
+  "export.fileCenter": "中心",
+  "export.fileDimension": "観点{n}",
+
+  "timeline.noSources": "スケジュールに入れる行動やタスクがまだありません。",
+  "timeline.regenerateConfirm": "再スケジュールすると現在のスケジュールと手動調整が置き換えられます。続けますか？",
+  "timeline.generateFailed": "スケジュールを作成できませんでした。しばらくしてからもう一度お試しください。",
+  "timeline.weeks": "{count} 週間",
+  "timeline.regenerate": "再スケジュール",
+  "timeline.generate": "AI でスケジュール作成",
+  "timeline.emptyTitle": "実行スケジュールはまだありません",
+  "timeline.emptyHint": "AI が {actions} 件の行動と {tasks} 件のタスクを各フェーズに割り当て、依存関係を示します。",
+  "timeline.emptyTip": "先に「タスクチェック」でチェックリストを作ると、スケジュールがより充実します。",
+  "timeline.title": "実行スケジュール：{topic}",
+  "timeline.summary": "全 {weeks} 週・{count} 項目・バーを左右にドラッグして週を調整できます。Word レポートにも含まれます",
+  "timeline.conflicts": "{count} 件の項目が依存先の完了前に始まっています（赤枠で表示）。",
+  "timeline.stale": "スケジュール作成後に行動やタスクが変更されました。再スケジュールをおすすめします。",
+  "timeline.item": "項目",
+  "timeline.action": "行動",
+  "timeline.barWeeks": "第 {start}–{end} 週",
+  "timeline.dependsOn": "依存：{items}",
+  "timeline.separator": "、",
+
+  "import.invalidJson": "ファイルが有効な JSON ではありません。",
+  "import.notMandala": "マンダラファイルではないため、読み込めません。",
+  "import.noVersion": "マンダラファイルに有効なバージョン番号がありません。",
+  "import.newerVersion": "このファイルは新しいバージョン（v{version}）で作成されています。アプリを更新してから読み込んでください。",
+  "import.invalidNode": "{path} は有効なマンダラデータではありません。",
+  "import.invalidData": "{path} は有効なマンダラの内容ではありません。",
+  "import.missingTopic": "{path} にテーマがありません。",
+  "import.emptyTask": "タスク名が空欄のため削除しました",
+  "import.invalidChecklist": "有効な観点のチェックリストではないため、スキップしました",
+  "import.invalidChildKey": "子マンダラの位置が無効なため、スキップしました",
+  "import.invalidRoadmap": "スケジュールの形式が正しくないため、スキップしました",
+  "import.invalidRoadmapWeeks": "スケジュールに有効な総週数がないため、スキップしました",
+  "import.notMandalaMarkdown": "表 A も 9x9 全体図も見つからないため、マンダラの Markdown ではありません。",
+  "import.noTableB": "表 B が見つからないため、9x9 全体図からアイデアを復元しました",
+  "import.unknownDimension": "対応する観点が見つからないため、スキップしました",
+
+  "storage.unsupported": "このブラウザは IndexedDB に対応していないため、マンダラを保存できません。",
+  "storage.openFailed": "ローカルデータベースを開けませんでした。",
+  "storage.aborted": "データベースのトランザクションが中断されました。",
+
+  "provider.noBaseUrl": "OpenAI 互換エンドポイントの URL が設定されていません。",
+  "provider.httpError": "OpenAI 互換エンドポイントがエラーを返しました ({status})",
+  "provider.httpErrorDetail": "OpenAI 互換エンドポイントがエラーを返しました ({status})：{detail}",
+  "provider.noStream": "OpenAI 互換エンドポイントからストリームの内容が返されませんでした。",
+  "ai.noResponse": "AI から応答がありませんでした。",
+  "ai.parseMandala": "生成されたマンダラを読み取れませんでした。",
+  "ai.incomplete": "AI が返したマンダラが不完全です（{issues}）。もう一度生成してください。",
+  "ai.fillFailed": "AI が返したマンダラが不完全で（{issues}）、空欄を補えませんでした。もう一度生成してください。",
+  "ai.parseIdeas": "再生成したアイデアを読み取れませんでした。",
+  "ai.parseHints": "AI の提案を読み取れませんでした。",
+  "ai.parseCoach": "コーチの返信を読み取れませんでした。",
+  "ai.emptyCoach": "コーチから返信がありませんでした。もう一度お試しください。",
+  "ai.parseRoadmap": "AI のスケジュールを読み取れませんでした。",
+  "ai.parseTranslation": "AI の翻訳を読み取れませんでした。",
+  "ai.translationCount": "翻訳結果の項目数が一致しません（{count} 個のはずです）。もう一度お試しください。",
+  "ai.noEmbedding": "{provider} はベクトル埋め込みに対応していません。",
+  "ai.embeddingCount": "ベクトルの数が一致しません（{count} 個のはずです）。埋め込みモデルの設定を確認してください。",
+  "validator.invalidMandala": "AI が返したデータは有効なマンダラではありません。",
+  "validator.truncated": "{count} 項目あったため、{size} 項目に切り詰めました",
+  "validator.padded": "{count} 項目しかないため、空欄を {added} 個追加しました",
+  "validator.reordered": "mainDimensions と順序が一致しないため、観点順に並べ替えました",
+  "validator.gridsTruncated": "{count} 組あったため、{size} 組に切り詰めました",
+  "validator.gridAdded": "この観点のアイデアがないため、空のグリッドを作成しました",
+  "validator.titleAligned": "「{title}」が観点「{dimension}」と一致しないため、揃えました",
+  "validator.dimensionFromTitle": "空欄の観点にグリッドのタイトル「{title}」を使いました",
+  "validator.missingCoreConcept": "中心となる概念が空欄です",
+  "validator.missingDimension": "観点 {n} が空欄です",
+  "validator.missingIdea": "観点 {dimension} のアイデア {n} が空欄です",
+  "validator.missingSummary": "全体のまとめが空欄です",
+  "validator.missingActions": "行動の提案がありません",
+  "validator.issue": "{path}：{message}",
+  "validator.more": "…ほか {count} 件",
+  "validator.separator": "；",
+  "validator.checklistNotArray": "応答が配列ではないため、無視しました",
+  "validator.importanceNotNumber": "重要度が数値ではないため、3 にしました",
+  "validator.importanceClamped": "重要度 {importance} が 1-5 の範囲外のため、{clamped} にしました",
+  "roadmap.invalid": "AI が返したデータは有効なスケジュールではありません。",
+  "roadmap.noPhases": "有効なフェーズがないため、フェーズを 1 つ作成しました",
+  "roadmap.defaultPhase": "実行フェーズ",
+  "roadmap.unknownItem": "不明な項目「{id}」のため、無視しました",
+  "roadmap.duplicateItem": "項目「{id}」が重複しているため、最初の 1 件のみ残しました",
+  "roadmap.unscheduled": "AI がこの項目を割り当てなかったため、最終週に配置しました",
+  "templateFile.notTemplate": "プロンプトテンプレートのファイルではありません。",
+  "templateFile.newerVersion": "このテンプレートは新しいバージョン（v{version}）で作成されています。アプリを更新してから読み込んでください。",
+  "templateFile.incomplete": "テンプレートに名前または AI の役割がありません。",
+};
@@ -0,0 +1,559 @@
+// Source catalogue: every key used in the UI is defined here first
+export const zhTW = {
+  "app.title": "曼陀羅思考助手",
+  "app.defaultTopic": "設計一堂 AI 提示語課程",
+  "app.example1": "規劃日本自助旅行",
+  "app.example2": "提升職場溝通能力",
+  "app.example3": "舉辦一場產品發表會",
+  "app.example4": "學習一門新語言",
+  "app.library": "我的曼陀羅庫",
+  "app.heading": "您想拆解什麼主題？",
+  "app.intro": "運用曼陀羅思考法 (Mandalart)，將複雜概念轉化為具體可行的行動步驟。",
+  "app.topicPlaceholder": "請輸入主題...",
+  "app.stopTitle": "中止目前的生成請求",
+  "app.stop": "停止生成",
+  "app.generate": "開始生成",
+  "app.apiKeyHint": "提示：請確保環境變數 (API Key) 已正確設定以啟用 AI 生成功能。",
+  "app.examples": "熱門範例：",
+  "app.generating": "正在生成...已完成 {done} / 8 個面向",
+  "app.cancel": "取消",
+  "app.generateFailed": "產生曼陀羅思考圖時發生錯誤",
+  "app.regenerateConfirm": "重新生成會取代這張曼陀羅的內容。已鎖定或展開成子曼陀羅的格子會保留；名稱改變的面向會移除其檢核表，執行時程也會清除。舊的內容仍可從版本歷史還原，確定要繼續嗎？",
+  "app.duplicateFailed": "建立副本失敗，請稍後再試。",
+  "app.deleteFailed": "刪除失敗，請稍後再試。",
+  "app.importRepaired": "已匯入「{topic}」，並修正了 {count} 處問題：{issues}",
+  "app.importFailed": "匯入失敗：{message}",
+  "app.importFailedFormat": "匯入失敗，請確認檔案格式。",
+  "app.editHint": "開啟後可直接點擊任一格修改內容",
+  "app.editDone": "完成編輯",
+  "app.editMode": "編輯模式",
+  "app.poweredBy": "由 {provider} 技術支援",
+  "app.translateFailed": "翻譯失敗：{message}",
+
+  "view.dashboard": "全景儀表板",
+  "view.visual": "互動圖表",
+  "view.checklist": "任務檢核",
+  "view.kanban": "任務看板",
+  "view.timeline": "執行時程",
+  "view.report": "詳細報告",
+
+  "status.todo": "待執行",
+  "status.inProgress": "進行中",
+  "status.blocked": "受阻",
+  "status.done": "已完成",
+
+  "sort.manual": "自訂順序",
+  "sort.dueDate": "截止日",
+  "sort.importance": "重要性",
+  "sort.status": "狀態",
+
+  "provider.title": "選擇 AI 模型提供者",
+  "provider.heading": "AI 模型提供者",
+  "provider.gemini": "Google Gemini",
+  "provider.openai": "OpenAI 相容端點 (Ollama / llama.cpp)",
+  "provider.mock": "離線模擬資料",
+  "provider.geminiLabel": "Google {model}",
+  "provider.openaiLabel": "{model} (OpenAI 相容)",
+  "provider.model": "模型",
+  "provider.geminiKeyHint": "API Key 取自環境變數 GEMINI_API_KEY。",
+  "provider.embeddingModel": "語意向量模型",
+  "provider.embeddingHint": "只用於品質分析的語意比對。",
+  "provider.baseUrl": "端點網址 (Base URL)",
+  "provider.apiKey": "API Key（本機伺服器可留空）",
+  "provider.mockHint": "不連網、不需金鑰，回傳固定的範例曼陀羅與檢核表，適合開發與測試。",
+
+  "language.title": "語言設定",
+  "language.ui": "介面語言",
+  "language.content": "生成內容語言",
+  "language.contentHint": "AI 生成的面向、子想法、任務與時程會使用這個語言。",
+  "language.translate": "翻譯目前的曼陀羅",
+  "language.translateHint": "翻譯結果會另存為新的曼陀羅，包含子曼陀羅、檢核表與時程，原本的內容不變。",
+  "language.translateTo": "翻譯為{language}",
+  "language.translating": "正在翻譯...",
+
+  "preset.summary": "生成設定：{template} · {tone} · {count} 個行動建議",
+  "preset.template": "範本",
+  "preset.builtIn": "內建範本",
+  "preset.myTemplates": "我的範本",
+  "preset.tone": "語氣",
+  "preset.actionCount": "行動建議數",
+  "preset.audience": "目標對象",
+  "preset.audiencePlaceholder": "例如：第一次帶團隊的新手主管（可留白）",
+  "preset.variablesHint": "留白的欄位會從提示語中省略。",
+  "preset.saveAs": "另存為我的範本",
+  "preset.copyName": "{name}（我的版本）",
+  "preset.edit": "編輯範本",
+  "preset.new": "新增範本",
+  "preset.import": "匯入範本",
+  "preset.export": "匯出範本",
+  "preset.exportTitle": "下載範本檔（.mandala-template.json）分享給其他人",
+  "preset.delete": "刪除範本",
+  "preset.deleteConfirm": "確定要刪除範本「{name}」嗎？",
+  "preset.name": "範本名稱",
+  "preset.persona": "AI 角色",
+  "preset.personaPlaceholder": "例如：一位資深產品經理",
+  "preset.description": "說明",
+  "preset.guidance": "展開方向",
+  "preset.guidanceHint": "描述如何挑選 8 個面向與子想法。可用 {{topic}} 代表主題，{{變數名稱}} 會變成生成前可填寫的欄位；目前的語氣與行動建議數會一併存為預設值。",
+  "preset.save": "儲存範本",
+  "preset.imported": "已匯入範本「{name}」",
+  "preset.importFailed": "匯入範本失敗：{message}",
+
+  "tone.neutral": "不指定",
+  "tone.professional": "專業",
+  "tone.friendly": "輕鬆親切",
+  "tone.motivational": "激勵",
+  "tone.academic": "學術分析",
+
+  "template.coach.name": "創意思考教練",
+  "template.coach.description": "通用的曼陀羅展開，適合任何主題",
+  "template.goal.name": "目標達成表（大谷翔平式）",
+  "template.goal.description": "把一個大目標拆成 8 項必備要素與 64 個每日可執行的行動",
+  "template.product.name": "產品企劃",
+  "template.product.description": "從使用者、價值、功能、商業模式到上市，全面規劃一項產品",
+  "template.learning.name": "學習計畫",
+  "template.learning.description": "依程度與可用時間，把一項技能拆成循序漸進的學習路徑",
+  "template.event.name": "活動企劃",
+  "template.event.description": "涵蓋場地、流程、宣傳、預算與人力的活動籌備清單",
+  "template.swot.name": "SWOT 策略分析",
+  "template.swot.description": "以優勢、劣勢、機會、威脅與對應策略分析一個主題",
+
+  "variable.deadline": "達成期限",
+  "variable.users": "目標使用者",
+  "variable.level": "目前程度",
+  "variable.hoursPerWeek": "每週可投入時數",
+  "variable.date": "活動日期",
+  "variable.attendees": "預計人數",
+  "variable.budget": "預算",
+  "variable.context": "背景說明",
+
+  "guided.start": "不用 AI，從空白表格手動填寫",
+  "guided.startTitle": "建立一張空白的曼陀羅，依步驟親手填寫",
+  "guided.toggle": "引導填寫",
+  "guided.toggleTitle": "依曼陀羅思考法的步驟逐格填寫這張表",
+  "guided.title": "引導填寫",
+  "guided.intro": "依照曼陀羅思考法的步驟逐格填寫，下方的檢視會同步更新。每一格都可以點燈泡請 AI 給提示，不需要也能完成。",
+  "guided.close": "關閉引導",
+  "guided.step.center": "中心主題",
+  "guided.step.centerHint": "先確定要思考的主題，並用一句話寫下這張曼陀羅的核心概念：你希望達成什麼？",
+  "guided.step.dimensions": "八大面向",
+  "guided.step.dimensionsHint": "圍繞主題寫下 8 個關鍵面向。它們要彼此互補、不重疊，合起來能完整涵蓋主題。",
+  "guided.step.ideas": "子想法",
+  "guided.step.ideasHint": "把每個面向放到中心，再各寫出 8 個具體的子想法。一次專注一個面向，寫不出來時先跳過也沒關係。",
+  "guided.step.summary": "總結",
+  "guided.step.summaryHint": "退一步看整張表，用一兩句話寫下最重要的洞察。",
+  "guided.step.actions": "行動",
+  "guided.step.actionsHint": "最後寫下可以立即採取的行動，越具體越好，最好今天或這週就能開始。",
+  "guided.topic": "主題",
+  "guided.coreConcept": "核心概念",
+  "guided.coreConceptPlaceholder": "點擊寫下這張曼陀羅要達成什麼...",
+  "guided.dimensionN": "面向 {n}",
+  "guided.ideaN": "子想法 {n}",
+  "guided.summary": "總結",
+  "guided.summaryPlaceholder": "點擊寫下總結...",
+  "guided.actionN": "行動 {n}",
+  "guided.addAction": "新增行動",
+  "guided.removeAction": "移除這個行動",
+  "guided.hint": "請 AI 給這一格一些提示",
+  "guided.hintsFor": "{cell}的提示：",
+  "guided.applyHint": "填入這個寫法",
+  "guided.noHints": "AI 沒有給出提示，請稍後再試。",
+  "guided.hintFailed": "無法取得提示：{message}",
+  "guided.previous": "上一步",
+  "guided.next": "下一步",
+  "guided.finish": "完成",
+
+  "coach.open": "思考教練",
+  "coach.openTitle": "和思考教練對話：釐清主題、檢視這張曼陀羅",
+  "coach.title": "思考教練",
+  "coach.mode.topic": "釐清主題",
+  "coach.mode.chart": "檢視這張表",
+  "coach.introTopic": "生成之前，先和教練聊聊你的主題。教練會提問幫你釐清目標、對象與限制，整理出的背景可以直接用來生成曼陀羅。",
+  "coach.introChart": "教練會根據目前的「{topic}」找出模糊、薄弱或重疊的地方。建議的修改要由你確認後才會套用到表格上。",
+  "coach.starterClarify": "我還不確定要怎麼展開這個主題，可以先問我幾個問題嗎？",
+  "coach.starterStuck": "我有一個大概的方向，但說不清楚具體想達成什麼。",
+  "coach.starterReview": "請幫我檢視這張曼陀羅哪裡還不夠好。",
+  "coach.starterOverlap": "有沒有彼此重疊或太相似的面向？",
+  "coach.starterActions": "這些行動建議夠具體嗎？",
+  "coach.placeholder": "回答教練的問題，或提出你的想法...（Enter 送出，Shift+Enter 換行）",
+  "coach.send": "送出",
+  "coach.thinking": "教練正在思考...",
+  "coach.failed": "教練無法回覆：{message}",
+  "coach.clear": "清除對話",
+  "coach.brief": "目前釐清的背景",
+  "coach.generate": "用這些背景生成曼陀羅",
+  "coach.ideaOf": "「{dimension}」的子想法 {n}",
+  "coach.empty": "（空白）",
+  "coach.apply": "套用",
+  "coach.dismiss": "略過",
+  "coach.applied": "已套用",
+  "coach.dismissed": "已略過",
+
+  "background.add": "加入背景資料與限制條件",
+  "background.summary": "背景資料：{parts}",
+  "background.documentCount": "{count} 份文件",
+  "background.hasNotes": "筆記",
+  "background.hasConstraints": "限制條件",
+  "background.hint": "下一次生成與任務清單會參考這裡的內容。目標對象請在生成設定中填寫。",
+  "background.hintOpen": "這裡的內容已存入「{topic}」，展開子曼陀羅與生成任務清單時會一併參考。目標對象請在生成設定中填寫。",
+  "background.budget": "預算",
+  "background.budgetPlaceholder": "例如：每月 5,000 元以內",
+  "background.timeframe": "時程",
+  "background.timeframePlaceholder": "例如：三個月內完成",
+  "background.constraints": "其他限制",
+  "background.constraintsPlaceholder": "例如：只能利用下班時間、團隊只有兩個人",
+  "background.notes": "筆記",
+  "background.notesPlaceholder": "貼上會議紀錄、現況說明或任何相關資訊...",
+  "background.documents": "參考文件",
+  "background.attach": "附加檔案",
+  "background.attachTitle": "支援 {extensions}",
+  "background.reading": "讀取中...",
+  "background.noDocuments": "尚未附加文件。",
+  "background.chars": "{count} 字",
+  "background.remove": "移除文件",
+  "background.localOnly": "檔案只在瀏覽器中讀取，送出的只有擷取出的文字。",
+  "background.truncated": "「{name}」太長，只保留前 {count} 字。",
+  "background.readFailed": "無法讀取「{name}」：{message}",
+  "background.clear": "清除背景資料",
+  "background.noDocxText": "Word 檔案裡找不到文件內容。",
+  "background.unsupported": "不支援的檔案格式：{extension}（可用 {extensions}）",
+  "background.noText": "「{name}」裡沒有可讀取的文字。",
+  "background.noTextScanned": "「{name}」裡沒有可讀取的文字（掃描的 PDF 需要先做文字辨識）。",
+
+  "quality.toggle": "品質分析",
+  "quality.toggleTitle": "找出重複的子想法與重疊的面向，並評估 8 大面向的涵蓋程度",
+  "quality.title": "品質分析",
+  "quality.overallTitle": "綜合分數（0–100）",
+  "quality.methodLocal": "以文字相似度比對",
+  "quality.methodEmbedding": "以語意向量比對",
+  "quality.semanticOff": "使用語意比對",
+  "quality.semanticOn": "語意比對已開啟",
+  "quality.semanticTitle": "以目前 AI 提供者的語意向量模型比對，能找出用詞不同但意思相近的內容",
+  "quality.embedFailed": "無法取得語意向量，已改回文字比對：{message}",
+  "quality.score.exclusivity": "面向互斥",
+  "quality.score.distinctness": "想法不重複",
+  "quality.score.completeness": "填寫完整",
+  "quality.overlap": "面向重疊（相似度 {percent}%）",
+  "quality.overlapBetween": "「{first}」與「{second}」涵蓋的內容高度相似",
+  "quality.replaceDimension": "AI 換掉「{dimension}」並重新發想子想法",
+  "quality.duplicate": "{count} 個相似的子想法（相似度 {percent}%）",
+  "quality.replaceDuplicates": "AI 改寫 {count} 格",
+  "quality.clearDuplicates": "清空 {count} 格",
+  "quality.allLocked": "這些格子都已鎖定或展開成子曼陀羅，不會自動修改。",
+  "quality.dismiss": "忽略這個問題",
+  "quality.noIssues": "沒有發現重複的子想法或重疊的面向。",
+  "quality.noReplacement": "AI 提出的寫法仍與其他格子重複，請稍後再試或手動修改。",
+  "quality.fixFailed": "自動修正失敗，請稍後再試。",
+
+  "history.open": "歷史",
+  "history.openTitle": "查看版本歷史，比較差異或還原",
+  "history.title": "版本歷史",
+  "history.loading": "正在載入歷史…",
+  "history.loadFailed": "無法載入版本歷史。",
+  "history.empty": "這張圖表還沒有歷史紀錄，之後的每次修改都會記錄在這裡。",
+  "history.current": "目前狀態",
+  "history.latest": "最新",
+  "history.oldest": "最早的紀錄",
+  "history.noChanges": "沒有變更",
+  "history.kind.initial": "修改前",
+  "history.kind.generate": "生成",
+  "history.kind.regenerate": "重新生成",
+  "history.kind.blank": "建立空白圖表",
+  "history.kind.edit": "編輯",
+  "history.kind.expand": "展開子圖表",
+  "history.kind.checklist": "更新檢核表",
+  "history.kind.roadmap": "排程路線圖",
+  "history.kind.background": "更新背景資料",
+  "history.kind.restore": "還原",
+  "history.change.cells": "{count} 格",
+  "history.change.coreConcept": "核心概念",
+  "history.change.summary": "摘要",
+  "history.change.actions": "{count} 項行動建議",
+  "history.change.tasks": "{count} 項任務",
+  "history.change.children": "{count} 個子圖表",
+  "history.change.roadmap": "路線圖",
+  "history.change.background": "背景資料",
+  "history.base": "比較基準（較舊）",
+  "history.target": "比較對象（較新）",
+  "history.legend.added": "新增 {count}",
+  "history.legend.changed": "修改 {count}",
+  "history.legend.removed": "刪除 {count}",
+  "history.sameRevision": "選擇了同一個版本",
+  "history.details": "變更內容",
+  "history.coreConceptLabel": "核心概念：",
+  "history.restore": "還原此版本",
+  "history.restoreTitle": "把圖表還原成右側選擇的版本",
+  "history.restoreLatest": "這已經是目前的版本",
+  "history.restoreConfirm": "要把圖表還原成 {time} 的版本嗎？目前的內容仍會保留在歷史中。",
+
+  "common.close": "關閉",
+  "common.all": "全部",
+  "common.overdue": "已逾期",
+  "common.dueDate": "截止日",
+  "common.importanceStars": "重要性：{stars} 星",
+
+  "progress.title": "任務進度：{done} / {total}（{percent}%）",
+  "breadcrumbs.child": "子曼陀羅：",
+  "editable.placeholder": "點擊輸入...",
+  "editable.title": "點擊編輯",
+
+  "dashboard.subtitle": "9x9 完整視角 (曼陀羅大表)",
+  "dashboard.progress": "整體任務進度：{done} / {total}（{percent}%）",
+  "dashboard.exportTitle": "下載 9x9 大表、總覽與各面向檢核表 (.xlsx)",
+  "dashboard.export": "匯出 Excel",
+  "dashboard.exportFailed": "匯出 Excel 檔案失敗，請稍後再試。",
+
+  "kanban.emptyTitle": "看板上還沒有任務",
+  "kanban.emptyHint": "先到「任務檢核」為任一面向產生檢核表，所有面向的任務都會集中到這裡依狀態管理。",
+  "kanban.title": "任務看板：{topic}",
+  "kanban.showDimension": "顯示此面向的任務",
+  "kanban.hideDimension": "隱藏此面向的任務",
+  "kanban.dropHere": "拖曳任務到這裡",
+
+  "library.importTitle": "匯入曼陀羅檔案 ({extension} 或 Markdown)",
+  "library.search": "搜尋主題或面向...",
+  "library.export": "匯出為 JSON 檔案",
+  "library.duplicate": "建立副本",
+  "library.copyTopic": "{topic}（副本）",
+  "library.delete": "刪除",
+  "library.deleteConfirm": "確定要刪除「{topic}」嗎？此動作無法復原。",
+  "library.empty": "尚未儲存任何曼陀羅。",
+  "library.noMatch": "沒有符合搜尋的結果。",
+
+  "checklist.regenerateConfirm": "重新生成會取代目前所有的任務（包含自行新增或修改的任務）與進度，確定要繼續嗎？",
+  "checklist.generateFailed": "無法產生檢核表，請稍後再試。",
+  "checklist.noSuggestions": "沒有取得新的任務建議，請稍後再試。",
+  "checklist.suggestFailed": "無法取得更多任務建議，請稍後再試。",
+  "checklist.csvFailed": "匯出 CSV 失敗，請稍後再試。",
+  "checklist.wordFailed": "匯出 Word 檔案失敗，請稍後再試。",
+  "checklist.pickTitle": "選擇產出檢核表的面向",
+  "checklist.pickHint": "點選一個關鍵面向，AI 將為您生成具體的工作任務清單與重要性評級；已產生的檢核表會保留勾選進度。",
+  "checklist.loading": "正在為「{dimension}」規劃任務檢核表...",
+  "checklist.loadingHint": "正在評估任務重要性 (1-5星)",
+  "checklist.repick": "重選面向",
+  "checklist.csvTitle": "下載為 CSV (Excel)",
+  "checklist.wordTitle": "下載為 Word 文件",
+  "checklist.suggestTitle": "請 AI 補充尚未列出的任務",
+  "checklist.suggest": "建議更多",
+  "checklist.regenerate": "重新生成",
+  "checklist.subtitle": "含重要性評級 (五星量表)",
+  "checklist.sort": "排序",
+  "checklist.status": "狀態",
+  "checklist.assignee": "負責人",
+  "checklist.unassigned": "未指派",
+  "checklist.clearFilters": "清除篩選",
+  "checklist.importance": "重要性",
+  "checklist.descriptionPlaceholder": "點擊新增說明...",
+  "checklist.effortPlaceholder": "工時",
+  "checklist.hours": "小時",
+  "checklist.effortShort": "約 {hours} 小時",
+  "checklist.deleteTask": "刪除任務",
+  "checklist.noTasks": "沒有找到相關任務。",
+  "checklist.noMatch": "沒有符合篩選條件的任務。",
+  "checklist.newTaskPlaceholder": "新增自訂任務...",
+  "checklist.add": "新增",
+  "checklist.progress": "進度：{done} / {total}",
+
+  "visual.regenerateFailed": "重新生成失敗，請稍後再試。",
+  "visual.regenerateStale": "這個面向在重新生成期間被修改過，已捨棄 AI 的結果，請再試一次。",
+  "visual.noAlternatives": "沒有取得替代建議，請稍後再試。",
+  "visual.alternativesFailed": "取得替代建議失敗，請稍後再試。",
+  "visual.svgCopied": "SVG 原始碼已複製到剪貼簿！",
+  "visual.pngCopied": "圖片已複製到剪貼簿！(PNG)",
+  "visual.copyFailed": "複製到剪貼簿失敗，請檢查瀏覽器權限或改用下載。",
+  "visual.exportFailed": "匯出圖片失敗，請稍後再試。",
+  "visual.back": "返回中心",
+  "visual.drillHint": "點擊周圍方格可深入查看細節",
+  "visual.exportTitle": "將圖表匯出為 PNG 或 SVG",
+  "visual.export": "匯出圖片",
+  "visual.scopeCenter": "中心九宮格",
+  "visual.scopeDimension": "目前面向",
+  "visual.scopeDashboard": "9x9 全景",
+  "visual.pngResolution": "PNG 解析度",
+  "visual.pngScale": "{scale}x（{pixels} px）",
+  "visual.copyPng": "複製 PNG",
+  "visual.downloadPng": "下載 PNG",
+  "visual.copySvg": "複製 SVG",
+  "visual.downloadSvg": "下載 SVG",
+  "visual.cellHint": "點選格子可鎖定、取得 AI 替代建議或展開為子曼陀羅；重新生成時會保留已鎖定的子想法。",
+  "visual.regenerateDimension": "重新生成此面向",
+  "visual.keptCells": "（保留 {count} 格）",
+  "visual.unlock": "解除鎖定",
+  "visual.lock": "鎖定此格",
+  "visual.expandTitle": "以此子想法為中心，展開一張新的 9x9 曼陀羅",
+  "visual.openChild": "開啟子曼陀羅",
+  "visual.expandChild": "展開為子曼陀羅",
+  "visual.deleteChildConfirm": "確定要刪除此子曼陀羅（含其下所有層級）嗎？",
+  "visual.replaceExpandedConfirm": "這一格已展開成子曼陀羅。換成新的文字會一併刪除子曼陀羅（含其下所有層級），確定要套用嗎？",
+  "visual.deleteChild": "刪除子曼陀羅",
+  "visual.alternatives": "AI 替代建議",
+  "visual.applyAlternative": "套用此建議",
+  "visual.globalNav": "全域導航",
+  "visual.backTo": "返回中心：{topic}",
+  "visual.showing": "目前顯示：",
+  "visual.showingCenter": "中心主題（總覽）",
+
+  "report.markdownCopied": "完整報告已以 Markdown 格式複製到剪貼簿！",
+  "report.pdfFailed": "匯出 PDF 失敗：{message}",
+  "report.pdfFailedRetry": "匯出 PDF 失敗，請稍後再試。",
+  "report.wordFailed": "匯出 Word 檔案失敗，請稍後再試。",
+  "report.coreConcept": "1. 核心概念",
+  "report.copyMarkdown": "複製 Markdown",
+  "report.copy": "複製",
+  "report.downloadMarkdownTitle": "下載 Markdown，可在 Obsidian / Notion 編輯後再匯入",
+  "report.exportPdf": "匯出 PDF",
+  "report.exportWord": "匯出 Word",
+  "report.includeChecklists": "Word 附上檢核表",
+  "report.step": "步驟 {step}",
+  "report.tableA": "表格 A：主題與 8 大延伸面向（3x3九宮格）",
+  "report.tableB": "表格 B：每個面向的 8 個子想法（共 8 張表格）",
+  "report.summary": "整體思考總結",
+  "report.actions": "可立即採取的 {count} 個行動建議",
+
+  "pdf.poster": "A3 海報",
+  "pdf.posterHint": "單頁 9x9 全景大表",
+  "pdf.report": "A4 報告",
+  "pdf.reportHint": "表格 A、8 張表格 B、總結與行動",
+  "pdf.checklists": "A4 檢核表",
+  "pdf.checklistsHint": "各面向的任務檢核表",
+
+  "export.reportTitle": "曼陀羅思考報告",
+  "export.documentTitle": "{topic}｜曼陀羅思考報告",
+  "export.pdfTitle": "{topic}｜曼陀羅思考",
+  "export.toc": "目錄",
+  "export.chapter": "{numeral}、{title}",
+  "export.coreConcept": "核心概念：{text}",
+  "export.coreTopic": "核心主題：{topic}",
+  "export.tableA": "表格 A：主題與 8 大延伸面向",
+  "export.tableB": "表格 B：每個面向的 8 個子想法",
+  "export.dimensionHeading": "面向 {n}：{title}",
+  "export.fullGrid": "9x9 全景",
+  "export.summary": "整體思考總結",
+  "export.actions": "行動建議",
+  "export.roadmap": "執行時程（共 {weeks} 週）",
+  "export.phase": "{name}（第 {start}–{end} 週）",
+  "export.dependsOn": "（依賴：{items}）",
+  "export.checklists": "任務檢核表",
+  "export.checklistTitle": "工作任務檢核表：{name}",
+  "export.progress": "當前進度：{done} / {total} 已完成",
+  "export.overallProgress": "整體進度：{done} / {total}（{percent}%）",
+  "export.dimensionProgress": "已完成 {done} / {total}",
+  "export.importance": "重要性：",
+  "export.importanceStars": "重要性 {stars}",
+  "export.assignee": "負責人：{name}",
+  "export.dueDate": "截止日：{date}",
+  "export.effort": "預估工時：{hours} 小時",
+  "export.metaSeparator": "・",
+  "export.column.task": "任務",
+  "export.column.taskName": "任務名稱",
+  "export.column.status": "狀態",
+  "export.column.importance": "重要性",
+  "export.column.importanceScale": "重要性 (1-5)",
+  "export.column.assignee": "負責人",
+  "export.column.dueDate": "截止日",
+  "export.column.effort": "工時",
+  "export.column.effortHours": "預估工時 (小時)",
+  "export.column.description": "任務說明",
+  "export.column.dimension": "面向",
+  "export.column.taskCount": "任務數",
+  "export.column.done": "已完成",
+  "export.column.percent": "完成率",
+  "export.column.ideas": "子想法",
+  "export.field.topic": "主題",
+  "export.field.coreConcept": "核心概念",
+  "export.total": "合計",
+  "export.sheet.grid": "曼陀羅 9x9",
+  "export.sheet.summary": "總覽",
+  "export.fontFailed": "字型下載失敗 ({status})",
+  "export.noChecklists": "尚未產生任何檢核表，請先到「任務檢核」建立。",
+  "export.fileChecklist": "{name}_任務檢核表",
+  "export.fileMandala": "{name}_曼陀羅",
+  "export.fileReport": "{name}_曼陀羅思考報告",
+  "export.fileCenter": "中心",
+  "export.fileDimension": "面向{n}",
+
+  "timeline.noSources": "目前沒有可排程的行動或任務。",
+  "timeline.regenerateConfirm": "重新排程會取代目前的時程與手動調整，確定要繼續嗎？",
+  "timeline.generateFailed": "無法產生時程，請稍後再試。",
+  "timeline.weeks": "{count} 週",
+  "timeline.regenerate": "重新排程",
+  "timeline.generate": "AI 產生時程",
+  "timeline.emptyTitle": "尚未建立執行時程",
+  "timeline.emptyHint": "AI 會把 {actions} 項行動建議與 {tasks} 項檢核任務排進各個階段，並標出彼此的依賴關係。",
+  "timeline.emptyTip": "先在「任務檢核」產生檢核表，時程會更完整。",
+  "timeline.title": "執行時程：{topic}",
+  "timeline.summary": "共 {weeks} 週・{count} 個項目・左右拖曳橫條即可調整週次；匯出 Word 報告時會一併附上",
+  "timeline.conflicts": "有 {count} 個項目在依賴項目完成前就開始，已以紅框標示。",
+  "timeline.stale": "行動或任務在排程後有所變更，建議重新排程。",
+  "timeline.item": "項目",
+  "timeline.action": "行動建議",
+  "timeline.barWeeks": "第 {start}–{end} 週",
+  "timeline.dependsOn": "依賴：{items}",
+  "timeline.separator": "、",
+
+  "import.invalidJson": "檔案不是有效的 JSON。",
+  "import.notMandala": "這不是曼陀羅檔案，無法匯入。",
+  "import.noVersion": "曼陀羅檔案缺少有效的版本號。",
+  "import.newerVersion": "此檔案由較新的版本建立（v{version}），請更新程式後再匯入。",
+  "import.invalidNode": "{path} 不是有效的曼陀羅資料。",
+  "import.invalidData": "{path} 不是有效的曼陀羅內容。",
+  "import.missingTopic": "{path} 缺少主題。",
+  "import.emptyTask": "任務名稱為空白，已移除",
+  "import.invalidChecklist": "不是有效的面向檢核表，已略過",
+  "import.invalidChildKey": "子曼陀羅的位置無效，已略過",
+  "import.invalidRoadmap": "時程格式不正確，已略過",
+  "import.invalidRoadmapWeeks": "時程缺少有效的總週數，已略過",
+  "import.notMandalaMarkdown": "找不到表格 A 或 9x9 全景，這不是曼陀羅 Markdown。",
+  "import.noTableB": "找不到表格 B，已改由 9x9 全景還原子想法",
+  "import.unknownDimension": "找不到對應的面向，已略過",
+
+  "storage.unsupported": "此瀏覽器不支援 IndexedDB，無法儲存曼陀羅。",
+  "storage.openFailed": "無法開啟本機資料庫。",
+  "storage.aborted": "資料庫交易已中止。",
+
+  "provider.noBaseUrl": "尚未設定 OpenAI 相容端點的網址。",
+  "provider.httpError": "OpenAI 相容端點回應錯誤 ({status})",
+  "provider.httpErrorDetail": "OpenAI 相容端點回應錯誤 ({status})：{detail}",
+  "provider.noStream": "OpenAI 相容端點沒有回傳串流內容。",
+  "ai.noResponse": "AI 沒有回傳回應。",
+  "ai.parseMandala": "無法解析創意輸出內容。",
+  "ai.incomplete": "AI 回傳的曼陀羅不完整（{issues}），請重新生成。",
+  "ai.fillFailed": "AI 回傳的曼陀羅不完整（{issues}），補齊失敗，請重新生成。",
+  "ai.parseIdeas": "無法解析重新生成的子想法。",
+  "ai.parseHints": "無法解析 AI 回傳的提示。",
+  "ai.parseCoach": "無法解析教練的回覆。",
+  "ai.emptyCoach": "教練沒有給出回覆，請再試一次。",
+  "ai.parseRoadmap": "無法解析 AI 回傳的時程。",
+  "ai.parseTranslation": "無法解析 AI 回傳的翻譯。",
+  "ai.translationCount": "翻譯結果的項目數不符（應為 {count} 個），請再試一次。",
+  "ai.noEmbedding": "{provider} 不支援語意向量。",
+  "ai.embeddingCount": "語意向量的數量不符（應為 {count} 個），請確認向量模型的設定。",
+  "validator.invalidMandala": "AI 回傳的資料不是有效的曼陀羅物件。",
+  "validator.truncated": "有 {count} 項，已截斷為 {size} 項",
+  "validator.padded": "只有 {count} 項，已補上 {added} 個空格",
+  "validator.reordered": "順序與 mainDimensions 不一致，已依面向重新排列",
+  "validator.gridsTruncated": "有 {count} 組，已截斷為 {size} 組",
+  "validator.gridAdded": "缺少此面向的子想法，已建立空白網格",
+  "validator.titleAligned": "「{title}」與面向「{dimension}」不一致，已對齊",
+  "validator.dimensionFromTitle": "空白面向已採用子網格標題「{title}」",
+  "validator.missingCoreConcept": "核心概念為空白",
+  "validator.missingDimension": "第 {n} 個面向為空白",
+  "validator.missingIdea": "面向 {dimension} 的第 {n} 個子想法為空白",
+  "validator.missingSummary": "整體總結為空白",
+  "validator.missingActions": "沒有任何行動建議",
+  "validator.issue": "{path}：{message}",
+  "validator.more": "…另有 {count} 項",
+  "validator.separator": "；",
+  "validator.checklistNotArray": "回傳內容不是陣列，已忽略",
+  "validator.importanceNotNumber": "重要性不是數字，已設為 3",
+  "validator.importanceClamped": "重要性 {importance} 超出 1-5，已調整為 {clamped}",
+  "roadmap.invalid": "AI 回傳的資料不是有效的時程物件。",
+  "roadmap.noPhases": "沒有有效的階段，已建立單一階段",
+  "roadmap.defaultPhase": "執行階段",
+  "roadmap.unknownItem": "未知的項目「{id}」，已忽略",
+  "roadmap.duplicateItem": "項目「{id}」重複排程，只保留第一筆",
+  "roadmap.unscheduled": "AI 沒有排程此項目，已排在最後一週",
+  "templateFile.notTemplate": "這不是提示語範本檔案。",
+  "templateFile.newerVersion": "此範本由較新的版本建立（v{version}），請更新程式後再匯入。",
+  "templateFile.incomplete": "範本缺少名稱或 AI 角色。",
+};
@@ -0,0 +1,116 @@
+import { MandalaResult } from "../types";
+
+// Pure updaters for in-place edits. Each returns a new MandalaResult so React sees the change,
+// and keeps subGrids[i].title and mainDimensions[i] in sync whichever side is renamed.
+
+export const renameDimension = (data: MandalaResult, index: number, title: string): MandalaResult => ({
+  ...data,
+  mainDimensions: data.mainDimensions.map((dim, i) => (i === index ? title : dim)),
+  subGrids: data.subGrids.map((grid, i) => (i === index ? { ...grid, title } : grid)),
+});
+
+// A sub-grid's center is the same text as its dimension, so renaming it is a dimension rename
+export const renameSubGrid = renameDimension;
+
+export const updateSubItem = (
+  data: MandalaResult,
+  gridIndex: number,
+  itemIndex: number,
+  value: string
+): MandalaResult => ({
+  ...data,
+  subGrids: data.subGrids.map((grid, i) =>
+    i === gridIndex
+      ? { ...grid, items: grid.items.map((item, j) => (j === itemIndex ? value : item)) }
+      : grid
+  ),
+});
+
+export const updateCoreConcept = (data: MandalaResult, coreConcept: string): MandalaResult => ({
+  ...data,
+  coreConcept,
+});
+
+export const updateSummary = (data: MandalaResult, summary: string): MandalaResult => ({
+  ...data,
+  summary,
+});
+
+export const updateAction = (data: MandalaResult, index: number, value: string): MandalaResult => ({
+  ...data,
+  actions: data.actions.map((action, i) => (i === index ? value : action)),
+});
+
+export const addAction = (data: MandalaResult): MandalaResult => ({
+  ...data,
+  actions: [...data.actions, ""],
+});
+
+export const removeAction = (data: MandalaResult, index: number): MandalaResult => ({
+  ...data,
+  actions: data.actions.filter((_, i) => i !== index),
+});
+
+export const replaceSubGridItems = (data: MandalaResult, gridIndex: number, items: string[]): MandalaResult => ({
+  ...data,
+  subGrids: data.subGrids.map((grid, i) => (i === gridIndex ? { ...grid, items } : grid)),
+});
+
+// One text cell of the chart, addressed independently of the view that shows it
+export type CellTarget =
+  | { kind: "coreConcept" }
+  | { kind: "dimension"; index: number }
+  | { kind: "idea"; gridIndex: number; itemIndex: number }
+  | { kind: "summary" }
+  | { kind: "action"; index: number };
+
+export const getCellValue = (data: MandalaResult, target: CellTarget): string | undefined => {
+  switch (target.kind) {
+    case "coreConcept":
+      return data.coreConcept;
+    case "dimension":
+      return data.mainDimensions[target.index];
+    case "idea":
+      return data.subGrids[target.gridIndex]?.items[target.itemIndex];
+    case "summary":
+      return data.summary;
+    case "action":
+      return data.actions[target.index];
+  }
+};
+
+export const updateCell = (data: MandalaResult, target: CellTarget, value: string): MandalaResult => {
+  switch (target.kind) {
+    case "coreConcept":
+      return updateCoreConcept(data, value);
+    case "dimension":
+      return renameDimension(data, target.index, value);
+    case "idea":
+      return updateSubItem(data, target.gridIndex, target.itemIndex, value);
+    case "summary":
+      return updateSummary(data, value);
+    case "action":
+      return updateAction(data, target.index, value);
+  }
+};
+
+export const getCellTargetKey = (target: CellTarget) => {
+  switch (target.kind) {
+    case "dimension":
+    case "action":
+      return `${target.kind}:${target.index}`;
+    case "idea":
+      return `idea:${target.gridIndex}:${target.itemIndex}`;
+    default:
+      return target.kind;
+  }
+};
+
+// Key format used by SavedMandala.lockedCells
+export const cellKey = (gridIndex: number, itemIndex: number) => `${gridIndex}:${itemIndex}`;
+
+// Cells AI rewrites leave alone: the user's locks, plus every sub-item expanded into a child
+// mandala, since the child is about the cell's current text
+export const getKeptCells = (lockedCells: string[] = [], expandedCells: string[] = []) => [
+  ...new Set([...lockedCells, ...expandedCells]),
+];
@@ -0,0 +1,279 @@
+import { ChecklistItem, MandalaNode, Roadmap, SavedMandala, TaskStatus } from "../types";
+import { GRID_SIZE, ValidationIssue, normalizeMandala } from "./mandalaValidator";
+import { getTaskSourceId, normalizeRoadmap } from "./roadmap";
+import { TASK_STATUSES } from "./taskSchedule";
+import { isBackgroundEmpty, normalizeBackground } from "./backgroundContext";
+import { createId } from "./storageService";
+import { translateUi } from "./i18n";
+
+// Portable .mandala.json format for archiving and sharing a mandala, documented in the README.
+// Bump MANDALA_FILE_VERSION whenever the shape changes and add a step to MIGRATIONS.
+
+export const MANDALA_FILE_FORMAT = "mandala-thinking";
+export const MANDALA_FILE_VERSION = 2;
+export const MANDALA_FILE_EXTENSION = ".mandala.json";
+
+export interface MandalaFileMetadata {
+  id: string; // Library id at export time; imports always get a fresh one
+  createdAt: number; // epoch ms
+  updatedAt: number; // epoch ms
+}
+
+export interface MandalaFile {
+  format: typeof MANDALA_FILE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO 8601
+  metadata: MandalaFileMetadata;
+  // The whole tree: data, checklists, locked cells, child mandalas and the roadmap
+  mandala: MandalaNode;
+}
+
+export interface MandalaFileImport {
+  mandala: MandalaNode;
+  metadata: Partial<MandalaFileMetadata>;
+  // The version the file was written in, before migration
+  sourceVersion: number;
+  // Anything dropped or repaired while validating
+  warnings: ValidationIssue[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+export const serializeMandalaFile = (saved: SavedMandala): string => {
+  const { id, createdAt, updatedAt, ...mandala } = saved;
+  const file: MandalaFile = {
+    format: MANDALA_FILE_FORMAT,
+    version: MANDALA_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    metadata: { id, createdAt, updatedAt },
+    mandala,
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const getMandalaFileName = (topic: string) =>
+  `${topic.trim().replace(/[\\/:*?"<>|\s]+/g, "_") || "mandala"}${MANDALA_FILE_EXTENSION}`;
+
+// Version 1 tasks had no ids, and roadmap items pointed at them by position as
+// "task:<dimensionIndex>:<index>". Each task gets an id and the roadmap is repointed at it.
+const migrateTaskIds = (node: unknown): unknown => {
+  if (!isRecord(node)) return node;
+  const byPosition = new Map<string, string>();
+  const checklists = isRecord(node.checklists)
+    ? Object.fromEntries(
+        Object.entries(node.checklists).map(([key, items]) => [
+          key,
+          Array.isArray(items)
+            ? items.map((item, index) => {
+                if (!isRecord(item)) return item;
+                const id = typeof item.id === "string" && item.id ? item.id : createId();
+                byPosition.set(`task:${key}:${index}`, getTaskSourceId({ id }));
+                return { ...item, id };
+              })
+            : items,
+        ])
+      )
+    : node.checklists;
+  const relink = (id: unknown) => (typeof id === "string" ? byPosition.get(id) ?? id : id);
+  const roadmap = isRecord(node.roadmap) && Array.isArray(node.roadmap.items)
+    ? {
+        ...node.roadmap,
+        items: node.roadmap.items.map((item) =>
+          isRecord(item)
+            ? { ...item, id: relink(item.id), dependsOn: Array.isArray(item.dependsOn) ? item.dependsOn.map(relink) : item.dependsOn }
+            : item
+        ),
+      }
+    : node.roadmap;
+  const children = isRecord(node.children)
+    ? Object.fromEntries(Object.entries(node.children).map(([key, child]) => [key, migrateTaskIds(child)]))
+    : node.children;
+  return { ...node, checklists, roadmap, children };
+};
+
+// Each step upgrades a file from the version it is keyed by to the next one
+const MIGRATIONS: Record<number, (file: RawRecord) => RawRecord> = {
+  // Version 0 is anything written before the format existed: a library record as stored
+  // in IndexedDB, or a bare MandalaResult as returned by the model
+  0: (file) => {
+    const isBareResult = "coreConcept" in file && !("data" in file);
+    const { id, createdAt, updatedAt, ...node } = file;
+    return {
+      format: MANDALA_FILE_FORMAT,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      metadata: { id, createdAt, updatedAt },
+      mandala: isBareResult
+        ? { topic: typeof file.coreConcept === "string" ? file.coreConcept : "", data: file, checklists: {} }
+        : node,
+    };
+  },
+  1: (file) => ({ ...file, version: 2, mandala: migrateTaskIds(file.mandala) }),
+};
+
+const migrate = (file: RawRecord): { file: RawRecord; sourceVersion: number } => {
+  if (file.format !== undefined && file.format !== MANDALA_FILE_FORMAT) {
+    throw new Error(translateUi("import.notMandala"));
+  }
+  const sourceVersion = file.format === undefined ? 0 : Number(file.version);
+  if (!Number.isInteger(sourceVersion) || sourceVersion < 0) {
+    throw new Error(translateUi("import.noVersion"));
+  }
+  if (sourceVersion > MANDALA_FILE_VERSION) {
+    throw new Error(translateUi("import.newerVersion", { version: sourceVersion }));
+  }
+
+  let migrated = file;
+  for (let version = sourceVersion; version < MANDALA_FILE_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated);
+  }
+  return { file: migrated, sourceVersion };
+};
+
+const isCellKey = (key: string) => {
+  const match = /^(\d+):(\d+)$/.exec(key);
+  return !!match && Number(match[1]) < GRID_SIZE && Number(match[2]) < GRID_SIZE;
+};
+
+const STATUS_IDS = new Set<string>(TASK_STATUSES);
+
+const validateChecklistItem = (raw: unknown, path: string, warnings: ValidationIssue[]): ChecklistItem | null => {
+  if (!isRecord(raw) || typeof raw.task !== "string" || !raw.task.trim()) {
+    warnings.push({ path, message: translateUi("import.emptyTask") });
+    return null;
+  }
+  const importance = Math.round(Number(raw.importance));
+  const item: ChecklistItem = {
+    // A task that lost its id gets a fresh one
+    id: typeof raw.id === "string" && raw.id ? raw.id : createId(),
+    task: raw.task.trim(),
+    description: typeof raw.description === "string" ? raw.description : "",
+    importance: Number.isFinite(importance) ? Math.min(5, Math.max(1, importance)) : 3,
+    isCompleted: raw.isCompleted === true,
+  };
+  if (typeof raw.status === "string" && STATUS_IDS.has(raw.status)) {
+    item.status = raw.status as TaskStatus;
+    item.isCompleted = raw.status === "done";
+  }
+  if (typeof raw.dueDate === "string" && /^\d{4}-\d{2}-\d{2}$/.test(raw.dueDate)) item.dueDate = raw.dueDate;
+  if (typeof raw.assignee === "string" && raw.assignee.trim()) item.assignee = raw.assignee.trim();
+  if (typeof raw.effortHours === "number" && raw.effortHours >= 0) item.effortHours = raw.effortHours;
+  return item;
+};
+
+const validateRoadmap = (raw: unknown, path: string, warnings: ValidationIssue[]): Roadmap | undefined => {
+  if (!isRecord(raw) || !Array.isArray(raw.items)) {
+    warnings.push({ path, message: translateUi("import.invalidRoadmap") });
+    return undefined;
+  }
+  const totalWeeks = Math.round(Number(raw.totalWeeks));
+  if (!Number.isFinite(totalWeeks) || totalWeeks < 1) {
+    warnings.push({ path, message: translateUi("import.invalidRoadmapWeeks") });
+    return undefined;
+  }
+  // The saved items are their own sources: the same checks the model's output goes through apply
+  const sources = raw.items.filter(isRecord).flatMap((item) =>
+    typeof item.id === "string" && typeof item.title === "string"
+      ? [{ id: item.id, title: item.title, dimensionIndex: typeof item.dimensionIndex === "number" ? item.dimensionIndex : undefined }]
+      : []
+  );
+  const { roadmap, repairs } = normalizeRoadmap(raw, sources, totalWeeks);
+  repairs.forEach((issue) => warnings.push({ path: `${path}.${issue.path}`, message: issue.message }));
+  return typeof raw.generatedAt === "number" ? { ...roadmap, generatedAt: raw.generatedAt } : roadmap;
+};
+
+const validateNode = (raw: unknown, path: string, warnings: ValidationIssue[]): MandalaNode => {
+  if (!isRecord(raw)) {
+    throw new Error(translateUi("import.invalidNode", { path }));
+  }
+
+  let data;
+  try {
+    data = normalizeMandala(raw.data);
+  } catch {
+    throw new Error(translateUi("import.invalidData", { path: `${path}.data` }));
+  }
+  [...data.repairs, ...data.missing].forEach((issue) =>
+    warnings.push({ path: `${path}.data.${issue.path}`, message: issue.message })
+  );
+
+  const topic = typeof raw.topic === "string" && raw.topic.trim() ? raw.topic.trim() : data.data.coreConcept;
+  if (!topic) {
+    throw new Error(translateUi("import.missingTopic", { path }));
+  }
+
+  const checklists: Record<number, ChecklistItem[]> = {};
+  if (isRecord(raw.checklists)) {
+    Object.entries(raw.checklists).forEach(([key, items]) => {
+      const index = Number(key);
+      const itemsPath = `${path}.checklists.${key}`;
+      if (!Number.isInteger(index) || index < 0 || index >= GRID_SIZE || !Array.isArray(items)) {
+        warnings.push({ path: itemsPath, message: translateUi("import.invalidChecklist") });
+        return;
+      }
+      checklists[index] = items
+        .map((item, i) => validateChecklistItem(item, `${itemsPath}[${i}]`, warnings))
+        .filter((item): item is ChecklistItem => !!item);
+    });
+  }
+
+  const node: MandalaNode = { topic, data: data.data, checklists };
+
+  if (Array.isArray(raw.lockedCells)) {
+    node.lockedCells = raw.lockedCells.filter((key): key is string => typeof key === "string" && isCellKey(key));
+  }
+
+  if (isRecord(raw.children)) {
+    const children: Record<string, MandalaNode> = {};
+    Object.entries(raw.children).forEach(([key, child]) => {
+      if (!isCellKey(key)) {
+        warnings.push({ path: `${path}.children.${key}`, message: translateUi("import.invalidChildKey") });
+        return;
+      }
+      children[key] = validateNode(child, `${path}.children.${key}`, warnings);
+    });
+    if (Object.keys(children).length) node.children = children;
+  }
+
+  if (raw.roadmap !== undefined) {
+    const roadmap = validateRoadmap(raw.roadmap, `${path}.roadmap`, warnings);
+    if (roadmap) node.roadmap = roadmap;
+  }
+
+  if (raw.background !== undefined) {
+    const background = normalizeBackground(raw.background);
+    if (!isBackgroundEmpty(background)) node.background = background;
+  }
+
+  return node;
+};
+
+// Throws with a user-facing message when the file cannot be used at all;
+// recoverable problems are repaired and reported in `warnings`
+export const parseMandalaFile = (text: string): MandalaFileImport => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error(translateUi("import.invalidJson"));
+  }
+  if (!isRecord(raw)) {
+    throw new Error(translateUi("import.notMandala"));
+  }
+
+  const { file, sourceVersion } = migrate(raw);
+  const warnings: ValidationIssue[] = [];
+  const mandala = validateNode(file.mandala, "mandala", warnings);
+
+  const metadata: Partial<MandalaFileMetadata> = {};
+  if (isRecord(file.metadata)) {
+    if (typeof file.metadata.id === "string") metadata.id = file.metadata.id;
+    if (typeof file.metadata.createdAt === "number") metadata.createdAt = file.metadata.createdAt;
+    if (typeof file.metadata.updatedAt === "number") metadata.updatedAt = file.metadata.updatedAt;
+  }
+
+  return { mandala, metadata, sourceVersion, warnings };
+};
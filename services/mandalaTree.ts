@@ -0,0 +1,126 @@
+import { MandalaNode, MandalaResult } from "../types";
+import { getKeptCells, updateSubItem } from "./mandalaEditor";
+
+// A path walks down the tree one child key ("gridIndex:itemIndex") at a time; [] is the root.
+export type NodePath = string[];
+
+export const createNode = (topic: string, data: MandalaResult): MandalaNode => ({
+  topic,
+  data,
+  checklists: {},
+});
+
+export const getNodeAt = (root: MandalaNode, path: NodePath): MandalaNode | null => {
+  let node: MandalaNode | undefined = root;
+  for (const key of path) {
+    node = node.children?.[key];
+    if (!node) return null;
+  }
+  return node;
+};
+
+// Returns a new root with the node at `path` replaced; ancestors are copied, siblings shared
+export const updateNodeAt = <T extends MandalaNode>(
+  root: T,
+  path: NodePath,
+  update: (node: MandalaNode) => MandalaNode
+): T => {
+  if (!path.length) return { ...root, ...update(root) };
+  const [key, ...rest] = path;
+  const child = root.children?.[key];
+  if (!child) return root;
+  return {
+    ...root,
+    children: { ...root.children, [key]: updateNodeAt(child, rest, update) },
+  };
+};
+
+export const setChildAt = <T extends MandalaNode>(root: T, parentPath: NodePath, key: string, child: MandalaNode): T =>
+  updateNodeAt(root, parentPath, (node) => ({
+    ...node,
+    children: { ...node.children, [key]: child },
+  }));
+
+export const removeChildAt = <T extends MandalaNode>(root: T, parentPath: NodePath, key: string): T =>
+  updateNodeAt(root, parentPath, (node) => {
+    const { [key]: _removed, ...children } = node.children || {};
+    return { ...node, children };
+  });
+
+// Swaps freshly generated data into an existing node without dropping what was built on it:
+// locked and expanded cells keep their text (and their child mandalas), and a checklist stays
+// when its dimension kept the same title. The roadmap was planned from the old actions and tasks, so it goes.
+export const regenerateNode = <T extends MandalaNode>(node: T, data: MandalaResult): T => {
+  const { roadmap: _stale, ...rest } = node;
+  const kept = getKeptCells(node.lockedCells, Object.keys(node.children || {}));
+  const merged = kept.reduce((next, key) => {
+    const [gridIndex, itemIndex] = key.split(":").map(Number);
+    const text = node.data.subGrids[gridIndex]?.items[itemIndex];
+    return text ? updateSubItem(next, gridIndex, itemIndex, text) : next;
+  }, data);
+  const checklists = Object.fromEntries(
+    Object.entries(node.checklists).filter(([index]) => node.data.mainDimensions[Number(index)] === merged.mainDimensions[Number(index)])
+  );
+  return { ...rest, data: merged, checklists } as T;
+};
+
+// Expanded cells whose text `next` replaces; their child mandalas are about the old text
+export const getStaleChildKeys = (node: MandalaNode, next: MandalaResult) =>
+  Object.keys(node.children || {}).filter((key) => {
+    const [gridIndex, itemIndex] = key.split(":").map(Number);
+    return node.data.subGrids[gridIndex]?.items[itemIndex] !== next.subGrids[gridIndex]?.items[itemIndex];
+  });
+
+// Whether regenerating would discard tasks or a planned roadmap
+export const hasPlannedWork = (node: MandalaNode) =>
+  !!node.roadmap || Object.values(node.checklists).some((items) => items.length > 0);
+
+// One entry per level from the root down to `path`, for breadcrumb navigation
+export const getBreadcrumbs = (root: MandalaNode, path: NodePath): { topic: string; path: NodePath }[] => {
+  const crumbs = [{ topic: root.topic, path: [] as NodePath }];
+  let node: MandalaNode | undefined = root;
+  path.forEach((key, depth) => {
+    node = node?.children?.[key];
+    if (node) crumbs.push({ topic: node.topic, path: path.slice(0, depth + 1) });
+  });
+  return crumbs;
+};
+
+export const countNodes = (node: MandalaNode): number =>
+  1 + Object.values(node.children || {}).reduce((sum, child) => sum + countNodes(child), 0);
+
+// Rewrites every piece of user-visible text in the tree (topics, cells, summary, actions, tasks,
+// roadmap titles and phases) while keeping the shape, keys and ids intact. Assignees are names and stay.
+export const mapNodeText = (node: MandalaNode, map: (text: string) => string): MandalaNode => {
+  const { data } = node;
+  const mapped: MandalaNode = {
+    ...node,
+    topic: map(node.topic),
+    data: {
+      coreConcept: map(data.coreConcept),
+      mainDimensions: data.mainDimensions.map(map),
+      subGrids: data.subGrids.map((grid) => ({ title: map(grid.title), items: grid.items.map(map) })),
+      summary: map(data.summary),
+      actions: data.actions.map(map),
+    },
+    checklists: Object.fromEntries(
+      Object.entries(node.checklists).map(([index, items]) => [
+        index,
+        items.map((item) => ({ ...item, task: map(item.task), description: map(item.description) })),
+      ])
+    ),
+  };
+  if (node.roadmap) {
+    mapped.roadmap = {
+      ...node.roadmap,
+      phases: node.roadmap.phases.map((phase) => ({ ...phase, name: map(phase.name) })),
+      items: node.roadmap.items.map((item) => ({ ...item, title: map(item.title), phase: map(item.phase) })),
+    };
+  }
+  if (node.children) {
+    mapped.children = Object.fromEntries(
+      Object.entries(node.children).map(([key, child]) => [key, mapNodeText(child, map)])
+    );
+  }
+  return mapped;
+};
@@ -0,0 +1,172 @@
+import { ChecklistItem, MandalaResult } from "../types";
+import { translateUi } from "./i18n";
+
+// Runtime checks for AI output. The prompt asks for exactly 8 dimensions with 8 ideas each,
+// but nothing enforces it, and the 9-slot mapping in the views silently breaks otherwise.
+
+export const GRID_SIZE = 8;
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface MandalaCheck {
+  // Normalized shape: always 8 dimensions, 8 sub-grids and 8 items each (empty strings mark gaps)
+  data: MandalaResult;
+  // Problems fixed locally (truncation, title alignment, trimming)
+  repairs: ValidationIssue[];
+  // Cells that are still empty and need the model (or the user) to fill them
+  missing: ValidationIssue[];
+}
+
+const asText = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+const asTextList = (value: unknown) => (Array.isArray(value) ? value.map(asText) : []);
+
+// Forces a list to exactly GRID_SIZE entries, recording what had to change
+const fitToGrid = (list: string[], path: string, repairs: ValidationIssue[]) => {
+  if (list.length > GRID_SIZE) {
+    repairs.push({ path, message: translateUi("validator.truncated", { count: list.length, size: GRID_SIZE }) });
+    return list.slice(0, GRID_SIZE);
+  }
+  if (list.length < GRID_SIZE) {
+    repairs.push({ path, message: translateUi("validator.padded", { count: list.length, added: GRID_SIZE - list.length }) });
+    return [...list, ...new Array(GRID_SIZE - list.length).fill("")];
+  }
+  return list;
+};
+
+export const normalizeMandala = (raw: unknown): MandalaCheck => {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(translateUi("validator.invalidMandala"));
+  }
+  const source = raw as Record<string, unknown>;
+  const repairs: ValidationIssue[] = [];
+  const missing: ValidationIssue[] = [];
+
+  const rawGrids = Array.isArray(source.subGrids) ? source.subGrids : [];
+  let subGrids = rawGrids.map((grid) => ({
+    title: asText((grid as Record<string, unknown>)?.title),
+    items: asTextList((grid as Record<string, unknown>)?.items),
+  }));
+  let mainDimensions = asTextList(source.mainDimensions);
+
+  // Sub-grids returned in a different order than the dimensions are matched back up by title
+  const byTitle = new Map(subGrids.map((grid) => [grid.title, grid]));
+  if (
+    mainDimensions.length === subGrids.length &&
+    mainDimensions.every((dim) => dim && byTitle.has(dim)) &&
+    mainDimensions.some((dim, i) => subGrids[i].title !== dim)
+  ) {
+    subGrids = mainDimensions.map((dim) => byTitle.get(dim)!);
+    repairs.push({ path: "subGrids", message: translateUi("validator.reordered") });
+  }
+
+  mainDimensions = fitToGrid(mainDimensions, "mainDimensions", repairs);
+  if (subGrids.length > GRID_SIZE) {
+    repairs.push({ path: "subGrids", message: translateUi("validator.gridsTruncated", { count: subGrids.length, size: GRID_SIZE }) });
+    subGrids = subGrids.slice(0, GRID_SIZE);
+  }
+  while (subGrids.length < GRID_SIZE) {
+    repairs.push({ path: `subGrids[${subGrids.length}]`, message: translateUi("validator.gridAdded") });
+    subGrids.push({ title: "", items: [] });
+  }
+
+  subGrids = subGrids.map((grid, i) => {
+    const path = `subGrids[${i}]`;
+    const dimension = mainDimensions[i];
+    let title = grid.title;
+
+    // The dimension is the source of truth; an empty dimension borrows the sub-grid's title
+    if (dimension && title !== dimension) {
+      if (title) repairs.push({ path: `${path}.title`, message: translateUi("validator.titleAligned", { title, dimension }) });
+      title = dimension;
+    } else if (!dimension && title) {
+      mainDimensions[i] = title;
+      repairs.push({ path: `mainDimensions[${i}]`, message: translateUi("validator.dimensionFromTitle", { title }) });
+    }
+
+    return { title, items: fitToGrid(grid.items, `${path}.items`, repairs) };
+  });
+
+  const coreConcept = asText(source.coreConcept);
+  const summary = asText(source.summary);
+  const actions = asTextList(source.actions).filter(Boolean);
+
+  const data: MandalaResult = { coreConcept, mainDimensions, subGrids, summary, actions };
+  missing.push(...findMissingCells(data));
+
+  return { data, repairs, missing };
+};
+
+export const findMissingCells = (data: MandalaResult): ValidationIssue[] => {
+  const missing: ValidationIssue[] = [];
+  if (!data.coreConcept) missing.push({ path: "coreConcept", message: translateUi("validator.missingCoreConcept") });
+  data.mainDimensions.forEach((dim, i) => {
+    if (!dim) missing.push({ path: `mainDimensions[${i}]`, message: translateUi("validator.missingDimension", { n: i + 1 }) });
+  });
+  data.subGrids.forEach((grid, i) => {
+    grid.items.forEach((item, j) => {
+      if (!item) missing.push({ path: `subGrids[${i}].items[${j}]`, message: translateUi("validator.missingIdea", { dimension: i + 1, n: j + 1 }) });
+    });
+  });
+  if (!data.summary) missing.push({ path: "summary", message: translateUi("validator.missingSummary") });
+  if (!data.actions.length) missing.push({ path: "actions", message: translateUi("validator.missingActions") });
+  return missing;
+};
+
+// Copies non-empty values from `fill` into the gaps of `base`; existing content always wins
+export const mergeMissingCells = (base: MandalaResult, fill: MandalaResult): MandalaResult => ({
+  coreConcept: base.coreConcept || fill.coreConcept,
+  mainDimensions: base.mainDimensions.map((dim, i) => dim || fill.mainDimensions[i] || ""),
+  subGrids: base.subGrids.map((grid, i) => {
+    const title = base.mainDimensions[i] || fill.mainDimensions[i] || grid.title;
+    return {
+      title,
+      items: grid.items.map((item, j) => item || fill.subGrids[i]?.items[j] || ""),
+    };
+  }),
+  summary: base.summary || fill.summary,
+  actions: base.actions.length ? base.actions : fill.actions,
+});
+
+export const formatIssues = (issues: ValidationIssue[], limit = 5) => {
+  const shown = issues.slice(0, limit).map((issue) => translateUi("validator.issue", { path: issue.path, message: issue.message }));
+  if (issues.length > limit) shown.push(translateUi("validator.more", { count: issues.length - limit }));
+  return shown.join(translateUi("validator.separator"));
+};
+
+// Tasks come back without ids; the caller gives each kept task its own
+export const normalizeChecklist = (raw: unknown): { items: Omit<ChecklistItem, "id">[]; repairs: ValidationIssue[] } => {
+  const repairs: ValidationIssue[] = [];
+  if (!Array.isArray(raw)) {
+    repairs.push({ path: "checklist", message: translateUi("validator.checklistNotArray") });
+    return { items: [], repairs };
+  }
+
+  const items: Omit<ChecklistItem, "id">[] = [];
+  raw.forEach((entry, i) => {
+    const path = `checklist[${i}]`;
+    const source = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    const task = asText(source.task);
+    if (!task) {
+      repairs.push({ path, message: translateUi("import.emptyTask") });
+      return;
+    }
+
+    let importance = Math.round(Number(source.importance));
+    if (!Number.isFinite(importance)) {
+      repairs.push({ path: `${path}.importance`, message: translateUi("validator.importanceNotNumber") });
+      importance = 3;
+    } else if (importance < 1 || importance > 5) {
+      const clamped = Math.min(5, Math.max(1, importance));
+      repairs.push({ path: `${path}.importance`, message: translateUi("validator.importanceClamped", { importance, clamped }) });
+      importance = clamped;
+    }
+
+    items.push({ task, description: asText(source.description), importance });
+  });
+
+  return { items, repairs };
+};
@@ -0,0 +1,292 @@
+import { ChecklistItem, MandalaResult, TaskStatus } from "../types";
+import { GRID_SIZE, ValidationIssue, normalizeMandala } from "./mandalaValidator";
+import { createId } from "./storageService";
+import { getTaskStatus, withStatus } from "./taskSchedule";
+import { translateUi } from "./i18n";
+
+// Markdown export in the classic Mandal-Art layout (Table A, eight Table B grids, full 9x9),
+// readable in Obsidian/Notion and parseable back by parseMandalaMarkdown.
+// Section headings double as parse anchors, so keep the two in sync.
+
+const HEADINGS = {
+  core: "核心概念",
+  tableA: "表格 A：主題與 8 大延伸面向",
+  tableB: "表格 B：每個面向的 8 個子想法",
+  fullGrid: "9x9 全景",
+  summary: "整體思考總結",
+  actions: "行動建議",
+  checklists: "任務檢核表",
+};
+
+const DIMENSION_PREFIX = "面向";
+const CENTER = 4;
+
+// Center + 8 items onto the 3x3 slots, reading order with the center in the middle
+const toSlots = (center: string, items: string[]) => {
+  const slots = [...items.slice(0, CENTER), center, ...items.slice(CENTER, GRID_SIZE)];
+  while (slots.length < 9) slots.push("");
+  return slots;
+};
+
+// Slot (0-8, reading order) of the 9x9 block or 3x3 cell -> index into subGrids / items
+const slotToIndex = (slot: number) => (slot < CENTER ? slot : slot - 1);
+
+// Only the center is written in bold, so only the center loses it again
+const fromSlots = (slots: string[]) => ({
+  center: (slots[CENTER] ?? "").replace(/^\*\*(.*)\*\*$/s, "$1").trim(),
+  items: [...slots.slice(0, CENTER), ...slots.slice(CENTER + 1, 9)],
+});
+
+const escapeCell = (text: string) => text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+
+const unescapeCell = (text: string) =>
+  text
+    .trim()
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/\\\|/g, "|")
+    .trim();
+
+// GFM tables need a header row; it stays empty so every data row is a grid row
+const toTable = (rows: string[][]) => {
+  const columns = rows[0]?.length ?? 0;
+  return [
+    `|${"   |".repeat(columns)}`,
+    `|${" --- |".repeat(columns)}`,
+    ...rows.map((row) => `| ${row.map(escapeCell).join(" | ")} |`),
+  ].join("\n");
+};
+
+const toGridTable = (center: string, items: string[]) => {
+  const slots = toSlots(center ? `**${center}**` : "", items);
+  return toTable([slots.slice(0, 3), slots.slice(3, 6), slots.slice(6, 9)]);
+};
+
+const toFullGridTable = (topic: string, data: MandalaResult) => {
+  // Block b of the 9x9 is Table A when b is the center, otherwise the sub-grid in that slot
+  const blocks = Array.from({ length: 9 }, (_, slot) => {
+    if (slot === CENTER) return toSlots(`**${topic}**`, data.mainDimensions);
+    const grid = data.subGrids[slotToIndex(slot)];
+    return toSlots(grid?.title ? `**${grid.title}**` : "", grid?.items ?? []);
+  });
+  const rows = Array.from({ length: 9 }, (_, r) =>
+    Array.from({ length: 9 }, (_, c) => blocks[Math.floor(r / 3) * 3 + Math.floor(c / 3)][(r % 3) * 3 + (c % 3)])
+  );
+  return toTable(rows);
+};
+
+// Scheduling fields ride along as inline metadata in the spirit of Obsidian Tasks:
+// [inProgress] / [blocked], @assignee (quoted when it has spaces), 📅 due date, ⏱ effort
+const TASK_METADATA = String.raw`\[(?:inProgress|blocked)\]|@"[^"]*"|@[^\s：:"]+|📅\s*\d{4}-\d{2}-\d{2}|⏱\s*\d+(?:\.\d+)?h`;
+
+const toTaskMetadata = (item: ChecklistItem) => {
+  const status = getTaskStatus(item);
+  const assignee = item.assignee?.replace(/"/g, "");
+  return [
+    status === "inProgress" || status === "blocked" ? `[${status}]` : "",
+    assignee ? `@${/[\s：:]/.test(assignee) ? `"${assignee}"` : assignee}` : "",
+    item.dueDate ? `📅 ${item.dueDate}` : "",
+    item.effortHours !== undefined ? `⏱ ${item.effortHours}h` : "",
+  ]
+    .filter(Boolean)
+    .map((token) => ` ${token}`)
+    .join("");
+};
+
+const parseTaskMetadata = (text: string) => {
+  const fields: { status?: TaskStatus; assignee?: string; dueDate?: string; effortHours?: number } = {};
+  for (const [token] of text.matchAll(new RegExp(TASK_METADATA, "gu"))) {
+    if (token.startsWith("[")) fields.status = token.slice(1, -1) as TaskStatus;
+    else if (token.startsWith("@")) fields.assignee = token.slice(1).replace(/^"|"$/g, "").trim() || undefined;
+    else if (token.startsWith("📅")) fields.dueDate = token.replace("📅", "").trim();
+    else fields.effortHours = parseFloat(token.replace("⏱", ""));
+  }
+  return fields;
+};
+
+const toChecklistLine = (item: ChecklistItem) =>
+  `- [${getTaskStatus(item) === "done" ? "x" : " "}] **${item.task}**（重要性 ${item.importance}/5）${toTaskMetadata(item)}${
+    item.description ? `：${item.description.replace(/\r?\n/g, " ")}` : ""
+  }`;
+
+export const mandalaToMarkdown = (
+  topic: string,
+  data: MandalaResult,
+  checklists: Record<number, ChecklistItem[]> = {}
+): string => {
+  const sections = [
+    `# ${topic}`,
+    `## ${HEADINGS.core}\n\n${data.coreConcept}`,
+    `## ${HEADINGS.tableA}\n\n${toGridTable(topic, data.mainDimensions)}`,
+    `## ${HEADINGS.tableB}\n\n${data.subGrids
+      .map((grid, i) => `### ${DIMENSION_PREFIX} ${i + 1}：${grid.title}\n\n${toGridTable(grid.title, grid.items)}`)
+      .join("\n\n")}`,
+    `## ${HEADINGS.fullGrid}\n\n${toFullGridTable(topic, data)}`,
+    `## ${HEADINGS.summary}\n\n${data.summary}`,
+    `## ${HEADINGS.actions}\n\n${data.actions.map((action, i) => `${i + 1}. ${action}`).join("\n")}`,
+  ];
+
+  const withTasks = data.mainDimensions
+    .map((dimension, i) => ({ dimension, items: checklists[i] || [] }))
+    .filter(({ items }) => items.length);
+  if (withTasks.length) {
+    sections.push(
+      `## ${HEADINGS.checklists}\n\n${withTasks
+        .map(({ dimension, items }) => `### ${dimension}\n\n${items.map(toChecklistLine).join("\n")}`)
+        .join("\n\n")}`
+    );
+  }
+
+  return `${sections.join("\n\n")}\n`;
+};
+
+export interface MarkdownImport {
+  topic: string;
+  data: MandalaResult;
+  checklists: Record<number, ChecklistItem[]>;
+  // Repairs from normalizeMandala plus anything the parser had to guess
+  warnings: ValidationIssue[];
+}
+
+interface Section {
+  heading: string;
+  body: string[];
+}
+
+const splitSections = (lines: string[], marker: string): Section[] => {
+  const sections: Section[] = [];
+  lines.forEach((line) => {
+    if (line.startsWith(`${marker} `)) {
+      sections.push({ heading: line.slice(marker.length + 1).trim(), body: [] });
+    } else if (sections.length) {
+      sections[sections.length - 1].body.push(line);
+    }
+  });
+  return sections;
+};
+
+// Table rows as cell lists. The header row only counts when it has content,
+// since editors that promote the first grid row to the header should still round-trip.
+const parseTable = (lines: string[]): string[][] => {
+  const rows = lines
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith("|"))
+    .map((line) =>
+      line
+        .replace(/^\|/, "")
+        .replace(/(?<!\\)\|$/, "")
+        .split(/(?<!\\)\|/)
+    );
+  const isSeparator = (cells: string[]) => cells.every((cell) => /^\s*:?-{3,}:?\s*$/.test(cell));
+  const separator = rows.findIndex(isSeparator);
+  const header = separator > 0 ? rows.slice(0, separator) : [];
+  const body = separator >= 0 ? rows.slice(separator + 1) : rows;
+  return [...header, ...body]
+    .map((cells) => cells.map(unescapeCell))
+    .filter((cells, i) => i >= header.length || cells.some(Boolean));
+};
+
+const parseGrid = (lines: string[]) => fromSlots(parseTable(lines).slice(0, 3).flatMap((row) => row.slice(0, 3)));
+
+const stripHeadingNumber = (heading: string) =>
+  heading.replace(new RegExp(`^${DIMENSION_PREFIX}\\s*\\d+\\s*[：:]\\s*`), "").trim();
+
+const CHECKLIST_LINE = new RegExp(
+  String.raw`^[-*]\s+\[([ xX])\]\s+(?:\*\*(.+?)\*\*|([^（：]+?))\s*(?:（重要性\s*(\d)\s*\/\s*5）)?((?:\s*(?:${TASK_METADATA}))*)\s*(?:[：:]\s*(.*))?$`,
+  "u"
+);
+
+export const parseMandalaMarkdown = (markdown: string): MarkdownImport => {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const warnings: ValidationIssue[] = [];
+  const find = (sections: Section[], heading: string) =>
+    sections.find((section) => section.heading.startsWith(heading.split("：")[0]));
+
+  const sections = splitSections(lines, "##");
+  const title = lines.find((line) => line.startsWith("# "))?.slice(2).trim() ?? "";
+  const text = (section?: Section) => section?.body.join("\n").trim() ?? "";
+
+  const tableA = find(sections, HEADINGS.tableA);
+  const fullGrid = find(sections, HEADINGS.fullGrid);
+  const tableB = find(sections, HEADINGS.tableB);
+
+  const raw: MandalaResult = {
+    coreConcept: text(find(sections, HEADINGS.core)),
+    mainDimensions: [],
+    subGrids: [],
+    summary: text(find(sections, HEADINGS.summary)),
+    actions: (find(sections, HEADINGS.actions)?.body ?? [])
+      .map((line) => /^\s*(?:\d+[.)]|[-*])\s+(.*)$/.exec(line)?.[1]?.trim() ?? "")
+      .filter(Boolean),
+  };
+  let center = "";
+
+  if (tableA) {
+    const grid = parseGrid(tableA.body);
+    center = grid.center;
+    raw.mainDimensions = grid.items;
+  }
+
+  const gridSections = tableB ? splitSections(tableB.body, "###") : [];
+  if (gridSections.length) {
+    raw.subGrids = gridSections.map((section) => {
+      const grid = parseGrid(section.body);
+      return { title: grid.center || stripHeadingNumber(section.heading), items: grid.items };
+    });
+  } else if (fullGrid) {
+    // Editors that drop Table B still leave the 9x9, which holds the same cells
+    const rows = parseTable(fullGrid.body);
+    const blocks = Array.from({ length: 9 }, (_, b) =>
+      Array.from({ length: 9 }, (_, s) => rows[Math.floor(b / 3) * 3 + Math.floor(s / 3)]?.[(b % 3) * 3 + (s % 3)] ?? "")
+    );
+    raw.subGrids = blocks
+      .filter((_, slot) => slot !== CENTER)
+      .map((block) => fromSlots(block))
+      .map((grid) => ({ title: grid.center, items: grid.items }));
+    if (!tableA) {
+      const middle = fromSlots(blocks[CENTER]);
+      center = middle.center;
+      raw.mainDimensions = middle.items;
+    }
+    warnings.push({ path: "subGrids", message: translateUi("import.noTableB") });
+  }
+
+  if (!raw.mainDimensions.length && raw.subGrids.length) {
+    raw.mainDimensions = raw.subGrids.map((grid) => grid.title);
+  }
+  if (!raw.mainDimensions.length && !raw.subGrids.length) {
+    throw new Error(translateUi("import.notMandalaMarkdown"));
+  }
+
+  const { data, repairs, missing } = normalizeMandala(raw);
+  warnings.push(...repairs, ...missing);
+
+  const topic = title || center || data.coreConcept;
+  if (!data.coreConcept) data.coreConcept = topic;
+
+  const checklists: Record<number, ChecklistItem[]> = {};
+  splitSections(find(sections, HEADINGS.checklists)?.body ?? [], "###").forEach((section) => {
+    const index = data.mainDimensions.indexOf(section.heading);
+    if (index < 0) {
+      warnings.push({ path: `checklists.${section.heading}`, message: translateUi("import.unknownDimension") });
+      return;
+    }
+    checklists[index] = section.body.flatMap((line) => {
+      const match = CHECKLIST_LINE.exec(line.trim());
+      if (!match) return [];
+      const [, mark, boldTask, plainTask, importance, metadata, description] = match;
+      const { status, ...schedule } = parseTaskMetadata(metadata ?? "");
+      const item: ChecklistItem = {
+        id: createId(),
+        task: (boldTask ?? plainTask).trim(),
+        description: description?.trim() ?? "",
+        importance: importance ? Number(importance) : 3,
+      };
+      if (schedule.assignee) item.assignee = schedule.assignee;
+      if (schedule.dueDate) item.dueDate = schedule.dueDate;
+      if (schedule.effortHours !== undefined && Number.isFinite(schedule.effortHours)) item.effortHours = schedule.effortHours;
+      return [withStatus(item, mark.toLowerCase() === "x" ? "done" : status ?? "todo")];
+    });
+  });
+
+  return { topic, data, checklists, warnings };
+};
@@ -0,0 +1,64 @@
+// Best-effort parser for a JSON document that is still streaming in.
+// It cuts the text back to the last complete value and closes whatever arrays/objects are open,
+// so `{"a":["x","y` yields { a: ["x"] }. Strings that are still being written are left out.
+
+interface CutPoint {
+  index: number;
+  closers: string;
+}
+
+export const parsePartialJson = (text: string): unknown | undefined => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Incomplete: fall through to the repair below
+  }
+
+  const stack: string[] = [];
+  const cuts: CutPoint[] = [];
+  let inString = false;
+  let escaped = false;
+
+  const closers = () => stack.slice().reverse().join("");
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (ch === "\\") {
+        escaped = true;
+      } else if (ch === '"') {
+        inString = false;
+        // A closing quote ends either a key or a value; failed parses below weed out keys
+        cuts.push({ index: i + 1, closers: closers() });
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === "{" || ch === "[") {
+      stack.push(ch === "{" ? "}" : "]");
+      cuts.push({ index: i + 1, closers: closers() });
+    } else if (ch === "}" || ch === "]") {
+      stack.pop();
+      cuts.push({ index: i + 1, closers: closers() });
+    } else if (ch === ",") {
+      // Everything before a comma is a complete value (numbers and literals included)
+      cuts.push({ index: i, closers: closers() });
+    }
+  }
+
+  for (let c = cuts.length - 1; c >= 0; c--) {
+    const { index, closers: tail } = cuts[c];
+    try {
+      return JSON.parse(text.slice(0, index) + tail);
+    } catch {
+      // Try the previous cut point
+    }
+  }
+
+  return undefined;
+};
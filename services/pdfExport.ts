@@ -0,0 +1,426 @@
+import type { PDFFont, PDFPage, RGB } from "pdf-lib";
+import { ChecklistItem, MandalaResult } from "../types";
+import { getDimensionProgress, getOverallProgress } from "./checklistProgress";
+import { getStatusLabel, getTaskStatus } from "./taskSchedule";
+import { Locale, Translate, translate } from "./i18n";
+
+// Print-ready PDF export drawn with pdf-lib. Standard PDF fonts have no CJK glyphs, so a
+// Traditional Chinese font is fetched once per session and embedded (subset to the used glyphs).
+// pdf-lib and fontkit are loaded on demand to keep them out of the main bundle.
+
+export type PdfLayout = "poster" | "report" | "checklists";
+
+// Labelled as pdf.<id> and pdf.<id>Hint in the message catalogues
+export const PDF_LAYOUTS: PdfLayout[] = ["poster", "report", "checklists"];
+
+const DEFAULT_FONT_URL = "https://cdn.jsdelivr.net/gh/notofonts/noto-cjk@main/Sans/SubsetOTF/TC/NotoSansTC-Regular.otf";
+
+const A4: [number, number] = [595.28, 841.89];
+const A3: [number, number] = [841.89, 1190.55];
+const MARGIN = 48;
+const LINE_HEIGHT = 1.35;
+const CENTER = 4;
+
+// DashboardView's Tailwind palette
+const COLORS = {
+  mainCenter: "#4F46E5", // indigo-600
+  mainCell: "#EEF2FF", // indigo-50
+  mainText: "#312E81", // indigo-900
+  mainBorder: "#A5B4FC", // indigo-300
+  subCenter: "#F1F5F9", // slate-100
+  subCenterText: "#1E293B", // slate-800
+  subText: "#475569", // slate-600
+  border: "#E2E8F0", // slate-200
+  muted: "#94A3B8", // slate-400
+  white: "#FFFFFF",
+  done: "#059669", // emerald-600
+};
+
+let fontBytes: Promise<ArrayBuffer> | null = null;
+
+const loadFontBytes = (t: Translate) => {
+  fontBytes ??= fetch(process.env.PDF_FONT_URL || DEFAULT_FONT_URL)
+    .then((response) => {
+      if (!response.ok) throw new Error(t("export.fontFailed", { status: response.status }));
+      return response.arrayBuffer();
+    })
+    .catch((error) => {
+      // Let the next export retry instead of caching the failure
+      fontBytes = null;
+      throw error;
+    });
+  return fontBytes;
+};
+
+interface DrawContext {
+  font: PDFFont;
+  t: Translate;
+  locale: Locale;
+  color: (hex: string) => RGB;
+  addPage: (size: [number, number]) => PDFPage;
+  getLastPage: () => PDFPage;
+}
+
+// Greedy line breaking: CJK text may break between any two characters, Latin words stay whole
+const wrapLines = (font: PDFFont, text: string, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  text.split(/\r?\n/).forEach((paragraph) => {
+    let line = "";
+    const tokens = paragraph.match(/[A-Za-z0-9'’.,:;!?()\-_/]+\s*|\s+|./gu) ?? [];
+    tokens.forEach((token) => {
+      const candidate = line + token;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line.trim()) lines.push(line.trimEnd());
+      line = "";
+      // A single token wider than the line is broken per character
+      for (const char of token.trimStart()) {
+        if (font.widthOfTextAtSize(line + char, size) > maxWidth && line) {
+          lines.push(line);
+          line = "";
+        }
+        line += char;
+      }
+    });
+    lines.push(line.trimEnd());
+  });
+  return lines;
+};
+
+// Largest size (down to minSize) at which the text fits the box; what still overflows is cut with an ellipsis
+const fitText = (font: PDFFont, text: string, width: number, height: number, maxSize: number, minSize = 5) => {
+  for (let size = maxSize; size >= minSize; size -= 0.5) {
+    const lines = wrapLines(font, text, size, width);
+    if (lines.length * size * LINE_HEIGHT <= height) return { lines, size };
+  }
+  const maxLines = Math.max(1, Math.floor(height / (minSize * LINE_HEIGHT)));
+  const lines = wrapLines(font, text, minSize, width).slice(0, maxLines);
+  lines[lines.length - 1] = `${lines[lines.length - 1].slice(0, -1)}…`;
+  return { lines, size: minSize };
+};
+
+interface CellStyle {
+  fill: string;
+  text: string;
+  border: string;
+  maxSize: number;
+}
+
+// (x, top) is the cell's top-left corner in PDF points; pdf-lib's y axis grows upwards
+const drawCell = (
+  ctx: DrawContext,
+  page: PDFPage,
+  x: number,
+  top: number,
+  width: number,
+  height: number,
+  text: string,
+  style: CellStyle
+) => {
+  page.drawRectangle({
+    x,
+    y: top - height,
+    width,
+    height,
+    color: ctx.color(style.fill),
+    borderColor: ctx.color(style.border),
+    borderWidth: 0.75,
+  });
+  if (!text) return;
+
+  const padding = Math.max(3, width * 0.06);
+  const { lines, size } = fitText(ctx.font, text, width - padding * 2, height - padding * 2, style.maxSize);
+  const blockHeight = lines.length * size * LINE_HEIGHT;
+  lines.forEach((line, i) => {
+    const lineWidth = ctx.font.widthOfTextAtSize(line, size);
+    page.drawText(line, {
+      x: x + (width - lineWidth) / 2,
+      y: top - (height - blockHeight) / 2 - (i + 1) * size * LINE_HEIGHT + size * (LINE_HEIGHT - 1) / 2 + size * 0.12,
+      size,
+      font: ctx.font,
+      color: ctx.color(style.text),
+    });
+  });
+};
+
+const gridStyles = (variant: "main" | "sub", isCenter: boolean, maxSize: number): CellStyle => {
+  if (variant === "main") {
+    return isCenter
+      ? { fill: COLORS.mainCenter, text: COLORS.white, border: COLORS.mainBorder, maxSize: maxSize * 1.2 }
+      : { fill: COLORS.mainCell, text: COLORS.mainText, border: COLORS.mainBorder, maxSize };
+  }
+  return isCenter
+    ? { fill: COLORS.subCenter, text: COLORS.subCenterText, border: COLORS.border, maxSize: maxSize * 1.1 }
+    : { fill: COLORS.white, text: COLORS.subText, border: COLORS.border, maxSize };
+};
+
+// One 3x3 block laid out like MiniGrid: the center slot holds the block's theme
+const drawGrid3x3 = (
+  ctx: DrawContext,
+  page: PDFPage,
+  x: number,
+  top: number,
+  side: number,
+  center: string,
+  items: string[],
+  variant: "main" | "sub",
+  maxSize: number
+) => {
+  const cell = side / 3;
+  for (let slot = 0; slot < 9; slot++) {
+    const isCenter = slot === CENTER;
+    const text = isCenter ? center : items[slot < CENTER ? slot : slot - 1] ?? "";
+    drawCell(
+      ctx,
+      page,
+      x + (slot % 3) * cell,
+      top - Math.floor(slot / 3) * cell,
+      cell,
+      cell,
+      text,
+      gridStyles(variant, isCenter, maxSize)
+    );
+  }
+  page.drawRectangle({
+    x,
+    y: top - side,
+    width: side,
+    height: side,
+    borderColor: ctx.color(variant === "main" ? COLORS.mainCenter : COLORS.muted),
+    borderWidth: 1.5,
+  });
+};
+
+const drawCentered = (ctx: DrawContext, page: PDFPage, text: string, top: number, size: number, hex: string) => {
+  const { width } = page.getSize();
+  const lines = wrapLines(ctx.font, text, size, width - MARGIN * 2);
+  lines.forEach((line, i) => {
+    page.drawText(line, {
+      x: (width - ctx.font.widthOfTextAtSize(line, size)) / 2,
+      y: top - (i + 1) * size * LINE_HEIGHT,
+      size,
+      font: ctx.font,
+      color: ctx.color(hex),
+    });
+  });
+  return top - lines.length * size * LINE_HEIGHT;
+};
+
+// Top-to-bottom text flow that starts a new page whenever the next line would cross the bottom margin
+const createFlow = (ctx: DrawContext, size: [number, number]) => {
+  let page = ctx.addPage(size);
+  let y = size[1] - MARGIN;
+
+  const ensure = (height: number) => {
+    if (y - height < MARGIN) {
+      page = ctx.addPage(size);
+      y = size[1] - MARGIN;
+    }
+  };
+
+  return {
+    get page() {
+      return page;
+    },
+    get y() {
+      return y;
+    },
+    ensure,
+    space: (height: number) => {
+      y -= height;
+    },
+    text: (text: string, options: { size: number; hex: string; indent?: number; gap?: number }) => {
+      const indent = options.indent ?? 0;
+      wrapLines(ctx.font, text, options.size, size[0] - MARGIN * 2 - indent).forEach((line) => {
+        ensure(options.size * LINE_HEIGHT);
+        y -= options.size * LINE_HEIGHT;
+        page.drawText(line, { x: MARGIN + indent, y: y + options.size * 0.25, size: options.size, font: ctx.font, color: ctx.color(options.hex) });
+      });
+      y -= options.gap ?? 4;
+    },
+  };
+};
+
+const drawPoster = (ctx: DrawContext, topic: string, data: MandalaResult) => {
+  const page = ctx.addPage(A3);
+  const { width } = page.getSize();
+  let top = page.getSize().height - MARGIN;
+  top = drawCentered(ctx, page, topic, top, 28, COLORS.mainText) - 6;
+  top = drawCentered(ctx, page, data.coreConcept, top, 12, COLORS.subText) - 24;
+
+  // Same 3x3-of-3x3 arrangement as DashboardView, with gaps between the blocks
+  const gap = 10;
+  const side = width - MARGIN * 2;
+  const block = (side - gap * 2) / 3;
+  for (let slot = 0; slot < 9; slot++) {
+    const x = MARGIN + (slot % 3) * (block + gap);
+    const blockTop = top - Math.floor(slot / 3) * (block + gap);
+    if (slot === CENTER) {
+      drawGrid3x3(ctx, page, x, blockTop, block, topic, data.mainDimensions, "main", 11);
+    } else {
+      const grid = data.subGrids[slot < CENTER ? slot : slot - 1];
+      drawGrid3x3(ctx, page, x, blockTop, block, grid?.title ?? "", grid?.items ?? [], "sub", 10);
+    }
+  }
+};
+
+const drawReport = (ctx: DrawContext, topic: string, data: MandalaResult) => {
+  const [pageWidth, pageHeight] = A4;
+
+  // Page 1: title, core concept and Table A
+  const cover = ctx.addPage(A4);
+  let top = drawCentered(ctx, cover, ctx.t("export.reportTitle"), pageHeight - MARGIN, 22, COLORS.mainText) - 4;
+  top = drawCentered(ctx, cover, topic, top, 14, COLORS.subCenterText) - 12;
+  top = drawCentered(ctx, cover, ctx.t("export.coreConcept", { text: data.coreConcept }), top, 11, COLORS.subText) - 28;
+  top = drawCentered(ctx, cover, ctx.t("export.tableA"), top, 13, COLORS.mainCenter) - 12;
+  const tableA = 360;
+  drawGrid3x3(ctx, cover, (pageWidth - tableA) / 2, top, tableA, topic, data.mainDimensions, "main", 14);
+
+  // Table B: four grids per page in a 2x2 arrangement
+  const side = 220;
+  const gapX = pageWidth - MARGIN * 2 - side * 2;
+  data.subGrids.forEach((grid, i) => {
+    const position = i % 4;
+    const page = position === 0 ? ctx.addPage(A4) : ctx.getLastPage();
+    if (position === 0) {
+      drawCentered(ctx, page, ctx.t("export.tableB"), pageHeight - MARGIN, 13, COLORS.mainCenter);
+    }
+    const x = MARGIN + (position % 2) * (side + gapX);
+    const headingTop = pageHeight - MARGIN - 40 - Math.floor(position / 2) * (side + 70);
+    page.drawText(ctx.t("export.dimensionHeading", { n: i + 1, title: grid.title }), {
+      x,
+      y: headingTop - 14,
+      size: 11,
+      font: ctx.font,
+      color: ctx.color(COLORS.subCenterText),
+    });
+    drawGrid3x3(ctx, page, x, headingTop - 24, side, grid.title, grid.items, "sub", 10);
+  });
+
+  // Summary and actions as flowing text
+  const flow = createFlow(ctx, A4);
+  flow.text(ctx.t("export.summary"), { size: 14, hex: COLORS.mainCenter, gap: 8 });
+  flow.text(data.summary, { size: 10.5, hex: COLORS.subCenterText, gap: 20 });
+  flow.text(ctx.t("export.actions"), { size: 14, hex: COLORS.mainCenter, gap: 8 });
+  data.actions.forEach((action, i) => flow.text(`${i + 1}. ${action}`, { size: 10.5, hex: COLORS.subCenterText, indent: 8, gap: 6 }));
+};
+
+const drawChecklists = (
+  ctx: DrawContext,
+  topic: string,
+  data: MandalaResult,
+  checklists: Record<number, ChecklistItem[]>
+) => {
+  const flow = createFlow(ctx, A4);
+  const overall = getOverallProgress(checklists);
+  flow.text(ctx.t("export.checklistTitle", { name: topic }), { size: 18, hex: COLORS.mainText, gap: 4 });
+  if (overall) {
+    flow.text(ctx.t("export.overallProgress", { ...overall }), { size: 10, hex: COLORS.muted, gap: 12 });
+  }
+
+  data.mainDimensions.forEach((dimension, dimensionIndex) => {
+    const items = checklists[dimensionIndex];
+    if (!items?.length) return;
+    const progress = getDimensionProgress(checklists, dimensionIndex);
+
+    flow.ensure(80);
+    flow.space(10);
+    flow.text(`${dimensionIndex + 1}. ${dimension}`, { size: 14, hex: COLORS.mainCenter, gap: 2 });
+    if (progress) {
+      flow.text(ctx.t("export.dimensionProgress", { done: progress.done, total: progress.total }), { size: 9, hex: COLORS.muted, gap: 8 });
+    }
+
+    items.forEach((item) => {
+      const status = getTaskStatus(item);
+      const isDone = status === "done";
+      flow.ensure(40);
+
+      // Checkbox drawn next to the first line of the task
+      const box = 9;
+      flow.page.drawRectangle({
+        x: MARGIN,
+        y: flow.y - box - 2,
+        width: box,
+        height: box,
+        color: ctx.color(isDone ? COLORS.done : COLORS.white),
+        borderColor: ctx.color(isDone ? COLORS.done : COLORS.muted),
+        borderWidth: 0.75,
+      });
+      flow.text(item.task, { size: 11, hex: isDone ? COLORS.muted : COLORS.subCenterText, indent: 16, gap: 1 });
+
+      const meta = [
+        getStatusLabel(status, ctx.locale),
+        ctx.t("export.importanceStars", { stars: "★".repeat(item.importance) + "☆".repeat(5 - item.importance) }),
+        item.assignee && ctx.t("export.assignee", { name: item.assignee }),
+        item.dueDate && ctx.t("export.dueDate", { date: item.dueDate }),
+        item.effortHours !== undefined && ctx.t("export.effort", { hours: item.effortHours }),
+      ].filter(Boolean).join(ctx.t("export.metaSeparator"));
+      flow.text(meta, { size: 8, hex: COLORS.muted, indent: 16, gap: 1 });
+      if (item.description) {
+        flow.text(item.description, { size: 9, hex: COLORS.subText, indent: 16, gap: 0 });
+      }
+      flow.space(8);
+    });
+  });
+};
+
+export const buildMandalaPdf = async (
+  layout: PdfLayout,
+  topic: string,
+  data: MandalaResult,
+  locale: Locale,
+  checklists: Record<number, ChecklistItem[]> = {}
+): Promise<Blob> => {
+  const t: Translate = (key, params) => translate(locale, key, params);
+  if (layout === "checklists" && !getOverallProgress(checklists)) {
+    throw new Error(t("export.noChecklists"));
+  }
+
+  const [{ PDFDocument, rgb }, { default: fontkit }, bytes] = await Promise.all([
+    import("pdf-lib"),
+    import("@pdf-lib/fontkit"),
+    loadFontBytes(t),
+  ]);
+
+  const doc = await PDFDocument.create();
+  doc.registerFontkit(fontkit);
+  doc.setTitle(t("export.pdfTitle", { topic }));
+  doc.setCreator(t("app.title"));
+  const font = await doc.embedFont(bytes, { subset: true });
+
+  const ctx: DrawContext = {
+    font,
+    t,
+    locale,
+    color: (hex) => rgb(
+      parseInt(hex.slice(1, 3), 16) / 255,
+      parseInt(hex.slice(3, 5), 16) / 255,
+      parseInt(hex.slice(5, 7), 16) / 255
+    ),
+    addPage: (size) => doc.addPage(size),
+    getLastPage: () => doc.getPage(doc.getPageCount() - 1),
+  };
+
+  if (layout === "poster") drawPoster(ctx, topic, data);
+  if (layout === "report") drawReport(ctx, topic, data);
+  if (layout === "checklists") drawChecklists(ctx, topic, data, checklists);
+
+  const pages = doc.getPages();
+  if (pages.length > 1) {
+    pages.forEach((page, i) => {
+      const label = `${i + 1} / ${pages.length}`;
+      page.drawText(label, {
+        x: (page.getWidth() - font.widthOfTextAtSize(label, 8)) / 2,
+        y: MARGIN / 2,
+        size: 8,
+        font,
+        color: ctx.color(COLORS.muted),
+      });
+    });
+  }
+
+  const pdf = await doc.save();
+  return new Blob([pdf], { type: "application/pdf" });
+};
@@ -0,0 +1,300 @@
+import { createId } from "./storageService";
+import { translateUi } from "./i18n";
+
+// Generation presets: a template decides who the model plays and how the eight dimensions are
+// chosen; tone, audience, action count and the template's {{variables}} are picked per generation.
+// Built-in templates ship with the app, user templates live in localStorage and travel as
+// .mandala-template.json files.
+
+export type ToneId = "neutral" | "professional" | "friendly" | "motivational" | "academic";
+export type BuiltInTemplateId = "coach" | "goal" | "product" | "learning" | "event" | "swot";
+// Variables of the built-in templates, whose labels come from the message catalogue
+export type BuiltInVariable = "deadline" | "users" | "level" | "hoursPerWeek" | "date" | "attendees" | "budget" | "context";
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // Who the model plays, e.g. "一位資深產品經理"; opens both the system instruction and the prompt
+  persona: string;
+  // How to pick the dimensions and ideas. {{topic}} and {{variable}} placeholders are filled in;
+  // a line whose variables are left empty is dropped
+  guidance: string;
+  // Suggested settings, applied when the template is selected
+  tone: ToneId;
+  actionCount: number;
+  builtIn?: boolean;
+}
+
+export interface GenerationPreset {
+  templateId: string;
+  // Keyed by variable name, so values carry over between templates that share a variable
+  variables: Record<string, string>;
+  tone: ToneId;
+  audience: string;
+  actionCount: number;
+}
+
+// What the prompt builder needs, with every placeholder already filled
+export interface ResolvedPrompt {
+  persona: string;
+  guidance: string;
+  tone: string;
+  audience: string;
+  actionCount: number;
+}
+
+export const TONE_OPTIONS: { id: ToneId; instruction: string }[] = [
+  { id: "neutral", instruction: "" },
+  { id: "professional", instruction: "語氣專業嚴謹，用詞精確。" },
+  { id: "friendly", instruction: "語氣輕鬆親切，避免艱深術語。" },
+  { id: "motivational", instruction: "語氣積極、激勵人心，讓人想立刻行動。" },
+  { id: "academic", instruction: "語氣客觀、具分析性，必要時點出理論或框架。" },
+];
+
+export const MIN_ACTIONS = 1;
+export const MAX_ACTIONS = 10;
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: "coach",
+    name: "創意思考教練",
+    description: "通用的曼陀羅展開，適合任何主題",
+    persona: "一位具備創意思考與問題拆解能力的思考教練",
+    guidance: "",
+    tone: "neutral",
+    actionCount: 3,
+  },
+  {
+    id: "goal",
+    name: "目標達成表（大谷翔平式）",
+    description: "把一個大目標拆成 8 項必備要素與 64 個每日可執行的行動",
+    persona: "一位擅長目標設定與習慣養成的教練",
+    guidance: [
+      "中心是一個要達成的具體目標，達成期限為 {{deadline}}。",
+      "8 個面向是達成目標必須具備的要素，兼顧技術、心態、體能、人際關係與運氣等不同層面。",
+      "每個面向的 8 個子想法都必須是可以每天或每週執行、做完可以打勾的具體行動，而不是抽象的口號。",
+    ].join("\n"),
+    tone: "motivational",
+    actionCount: 3,
+  },
+  {
+    id: "product",
+    name: "產品企劃",
+    description: "從使用者痛點到上市策略，盤點一個產品的關鍵決策",
+    persona: "一位資深產品經理",
+    guidance: [
+      "主要的目標使用者是 {{users}}。",
+      "8 個面向請涵蓋：使用者痛點、價值主張、核心功能、商業模式、競品差異、上市策略、成功指標、風險與假設。",
+      "子想法要具體到可以拿去和團隊討論或驗證。",
+    ].join("\n"),
+    tone: "professional",
+    actionCount: 5,
+  },
+  {
+    id: "learning",
+    name: "學習計畫",
+    description: "為一項技能或科目安排學習路徑、資源與里程碑",
+    persona: "一位了解成人學習方法的學習教練",
+    guidance: [
+      "學習者目前的程度是 {{level}}。",
+      "每週可投入約 {{hoursPerWeek}} 小時，子想法的份量請配合這個時間。",
+      "8 個面向請涵蓋：基礎概念、核心技能、練習方法、學習資源、里程碑、回饋與評量、學習社群、維持動機。",
+    ].join("\n"),
+    tone: "friendly",
+    actionCount: 3,
+  },
+  {
+    id: "event",
+    name: "活動企劃",
+    description: "規劃一場活動從籌備、宣傳到當天執行的所有環節",
+    persona: "一位經驗豐富的活動企劃",
+    guidance: [
+      "活動日期是 {{date}}。",
+      "預計參加人數約 {{attendees}} 人。",
+      "預算約 {{budget}}，子想法請在這個範圍內規劃。",
+      "8 個面向請涵蓋：活動目標、內容流程、場地與設備、宣傳招募、報名與接待、人力分工、預算控管、風險與應變。",
+    ].join("\n"),
+    tone: "professional",
+    actionCount: 5,
+  },
+  {
+    id: "swot",
+    name: "SWOT 策略分析",
+    description: "優勢、劣勢、機會、威脅，再交叉出四種策略",
+    persona: "一位策略顧問",
+    guidance: [
+      "分析的情境或產業是 {{context}}。",
+      "8 個面向請依序為：優勢 (S)、劣勢 (W)、機會 (O)、威脅 (T)、SO 策略（用優勢抓住機會）、WO 策略（把握機會改善劣勢）、ST 策略（用優勢化解威脅）、WT 策略（降低劣勢與威脅）。",
+      "前四個面向的子想法是具體的觀察，後四個面向的子想法是具體可執行的策略。",
+    ].join("\n"),
+    tone: "academic",
+    actionCount: 4,
+  },
+].map((template) => ({ ...template, tone: template.tone as ToneId, builtIn: true }));
+
+export const DEFAULT_TEMPLATE = BUILT_IN_TEMPLATES[0];
+
+const TEMPLATES_KEY = "mandala-prompt-templates";
+const PRESET_KEY = "mandala-generation-preset";
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const isToneId = (value: unknown): value is ToneId =>
+  TONE_OPTIONS.some((option) => option.id === value);
+
+export const clampActionCount = (value: unknown) => {
+  const count = Math.round(Number(value));
+  return Number.isFinite(count) ? Math.min(MAX_ACTIONS, Math.max(MIN_ACTIONS, count)) : DEFAULT_TEMPLATE.actionCount;
+};
+
+// Names of the {{variables}} a guidance text uses, in order of appearance; {{topic}} is always filled
+export const extractVariables = (text: string): string[] => {
+  const names = [...text.matchAll(/\{\{\s*([^{}\s]+)\s*\}\}/g)].map((match) => match[1]);
+  return [...new Set(names)].filter((name) => name !== "topic");
+};
+
+// Shape checks shared by storage and file import; returns null when the record is unusable
+const toTemplate = (raw: unknown): PromptTemplate | null => {
+  if (!isRecord(raw)) return null;
+  const name = typeof raw.name === "string" ? raw.name.trim() : "";
+  const persona = typeof raw.persona === "string" ? raw.persona.trim() : "";
+  if (!name || !persona) return null;
+  return {
+    id: typeof raw.id === "string" && raw.id ? raw.id : createId(),
+    name,
+    description: typeof raw.description === "string" ? raw.description.trim() : "",
+    persona,
+    guidance: typeof raw.guidance === "string" ? raw.guidance.trim() : "",
+    tone: isToneId(raw.tone) ? raw.tone : "neutral",
+    actionCount: clampActionCount(raw.actionCount),
+  };
+};
+
+export const getUserTemplates = (): PromptTemplate[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TEMPLATES_KEY) || "[]");
+    return Array.isArray(stored) ? stored.map(toTemplate).filter((t): t is PromptTemplate => !!t) : [];
+  } catch {
+    return [];
+  }
+};
+
+const setUserTemplates = (templates: PromptTemplate[]) => {
+  try {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.error("Failed to save prompt templates", error);
+  }
+};
+
+export const listTemplates = (): PromptTemplate[] => [...BUILT_IN_TEMPLATES, ...getUserTemplates()];
+
+export const findTemplate = (id: string): PromptTemplate =>
+  listTemplates().find((template) => template.id === id) ?? DEFAULT_TEMPLATE;
+
+// Inserts or replaces by id; built-in templates cannot be overwritten, only copied
+export const saveUserTemplate = (template: PromptTemplate): PromptTemplate => {
+  const { builtIn: _builtIn, ...fields } = template;
+  const saved = { ...fields, id: template.builtIn || !template.id ? createId() : template.id };
+  const others = getUserTemplates().filter((existing) => existing.id !== saved.id);
+  setUserTemplates([...others, saved]);
+  return saved;
+};
+
+export const deleteUserTemplate = (id: string) => {
+  setUserTemplates(getUserTemplates().filter((template) => template.id !== id));
+};
+
+export const presetFromTemplate = (template: PromptTemplate, previous?: GenerationPreset): GenerationPreset => ({
+  templateId: template.id,
+  variables: previous?.variables ?? {},
+  tone: template.tone,
+  audience: previous?.audience ?? "",
+  actionCount: template.actionCount,
+});
+
+export const getGenerationPreset = (): GenerationPreset => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PRESET_KEY) || "null");
+    if (isRecord(stored)) {
+      const template = findTemplate(String(stored.templateId));
+      const variables = isRecord(stored.variables)
+        ? Object.fromEntries(Object.entries(stored.variables).filter(([, value]) => typeof value === "string")) as Record<string, string>
+        : {};
+      return {
+        templateId: template.id,
+        variables,
+        tone: isToneId(stored.tone) ? stored.tone : template.tone,
+        audience: typeof stored.audience === "string" ? stored.audience : "",
+        actionCount: clampActionCount(stored.actionCount),
+      };
+    }
+  } catch {
+    // Corrupt or unavailable storage falls back to the default template
+  }
+  return presetFromTemplate(DEFAULT_TEMPLATE);
+};
+
+export const setGenerationPreset = (preset: GenerationPreset) => {
+  try {
+    localStorage.setItem(PRESET_KEY, JSON.stringify(preset));
+  } catch (error) {
+    console.error("Failed to save generation preset", error);
+  }
+};
+
+export const resolvePrompt = (preset: GenerationPreset, topic: string): ResolvedPrompt => {
+  const template = findTemplate(preset.templateId);
+  const values: Record<string, string> = { ...preset.variables, topic };
+  const guidance = template.guidance
+    .split(/\r?\n/)
+    .filter((line) => extractVariables(line).every((name) => values[name]?.trim()))
+    .map((line) => line.replace(/\{\{\s*([^{}\s]+)\s*\}\}/g, (_, name: string) => values[name].trim()))
+    .filter((line) => line.trim())
+    .join("\n");
+  return {
+    persona: template.persona,
+    guidance,
+    tone: TONE_OPTIONS.find((option) => option.id === preset.tone)?.instruction ?? "",
+    audience: preset.audience.trim(),
+    actionCount: clampActionCount(preset.actionCount),
+  };
+};
+
+// Shareable .mandala-template.json files, versioned like .mandala.json
+export const TEMPLATE_FILE_FORMAT = "mandala-prompt-template";
+export const TEMPLATE_FILE_VERSION = 1;
+export const TEMPLATE_FILE_EXTENSION = ".mandala-template.json";
+
+export const serializeTemplateFile = (template: PromptTemplate): string => {
+  const { id: _id, builtIn: _builtIn, ...fields } = template;
+  return JSON.stringify({ format: TEMPLATE_FILE_FORMAT, version: TEMPLATE_FILE_VERSION, template: fields }, null, 2);
+};
+
+export const getTemplateFileName = (template: PromptTemplate) =>
+  `${template.name.trim().replace(/[\\/:*?"<>|\s]+/g, "_") || "template"}${TEMPLATE_FILE_EXTENSION}`;
+
+// Imports always get a fresh id, so a shared file never replaces an existing template
+export const parseTemplateFile = (text: string): PromptTemplate => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error(translateUi("import.invalidJson"));
+  }
+  if (!isRecord(raw) || raw.format !== TEMPLATE_FILE_FORMAT) {
+    throw new Error(translateUi("templateFile.notTemplate"));
+  }
+  if (Number(raw.version) > TEMPLATE_FILE_VERSION) {
+    throw new Error(translateUi("templateFile.newerVersion", { version: String(raw.version) }));
+  }
+  const template = toTemplate(isRecord(raw.template) ? { ...raw.template, id: undefined } : null);
+  if (!template) {
+    throw new Error(translateUi("templateFile.incomplete"));
+  }
+  return template;
+};
@@ -0,0 +1,70 @@
+import { GoogleGenAI } from "@google/genai";
+import { LlmProvider, ProviderSettings } from "./types";
+
+const getAiClient = () => {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    throw new Error("API Key is missing. Please ensure process.env.API_KEY is available.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+export const createGeminiProvider = (settings: ProviderSettings): LlmProvider => ({
+  id: "gemini",
+
+  generateJson: async ({ prompt, systemInstruction, schema, signal }) => {
+    const ai = getAiClient();
+
+    const response = await ai.models.generateContent({
+      model: settings.geminiModel,
+      contents: prompt,
+      config: {
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseJsonSchema: schema,
+        abortSignal: signal,
+      }
+    });
+
+    return response.text || "";
+  },
+
+  streamJson: async ({ prompt, systemInstruction, schema, signal }, onText) => {
+    const ai = getAiClient();
+
+    const stream = await ai.models.generateContentStream({
+      model: settings.geminiModel,
+      contents: prompt,
+      config: {
+        systemInstruction,
+        responseMimeType: "application/json",
+        responseJsonSchema: schema,
+        abortSignal: signal,
+      }
+    });
+
+    let text = "";
+    for await (const chunk of stream) {
+      if (signal?.aborted) break;
+      text += chunk.text || "";
+      onText(text);
+    }
+    signal?.throwIfAborted();
+    return text;
+  },
+
+  embed: async (texts, signal) => {
+    const ai = getAiClient();
+
+    const response = await ai.models.embedContent({
+      model: settings.geminiEmbeddingModel,
+      contents: texts,
+      config: {
+        taskType: "SEMANTIC_SIMILARITY",
+        abortSignal: signal,
+      }
+    });
+
+    return (response.embeddings || []).map((embedding) => embedding.values || []);
+  },
+});
@@ -0,0 +1,70 @@
+import { LlmProvider, ProviderId, ProviderSettings } from "./types";
+import { Translate } from "../i18n";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiProvider } from "./openAiProvider";
+import { createMockProvider } from "./mockProvider";
+
+export type { JsonSchema, JsonRequest, LlmProvider, LlmTask, ProviderId, ProviderSettings } from "./types";
+
+const SETTINGS_KEY = "mandala-provider-settings";
+
+// Settings order; the labels live in the message catalogues as provider.<id>
+export const PROVIDER_OPTIONS: ProviderId[] = ["gemini", "openai", "mock"];
+
+const isProviderId = (value: unknown): value is ProviderId =>
+  PROVIDER_OPTIONS.includes(value as ProviderId);
+
+// Build-time defaults come from .env.local (see vite.config.ts); the UI can override them per browser
+const DEFAULT_SETTINGS: ProviderSettings = {
+  provider: isProviderId(process.env.LLM_PROVIDER) ? process.env.LLM_PROVIDER : "gemini",
+  geminiModel: process.env.GEMINI_MODEL || "gemini-2.5-flash",
+  geminiEmbeddingModel: process.env.GEMINI_EMBEDDING_MODEL || "gemini-embedding-001",
+  openAiBaseUrl: process.env.OPENAI_BASE_URL || "http://localhost:11434/v1",
+  openAiModel: process.env.OPENAI_MODEL || "llama3.1",
+  openAiEmbeddingModel: process.env.OPENAI_EMBEDDING_MODEL || "nomic-embed-text",
+  openAiApiKey: process.env.OPENAI_API_KEY || "",
+};
+
+export const getProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || "null");
+    if (stored && typeof stored === "object") {
+      const merged = { ...DEFAULT_SETTINGS, ...stored };
+      return isProviderId(merged.provider) ? merged : { ...merged, provider: DEFAULT_SETTINGS.provider };
+    }
+  } catch {
+    // Corrupt or unavailable storage falls back to the defaults
+  }
+  return DEFAULT_SETTINGS;
+};
+
+export const setProviderSettings = (settings: ProviderSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save provider settings", error);
+  }
+};
+
+export const getProvider = (settings: ProviderSettings = getProviderSettings()): LlmProvider => {
+  switch (settings.provider) {
+    case "openai":
+      return createOpenAiProvider(settings);
+    case "mock":
+      return createMockProvider();
+    default:
+      return createGeminiProvider(settings);
+  }
+};
+
+// Names the configured model rather than just the provider, for the footer and error messages
+export const getProviderLabel = (settings: ProviderSettings, t: Translate): string => {
+  switch (settings.provider) {
+    case "openai":
+      return t("provider.openaiLabel", { model: settings.openAiModel });
+    case "mock":
+      return t("provider.mock");
+    default:
+      return t("provider.geminiLabel", { model: settings.geminiModel });
+  }
+};
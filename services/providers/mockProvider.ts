@@ -0,0 +1,187 @@
+import { ChecklistItem, MandalaResult } from "../../types";
+import { JsonRequest, JsonSchema, LlmProvider } from "./types";
+
+// Deterministic offline provider: the same request always yields the same fixture,
+// so the UI can be developed and tested without an API key or network.
+
+const MOCK_DIMENSIONS = ["目標設定", "資源盤點", "時間規劃", "團隊協作", "風險管理", "成效評估", "溝通推廣", "持續改善"];
+const MOCK_ANGLES = ["第一步", "關鍵資源", "常見阻礙", "衡量方式", "成功案例", "所需技能", "時間安排", "下一步"];
+const MOCK_LATENCY_MS = 400;
+const MOCK_STREAM_CHUNKS = 40;
+
+const MOCK_ACTIONS = ["寫下一句話的目標宣言", "列出本週可以完成的三件小事", "約一位夥伴討論這張曼陀羅"];
+
+export const mockMandala = (topic: string, actionCount = MOCK_ACTIONS.length): MandalaResult => ({
+  coreConcept: `以系統化步驟完成「${topic}」`,
+  mainDimensions: [...MOCK_DIMENSIONS],
+  subGrids: MOCK_DIMENSIONS.map((dimension) => ({
+    title: dimension,
+    items: MOCK_ANGLES.map((angle) => `${dimension}・${angle}`),
+  })),
+  summary: `這是「${topic}」的離線範例資料，由模擬提供者產生，內容固定且可重現。`,
+  actions: Array.from({ length: actionCount }, (_, i) => MOCK_ACTIONS[i] ?? `行動建議 ${i + 1}`),
+});
+
+export const mockChecklist = (dimension: string): Omit<ChecklistItem, "id">[] =>
+  MOCK_ANGLES.slice(0, 6).map((angle, i) => ({
+    task: `${dimension}：${angle}`,
+    description: `針對「${dimension}」確認${angle}並記錄結果。`,
+    importance: 5 - (i % 5),
+  }));
+
+const mockStrings = (prefix: string, count: number) =>
+  Array.from({ length: count }, (_, i) => `${prefix} ${i + 1}`);
+
+// Fallback for tasks without a dedicated fixture: fill the schema with stable placeholder values
+const sampleFromSchema = (schema: JsonSchema, label = "範例"): unknown => {
+  switch (schema.type) {
+    case "object":
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, child]) => [key, sampleFromSchema(child, key)])
+      );
+    case "array":
+      return Array.from({ length: schema.minItems ?? 3 }, (_, i) =>
+        sampleFromSchema(schema.items || { type: "string" }, `${label} ${i + 1}`)
+      );
+    case "integer":
+    case "number":
+      return schema.minimum ?? 1;
+    case "boolean":
+      return false;
+    default:
+      return schema.enum?.[0] ?? label;
+  }
+};
+
+// Splits the plan into three even phases and walks the items through it one week each;
+// a task depends on the previous task of the same dimension when that one finishes earlier
+const mockRoadmap = (ids: string[], totalWeeks: number) => {
+  const phaseNames = ["準備", "執行", "檢討"];
+  const phaseLength = Math.ceil(totalWeeks / phaseNames.length);
+  const phases = phaseNames.map((name, i) => ({
+    name,
+    startWeek: i * phaseLength + 1,
+    endWeek: Math.min(totalWeeks, (i + 1) * phaseLength),
+  }));
+  return {
+    phases,
+    items: ids.map((id, i) => {
+      const weekOf = (n: number) => Math.min(totalWeeks, 1 + Math.floor((n * totalWeeks) / ids.length));
+      const startWeek = weekOf(i);
+      const previous = ids[i - 1];
+      const sameDimension = previous && id.startsWith("task:") && previous.split(":")[1] === id.split(":")[1];
+      return {
+        id,
+        phase: phases[Math.min(phases.length - 1, Math.floor((startWeek - 1) / phaseLength))].name,
+        startWeek,
+        durationWeeks: 1,
+        dependsOn: sameDimension && weekOf(i - 1) < startWeek ? [previous] : [],
+      };
+    }),
+  };
+};
+
+const MOCK_EMBEDDING_SIZE = 64;
+
+// Hashes the character bigrams into a fixed-size unit vector: no semantics, but stable and
+// close for texts that share wording, which is enough to exercise the embedding path offline
+const mockEmbedding = (text: string): number[] => {
+  const vector = new Array(MOCK_EMBEDDING_SIZE).fill(0);
+  const chars = Array.from(text.replace(/\s+/g, ""));
+  const grams = chars.length > 1 ? chars.slice(1).map((char, i) => chars[i] + char) : chars;
+  grams.forEach((gram) => {
+    let hash = 0;
+    for (const char of gram) hash = (hash * 31 + char.codePointAt(0)!) >>> 0;
+    vector[hash % MOCK_EMBEDDING_SIZE] += 1;
+  });
+  const norm = Math.hypot(...vector) || 1;
+  return vector.map((value) => value / norm);
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Aborted", "AbortError"));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    }, { once: true });
+  });
+
+const buildFixture = ({ task, schema, context = {} }: JsonRequest): unknown => {
+  const topic = String(context.topic ?? "範例主題");
+  const dimension = String(context.dimension ?? MOCK_DIMENSIONS[0]);
+  const count = Number(context.count ?? 4);
+
+  switch (task) {
+    case "mandala":
+      return mockMandala(topic, Number(context.actionCount ?? 3));
+    case "checklist":
+      return mockChecklist(dimension);
+    case "moreTasks":
+      return Array.from({ length: count }, (_, i) => ({
+        task: `${dimension}：補充任務 ${Number(context.offset ?? 0) + i + 1}`,
+        description: "由模擬提供者補充的任務。",
+        importance: 3,
+      }));
+    case "subgrid":
+      return mockStrings(`${dimension}・新想法`, count);
+    case "alternatives":
+      return mockStrings(`替代方案`, count);
+    case "hints":
+      return mockStrings(`提示`, count);
+    case "coach":
+      return Number(context.hasChart)
+        ? {
+            reply: `「${MOCK_DIMENSIONS[0]}」和「${MOCK_DIMENSIONS[5]}」都在談衡量成果，你覺得它們真正的差別在哪裡？`,
+            brief: "",
+            changes: [{
+              cell: "dimension",
+              dimension: 6,
+              position: 0,
+              value: "學習與回饋",
+              reason: "避免與「目標設定」重疊，改為關注過程中的學習。",
+            }],
+          }
+        : {
+            reply: `關於「${topic}」，你希望在多久之內，達成什麼樣具體的成果？`,
+            brief: Number(context.turn) > 1 ? `使用者想展開「${topic}」，並已說明初步的目標。` : "",
+            changes: [],
+          };
+    case "roadmap":
+      return mockRoadmap(String(context.ids ?? "").split(",").filter(Boolean), Number(context.totalWeeks ?? 12));
+    case "translate":
+      // Tagged rather than translated, so the result is visibly different and still traceable
+      return (JSON.parse(String(context.texts ?? "[]")) as string[]).map((text) => `[${context.language}] ${text}`);
+    default:
+      return sampleFromSchema(schema);
+  }
+};
+
+export const createMockProvider = (): LlmProvider => ({
+  id: "mock",
+
+  generateJson: async (request) => {
+    await wait(MOCK_LATENCY_MS, request.signal);
+    return JSON.stringify(buildFixture(request));
+  },
+
+  // Replays the fixture in small slices so progressive rendering can be exercised offline
+  streamJson: async (request, onText) => {
+    const text = JSON.stringify(buildFixture(request));
+    const chunkSize = Math.max(16, Math.ceil(text.length / MOCK_STREAM_CHUNKS));
+    for (let end = chunkSize; end < text.length + chunkSize; end += chunkSize) {
+      await wait(MOCK_LATENCY_MS / MOCK_STREAM_CHUNKS * 4, request.signal);
+      onText(text.slice(0, end));
+    }
+    return text;
+  },
+
+  embed: async (texts, signal) => {
+    await wait(MOCK_LATENCY_MS, signal);
+    return texts.map(mockEmbedding);
+  },
+});
@@ -0,0 +1,132 @@
+import { JsonRequest, LlmProvider, ProviderSettings } from "./types";
+import { translateUi } from "../i18n";
+
+// Local servers (Ollama, llama.cpp) sometimes wrap JSON in a markdown fence despite response_format
+const stripCodeFence = (text: string) =>
+  text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+
+const describeHttpError = (status: number, detail: string) =>
+  detail
+    ? translateUi("provider.httpErrorDetail", { status, detail: detail.slice(0, 200) })
+    : translateUi("provider.httpError", { status });
+
+const postChatCompletion = async (
+  settings: ProviderSettings,
+  { task, prompt, systemInstruction, schema, signal }: JsonRequest,
+  stream: boolean
+) => {
+  const baseUrl = settings.openAiBaseUrl.replace(/\/+$/, "");
+  if (!baseUrl) {
+    throw new Error(translateUi("provider.noBaseUrl"));
+  }
+
+  const messages = [
+    ...(systemInstruction ? [{ role: "system", content: systemInstruction }] : []),
+    {
+      role: "user",
+      // Not every server enforces json_schema, so the schema is repeated in the prompt
+      content: `${prompt}\n\n請只輸出符合以下 JSON Schema 的 JSON，不要加入任何其他文字：\n${JSON.stringify(schema)}`,
+    },
+  ];
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(settings.openAiApiKey ? { Authorization: `Bearer ${settings.openAiApiKey}` } : {}),
+    },
+    body: JSON.stringify({
+      model: settings.openAiModel,
+      messages,
+      stream,
+      response_format: {
+        type: "json_schema",
+        json_schema: { name: task, schema },
+      },
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new Error(describeHttpError(response.status, detail));
+  }
+
+  return response;
+};
+
+// Talks to any server exposing the OpenAI /chat/completions API, e.g. http://localhost:11434/v1 for Ollama
+export const createOpenAiProvider = (settings: ProviderSettings): LlmProvider => ({
+  id: "openai",
+
+  generateJson: async (request) => {
+    const response = await postChatCompletion(settings, request, false);
+    const json = await response.json();
+    const content: string | undefined = json?.choices?.[0]?.message?.content;
+    return content ? stripCodeFence(content) : "";
+  },
+
+  streamJson: async (request, onText) => {
+    const response = await postChatCompletion(settings, request, true);
+    if (!response.body) {
+      throw new Error(translateUi("provider.noStream"));
+    }
+
+    // Server-sent events: one "data: {...}" line per delta, terminated by "data: [DONE]"
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let text = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        const payload = line.trim().replace(/^data:\s*/, "");
+        if (!payload || payload === "[DONE]" || line.trim().startsWith(":")) continue;
+        try {
+          const delta: string | undefined = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            onText(stripCodeFence(text));
+          }
+        } catch {
+          // Ignore keep-alive or malformed event lines
+        }
+      }
+    }
+
+    return stripCodeFence(text);
+  },
+
+  // Ollama and llama.cpp serve /embeddings too, with an embedding model pulled separately
+  embed: async (texts, signal) => {
+    const baseUrl = settings.openAiBaseUrl.replace(/\/+$/, "");
+    if (!baseUrl) {
+      throw new Error(translateUi("provider.noBaseUrl"));
+    }
+
+    const response = await fetch(`${baseUrl}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(settings.openAiApiKey ? { Authorization: `Bearer ${settings.openAiApiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: settings.openAiEmbeddingModel, input: texts }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new Error(describeHttpError(response.status, detail));
+    }
+
+    const json = await response.json();
+    const data: { index: number; embedding: number[] }[] = Array.isArray(json?.data) ? json.data : [];
+    return [...data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  },
+});
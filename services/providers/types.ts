@@ -0,0 +1,49 @@
+// Provider-neutral subset of JSON Schema used to describe structured responses.
+// Gemini takes it as responseJsonSchema, OpenAI-compatible servers as response_format.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minimum?: number;
+  maximum?: number;
+  enum?: string[];
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+// What a request is for; the mock provider picks its fixture by task
+export type LlmTask = 'mandala' | 'checklist' | 'moreTasks' | 'subgrid' | 'alternatives' | 'roadmap' | 'translate' | 'hints' | 'coach';
+
+export interface JsonRequest {
+  task: LlmTask;
+  prompt: string;
+  systemInstruction?: string;
+  schema: JsonSchema;
+  // Structured inputs behind the prompt, so the mock can build fixtures without parsing it
+  context?: Record<string, string | number>;
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  id: ProviderId;
+  // Resolves with the raw JSON text; parsing stays with the caller
+  generateJson: (request: JsonRequest) => Promise<string>;
+  // Same as generateJson, but reports the accumulated text after every received chunk
+  streamJson: (request: JsonRequest, onText: (textSoFar: string) => void) => Promise<string>;
+  // One vector per text, in order; only providers with an embedding endpoint implement it
+  embed?: (texts: string[], signal?: AbortSignal) => Promise<number[][]>;
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  geminiModel: string;
+  geminiEmbeddingModel: string;
+  openAiBaseUrl: string;
+  openAiModel: string;
+  openAiEmbeddingModel: string;
+  openAiApiKey: string;
+}
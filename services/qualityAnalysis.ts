@@ -0,0 +1,254 @@
+import { MandalaResult } from "../types";
+import { cellKey } from "./mandalaEditor";
+import { GRID_SIZE } from "./mandalaValidator";
+
+// Quality pass over a chart: near-duplicate ideas across the 64 cells, dimensions that cover the
+// same ground, and a MECE-style score. Similarity is local by default (character bigrams, which
+// work without word segmentation for Chinese and Japanese); with vectors from the provider's
+// embedding model it becomes cosine similarity, which also catches synonyms.
+
+export type SimilarityMethod = "local" | "embedding";
+
+// The two methods live on different scales, so each has its own cut-offs
+export const SIMILARITY_THRESHOLDS: Record<SimilarityMethod, { duplicate: number; overlap: number }> = {
+  local: { duplicate: 0.75, overlap: 0.4 },
+  embedding: { duplicate: 0.9, overlap: 0.85 },
+};
+
+// How much the dimension titles weigh against their ideas when comparing two dimensions
+const TITLE_WEIGHT = 0.4;
+
+export interface IdeaCell {
+  gridIndex: number;
+  itemIndex: number;
+}
+
+export interface DuplicateGroup {
+  id: string;
+  // In chart order; the first cell is the one kept by the fixes, unless another one is locked
+  cells: IdeaCell[];
+  similarity: number;
+}
+
+export interface DimensionOverlap {
+  id: string;
+  first: number;
+  second: number;
+  similarity: number;
+}
+
+export interface QualityScores {
+  // Share of dimensions not caught in an overlap
+  exclusivity: number;
+  // Share of filled ideas that are not a repeat of another one
+  distinctness: number;
+  // Share of the 72 dimension and idea cells that are filled in
+  completeness: number;
+  overall: number;
+}
+
+export interface QualityReport {
+  method: SimilarityMethod;
+  duplicates: DuplicateGroup[];
+  overlaps: DimensionOverlap[];
+  scores: QualityScores;
+  // Same scores per dimension, in mainDimensions order
+  dimensionScores: QualityScores[];
+}
+
+const SCORE_WEIGHTS = { exclusivity: 0.4, distinctness: 0.3, completeness: 0.3 };
+
+const toScores = (exclusivity: number, distinctness: number, completeness: number): QualityScores => ({
+  exclusivity,
+  distinctness,
+  completeness,
+  overall: Math.round(
+    100 * (SCORE_WEIGHTS.exclusivity * exclusivity + SCORE_WEIGHTS.distinctness * distinctness + SCORE_WEIGHTS.completeness * completeness)
+  ),
+});
+
+// Case, width, spacing and punctuation do not make two ideas different
+const normalizeText = (text: string) => text.normalize("NFKC").toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, "");
+
+const bigrams = (text: string) => {
+  const chars = Array.from(text);
+  return new Set(chars.length > 1 ? chars.slice(1).map((char, i) => chars[i] + char) : chars);
+};
+
+// Dice coefficient over character bigrams; a text contained in the other counts as a near repeat
+export const textSimilarity = (a: string, b: string) => {
+  const first = normalizeText(a);
+  const second = normalizeText(b);
+  if (!first || !second) return 0;
+  if (first === second) return 1;
+  const firstGrams = bigrams(first);
+  const secondGrams = bigrams(second);
+  let shared = 0;
+  firstGrams.forEach((gram) => {
+    if (secondGrams.has(gram)) shared++;
+  });
+  const dice = (2 * shared) / (firstGrams.size + secondGrams.size);
+  const [shorter, longer] = first.length <= second.length ? [first, second] : [second, first];
+  return Array.from(shorter).length >= 3 && longer.includes(shorter) ? Math.max(dice, 0.8) : dice;
+};
+
+const cosineSimilarity = (a: number[], b: number[]) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Dimensions are embedded together with their ideas, so the vector reflects what they cover
+const dimensionProfile = (data: MandalaResult, index: number) => {
+  const title = data.mainDimensions[index] || data.subGrids[index]?.title || "";
+  const items = (data.subGrids[index]?.items ?? []).filter((item) => item.trim());
+  return items.length ? `${title}：${items.join("、")}` : title;
+};
+
+// Every distinct non-empty text that analyzeMandala would look up in the vectors
+export const getEmbeddingTexts = (data: MandalaResult) => {
+  const texts = new Set<string>();
+  data.subGrids.forEach((grid, gridIndex) => {
+    grid.items.forEach((item) => item.trim() && texts.add(item.trim()));
+    const profile = dimensionProfile(data, gridIndex);
+    if (profile.trim()) texts.add(profile);
+  });
+  return [...texts];
+};
+
+export const analyzeMandala = (data: MandalaResult, vectors?: Map<string, number[]>): QualityReport => {
+  const texts = getEmbeddingTexts(data);
+  // Vectors are only used once every text has one, so a report never mixes the two scales
+  const method: SimilarityMethod = vectors && texts.length && texts.every((text) => vectors.has(text)) ? "embedding" : "local";
+  const thresholds = SIMILARITY_THRESHOLDS[method];
+  const similarity = (a: string, b: string) =>
+    method === "embedding" ? cosineSimilarity(vectors!.get(a)!, vectors!.get(b)!) : textSimilarity(a, b);
+
+  const ideas: (IdeaCell & { text: string })[] = [];
+  data.subGrids.slice(0, GRID_SIZE).forEach((grid, gridIndex) => {
+    grid.items.slice(0, GRID_SIZE).forEach((item, itemIndex) => {
+      if (item.trim()) ideas.push({ gridIndex, itemIndex, text: item.trim() });
+    });
+  });
+
+  // Union-find over the duplicate pairs, so three copies of one idea make a single group
+  const parent = ideas.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const groupSimilarity = new Map<number, number>();
+  for (let i = 0; i < ideas.length; i++) {
+    for (let j = i + 1; j < ideas.length; j++) {
+      const value = similarity(ideas[i].text, ideas[j].text);
+      if (value < thresholds.duplicate) continue;
+      const root = Math.min(find(i), find(j));
+      const merged = Math.max(value, groupSimilarity.get(find(i)) ?? 0, groupSimilarity.get(find(j)) ?? 0);
+      parent[find(i)] = root;
+      parent[find(j)] = root;
+      groupSimilarity.set(root, merged);
+    }
+  }
+  const members = new Map<number, IdeaCell[]>();
+  ideas.forEach(({ gridIndex, itemIndex }, i) => {
+    const root = find(i);
+    members.set(root, [...(members.get(root) ?? []), { gridIndex, itemIndex }]);
+  });
+  const duplicates: DuplicateGroup[] = [...members.entries()]
+    .filter(([, cells]) => cells.length > 1)
+    .map(([root, cells]) => ({
+      id: `duplicate:${cells.map((cell) => cellKey(cell.gridIndex, cell.itemIndex)).join(",")}`,
+      cells,
+      similarity: groupSimilarity.get(root) ?? thresholds.duplicate,
+    }));
+
+  // Two dimensions overlap when their titles or their ideas match: the latter is the average of
+  // each idea's best match on the other side
+  const bestMatchAverage = (from: string[], to: string[]) =>
+    from.length && to.length
+      ? from.reduce((sum, text) => sum + Math.max(...to.map((other) => similarity(text, other))), 0) / from.length
+      : 0;
+  const overlaps: DimensionOverlap[] = [];
+  for (let first = 0; first < GRID_SIZE; first++) {
+    for (let second = first + 1; second < GRID_SIZE; second++) {
+      const firstTitle = data.mainDimensions[first]?.trim();
+      const secondTitle = data.mainDimensions[second]?.trim();
+      if (!firstTitle || !secondTitle) continue;
+      let value: number;
+      if (method === "embedding") {
+        value = similarity(dimensionProfile(data, first), dimensionProfile(data, second));
+      } else {
+        const firstItems = ideas.filter((idea) => idea.gridIndex === first).map((idea) => idea.text);
+        const secondItems = ideas.filter((idea) => idea.gridIndex === second).map((idea) => idea.text);
+        const titles = similarity(firstTitle, secondTitle);
+        const items = (bestMatchAverage(firstItems, secondItems) + bestMatchAverage(secondItems, firstItems)) / 2;
+        value = firstItems.length && secondItems.length ? TITLE_WEIGHT * titles + (1 - TITLE_WEIGHT) * items : titles;
+        // Near-identical titles are an overlap whatever the ideas say
+        if (titles >= thresholds.duplicate) value = Math.max(value, titles);
+      }
+      if (value >= thresholds.overlap) {
+        overlaps.push({ id: `overlap:${first}:${second}`, first, second, similarity: value });
+      }
+    }
+  }
+  overlaps.sort((a, b) => b.similarity - a.similarity);
+
+  // A group's first member is the original; every other member counts as a repeat
+  const repeats = new Set(duplicates.flatMap((group) => group.cells.slice(1).map((cell) => cellKey(cell.gridIndex, cell.itemIndex))));
+  const overlapping = new Set(overlaps.flatMap((overlap) => [overlap.first, overlap.second]));
+
+  const dimensionScores = Array.from({ length: GRID_SIZE }, (_, index) => {
+    const filled = ideas.filter((idea) => idea.gridIndex === index);
+    const repeated = filled.filter((idea) => repeats.has(cellKey(idea.gridIndex, idea.itemIndex))).length;
+    const titled = data.mainDimensions[index]?.trim() ? 1 : 0;
+    return toScores(
+      overlapping.has(index) ? 0 : 1,
+      filled.length ? 1 - repeated / filled.length : 0,
+      (titled + filled.length) / (1 + GRID_SIZE)
+    );
+  });
+
+  const titledCount = data.mainDimensions.slice(0, GRID_SIZE).filter((dimension) => dimension.trim()).length;
+  const scores = toScores(
+    1 - overlapping.size / GRID_SIZE,
+    ideas.length ? 1 - repeats.size / ideas.length : 0,
+    (titledCount + ideas.length) / (GRID_SIZE + GRID_SIZE * GRID_SIZE)
+  );
+
+  return { method, duplicates, overlaps, scores, dimensionScores };
+};
+
+// The cells a duplicate fix rewrites: all but one, never a locked one
+export const getRedundantCells = (group: DuplicateGroup, lockedCells: string[] = []) => {
+  const isLocked = (cell: IdeaCell) => lockedCells.includes(cellKey(cell.gridIndex, cell.itemIndex));
+  const keeper = group.cells.find(isLocked) ?? group.cells[0];
+  return group.cells.filter((cell) => cell !== keeper && !isLocked(cell));
+};
+
+// Of two overlapping dimensions the later one is replaced, so the chart's first choices stay
+export const getOverlapTarget = (overlap: DimensionOverlap) => overlap.second;
+
+// The first candidate that is not itself a near repeat of another idea (or dimension) in the chart
+export const pickDistinctCandidate = (candidates: string[], others: string[]) =>
+  candidates.find((candidate) =>
+    others.every((other) => textSimilarity(candidate, other) < SIMILARITY_THRESHOLDS.local.duplicate)
+  );
+
+// The problem marks shown on the dashboard, by cell
+export type QualityMark = "duplicate" | "overlap";
+
+export const getQualityMarks = (report: QualityReport) => {
+  const ideas = new Map<string, QualityMark>();
+  const dimensions = new Map<number, QualityMark>();
+  report.duplicates.forEach((group) =>
+    group.cells.forEach((cell) => ideas.set(cellKey(cell.gridIndex, cell.itemIndex), "duplicate"))
+  );
+  report.overlaps.forEach((overlap) => {
+    dimensions.set(overlap.first, "overlap");
+    dimensions.set(overlap.second, "overlap");
+  });
+  return { ideas, dimensions };
+};
@@ -0,0 +1,113 @@
+import { MandalaNode, MandalaRevision, RevisionKind, SavedMandala } from "../types";
+import { GRID_SIZE } from "./mandalaValidator";
+
+// Revision history of a saved mandala: every change is stored as a snapshot of the whole tree,
+// so any two revisions can be compared and any one restored. Storage is in storageService;
+// this module holds the snapshot rules and the diff.
+
+// Oldest revisions beyond this are dropped, per mandala
+export const MAX_REVISIONS = 100;
+
+// Edits of the same kind within this window of the revision's start share that revision,
+// so typing through a checklist or the background notes does not flood the timeline
+export const REVISION_MERGE_MS = 60 * 1000;
+
+const MERGEABLE_KINDS: RevisionKind[] = ["edit", "checklist", "background"];
+
+export const toSnapshot = ({ id, createdAt, updatedAt, ...node }: SavedMandala): MandalaNode => node;
+
+export const isSameSnapshot = (a: MandalaNode, b: MandalaNode) => JSON.stringify(a) === JSON.stringify(b);
+
+export const isMergeableKind = (kind: RevisionKind) => MERGEABLE_KINDS.includes(kind);
+
+export const canMergeRevision = (latest: MandalaRevision, kind: RevisionKind, now: number) =>
+  latest.kind === kind && isMergeableKind(kind) && now - latest.createdAt < REVISION_MERGE_MS;
+
+export type CellChange = "added" | "removed" | "changed";
+
+export interface CellDiff {
+  before: string;
+  after: string;
+  change: CellChange | null;
+}
+
+// The 9x9 chart as 9 blocks of 9 cells, laid out like the dashboard: block 4 holds the topic and
+// the dimensions, every other block a dimension and its ideas, each with its center at cell 4
+const toBlocks = (node: MandalaNode): string[][] => {
+  const slot = (index: number) => (index < 4 ? index : index + 1);
+  const block = (center: string, items: string[]) => {
+    const cells = new Array(9).fill("");
+    cells[4] = center;
+    items.slice(0, GRID_SIZE).forEach((item, i) => (cells[slot(i)] = item));
+    return cells;
+  };
+  const blocks = Array.from({ length: 9 }, () => new Array(9).fill(""));
+  blocks[4] = block(node.topic, node.data.mainDimensions);
+  node.data.subGrids.slice(0, GRID_SIZE).forEach((grid, i) => {
+    blocks[slot(i)] = block(node.data.mainDimensions[i] || grid.title, grid.items);
+  });
+  return blocks;
+};
+
+const compareText = (before = "", after = ""): CellChange | null => {
+  const a = before.trim();
+  const b = after.trim();
+  if (a === b) return null;
+  if (!a) return "added";
+  if (!b) return "removed";
+  return "changed";
+};
+
+export const diffGrid = (before: MandalaNode, after: MandalaNode): CellDiff[][] => {
+  const beforeBlocks = toBlocks(before);
+  const afterBlocks = toBlocks(after);
+  return afterBlocks.map((cells, blockIndex) =>
+    cells.map((text, cellIndex) => {
+      const previous = beforeBlocks[blockIndex][cellIndex];
+      return { before: previous, after: text, change: compareText(previous, text) };
+    })
+  );
+};
+
+export interface RevisionChanges {
+  // Grid cells with different text; a dimension is counted once, not again as its block's center
+  cells: number;
+  coreConcept: boolean;
+  summary: boolean;
+  actions: number;
+  // Checklist tasks added, removed or edited (including status changes)
+  tasks: number;
+  // Child mandalas added, removed or changed
+  children: number;
+  roadmap: boolean;
+  background: boolean;
+}
+
+const countListChanges = <T>(before: T[] = [], after: T[] = []) => {
+  let count = 0;
+  for (let i = 0; i < Math.max(before.length, after.length); i++) {
+    if (JSON.stringify(before[i]) !== JSON.stringify(after[i])) count++;
+  }
+  return count;
+};
+
+const countKeyedChanges = <T>(before: Record<string, T> = {}, after: Record<string, T> = {}, count: (a?: T, b?: T) => number) =>
+  [...new Set([...Object.keys(before), ...Object.keys(after)])].reduce((sum, key) => sum + count(before[key], after[key]), 0);
+
+export const summarizeChanges = (before: MandalaNode, after: MandalaNode): RevisionChanges => {
+  const grid = diffGrid(before, after);
+  const cells = grid.reduce(
+    (sum, block, blockIndex) => sum + block.filter((cell, cellIndex) => cell.change && (blockIndex === 4 || cellIndex !== 4)).length,
+    0
+  );
+  return {
+    cells,
+    coreConcept: !!compareText(before.data.coreConcept, after.data.coreConcept),
+    summary: !!compareText(before.data.summary, after.data.summary),
+    actions: countListChanges(before.data.actions, after.data.actions),
+    tasks: countKeyedChanges(before.checklists, after.checklists, (a, b) => countListChanges(a, b)),
+    children: countKeyedChanges(before.children, after.children, (a, b) => (JSON.stringify(a) === JSON.stringify(b) ? 0 : 1)),
+    roadmap: JSON.stringify(before.roadmap) !== JSON.stringify(after.roadmap),
+    background: JSON.stringify(before.background) !== JSON.stringify(after.background),
+  };
+};
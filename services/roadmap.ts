@@ -0,0 +1,152 @@
+import { ChecklistItem, MandalaResult, Roadmap, RoadmapItem, RoadmapPhase } from "../types";
+import { ValidationIssue } from "./mandalaValidator";
+import { collectTasks } from "./taskSchedule";
+import { getLanguageSettings, translate, translateUi } from "./i18n";
+
+export const DEFAULT_ROADMAP_WEEKS = 12;
+
+// Something the roadmap can schedule: an action from the report or a checklist task
+export interface RoadmapSource {
+  id: string;
+  title: string;
+  dimensionIndex?: number;
+}
+
+// A task is scheduled under its own id, so reordering or deleting other tasks never moves its bar
+export const getTaskSourceId = (item: Pick<ChecklistItem, "id">) => `task:${item.id}`;
+
+export const collectRoadmapSources = (
+  data: MandalaResult,
+  checklists: Record<number, ChecklistItem[]>
+): RoadmapSource[] => [
+  ...data.actions
+    .map((title, i) => ({ id: `action:${i}`, title }))
+    .filter((source) => source.title.trim()),
+  ...collectTasks(checklists).map(({ item, dimensionIndex }) => ({
+    id: getTaskSourceId(item),
+    title: item.task,
+    dimensionIndex,
+  })),
+];
+
+// Roadmaps saved before tasks had ids pointed at them by position, as "task:<dimensionIndex>:<index>";
+// those references are moved onto the ids of the tasks now at those positions
+export const relinkLegacyTaskIds = (roadmap: Roadmap, checklists: Record<number, ChecklistItem[]>): Roadmap => {
+  const byPosition = new Map(
+    collectTasks(checklists).map(({ item, index, dimensionIndex }) => [`task:${dimensionIndex}:${index}`, getTaskSourceId(item)])
+  );
+  const relink = (id: string) => byPosition.get(id) ?? id;
+  return {
+    ...roadmap,
+    items: roadmap.items.map((item) => ({ ...item, id: relink(item.id), dependsOn: item.dependsOn.map(relink) })),
+  };
+};
+
+export const getItemEndWeek = (item: RoadmapItem) => item.startWeek + item.durationWeeks - 1;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const asWeek = (value: unknown, fallback: number) => {
+  const week = Math.round(Number(value));
+  return Number.isFinite(week) ? week : fallback;
+};
+
+const phaseAt = (phases: RoadmapPhase[], week: number) =>
+  phases.find((phase) => week >= phase.startWeek && week <= phase.endWeek) ?? phases[phases.length - 1];
+
+// Checks the model's schedule against the sources it was given: every source gets exactly one bar,
+// weeks stay inside the plan and dependencies only point at known items.
+export const normalizeRoadmap = (
+  raw: unknown,
+  sources: RoadmapSource[],
+  totalWeeks: number
+): { roadmap: Roadmap; repairs: ValidationIssue[] } => {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(translateUi("roadmap.invalid"));
+  }
+  const source = raw as Record<string, unknown>;
+  const repairs: ValidationIssue[] = [];
+
+  let phases: RoadmapPhase[] = (Array.isArray(source.phases) ? source.phases : [])
+    .map((entry) => (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>)
+    .map((entry) => {
+      const startWeek = clamp(asWeek(entry.startWeek, 1), 1, totalWeeks);
+      return {
+        name: typeof entry.name === "string" ? entry.name.trim() : "",
+        startWeek,
+        endWeek: clamp(asWeek(entry.endWeek, startWeek), startWeek, totalWeeks),
+      };
+    })
+    .filter((phase) => phase.name)
+    .sort((a, b) => a.startWeek - b.startWeek);
+  if (!phases.length) {
+    repairs.push({ path: "phases", message: translateUi("roadmap.noPhases") });
+    // The phase name is chart content, so it follows the content language like the rest of the schedule
+    phases = [{ name: translate(getLanguageSettings().contentLocale, "roadmap.defaultPhase"), startWeek: 1, endWeek: totalWeeks }];
+  }
+
+  const rawItems = new Map<string, Record<string, unknown>>();
+  (Array.isArray(source.items) ? source.items : []).forEach((entry, i) => {
+    const item = (entry && typeof entry === "object" ? entry : {}) as Record<string, unknown>;
+    const id = typeof item.id === "string" ? item.id.trim() : "";
+    if (!sources.some((s) => s.id === id)) {
+      repairs.push({ path: `items[${i}]`, message: translateUi("roadmap.unknownItem", { id }) });
+    } else if (rawItems.has(id)) {
+      repairs.push({ path: `items[${i}]`, message: translateUi("roadmap.duplicateItem", { id }) });
+    } else {
+      rawItems.set(id, item);
+    }
+  });
+
+  const knownIds = new Set(sources.map((s) => s.id));
+  const items: RoadmapItem[] = sources.map(({ id, title, dimensionIndex }) => {
+    const item = rawItems.get(id);
+    if (!item) {
+      repairs.push({ path: id, message: translateUi("roadmap.unscheduled") });
+      return { id, title, dimensionIndex, phase: phases[phases.length - 1].name, startWeek: totalWeeks, durationWeeks: 1, dependsOn: [] };
+    }
+
+    const startWeek = clamp(asWeek(item.startWeek, 1), 1, totalWeeks);
+    const durationWeeks = clamp(asWeek(item.durationWeeks, 1), 1, totalWeeks - startWeek + 1);
+    const phaseName = typeof item.phase === "string" ? item.phase.trim() : "";
+    const phase = phases.some((p) => p.name === phaseName) ? phaseName : phaseAt(phases, startWeek).name;
+    const dependsOn = (Array.isArray(item.dependsOn) ? item.dependsOn : [])
+      .filter((dep): dep is string => typeof dep === "string" && dep !== id && knownIds.has(dep));
+
+    return { id, title, dimensionIndex, phase, startWeek, durationWeeks, dependsOn };
+  });
+
+  return { roadmap: { totalWeeks, phases, items, generatedAt: Date.now() }, repairs };
+};
+
+// Drag-to-reschedule: keeps the bar inside the plan and moves it into the phase it now starts in
+export const moveRoadmapItem = (roadmap: Roadmap, id: string, startWeek: number): Roadmap => ({
+  ...roadmap,
+  items: roadmap.items.map((item) => {
+    if (item.id !== id) return item;
+    const start = clamp(startWeek, 1, roadmap.totalWeeks - item.durationWeeks + 1);
+    return { ...item, startWeek: start, phase: phaseAt(roadmap.phases, start)?.name ?? item.phase };
+  }),
+});
+
+// Items that start before one of their dependencies has finished
+export const findDependencyConflicts = (roadmap: Roadmap): Set<string> => {
+  const byId = new Map(roadmap.items.map((item) => [item.id, item]));
+  return new Set(
+    roadmap.items
+      .filter((item) => item.dependsOn.some((dep) => {
+        const before = byId.get(dep);
+        return before && getItemEndWeek(before) >= item.startWeek;
+      }))
+      .map((item) => item.id)
+  );
+};
+
+// Phases in order, each with its items sorted by start week (shared by the timeline and the Word export)
+export const groupByPhase = (roadmap: Roadmap) =>
+  roadmap.phases.map((phase) => ({
+    phase,
+    items: roadmap.items
+      .filter((item) => item.phase === phase.name)
+      .sort((a, b) => a.startWeek - b.startWeek || a.durationWeeks - b.durationWeeks),
+  }));
@@ -0,0 +1,253 @@
+import { MandalaNode, MandalaResult, MandalaRevision, RevisionKind, SavedMandala } from "../types";
+import { MAX_REVISIONS, canMergeRevision, isSameSnapshot, toSnapshot } from "./revisionHistory";
+import { relinkLegacyTaskIds } from "./roadmap";
+import { translateUi } from "./i18n";
+
+const DB_NAME = "mandala-library";
+const DB_VERSION = 2;
+const STORE_NAME = "mandalas";
+// Added in version 2: one record per revision, looked up by the mandala it belongs to
+const REVISION_STORE = "revisions";
+const LAST_OPENED_KEY = "mandala-library:last-opened";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error(translateUi("storage.unsupported")));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: "id" });
+        store.createIndex("updatedAt", "updatedAt");
+      }
+      if (!db.objectStoreNames.contains(REVISION_STORE)) {
+        const store = db.createObjectStore(REVISION_STORE, { keyPath: "id" });
+        store.createIndex("mandalaId", "mandalaId");
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error(translateUi("storage.openFailed")));
+    };
+  });
+
+  return dbPromise;
+};
+
+// Wraps a single-store transaction so callers can simply await the request result
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName = STORE_NAME
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error || request.error);
+    tx.onabort = () => reject(tx.error || new Error(translateUi("storage.aborted")));
+  });
+};
+
+export const createId = () => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+export const createSavedMandala = (topic: string, data: MandalaResult): SavedMandala => {
+  const now = Date.now();
+  return {
+    id: createId(),
+    topic,
+    data,
+    checklists: {},
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Tasks saved before they had ids get one as the record is read, and the roadmap follows them;
+// the next save keeps both
+export const ensureTaskIds = <T extends MandalaNode>(node: T): T => {
+  const checklists = Object.fromEntries(
+    Object.entries(node.checklists || {}).map(([index, items]) => [
+      index,
+      items.map((item) => (item.id ? item : { ...item, id: createId() })),
+    ])
+  );
+  return {
+    ...node,
+    checklists,
+    ...(node.roadmap && { roadmap: relinkLegacyTaskIds(node.roadmap, checklists) }),
+    ...(node.children && {
+      children: Object.fromEntries(Object.entries(node.children).map(([key, child]) => [key, ensureTaskIds(child)])),
+    }),
+  };
+};
+
+// Newest first
+export const listMandalas = async (): Promise<SavedMandala[]> => {
+  const all = await withStore<SavedMandala[]>("readonly", (store) => store.getAll());
+  return all.map(ensureTaskIds).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getMandala = async (id: string): Promise<SavedMandala | null> => {
+  const record = await withStore<SavedMandala | undefined>("readonly", (store) => store.get(id));
+  return record ? ensureTaskIds(record) : null;
+};
+
+export const saveMandala = async (mandala: SavedMandala): Promise<void> => {
+  await withStore("readwrite", (store) => store.put(mandala));
+};
+
+export const deleteMandala = async (id: string): Promise<void> => {
+  await withStore("readwrite", (store) => store.delete(id));
+  await deleteRevisions(id);
+  if (getLastOpenedId() === id) {
+    setLastOpenedId(null);
+  }
+};
+
+// Newest first
+export const listRevisions = async (mandalaId: string): Promise<MandalaRevision[]> => {
+  const all = await withStore<MandalaRevision[]>(
+    "readonly",
+    (store) => store.index("mandalaId").getAll(mandalaId),
+    REVISION_STORE
+  );
+  return all.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// Puts and deletes revisions in one transaction
+const writeRevisions = async (puts: MandalaRevision[], deletes: string[]) => {
+  const db = await openDb();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(REVISION_STORE, "readwrite");
+    const store = tx.objectStore(REVISION_STORE);
+    puts.forEach((revision) => store.put(revision));
+    deletes.forEach((id) => store.delete(id));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error(translateUi("storage.aborted")));
+  });
+};
+
+// Changes arrive faster than IndexedDB answers, so revisions are written one after another
+let revisionQueue: Promise<void> = Promise.resolve();
+
+const enqueueRevisionWrite = (write: () => Promise<void>) => {
+  revisionQueue = revisionQueue.then(write, write);
+  return revisionQueue;
+};
+
+// Newest revision and revision count per mandala, read from the store once, so recording a change
+// compares against one snapshot instead of loading the whole history each time
+const revisionHeads = new Map<string, { latest?: MandalaRevision; count: number }>();
+
+const getRevisionHead = async (mandalaId: string) => {
+  let head = revisionHeads.get(mandalaId);
+  if (!head) {
+    const revisions = await listRevisions(mandalaId);
+    head = { latest: revisions[0], count: revisions.length };
+    revisionHeads.set(mandalaId, head);
+  }
+  return head;
+};
+
+const deleteRevisions = (mandalaId: string) =>
+  enqueueRevisionWrite(async () => {
+    revisionHeads.delete(mandalaId);
+    const revisions = await listRevisions(mandalaId);
+    if (revisions.length) await writeRevisions([], revisions.map((revision) => revision.id));
+  });
+
+// Records `mandala` as it is now. `previous` is its state before the change: a mandala without
+// history yet (opened from before history existed, imported, duplicated) first gets it as its
+// initial revision, so the change itself can be compared.
+export const recordRevision = (mandala: SavedMandala, kind: RevisionKind, previous?: SavedMandala): Promise<void> =>
+  enqueueRevisionWrite(async () => {
+    const now = Date.now();
+    const snapshot = toSnapshot(mandala);
+    const head = await getRevisionHead(mandala.id);
+    const { latest } = head;
+    if (latest && isSameSnapshot(latest.snapshot, snapshot)) return;
+
+    const puts: MandalaRevision[] = [];
+    if (!latest && previous && !isSameSnapshot(toSnapshot(previous), snapshot)) {
+      puts.push({ id: createId(), mandalaId: mandala.id, kind: "initial", createdAt: previous.updatedAt, snapshot: toSnapshot(previous) });
+    }
+    if (latest && canMergeRevision(latest, kind, now)) {
+      puts.push({ ...latest, snapshot });
+    } else {
+      puts.push({ id: createId(), mandalaId: mandala.id, kind, createdAt: now, snapshot });
+    }
+
+    // Past the limit the oldest revisions go, which sit at the end of the newest-first list
+    const count = head.count + puts.filter((revision) => revision.id !== latest?.id).length;
+    const excess = count - MAX_REVISIONS;
+    const deletes = excess > 0 ? (await listRevisions(mandala.id)).slice(-excess).map((revision) => revision.id) : [];
+    await writeRevisions(puts, deletes);
+    revisionHeads.set(mandala.id, { latest: puts[puts.length - 1], count: count - deletes.length });
+  });
+
+export const duplicateMandala = async (source: SavedMandala): Promise<SavedMandala> => {
+  const now = Date.now();
+  // structuredClone keeps the copy fully detached from the original's nested arrays
+  const copy: SavedMandala = {
+    ...structuredClone(source),
+    id: createId(),
+    topic: translateUi("library.copyTopic", { topic: source.topic }),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveMandala(copy);
+  return copy;
+};
+
+// Imported files always become a new library entry, so re-importing never overwrites local edits
+export const importMandala = async (node: MandalaNode, createdAt?: number): Promise<SavedMandala> => {
+  const now = Date.now();
+  const saved: SavedMandala = {
+    ...node,
+    id: createId(),
+    createdAt: createdAt ?? now,
+    updatedAt: now,
+  };
+  await saveMandala(saved);
+  return saved;
+};
+
+// The id of the mandala that was open last is kept in localStorage so a refresh can restore it
+export const getLastOpenedId = (): string | null => {
+  try {
+    return localStorage.getItem(LAST_OPENED_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const setLastOpenedId = (id: string | null) => {
+  try {
+    if (id) {
+      localStorage.setItem(LAST_OPENED_KEY, id);
+    } else {
+      localStorage.removeItem(LAST_OPENED_KEY);
+    }
+  } catch {
+    // Storage may be unavailable (private mode); restoring is best-effort only
+  }
+};
@@ -0,0 +1,245 @@
+import { MandalaResult } from "../types";
+
+// Standalone SVG drawings of the charts, built from the data rather than captured from the DOM,
+// so the output is the same at any zoom level and opens cleanly in Figma, Illustrator or Inkscape.
+// Text is laid out here: plain <text> lines, no foreignObject.
+
+export type SvgTarget =
+  | { kind: "main" }
+  | { kind: "subGrid"; index: number }
+  | { kind: "dashboard" };
+
+export const PNG_SCALES = [1, 2, 4];
+
+const FONT_FAMILY = "'Noto Sans TC', 'PingFang TC', 'Microsoft JhengHei', 'Hiragino Sans', sans-serif";
+const LINE_HEIGHT = 1.25;
+const CENTER = 4;
+
+// VisualView and DashboardView's Tailwind palette
+const COLORS = {
+  background: "#F8FAFC", // slate-50
+  gridBackground: "#E2E8F0", // slate-200
+  mainCenter: "#4F46E5", // indigo-600
+  mainCell: "#EEF2FF", // indigo-50
+  mainText: "#312E81", // indigo-900
+  mainBorder: "#A5B4FC", // indigo-300
+  subCenter: "#94A3B8", // slate-400
+  dashboardSubCenter: "#F1F5F9", // slate-100
+  dashboardSubCenterText: "#1E293B", // slate-800
+  itemText: "#334155", // slate-700
+  dashboardItemText: "#475569", // slate-600
+  cellBorder: "#F1F5F9", // slate-100
+  white: "#FFFFFF",
+};
+
+interface CellStyle {
+  fill: string;
+  color: string;
+  weight: number;
+  maxSize: number;
+  stroke?: string;
+}
+
+// One decimal is plenty for print and keeps the markup readable
+const round = (n: number) => Number(n.toFixed(1));
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Without a font at hand widths are estimated: CJK and full-width glyphs are square, Latin runs narrower
+const charWidth = (char: string) => {
+  const code = char.codePointAt(0) ?? 0;
+  if (code >= 0x2e80) return 1;
+  if (char === " ") return 0.3;
+  if (/[A-Z0-9@%&MW]/.test(char)) return 0.64;
+  if (/[iljtf.,:;'!|]/.test(char)) return 0.3;
+  return 0.54;
+};
+
+const measure = (text: string, size: number, weight: number) =>
+  [...text].reduce((sum, char) => sum + charWidth(char), 0) * size * (weight >= 600 ? 1.05 : 1);
+
+// Greedy line breaking: CJK text may break between any two characters, Latin words stay whole
+const wrapText = (text: string, size: number, weight: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  text.split(/\r?\n/).forEach((paragraph) => {
+    let line = "";
+    const tokens = paragraph.match(/[A-Za-z0-9'’.,:;!?()\-_/]+\s*|\s+|./gu) ?? [];
+    tokens.forEach((token) => {
+      if (measure(line + token, size, weight) <= maxWidth) {
+        line += token;
+        return;
+      }
+      if (line.trim()) lines.push(line.trimEnd());
+      line = "";
+      // A single token wider than the line is broken per character
+      for (const char of token.trimStart()) {
+        if (line && measure(line + char, size, weight) > maxWidth) {
+          lines.push(line);
+          line = "";
+        }
+        line += char;
+      }
+    });
+    lines.push(line.trimEnd());
+  });
+  return lines;
+};
+
+// Largest size (down to minSize) at which the text fits the box; what still overflows is cut with an ellipsis
+const fitText = (text: string, width: number, height: number, weight: number, maxSize: number, minSize = 7) => {
+  for (let size = maxSize; size >= minSize; size -= 0.5) {
+    const lines = wrapText(text, size, weight, width);
+    if (lines.length * size * LINE_HEIGHT <= height) return { lines, size };
+  }
+  const maxLines = Math.max(1, Math.floor(height / (minSize * LINE_HEIGHT)));
+  const lines = wrapText(text, minSize, weight, width).slice(0, maxLines);
+  lines[lines.length - 1] = `${lines[lines.length - 1].slice(0, -1)}…`;
+  return { lines, size: minSize };
+};
+
+const cell = (x: number, y: number, size: number, text: string, style: CellStyle, radius: number) => {
+  const parts = [
+    `<rect x="${round(x)}" y="${round(y)}" width="${round(size)}" height="${round(size)}" rx="${radius}" fill="${style.fill}"${
+      style.stroke ? ` stroke="${style.stroke}" stroke-width="1"` : ""
+    }/>`,
+  ];
+  if (text.trim()) {
+    const padding = size * 0.08;
+    const { lines, size: fontSize } = fitText(text, size - padding * 2, size - padding * 2, style.weight, style.maxSize);
+    const lineHeight = fontSize * LINE_HEIGHT;
+    const top = y + (size - lines.length * lineHeight) / 2;
+    lines.forEach((line, i) => {
+      // Baseline sits ~0.35em below the line's middle; dominant-baseline is avoided since editors ignore it
+      const baseline = top + i * lineHeight + lineHeight / 2 + fontSize * 0.35;
+      parts.push(
+        `<text x="${round(x + size / 2)}" y="${round(baseline)}" text-anchor="middle" font-size="${fontSize}" font-weight="${style.weight}" fill="${style.color}">${escapeXml(line)}</text>`
+      );
+    });
+  }
+  return parts.join("");
+};
+
+// Center + 8 items onto the 3x3 slots in reading order
+const toSlots = (center: string, items: string[]) =>
+  Array.from({ length: 9 }, (_, slot) => (slot === CENTER ? center : items[slot < CENTER ? slot : slot - 1] ?? ""));
+
+// The focused grid as VisualView's Grid3x3 draws it
+const renderGrid = (center: string, items: string[], isMain: boolean) => {
+  const size = 600;
+  const padding = 8;
+  const gap = 4;
+  const cellSize = (size - padding * 2 - gap * 4) / 3;
+  const centerStyle: CellStyle = isMain
+    ? { fill: COLORS.mainCenter, color: COLORS.white, weight: 700, maxSize: 28 }
+    : { fill: COLORS.subCenter, color: COLORS.white, weight: 600, maxSize: 24 };
+  const itemStyle: CellStyle = { fill: COLORS.white, color: COLORS.itemText, weight: 400, maxSize: 20, stroke: COLORS.cellBorder };
+
+  const cells = toSlots(center, items).map((text, slot) =>
+    cell(
+      padding + gap + (slot % 3) * (cellSize + gap),
+      padding + gap + Math.floor(slot / 3) * (cellSize + gap),
+      cellSize,
+      text,
+      slot === CENTER ? centerStyle : itemStyle,
+      4
+    )
+  );
+  return {
+    size,
+    body: [
+      `<rect width="${size}" height="${size}" rx="12" fill="${COLORS.background}"/>`,
+      `<rect x="${padding}" y="${padding}" width="${size - padding * 2}" height="${size - padding * 2}" rx="8" fill="${COLORS.gridBackground}"/>`,
+      ...cells,
+    ].join(""),
+  };
+};
+
+// The 9x9 as DashboardView lays it out: the topic block in the middle, each dimension's block around it
+const renderDashboard = (topic: string, data: MandalaResult) => {
+  const size = 1200;
+  const padding = 16;
+  const blockGap = 16;
+  const block = (size - padding * 2 - blockGap * 2) / 3;
+  const cellSize = (block - 2) / 3;
+
+  const parts = [`<rect width="${size}" height="${size}" fill="${COLORS.background}"/>`];
+  for (let slot = 0; slot < 9; slot++) {
+    const isMain = slot === CENTER;
+    const grid = isMain ? null : data.subGrids[slot < CENTER ? slot : slot - 1];
+    const texts = isMain ? toSlots(topic, data.mainDimensions) : toSlots(grid?.title ?? "", grid?.items ?? []);
+    const x = padding + (slot % 3) * (block + blockGap);
+    const y = padding + Math.floor(slot / 3) * (block + blockGap);
+
+    const centerStyle: CellStyle = isMain
+      ? { fill: COLORS.mainCenter, color: COLORS.white, weight: 700, maxSize: 18 }
+      : { fill: COLORS.dashboardSubCenter, color: COLORS.dashboardSubCenterText, weight: 700, maxSize: 16 };
+    const itemStyle: CellStyle = isMain
+      ? { fill: COLORS.mainCell, color: COLORS.mainText, weight: 600, maxSize: 15 }
+      : { fill: COLORS.white, color: COLORS.dashboardItemText, weight: 400, maxSize: 14 };
+
+    // The 1px gaps between cells show the block's slate-200 background, like the dashboard's gap-px;
+    // the clip rounds the corner cells the way overflow-hidden does
+    const outline = `x="${round(x)}" y="${round(y)}" width="${round(block)}" height="${round(block)}" rx="8"`;
+    parts.push(`<clipPath id="block-${slot}"><rect ${outline}/></clipPath><g clip-path="url(#block-${slot})">`);
+    parts.push(`<rect ${outline} fill="${COLORS.gridBackground}"/>`);
+    texts.forEach((text, i) => {
+      parts.push(cell(x + (i % 3) * (cellSize + 1), y + Math.floor(i / 3) * (cellSize + 1), cellSize, text, i === CENTER ? centerStyle : itemStyle, 0));
+    });
+    parts.push("</g>");
+    parts.push(
+      `<rect ${outline} fill="none" stroke="${
+        isMain ? COLORS.mainBorder : COLORS.gridBackground
+      }" stroke-width="${isMain ? 2 : 1}"/>`
+    );
+  }
+  return { size, body: parts.join("") };
+};
+
+export const renderMandalaSvg = (target: SvgTarget, topic: string, data: MandalaResult): string => {
+  let title = topic;
+  let drawing;
+  if (target.kind === "dashboard") {
+    drawing = renderDashboard(topic, data);
+  } else if (target.kind === "subGrid") {
+    const grid = data.subGrids[target.index];
+    if (!grid) throw new Error(`找不到第 ${target.index + 1} 個面向。`);
+    title = `${topic}：${grid.title}`;
+    drawing = renderGrid(grid.title, grid.items, false);
+  } else {
+    drawing = renderGrid(topic, data.mainDimensions, true);
+  }
+
+  const { size, body } = drawing;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" font-family="${FONT_FAMILY}">`,
+    `<title>${escapeXml(title)}</title>`,
+    body,
+    "</svg>",
+  ].join("");
+};
+
+// Draws the SVG onto a canvas at `scale` times its own size
+export const rasterizeSvg = (svg: string, scale: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }));
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const canvas = document.createElement("canvas");
+      canvas.width = image.naturalWidth * scale;
+      canvas.height = image.naturalHeight * scale;
+      const context = canvas.getContext("2d");
+      if (!context) {
+        reject(new Error("瀏覽器不支援 Canvas，無法轉換 PNG。"));
+        return;
+      }
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("PNG 轉換失敗。"))), "image/png");
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("無法載入 SVG 圖片。"));
+    };
+    image.src = url;
+  });
@@ -0,0 +1,81 @@
+import { ChecklistItem, TaskStatus } from "../types";
+import { Locale, translate } from "./i18n";
+
+// Workflow order; the labels live in the message catalogues as status.<id>
+export const TASK_STATUSES: TaskStatus[] = ["todo", "inProgress", "blocked", "done"];
+
+export const getStatusLabel = (status: TaskStatus, locale: Locale) => translate(locale, `status.${status}`);
+
+// Items saved before the status workflow existed only carry isCompleted
+export const getTaskStatus = (item: ChecklistItem): TaskStatus =>
+  item.status ?? (item.isCompleted ? "done" : "todo");
+
+// isCompleted stays in sync with status so progress rollups keep counting "done" tasks
+export const withStatus = (item: ChecklistItem, status: TaskStatus): ChecklistItem => ({
+  ...item,
+  status,
+  isCompleted: status === "done",
+});
+
+// Due dates are stored as local "YYYY-MM-DD" strings, so they compare lexically
+export const todayIso = () => {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+export const isOverdue = (item: ChecklistItem, today = todayIso()) =>
+  !!item.dueDate && item.dueDate < today && getTaskStatus(item) !== "done";
+
+export type TaskSortKey = "manual" | "dueDate" | "importance" | "status";
+
+// Labelled as sort.<id> in the message catalogues
+export const TASK_SORT_OPTIONS: TaskSortKey[] = ["manual", "dueDate", "importance", "status"];
+
+export interface TaskFilter {
+  status: TaskStatus | "all";
+  assignee: string | "all"; // "" matches unassigned tasks
+}
+
+export const DEFAULT_TASK_FILTER: TaskFilter = { status: "all", assignee: "all" };
+
+// Keeps each item's index in the stored checklist so edits on a sorted/filtered view hit the right task
+export interface IndexedTask {
+  item: ChecklistItem;
+  index: number;
+}
+
+const statusRank = (item: ChecklistItem) => TASK_STATUSES.indexOf(getTaskStatus(item));
+
+const compareTasks: Record<Exclude<TaskSortKey, "manual">, (a: ChecklistItem, b: ChecklistItem) => number> = {
+  // Tasks without a due date go last
+  dueDate: (a, b) => (a.dueDate || "9999-12-31").localeCompare(b.dueDate || "9999-12-31"),
+  importance: (a, b) => b.importance - a.importance,
+  status: (a, b) => statusRank(a) - statusRank(b),
+};
+
+export const arrangeTasks = (items: ChecklistItem[], sortKey: TaskSortKey, filter: TaskFilter): IndexedTask[] => {
+  const visible = items
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) =>
+      (filter.status === "all" || getTaskStatus(item) === filter.status) &&
+      (filter.assignee === "all" || (item.assignee || "") === filter.assignee)
+    );
+  if (sortKey === "manual") return visible;
+  // Array.prototype.sort is stable, so ties keep the manual order
+  return visible.sort((a, b) => compareTasks[sortKey](a.item, b.item));
+};
+
+export const listAssignees = (items: ChecklistItem[]) =>
+  Array.from(new Set(items.map((item) => item.assignee?.trim()).filter((name): name is string => !!name))).sort();
+
+// A task located across the whole chart: which dimension's checklist, and where in it
+export interface BoardTask extends IndexedTask {
+  dimensionIndex: number;
+}
+
+export const collectTasks = (checklists: Record<number, ChecklistItem[]>): BoardTask[] =>
+  Object.entries(checklists)
+    .map(([key, items]) => ({ dimensionIndex: Number(key), items }))
+    .sort((a, b) => a.dimensionIndex - b.dimensionIndex)
+    .flatMap(({ dimensionIndex, items }) => items.map((item, index) => ({ item, index, dimensionIndex })));
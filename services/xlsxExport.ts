@@ -0,0 +1,249 @@
+import type { Border, Cell, Fill, Font, Worksheet } from "exceljs";
+import { ChecklistItem, MandalaResult, TaskStatus } from "../types";
+import { getDimensionProgress, getOverallProgress } from "./checklistProgress";
+import { getStatusLabel, getTaskStatus } from "./taskSchedule";
+import { Locale, Translate, translate } from "./i18n";
+
+// Client-side .xlsx workbook: the 9x9 chart styled like DashboardView, a summary sheet and
+// one sheet per dimension checklist. exceljs is loaded on demand to keep it out of the main bundle.
+
+export const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// DashboardView's Tailwind palette as ARGB
+const COLORS = {
+  mainCenter: "FF4F46E5", // indigo-600
+  mainCell: "FFEEF2FF", // indigo-50
+  mainText: "FF312E81", // indigo-900
+  mainBorder: "FFA5B4FC", // indigo-300
+  subCenter: "FFF1F5F9", // slate-100
+  subCenterText: "FF1E293B", // slate-800
+  subText: "FF475569", // slate-600
+  subBorder: "FFCBD5E1", // slate-300
+  blockBorder: "FF64748B", // slate-500
+  header: "FF4F46E5",
+  white: "FFFFFFFF",
+};
+
+const STATUS_FILLS: Record<TaskStatus, string> = {
+  todo: "FFF8FAFC",
+  inProgress: "FFE0F2FE",
+  blocked: "FFFEE2E2",
+  done: "FFD1FAE5",
+};
+
+const A4 = 9; // exceljs PaperSize.A4 (a const enum, so not importable under isolatedModules)
+const CENTER = 4;
+
+const solid = (argb: string): Fill => ({ type: "pattern", pattern: "solid", fgColor: { argb } });
+
+// Sheet names: max 31 chars, no []:*?/\ and unique within the workbook
+const toSheetName = (name: string, taken: Set<string>) => {
+  const base = name.replace(/[\[\]:*?/\\]/g, " ").trim().slice(0, 28) || "Sheet";
+  let candidate = base;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${base} ${n}`;
+  taken.add(candidate);
+  return candidate;
+};
+
+const styleHeaderRow = (sheet: Worksheet, rowNumber: number) => {
+  sheet.getRow(rowNumber).eachCell((cell) => {
+    cell.fill = solid(COLORS.header);
+    cell.font = { bold: true, color: { argb: COLORS.white } };
+    cell.alignment = { vertical: "middle", horizontal: "center", wrapText: true };
+  });
+};
+
+const styleGridCell = (cell: Cell, isMainBlock: boolean, isBlockCenter: boolean) => {
+  let fill = COLORS.white;
+  let font: Partial<Font> = { size: 10, color: { argb: COLORS.subText } };
+  if (isMainBlock && isBlockCenter) {
+    fill = COLORS.mainCenter;
+    font = { size: 12, bold: true, color: { argb: COLORS.white } };
+  } else if (isMainBlock) {
+    fill = COLORS.mainCell;
+    font = { size: 10, bold: true, color: { argb: COLORS.mainText } };
+  } else if (isBlockCenter) {
+    fill = COLORS.subCenter;
+    font = { size: 11, bold: true, color: { argb: COLORS.subCenterText } };
+  }
+  cell.fill = solid(fill);
+  cell.font = font;
+  cell.alignment = { vertical: "middle", horizontal: "center", wrapText: true };
+};
+
+const addGridSheet = (sheet: Worksheet, topic: string, data: MandalaResult) => {
+  const GRID_TOP = 3; // Rows 1-2 hold the merged title and core concept
+
+  sheet.columns = Array.from({ length: 9 }, () => ({ width: 17 }));
+
+  sheet.mergeCells(1, 1, 1, 9);
+  const title = sheet.getCell(1, 1);
+  title.value = topic;
+  title.font = { size: 18, bold: true, color: { argb: COLORS.mainText } };
+  title.alignment = { vertical: "middle", horizontal: "center" };
+  sheet.getRow(1).height = 32;
+
+  sheet.mergeCells(2, 1, 2, 9);
+  const core = sheet.getCell(2, 1);
+  core.value = data.coreConcept;
+  core.font = { italic: true, color: { argb: COLORS.subText } };
+  core.alignment = { vertical: "middle", horizontal: "center", wrapText: true };
+  sheet.getRow(2).height = 28;
+
+  // Same slot mapping as DashboardView: block 4 is the topic + dimensions, the others the sub-grids
+  const blocks = Array.from({ length: 9 }, (_, slot) => {
+    if (slot === CENTER) return { center: topic, items: data.mainDimensions };
+    const grid = data.subGrids[slot < CENTER ? slot : slot - 1];
+    return { center: grid?.title ?? "", items: grid?.items ?? [] };
+  });
+
+  for (let r = 0; r < 9; r++) {
+    sheet.getRow(GRID_TOP + r).height = 54;
+    for (let c = 0; c < 9; c++) {
+      const block = Math.floor(r / 3) * 3 + Math.floor(c / 3);
+      const slot = (r % 3) * 3 + (c % 3);
+      const isMainBlock = block === CENTER;
+      const { center, items } = blocks[block];
+      const cell = sheet.getCell(GRID_TOP + r, c + 1);
+      cell.value = slot === CENTER ? center : items[slot < CENTER ? slot : slot - 1] ?? "";
+      styleGridCell(cell, isMainBlock, slot === CENTER);
+
+      // Medium borders outline each 3x3 block, thin ones separate the cells inside it
+      const inner: Partial<Border> = { style: "thin", color: { argb: isMainBlock ? COLORS.mainBorder : COLORS.subBorder } };
+      const outer: Partial<Border> = { style: "medium", color: { argb: isMainBlock ? COLORS.mainCenter : COLORS.blockBorder } };
+      cell.border = {
+        top: r % 3 === 0 ? outer : inner,
+        bottom: r % 3 === 2 ? outer : inner,
+        left: c % 3 === 0 ? outer : inner,
+        right: c % 3 === 2 ? outer : inner,
+      };
+    }
+  }
+
+  sheet.pageSetup = {
+    paperSize: A4,
+    orientation: "landscape",
+    fitToPage: true,
+    fitToWidth: 1,
+    fitToHeight: 1,
+    horizontalCentered: true,
+  };
+  sheet.views = [{ showGridLines: false }];
+};
+
+const addSummarySheet = (
+  sheet: Worksheet,
+  topic: string,
+  data: MandalaResult,
+  checklists: Record<number, ChecklistItem[]>,
+  t: Translate
+) => {
+  sheet.columns = [{ width: 22 }, { width: 14 }, { width: 14 }, { width: 14 }, { width: 40 }];
+
+  const addField = (label: string, value: string) => {
+    const row = sheet.addRow([label, value]);
+    sheet.mergeCells(row.number, 2, row.number, 5);
+    row.getCell(1).font = { bold: true, color: { argb: COLORS.mainText } };
+    row.getCell(2).alignment = { wrapText: true, vertical: "top" };
+    row.alignment = { vertical: "top" };
+    return row;
+  };
+
+  addField(t("export.field.topic"), topic);
+  addField(t("export.field.coreConcept"), data.coreConcept);
+  // Merged cells don't auto-fit, so long summaries get a taller row up front
+  addField(t("export.summary"), data.summary).height = Math.min(200, 18 * Math.max(1, Math.ceil(data.summary.length / 50)));
+  data.actions.forEach((action, i) => addField(i === 0 ? t("export.actions") : "", `${i + 1}. ${action}`));
+
+  sheet.addRow([]);
+  const header = sheet.addRow([
+    t("export.column.dimension"),
+    t("export.column.taskCount"),
+    t("export.column.done"),
+    t("export.column.percent"),
+    t("export.column.ideas"),
+  ]);
+  styleHeaderRow(sheet, header.number);
+
+  data.mainDimensions.forEach((dimension, i) => {
+    const progress = getDimensionProgress(checklists, i);
+    const row = sheet.addRow([
+      dimension,
+      progress?.total ?? 0,
+      progress?.done ?? 0,
+      progress ? progress.percent / 100 : null,
+      data.subGrids[i]?.items.filter(Boolean).join(t("timeline.separator")) ?? "",
+    ]);
+    row.getCell(4).numFmt = "0%";
+    row.getCell(5).alignment = { wrapText: true, vertical: "top" };
+  });
+
+  const overall = getOverallProgress(checklists);
+  if (overall) {
+    const row = sheet.addRow([t("export.total"), overall.total, overall.done, overall.percent / 100]);
+    row.font = { bold: true };
+    row.getCell(4).numFmt = "0%";
+  }
+};
+
+const addChecklistSheet = (sheet: Worksheet, dimension: string, items: ChecklistItem[], locale: Locale) => {
+  const t: Translate = (key, params) => translate(locale, key, params);
+  sheet.columns = [
+    { header: t("export.column.taskName"), key: "task", width: 32 },
+    { header: t("export.column.status"), key: "status", width: 10 },
+    { header: t("export.column.importanceScale"), key: "importance", width: 12 },
+    { header: t("export.column.assignee"), key: "assignee", width: 12 },
+    { header: t("export.column.dueDate"), key: "dueDate", width: 12 },
+    { header: t("export.column.effortHours"), key: "effortHours", width: 14 },
+    { header: t("export.column.description"), key: "description", width: 50 },
+  ];
+  styleHeaderRow(sheet, 1);
+
+  items.forEach((item) => {
+    const status = getTaskStatus(item);
+    const row = sheet.addRow({
+      task: item.task,
+      status: getStatusLabel(status, locale),
+      importance: item.importance,
+      assignee: item.assignee ?? "",
+      // Stored as a local calendar date; UTC midnight keeps Excel from shifting it
+      dueDate: item.dueDate ? new Date(`${item.dueDate}T00:00:00Z`) : null,
+      effortHours: item.effortHours ?? null,
+      description: item.description,
+    });
+    row.alignment = { vertical: "top", wrapText: true };
+    row.getCell("status").fill = solid(STATUS_FILLS[status]);
+    row.getCell("importance").alignment = { horizontal: "center", vertical: "top" };
+    row.getCell("dueDate").numFmt = "yyyy-mm-dd";
+  });
+
+  sheet.views = [{ state: "frozen", ySplit: 1 }];
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: 7 } };
+  sheet.headerFooter = { oddHeader: `&L${dimension}&R&P / &N` };
+  sheet.pageSetup = { paperSize: A4, orientation: "landscape", fitToPage: true, fitToWidth: 1, fitToHeight: 0 };
+};
+
+export const buildMandalaWorkbook = async (
+  topic: string,
+  data: MandalaResult,
+  locale: Locale,
+  checklists: Record<number, ChecklistItem[]> = {}
+): Promise<Blob> => {
+  const t: Translate = (key, params) => translate(locale, key, params);
+  const { Workbook } = await import("exceljs");
+  const workbook = new Workbook();
+  workbook.creator = t("app.title");
+  workbook.created = new Date();
+
+  const taken = new Set<string>();
+  addGridSheet(workbook.addWorksheet(toSheetName(t("export.sheet.grid"), taken)), topic, data);
+  addSummarySheet(workbook.addWorksheet(toSheetName(t("export.sheet.summary"), taken)), topic, data, checklists, t);
+  data.mainDimensions.forEach((dimension, i) => {
+    const items = checklists[i];
+    if (!items?.length) return;
+    addChecklistSheet(workbook.addWorksheet(toSheetName(`${i + 1}. ${dimension}`, taken)), dimension, items, locale);
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: XLSX_MIME });
+};
@@ -13,11 +13,105 @@ export interface MandalaResult {
   actions: string[];
 }
 
+export type TaskStatus = 'todo' | 'inProgress' | 'blocked' | 'done';
+
 export interface ChecklistItem {
+  id: string; // Stays with the task through reorders and edits
   task: string;
   description: string;
   importance: number; // 1-5 stars
-  isCompleted?: boolean; // Client-side state
+  isCompleted?: boolean; // Client-side state, mirrors status === 'done'
+  // Scheduling fields, all filled in by the user
+  status?: TaskStatus;
+  dueDate?: string; // "YYYY-MM-DD"
+  assignee?: string;
+  effortHours?: number; // Estimated effort
+}
+
+// One bar on the timeline: an action or a checklist task scheduled into a phase
+export interface RoadmapItem {
+  // "action:<index>" or "task:<ChecklistItem.id>"; a task keeps its bar and dependencies when
+  // tasks are edited, reordered or deleted, an action follows its position in the list
+  id: string;
+  title: string;
+  dimensionIndex?: number; // Set for checklist tasks
+  phase: string;
+  startWeek: number; // 1-based
+  durationWeeks: number;
+  dependsOn: string[]; // RoadmapItem ids that must finish first
+}
+
+export interface RoadmapPhase {
+  name: string;
+  startWeek: number;
+  endWeek: number; // Inclusive
+}
+
+export interface Roadmap {
+  totalWeeks: number;
+  phases: RoadmapPhase[];
+  items: RoadmapItem[];
+  generatedAt: number; // epoch ms
+}
+
+// A reference file attached to a mandala, kept as the plain text extracted in the browser
+export interface BackgroundDocument {
+  name: string;
+  text: string;
+}
+
+// The user's situation, fed into the mandala and checklist prompts so the output fits it
+export interface BackgroundContext {
+  notes: string; // Pasted free text
+  documents: BackgroundDocument[];
+  budget: string;
+  timeframe: string;
+  constraints: string; // Anything else the plan has to respect
+}
+
+// The editable content of one 9x9 chart; the saved root and every drilled-down child share it
+export interface MandalaNode {
+  topic: string;
+  data: MandalaResult;
+  // Checklists keyed by the index of their dimension in mainDimensions
+  checklists: Record<number, ChecklistItem[]>;
+  // Sub-grid cells kept as-is by AI regeneration, as "gridIndex:itemIndex" keys
+  lockedCells?: string[];
+  // Child mandalas keyed by the sub-item they expand (same "gridIndex:itemIndex" keys)
+  children?: Record<string, MandalaNode>;
+  // Gantt-style plan sequencing the actions and checklist tasks
+  roadmap?: Roadmap;
+  // Only set on the root; child mandalas are generated with the root's background
+  background?: BackgroundContext;
+}
+
+// A generated mandala as kept in the local library (IndexedDB), including its whole child tree
+export interface SavedMandala extends MandalaNode {
+  id: string;
+  createdAt: number; // epoch ms
+  updatedAt: number; // epoch ms
+}
+
+// What caused a revision; "initial" is the state a mandala had before its history started
+export type RevisionKind =
+  | 'initial'
+  | 'generate'
+  | 'regenerate'
+  | 'blank'
+  | 'edit'
+  | 'expand'
+  | 'checklist'
+  | 'roadmap'
+  | 'background'
+  | 'restore';
+
+// The whole tree of a saved mandala right after one change, kept in IndexedDB beside the library
+export interface MandalaRevision {
+  id: string;
+  mandalaId: string;
+  kind: RevisionKind;
+  createdAt: number; // epoch ms
+  snapshot: MandalaNode;
 }
 
 export enum ViewMode {
@@ -25,4 +119,6 @@ export enum ViewMode {
   REPORT = 'REPORT',
   DASHBOARD = 'DASHBOARD',
   CHECKLIST = 'CHECKLIST',
+  KANBAN = 'KANBAN',
+  TIMELINE = 'TIMELINE',
 }
\ No newline at end of file